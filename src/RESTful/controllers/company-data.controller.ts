@@ -8,9 +8,13 @@ import { Lookup, LookupCategory } from '../../db/models/lookup.model';
 import { Zone } from '../../db/models/zone.model';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { AppError, asyncHandler } from '../middleware/error.middleware';
+import { getContractValidity } from '../services/contract/contract-validity.service';
+import { getQuotaUsage } from '../services/ticket/ticket-quota.service';
+import { getResponseTimeMinutes } from '../services/ticket/ticket-sla.service';
 
 /**
  * Get contracts for the logged-in company admin's company
+ * Each contract is flagged with its validity (expiring soon within CONTRACT_EXPIRING_SOON_DAYS, expired, in grace period)
  */
 export const getCompanyContracts = asyncHandler(async (req: AuthRequest, res: Response) => {
   const {user} = req;
@@ -33,13 +37,24 @@ export const getCompanyContracts = asyncHandler(async (req: AuthRequest, res: Re
     order: [['createdAt', 'DESC']],
   });
 
-  const formattedContracts = contracts.map((contract) => ({
-    id: contract.id,
-    title: contract.contractReference,
-    subtitle: contract.contractTitle,
-    contractReference: contract.contractReference,
-    contractTitle: contract.contractTitle,
-  }));
+  const formattedContracts = contracts.map((contract) => {
+    const validity = getContractValidity(contract);
+    return {
+      id: contract.id,
+      title: contract.contractReference,
+      subtitle: contract.contractTitle,
+      contractReference: contract.contractReference,
+      contractTitle: contract.contractTitle,
+      contractStartDate: contract.contractStartDate,
+      contractEndDate: contract.contractEndDate,
+      isActive: contract.isActive,
+      validityStatus: validity.status,
+      isExpiringSoon: validity.isExpiringSoon,
+      isExpired: validity.isExpired,
+      daysUntilExpiry: validity.daysUntilExpiry,
+      graceEndDate: validity.graceEndDate,
+    };
+  });
 
   res.status(200).json({
     success: true,
@@ -48,6 +63,66 @@ export const getCompanyContracts = asyncHandler(async (req: AuthRequest, res: Re
   });
 });
 
+/**
+ * Get ticket quota usage of a contract
+ * GET /api/v1/company-data/contracts/:id/usage
+ * Contract usage counts the non-cancelled tickets dated within the contract period, company usage counts all of them
+ * allowed and remaining are null for ticket types without a limit
+ */
+export const getContractUsage = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+
+  if (!user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  const {companyId} = user;
+
+  if (!companyId) {
+    throw new AppError('User is not associated with a company', 400, 'VALIDATION_ERROR');
+  }
+
+  const contractId = parseInt(req.params.id);
+  if (isNaN(contractId)) {
+    throw new AppError('Invalid contract ID', 400, 'VALIDATION_ERROR');
+  }
+
+  const contract = await Contract.findOne({
+    where: {
+      id: contractId,
+      companyId,
+      isDeleted: false,
+    },
+  });
+  if (!contract) {
+    throw new AppError('Contract not found', 404, 'NOT_FOUND');
+  }
+
+  const company = await Company.findByPk(companyId);
+  if (!company) {
+    throw new AppError('Company not found', 404, 'NOT_FOUND');
+  }
+
+  const usage = await getQuotaUsage(contract, company);
+
+  res.status(200).json({
+    success: true,
+    message: 'Contract usage retrieved successfully',
+    data: {
+      contract: {
+        id: contract.id,
+        contractReference: contract.contractReference,
+        contractTitle: contract.contractTitle,
+        contractStartDate: contract.contractStartDate,
+        contractEndDate: contract.contractEndDate,
+        isActive: contract.isActive,
+      },
+      usage: usage.contract,
+      companyUsage: usage.company,
+    },
+  });
+});
+
 /**
  * Get branches for the logged-in company admin's company
  */
@@ -531,5 +606,32 @@ export const getTicketStatuses = asyncHandler(async (req: AuthRequest, res: Resp
   });
 });
 
+/**
+ * Get response times (lookups with category RESPONSE_TIME) used as SLA targets
+ * minutes is parsed from the lookup code (RT_<number><M|H|D>)
+ */
+export const getResponseTimes = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const responseTimes = await Lookup.findAll({
+    where: { category: LookupCategory.RESPONSE_TIME, isActive: true },
+    attributes: ['id', 'code', 'name', 'nameArabic', 'category'],
+    order: [['orderId', 'ASC']],
+  });
+
+  const formattedResponseTimes = responseTimes.map((responseTime) => ({
+    id: responseTime.id,
+    title: responseTime.name,
+    subtitle: responseTime.nameArabic || '',
+    name: responseTime.name,
+    nameArabic: responseTime.nameArabic,
+    minutes: getResponseTimeMinutes(responseTime),
+  }));
+
+  res.status(200).json({
+    success: true,
+    message: 'Response times retrieved successfully',
+    data: formattedResponseTimes,
+  });
+});
+
 
 
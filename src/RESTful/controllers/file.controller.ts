@@ -4,6 +4,7 @@ import multer from 'multer';
 import path from 'path';
 
 import { File, FileReferenceType, FileType, StorageProvider, FileCategory } from '../../db/models/file.model';
+import { Ticket } from '../../db/models/ticket.model';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { asyncHandler, AppError } from '../middleware/error.middleware';
 
@@ -121,6 +122,8 @@ const sanitizeCategory = (category: any): FileCategory | null => {
       return FileCategory.AUDIO;
     case FileCategory.OTHER:
       return FileCategory.OTHER;
+    case FileCategory.SIGNATURE:
+      return FileCategory.SIGNATURE;
     case FileCategory.CONTRACT: // Legacy value, kept for backward compatibility
       return FileCategory.CONTRACT;
     default:
@@ -399,6 +402,14 @@ export const getFilesByReference = asyncHandler(async (req: AuthRequest, res: Re
     entityType = 'user';
   }
 
+  // Attachments of deleted tickets are kept for restore but hidden until then
+  if (entityType === 'ticket') {
+    const ticket = await Ticket.findOne({ where: { id: referenceId, isDeleted: false }, attributes: ['id'] });
+    if (!ticket) {
+      throw new AppError('Ticket not found', 404, 'NOT_FOUND');
+    }
+  }
+
   const files = await File.findAll({
     where: {
       entityId: referenceId,
@@ -0,0 +1,467 @@
+import { Response } from 'express';
+import { Op } from 'sequelize';
+
+import { Branch } from '../../db/models/branch.model';
+import { Contract } from '../../db/models/contract.model';
+import { Lookup, LookupCategory } from '../../db/models/lookup.model';
+import { PreventivePlan, PreventiveRecurrenceType } from '../../db/models/preventive-plan.model';
+import { Ticket } from '../../db/models/ticket.model';
+import { User } from '../../db/models/user.model';
+import { Zone } from '../../db/models/zone.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AppError, asyncHandler } from '../middleware/error.middleware';
+import {
+  generatePlanTickets,
+  getPlanOccurrences,
+  MAX_GENERATE_DAYS_AHEAD,
+} from '../services/preventive/preventive-plan.service';
+import { isTechnicianRole, requireCompanyId } from '../services/ticket/ticket-access.service';
+import { toDateOnly, toTime } from '../services/ticket/ticket-scheduling.service';
+import { RoleId } from '../types/user.types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+// Number of upcoming occurrences returned with a plan
+const UPCOMING_OCCURRENCES = 10;
+
+// Fields that can be set on create and update
+const PLAN_FIELDS = [
+  'contractId',
+  'branchId',
+  'zoneId',
+  'mainServiceId',
+  'title',
+  'description',
+  'recurrenceType',
+  'recurrenceInterval',
+  'weekdays',
+  'dayOfMonth',
+  'startDate',
+  'endDate',
+  'ticketTimeFrom',
+  'ticketTimeTo',
+  'assignToTeamLeaderId',
+  'assignToTechnicianId',
+  'generateDaysAhead',
+  'isActive',
+];
+
+const PLAN_INCLUDE = [
+  { model: Contract, as: 'contract', attributes: ['id', 'contractTitle', 'contractEndDate'] },
+  { model: Branch, as: 'branch', attributes: ['id', 'branchTitle'] },
+  { model: Zone, as: 'zone', attributes: ['id', 'zoneTitle'] },
+  { model: Lookup, as: 'mainServiceLookup', attributes: ['id', 'name', 'nameArabic'] },
+  { model: User, as: 'assignToTeamLeaderUser', attributes: ['id', 'fullName'] },
+  { model: User, as: 'assignToTechnicianUser', attributes: ['id', 'fullName'] },
+];
+
+/**
+ * Ensure the user can manage preventive plans (Admins, Team Leaders and Super Users)
+ */
+const requirePlanManager = (user: any) => {
+  if (isTechnicianRole(user.userRoleId) || user.userRoleId === RoleId.INDIVIDUAL) {
+    throw new AppError('Forbidden: Only Admins and Team Leaders can manage preventive plans', 403, 'FORBIDDEN');
+  }
+};
+
+const parsePlanId = (value: string): number => {
+  const planId = parseInt(value);
+  if (isNaN(planId)) {
+    throw new AppError('Invalid preventive plan ID', 400, 'VALIDATION_ERROR');
+  }
+  return planId;
+};
+
+const findCompanyPlan = async (planId: number, companyId: number): Promise<PreventivePlan> => {
+  const plan = await PreventivePlan.findOne({
+    where: { id: planId, companyId, isDeleted: false },
+    include: PLAN_INCLUDE,
+  });
+  if (!plan) {
+    throw new AppError('Preventive plan not found', 404, 'NOT_FOUND');
+  }
+  return plan;
+};
+
+const isPositiveInteger = (value: any): boolean => Number.isInteger(value) && value > 0;
+
+/**
+ * Validate the plan fields (the body merged over the existing plan on update)
+ * Contract, branch, zone, main service, Team Leader and Technician must belong to the company
+ */
+const validatePlan = async (values: Record<string, any>, companyId: number, user: any): Promise<void> => {
+  const missingFields = [
+    'contractId',
+    'branchId',
+    'zoneId',
+    'mainServiceId',
+    'title',
+    'recurrenceType',
+    'startDate',
+    'ticketTimeFrom',
+    'ticketTimeTo',
+    'assignToTeamLeaderId',
+    'assignToTechnicianId',
+  ].filter(field => values[field] === undefined || values[field] === null || values[field] === '');
+  if (missingFields.length > 0) {
+    throw new AppError(`Missing required fields: ${missingFields.join(', ')}`, 400, 'VALIDATION_ERROR');
+  }
+
+  if (String(values.title).trim().length > 100) {
+    throw new AppError('Title must not exceed 100 characters', 400, 'VALIDATION_ERROR');
+  }
+  if (values.description && String(values.description).trim().length > 300) {
+    throw new AppError('Description must not exceed 300 characters', 400, 'VALIDATION_ERROR');
+  }
+
+  if (!Object.values(PreventiveRecurrenceType).includes(values.recurrenceType)) {
+    throw new AppError(
+      `Invalid recurrenceType, expected one of ${Object.values(PreventiveRecurrenceType).join(', ')}`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+  if (!isPositiveInteger(values.recurrenceInterval)) {
+    throw new AppError('recurrenceInterval must be a positive integer', 400, 'VALIDATION_ERROR');
+  }
+  if (values.recurrenceType === PreventiveRecurrenceType.WEEKDAYS) {
+    const {weekdays} = values;
+    if (
+      !Array.isArray(weekdays) ||
+      weekdays.length === 0 ||
+      weekdays.some((day: any) => !Number.isInteger(day) || day < 0 || day > 6)
+    ) {
+      throw new AppError('weekdays must list weekdays between 0 (Sunday) and 6 (Saturday)', 400, 'VALIDATION_ERROR');
+    }
+  }
+  if (
+    values.recurrenceType === PreventiveRecurrenceType.MONTHLY &&
+    values.dayOfMonth !== null &&
+    values.dayOfMonth !== undefined &&
+    (!Number.isInteger(values.dayOfMonth) || values.dayOfMonth < 1 || values.dayOfMonth > 31)
+  ) {
+    throw new AppError('dayOfMonth must be between 1 and 31', 400, 'VALIDATION_ERROR');
+  }
+
+  for (const field of ['startDate', 'endDate']) {
+    if (values[field] && !DATE_PATTERN.test(toDateOnly(values[field]))) {
+      throw new AppError(`Invalid ${field}, expected YYYY-MM-DD`, 400, 'VALIDATION_ERROR');
+    }
+  }
+  if (values.endDate && toDateOnly(values.endDate) < toDateOnly(values.startDate)) {
+    throw new AppError('endDate must not be before startDate', 400, 'VALIDATION_ERROR');
+  }
+  for (const field of ['ticketTimeFrom', 'ticketTimeTo']) {
+    if (!TIME_PATTERN.test(String(values[field]))) {
+      throw new AppError(`Invalid ${field}, expected HH:MM`, 400, 'VALIDATION_ERROR');
+    }
+  }
+  if (toTime(values.ticketTimeTo) <= toTime(values.ticketTimeFrom)) {
+    throw new AppError('ticketTimeTo must be after ticketTimeFrom', 400, 'VALIDATION_ERROR');
+  }
+
+  if (
+    !Number.isInteger(values.generateDaysAhead) ||
+    values.generateDaysAhead < 1 ||
+    values.generateDaysAhead > MAX_GENERATE_DAYS_AHEAD
+  ) {
+    throw new AppError(`generateDaysAhead must be between 1 and ${MAX_GENERATE_DAYS_AHEAD}`, 400, 'VALIDATION_ERROR');
+  }
+
+  // Team Leaders can only create plans assigned to themselves, like tickets
+  if (user.userRoleId === RoleId.TEAM_LEADER && values.assignToTeamLeaderId !== user.id) {
+    throw new AppError('Team Leaders can only manage plans assigned to themselves', 403, 'FORBIDDEN');
+  }
+
+  const [contract, branch, zone, mainService, teamLeader, technician] = await Promise.all([
+    Contract.findByPk(values.contractId),
+    Branch.findByPk(values.branchId),
+    Zone.findByPk(values.zoneId),
+    Lookup.findOne({ where: { id: values.mainServiceId, category: LookupCategory.MAIN_SERVICE, isActive: true } }),
+    User.findOne({ where: { id: values.assignToTeamLeaderId, companyId, isDeleted: false } }),
+    User.findOne({ where: { id: values.assignToTechnicianId, companyId, isDeleted: false } }),
+  ]);
+
+  if (!contract || contract.companyId !== companyId || contract.isDeleted) {
+    throw new AppError('Invalid contract or contract does not belong to your company', 400, 'VALIDATION_ERROR');
+  }
+  if (!branch || branch.companyId !== companyId) {
+    throw new AppError('Invalid branch or branch does not belong to your company', 400, 'VALIDATION_ERROR');
+  }
+  if (!zone || zone.branchId !== values.branchId) {
+    throw new AppError('Invalid zone or zone does not belong to the selected branch', 400, 'VALIDATION_ERROR');
+  }
+  if (!mainService) {
+    throw new AppError('Invalid main service', 400, 'VALIDATION_ERROR');
+  }
+  if (!teamLeader || teamLeader.userRoleId !== RoleId.TEAM_LEADER) {
+    throw new AppError('Team Leader not found or does not belong to your company', 400, 'VALIDATION_ERROR');
+  }
+  if (!technician || !isTechnicianRole(technician.userRoleId)) {
+    throw new AppError('Technician not found or does not belong to your company', 400, 'VALIDATION_ERROR');
+  }
+};
+
+const pickPlanFields = (body: Record<string, any>): Record<string, any> => {
+  const values: Record<string, any> = {};
+  for (const field of PLAN_FIELDS) {
+    if (body[field] !== undefined) {
+      values[field] = body[field];
+    }
+  }
+  if (typeof values.title === 'string') values.title = values.title.trim();
+  if (typeof values.description === 'string') values.description = values.description.trim() || null;
+  return values;
+};
+
+const formatPlan = (plan: PreventivePlan, upcomingDates?: string[]) => ({
+  id: plan.id,
+  title: plan.title,
+  description: plan.description,
+  recurrenceType: plan.recurrenceType,
+  recurrenceInterval: plan.recurrenceInterval,
+  weekdays: plan.weekdays,
+  dayOfMonth: plan.dayOfMonth,
+  startDate: plan.startDate,
+  endDate: plan.endDate,
+  ticketTimeFrom: plan.ticketTimeFrom,
+  ticketTimeTo: plan.ticketTimeTo,
+  generateDaysAhead: plan.generateDaysAhead,
+  lastGeneratedUntil: plan.lastGeneratedUntil,
+  isActive: plan.isActive,
+  contract: plan.contract ? { id: plan.contract.id, title: plan.contract.contractTitle } : null,
+  branch: plan.branch ? { id: plan.branch.id, title: plan.branch.branchTitle } : null,
+  zone: plan.zone ? { id: plan.zone.id, title: plan.zone.zoneTitle } : null,
+  mainService: plan.mainServiceLookup
+    ? { id: plan.mainServiceLookup.id, name: plan.mainServiceLookup.name, nameArabic: plan.mainServiceLookup.nameArabic }
+    : null,
+  assignToTeamLeader: plan.assignToTeamLeaderUser
+    ? { id: plan.assignToTeamLeaderUser.id, name: plan.assignToTeamLeaderUser.fullName }
+    : null,
+  assignToTechnician: plan.assignToTechnicianUser
+    ? { id: plan.assignToTechnicianUser.id, name: plan.assignToTechnicianUser.fullName }
+    : null,
+  ...(upcomingDates ? { upcomingDates } : {}),
+  createdAt: plan.createdAt,
+  updatedAt: plan.updatedAt,
+});
+
+/**
+ * Next occurrence dates of a plan from today
+ */
+const getUpcomingDates = (plan: PreventivePlan): string[] => {
+  const today = toDateOnly(new Date());
+  const until = new Date(`${today}T00:00:00Z`);
+  until.setUTCFullYear(until.getUTCFullYear() + 1);
+  return getPlanOccurrences(plan, today, toDateOnly(until)).slice(0, UPCOMING_OCCURRENCES);
+};
+
+/**
+ * Get the company's preventive plans
+ * GET /api/v1/preventive-plans?page=1&limit=20&contractId=1&isActive=true
+ */
+export const getPreventivePlans = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requirePlanManager(user);
+
+  const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+  const offset = (page - 1) * limit;
+
+  const whereClause: any = { companyId, isDeleted: false };
+  if (req.query.contractId) {
+    whereClause.contractId = parseInt(req.query.contractId as string);
+  }
+  if (req.query.isActive === 'true' || req.query.isActive === 'false') {
+    whereClause.isActive = req.query.isActive === 'true';
+  }
+  if (user.userRoleId === RoleId.TEAM_LEADER) {
+    whereClause.assignToTeamLeaderId = user.id;
+  }
+
+  const { count, rows } = await PreventivePlan.findAndCountAll({
+    where: whereClause,
+    include: PLAN_INCLUDE,
+    order: [['createdAt', 'DESC'], ['id', 'DESC']],
+    limit,
+    offset,
+    distinct: true,
+  });
+
+  const totalPages = Math.ceil(count / limit);
+
+  res.status(200).json({
+    success: true,
+    message: 'Preventive plans retrieved successfully',
+    data: rows.map(plan => formatPlan(plan)),
+    pagination: {
+      page,
+      limit,
+      total: count,
+      totalPages,
+      hasMore: page < totalPages,
+    },
+  });
+});
+
+/**
+ * Get a preventive plan with its next occurrences and generated tickets
+ * GET /api/v1/preventive-plans/:id
+ */
+export const getPreventivePlanById = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requirePlanManager(user);
+
+  const plan = await findCompanyPlan(parsePlanId(req.params.id), companyId);
+
+  const tickets = await Ticket.findAll({
+    where: { preventivePlanId: plan.id, isDeleted: false, ticketDate: { [Op.gte]: toDateOnly(new Date()) } },
+    attributes: ['id', 'ticketCodeId', 'ticketDate', 'ticketStatusId', 'assignToTechnicianId'],
+    order: [['ticketDate', 'ASC']],
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Preventive plan retrieved successfully',
+    data: {
+      ...formatPlan(plan, getUpcomingDates(plan)),
+      upcomingTickets: tickets,
+    },
+  });
+});
+
+/**
+ * Create a preventive plan
+ * POST /api/v1/preventive-plans
+ * Body: { contractId, branchId, zoneId, mainServiceId, title, description?, recurrenceType, recurrenceInterval?,
+ *         weekdays?, dayOfMonth?, startDate, endDate?, ticketTimeFrom, ticketTimeTo, assignToTeamLeaderId,
+ *         assignToTechnicianId, generateDaysAhead? }
+ * Tickets are generated right away for the first generateDaysAhead days, then by the daily scheduler
+ */
+export const createPreventivePlan = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requirePlanManager(user);
+
+  const values = {
+    generateDaysAhead: 14,
+    isActive: true,
+    recurrenceInterval: 1,
+    ...pickPlanFields(req.body),
+  };
+  await validatePlan(values, companyId, user);
+
+  const created = await PreventivePlan.create({
+    ...values,
+    companyId,
+    createdBy: user.id,
+  });
+
+  const generation = await generatePlanTickets(created, user.id);
+  const plan = await findCompanyPlan(created.id, companyId);
+
+  res.status(201).json({
+    success: true,
+    message: 'Preventive plan created successfully',
+    data: {
+      ...formatPlan(plan, getUpcomingDates(plan)),
+      generatedTickets: generation.createdTickets.map(ticket => ({
+        id: ticket.id,
+        ticketCodeId: ticket.ticketCodeId,
+        ticketDate: ticket.ticketDate,
+      })),
+    },
+  });
+});
+
+/**
+ * Update a preventive plan
+ * PUT /api/v1/preventive-plans/:id
+ * Already generated tickets are not changed, new settings apply to the next generated tickets
+ */
+export const updatePreventivePlan = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requirePlanManager(user);
+
+  const plan = await findCompanyPlan(parsePlanId(req.params.id), companyId);
+
+  const changes = pickPlanFields(req.body);
+  await validatePlan({ ...plan.get({ plain: true }), ...changes }, companyId, user);
+
+  await plan.update({ ...changes, updatedBy: user.id });
+  const updated = await findCompanyPlan(plan.id, companyId);
+
+  res.status(200).json({
+    success: true,
+    message: 'Preventive plan updated successfully',
+    data: formatPlan(updated, getUpcomingDates(updated)),
+  });
+});
+
+/**
+ * Soft delete a preventive plan, already generated tickets are kept
+ * DELETE /api/v1/preventive-plans/:id
+ */
+export const deletePreventivePlan = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requirePlanManager(user);
+
+  const plan = await findCompanyPlan(parsePlanId(req.params.id), companyId);
+  if (user.userRoleId === RoleId.TEAM_LEADER && plan.assignToTeamLeaderId !== user.id) {
+    throw new AppError('Team Leaders can only manage plans assigned to themselves', 403, 'FORBIDDEN');
+  }
+
+  await plan.update({
+    deletedAt: new Date(),
+    deletedBy: user.id,
+    isActive: false,
+    isDeleted: true,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Preventive plan deleted successfully',
+    data: { id: plan.id },
+  });
+});
+
+/**
+ * Generate the upcoming tickets of a plan now instead of waiting for the scheduler
+ * POST /api/v1/preventive-plans/:id/generate
+ */
+export const generatePreventivePlanTickets = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requirePlanManager(user);
+
+  const plan = await findCompanyPlan(parsePlanId(req.params.id), companyId);
+  if (!plan.isActive) {
+    throw new AppError('Preventive plan is not active', 400, 'VALIDATION_ERROR');
+  }
+
+  const result = await generatePlanTickets(plan, user.id);
+
+  res.status(200).json({
+    success: true,
+    message: `Generated ${result.createdTickets.length} preventive ticket(s)`,
+    data: {
+      planId: result.planId,
+      from: result.from,
+      to: result.to,
+      generatedTickets: result.createdTickets.map(ticket => ({
+        id: ticket.id,
+        ticketCodeId: ticket.ticketCodeId,
+        ticketDate: ticket.ticketDate,
+      })),
+      skippedDates: result.skippedDates,
+      conflictDates: result.conflictDates,
+      quotaReached: result.quotaReached,
+      reason: result.reason,
+    },
+  });
+});
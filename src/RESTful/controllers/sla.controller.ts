@@ -0,0 +1,317 @@
+import { Response } from 'express';
+import { Op } from 'sequelize';
+
+import { Branch } from '../../db/models/branch.model';
+import { Contract } from '../../db/models/contract.model';
+import { Lookup, LookupCategory } from '../../db/models/lookup.model';
+import { SlaPolicy } from '../../db/models/sla-policy.model';
+import { User } from '../../db/models/user.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AppError, asyncHandler } from '../middleware/error.middleware';
+import { isTechnicianRole, requireCompanyId } from '../services/ticket/ticket-access.service';
+import { buildSlaComplianceReport, getResponseTimeMinutes } from '../services/ticket/ticket-sla.service';
+import { RoleId } from '../types/user.types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Reports can be requested for at most this many days at once
+const MAX_REPORT_DAYS = 366;
+
+const POLICY_INCLUDE = [
+  { model: Contract, as: 'contract', attributes: ['id', 'contractTitle'] },
+  { model: Lookup, as: 'ticketTypeLookup', attributes: ['id', 'code', 'name', 'nameArabic'] },
+  { model: Lookup, as: 'responseTimeLookup', attributes: ['id', 'code', 'name', 'nameArabic'] },
+  { model: Lookup, as: 'resolutionTimeLookup', attributes: ['id', 'code', 'name', 'nameArabic'] },
+];
+
+/**
+ * Ensure the user can manage SLA policies (Admins and Super Users)
+ */
+const requireSlaAdmin = (user: any) => {
+  if (user.userRoleId !== RoleId.ADMIN && user.userRoleId !== RoleId.SUPER_USER) {
+    throw new AppError('Forbidden: Only company admins and super users can manage SLA policies', 403, 'FORBIDDEN');
+  }
+};
+
+const parsePolicyId = (value: string): number => {
+  const policyId = parseInt(value);
+  if (isNaN(policyId)) {
+    throw new AppError('Invalid SLA policy ID', 400, 'VALIDATION_ERROR');
+  }
+  return policyId;
+};
+
+const findCompanyPolicy = async (policyId: number, companyId: number): Promise<SlaPolicy> => {
+  const policy = await SlaPolicy.findOne({
+    where: { id: policyId, companyId, isDeleted: false },
+    include: POLICY_INCLUDE,
+  });
+  if (!policy) {
+    throw new AppError('SLA policy not found', 404, 'NOT_FOUND');
+  }
+  return policy;
+};
+
+const formatResponseTime = (lookup: Lookup | null | undefined) =>
+  lookup
+    ? {
+        id: lookup.id,
+        name: lookup.name,
+        nameArabic: lookup.nameArabic,
+        minutes: getResponseTimeMinutes(lookup),
+      }
+    : null;
+
+const formatPolicy = (policy: SlaPolicy) => ({
+  id: policy.id,
+  contract: policy.contract ? { id: policy.contract.id, title: policy.contract.contractTitle } : null,
+  ticketType: policy.ticketTypeLookup
+    ? { id: policy.ticketTypeLookup.id, name: policy.ticketTypeLookup.name, nameArabic: policy.ticketTypeLookup.nameArabic }
+    : null,
+  responseTime: formatResponseTime(policy.responseTimeLookup),
+  resolutionTime: formatResponseTime(policy.resolutionTimeLookup),
+  isActive: policy.isActive,
+  createdAt: policy.createdAt,
+  updatedAt: policy.updatedAt,
+});
+
+/**
+ * Validate the policy fields (the body merged over the existing policy on update)
+ * Only one active policy may exist per company, contract (or company-wide) and ticket type
+ */
+const validatePolicy = async (values: Record<string, any>, companyId: number, excludePolicyId?: number) => {
+  const missingFields = ['ticketTypeId', 'responseTimeLookupId', 'resolutionTimeLookupId'].filter(
+    field => values[field] === undefined || values[field] === null || values[field] === ''
+  );
+  if (missingFields.length > 0) {
+    throw new AppError(`Missing required fields: ${missingFields.join(', ')}`, 400, 'VALIDATION_ERROR');
+  }
+
+  const [ticketType, responseTime, resolutionTime] = await Promise.all([
+    Lookup.findOne({ where: { id: values.ticketTypeId, category: LookupCategory.TICKET_TYPE, isActive: true } }),
+    Lookup.findOne({ where: { id: values.responseTimeLookupId, category: LookupCategory.RESPONSE_TIME, isActive: true } }),
+    Lookup.findOne({ where: { id: values.resolutionTimeLookupId, category: LookupCategory.RESPONSE_TIME, isActive: true } }),
+  ]);
+  if (!ticketType) {
+    throw new AppError('Invalid ticket type', 400, 'VALIDATION_ERROR');
+  }
+  const responseMinutes = getResponseTimeMinutes(responseTime);
+  const resolutionMinutes = getResponseTimeMinutes(resolutionTime);
+  if (responseMinutes === null) {
+    throw new AppError('Invalid response time', 400, 'VALIDATION_ERROR');
+  }
+  if (resolutionMinutes === null) {
+    throw new AppError('Invalid resolution time', 400, 'VALIDATION_ERROR');
+  }
+  if (resolutionMinutes < responseMinutes) {
+    throw new AppError('Resolution time must not be shorter than the response time', 400, 'VALIDATION_ERROR');
+  }
+
+  if (values.contractId) {
+    const contract = await Contract.findByPk(values.contractId);
+    if (!contract || contract.companyId !== companyId || contract.isDeleted) {
+      throw new AppError('Invalid contract or contract does not belong to your company', 400, 'VALIDATION_ERROR');
+    }
+  }
+
+  if (values.isActive !== false) {
+    const whereClause: any = {
+      companyId,
+      contractId: values.contractId || null,
+      isActive: true,
+      isDeleted: false,
+      ticketTypeId: values.ticketTypeId,
+    };
+    if (excludePolicyId) {
+      whereClause.id = { [Op.ne]: excludePolicyId };
+    }
+    const existing = await SlaPolicy.findOne({ where: whereClause });
+    if (existing) {
+      throw new AppError(
+        'An active SLA policy already exists for this ticket type and contract',
+        409,
+        'SLA_POLICY_EXISTS',
+        { policyId: existing.id }
+      );
+    }
+  }
+};
+
+const pickPolicyFields = (body: Record<string, any>): Record<string, any> => {
+  const values: Record<string, any> = {};
+  for (const field of ['contractId', 'ticketTypeId', 'responseTimeLookupId', 'resolutionTimeLookupId', 'isActive']) {
+    if (body[field] !== undefined) {
+      values[field] = body[field];
+    }
+  }
+  if (values.contractId === '') values.contractId = null;
+  return values;
+};
+
+/**
+ * Get the company's SLA policies
+ * GET /api/v1/sla/policies
+ */
+export const getSlaPolicies = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requireSlaAdmin(user);
+
+  const policies = await SlaPolicy.findAll({
+    where: { companyId, isDeleted: false },
+    include: POLICY_INCLUDE,
+    order: [['ticketTypeId', 'ASC'], ['contractId', 'ASC'], ['id', 'ASC']],
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'SLA policies retrieved successfully',
+    data: policies.map(formatPolicy),
+  });
+});
+
+/**
+ * Create an SLA policy
+ * POST /api/v1/sla/policies
+ * Body: { ticketTypeId, responseTimeLookupId, resolutionTimeLookupId, contractId? }
+ * Without contractId the policy applies to all contracts of the company that have no policy of their own
+ * Due times are computed when tickets are created or rescheduled, existing tickets keep theirs
+ */
+export const createSlaPolicy = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requireSlaAdmin(user);
+
+  const values: Record<string, any> = { isActive: true, ...pickPolicyFields(req.body) };
+  await validatePolicy(values, companyId);
+
+  const created = await SlaPolicy.create({
+    ...values,
+    companyId,
+    contractId: values.contractId || null,
+    createdBy: user.id,
+  });
+  const policy = await findCompanyPolicy(created.id, companyId);
+
+  res.status(201).json({
+    success: true,
+    message: 'SLA policy created successfully',
+    data: formatPolicy(policy),
+  });
+});
+
+/**
+ * Update an SLA policy
+ * PUT /api/v1/sla/policies/:id
+ */
+export const updateSlaPolicy = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requireSlaAdmin(user);
+
+  const policy = await findCompanyPolicy(parsePolicyId(req.params.id), companyId);
+  const changes = pickPolicyFields(req.body);
+  await validatePolicy({ ...policy.get({ plain: true }), ...changes }, companyId, policy.id);
+
+  await policy.update({ ...changes, updatedBy: user.id });
+  const updated = await findCompanyPolicy(policy.id, companyId);
+
+  res.status(200).json({
+    success: true,
+    message: 'SLA policy updated successfully',
+    data: formatPolicy(updated),
+  });
+});
+
+/**
+ * Soft delete an SLA policy, tickets keep the due times already computed from it
+ * DELETE /api/v1/sla/policies/:id
+ */
+export const deleteSlaPolicy = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requireSlaAdmin(user);
+
+  const policy = await findCompanyPolicy(parsePolicyId(req.params.id), companyId);
+  await policy.update({
+    deletedAt: new Date(),
+    deletedBy: user.id,
+    isActive: false,
+    isDeleted: true,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'SLA policy deleted successfully',
+    data: { id: policy.id },
+  });
+});
+
+/**
+ * Get the SLA compliance report of the company
+ * GET /api/v1/sla/report?from=2025-01-01&to=2025-01-31
+ * Defaults to the last 30 days (by ticket date), compliance is reported overall, per branch and per technician
+ * Only Admins, Team Leaders and Super Users can view the report
+ */
+export const getSlaComplianceReport = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  if (isTechnicianRole(user.userRoleId) || user.userRoleId === RoleId.INDIVIDUAL) {
+    throw new AppError('Forbidden: Only Admins and Team Leaders can view the SLA report', 403, 'FORBIDDEN');
+  }
+
+  const today = new Date();
+  const defaultFrom = new Date(today);
+  defaultFrom.setUTCDate(defaultFrom.getUTCDate() - 29);
+
+  const from = req.query.from ? String(req.query.from) : defaultFrom.toISOString().split('T')[0];
+  const to = req.query.to ? String(req.query.to) : today.toISOString().split('T')[0];
+  for (const [name, value] of [['from', from], ['to', to]]) {
+    if (!DATE_PATTERN.test(value) || isNaN(new Date(value).getTime())) {
+      throw new AppError(`Invalid ${name}, expected YYYY-MM-DD`, 400, 'VALIDATION_ERROR');
+    }
+  }
+  if (to < from) {
+    throw new AppError('to must not be before from', 400, 'VALIDATION_ERROR');
+  }
+  if ((new Date(to).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000) >= MAX_REPORT_DAYS) {
+    throw new AppError(`Reports can be requested for at most ${MAX_REPORT_DAYS} days`, 400, 'VALIDATION_ERROR');
+  }
+
+  const report = await buildSlaComplianceReport(companyId, from, to);
+
+  const [branches, technicians] = await Promise.all([
+    Branch.findAll({
+      where: { id: { [Op.in]: report.branches.map(branch => branch.branchId) } },
+      attributes: ['id', 'branchTitle'],
+    }),
+    User.findAll({
+      where: { id: { [Op.in]: report.technicians.map(technician => technician.technicianId) } },
+      attributes: ['id', 'fullName', 'userNumber'],
+    }),
+  ]);
+  const branchesById = new Map(branches.map(branch => [branch.id, branch]));
+  const techniciansById = new Map(technicians.map(technician => [technician.id, technician]));
+
+  res.status(200).json({
+    success: true,
+    message: 'SLA compliance report retrieved successfully',
+    data: {
+      from,
+      to,
+      company: report.company,
+      branches: report.branches.map(({ branchId, ...counts }) => ({
+        branch: { id: branchId, title: branchesById.get(branchId)?.branchTitle ?? null },
+        ...counts,
+      })),
+      technicians: report.technicians.map(({ technicianId, ...counts }) => ({
+        technician: {
+          id: technicianId,
+          name: techniciansById.get(technicianId)?.fullName ?? null,
+          userNumber: techniciansById.get(technicianId)?.userNumber ?? null,
+        },
+        ...counts,
+      })),
+    },
+  });
+});
@@ -0,0 +1,323 @@
+import { Response } from 'express';
+import { Op } from 'sequelize';
+
+import { Lookup } from '../../db/models/lookup.model';
+import { User } from '../../db/models/user.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AppError, asyncHandler } from '../middleware/error.middleware';
+import { isTechnicianRole, requireCompanyId } from '../services/ticket/ticket-access.service';
+import { suggestTechnicians } from '../services/ticket/ticket-assignment.service';
+import {
+  DEFAULT_SLOT_MINUTES,
+  findTechnicianTickets,
+  minutesToTime,
+  rankTechnicianAvailability,
+  timeToMinutes,
+  toTime,
+} from '../services/ticket/ticket-scheduling.service';
+import { computeTechnicianRatings } from '../services/ticket/ticket-sign-off.service';
+import { formatStatus } from '../services/ticket/ticket-workflow.service';
+import { RoleId } from '../types/user.types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+// Schedules can be requested for at most this many days at once
+const MAX_SCHEDULE_DAYS = 62;
+
+const parseDateParam = (name: string, value: any, fallback?: string): string => {
+  if (value === undefined || value === '') {
+    if (fallback) return fallback;
+    throw new AppError(`${name} is required (YYYY-MM-DD)`, 400, 'VALIDATION_ERROR');
+  }
+  const date = String(value);
+  if (!DATE_PATTERN.test(date) || isNaN(new Date(date).getTime())) {
+    throw new AppError(`Invalid ${name}, expected YYYY-MM-DD`, 400, 'VALIDATION_ERROR');
+  }
+  return date;
+};
+
+const parseTimeParam = (name: string, value: any): string => {
+  const time = String(value ?? '');
+  if (!TIME_PATTERN.test(time)) {
+    throw new AppError(`Invalid ${name}, expected HH:MM`, 400, 'VALIDATION_ERROR');
+  }
+  return toTime(time);
+};
+
+const parseOptionalIdParam = (name: string, value: any): number | null => {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  const id = parseInt(value as string);
+  if (isNaN(id)) {
+    throw new AppError(`Invalid ${name}`, 400, 'VALIDATION_ERROR');
+  }
+  return id;
+};
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+/**
+ * Ensure the user can dispatch technicians (Admins, Team Leaders and Super Users)
+ */
+const requireDispatcher = (user: any) => {
+  if (isTechnicianRole(user.userRoleId) || user.userRoleId === RoleId.INDIVIDUAL) {
+    throw new AppError('Forbidden: Only Admins and Team Leaders can view technician availability', 403, 'FORBIDDEN');
+  }
+};
+
+/**
+ * Get the booked slots of a technician
+ * GET /api/v1/technicians/:id/schedule?from=2025-01-01&to=2025-01-07
+ * Defaults to the next 7 days, cancelled and deleted tickets are not included
+ * Technicians (21) and Sub-Technicians (22) can only view their own schedule
+ */
+export const getTechnicianSchedule = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+
+  const technicianId = parseInt(req.params.id);
+  if (isNaN(technicianId)) {
+    throw new AppError('Invalid technician ID', 400, 'VALIDATION_ERROR');
+  }
+
+  if (isTechnicianRole(user.userRoleId) && technicianId !== user.id) {
+    throw new AppError('Forbidden: You can only view your own schedule', 403, 'FORBIDDEN');
+  }
+
+  const today = new Date().toISOString().split('T')[0];
+  const from = parseDateParam('from', req.query.from, today);
+  const to = parseDateParam('to', req.query.to, addDays(from, 6));
+  if (to < from) {
+    throw new AppError('to must not be before from', 400, 'VALIDATION_ERROR');
+  }
+  if (to > addDays(from, MAX_SCHEDULE_DAYS - 1)) {
+    throw new AppError(`Schedules can be requested for at most ${MAX_SCHEDULE_DAYS} days`, 400, 'VALIDATION_ERROR');
+  }
+
+  const technician = await User.findOne({
+    where: {
+      id: technicianId,
+      companyId,
+      isDeleted: false,
+      userRoleId: { [Op.in]: [RoleId.TECHNICIAN, RoleId.SUB_TECHNICIAN] },
+    },
+    attributes: ['id', 'fullName', 'userNumber', 'userRoleId'],
+  });
+  if (!technician) {
+    throw new AppError('Technician not found or does not belong to your company', 404, 'NOT_FOUND');
+  }
+
+  const tickets = await findTechnicianTickets([technician.id], from, to);
+  const statuses = await Lookup.findAll({
+    where: { id: { [Op.in]: [...new Set(tickets.map(ticket => ticket.ticketStatusId))] } },
+  });
+  const statusesById = new Map(statuses.map(status => [status.id, status]));
+
+  res.status(200).json({
+    success: true,
+    message: 'Technician schedule retrieved successfully',
+    data: {
+      technician: {
+        id: technician.id,
+        fullName: technician.fullName,
+        userNumber: technician.userNumber,
+        userRoleId: technician.userRoleId,
+      },
+      from,
+      to,
+      bookedSlots: tickets.map(ticket => {
+        const status = statusesById.get(ticket.ticketStatusId);
+        return {
+          ticketId: ticket.id,
+          ticketCodeId: ticket.ticketCodeId,
+          ticketTitle: ticket.ticketTitle,
+          ticketDate: ticket.ticketDate,
+          ticketTimeFrom: ticket.ticketTimeFrom,
+          ticketTimeTo: ticket.ticketTimeTo,
+          ticketStatus: status ? formatStatus(status) : null,
+          branchId: ticket.branchId,
+          zoneId: ticket.zoneId,
+        };
+      }),
+    },
+  });
+});
+
+/**
+ * Get the availability of the company's technicians for a slot
+ * GET /api/v1/technicians/availability?date=2025-01-01&timeFrom=10:00&timeTo=12:00
+ * timeTo defaults to a 2-hour slot, technicians are ranked free, partially booked, then fully booked
+ * Only Admins, Team Leaders and Super Users can query availability
+ */
+export const getTechnicianAvailability = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requireDispatcher(user);
+
+  const date = parseDateParam('date', req.query.date);
+  const timeFrom = parseTimeParam('timeFrom', req.query.timeFrom);
+  const timeTo = req.query.timeTo
+    ? parseTimeParam('timeTo', req.query.timeTo)
+    : minutesToTime(timeToMinutes(timeFrom) + DEFAULT_SLOT_MINUTES);
+
+  const technicians = await User.findAll({
+    where: {
+      companyId,
+      isActive: true,
+      isDeleted: false,
+      userRoleId: { [Op.in]: [RoleId.TECHNICIAN, RoleId.SUB_TECHNICIAN] },
+    },
+    attributes: ['id', 'fullName', 'userNumber', 'userRoleId', 'profileImage'],
+    order: [['fullName', 'ASC']],
+  });
+  const techniciansById = new Map(technicians.map(technician => [technician.id, technician]));
+
+  const ranking = await rankTechnicianAvailability(
+    technicians.map(technician => technician.id),
+    date,
+    timeFrom,
+    timeTo
+  );
+
+  res.status(200).json({
+    success: true,
+    message: 'Technician availability retrieved successfully',
+    data: {
+      date,
+      timeFrom,
+      timeTo,
+      technicians: ranking.map(result => {
+        const technician = techniciansById.get(result.technicianId)!;
+        return {
+          id: technician.id,
+          fullName: technician.fullName,
+          userNumber: technician.userNumber,
+          userRoleId: technician.userRoleId,
+          profileImage: technician.profileImage,
+          availability: result.availability,
+          bookedMinutes: result.bookedMinutes,
+          ticketsOnDate: result.ticketsOnDate,
+          conflicts: result.conflicts.map(ticket => ({
+            ticketId: ticket.id,
+            ticketCodeId: ticket.ticketCodeId,
+            ticketTimeFrom: ticket.ticketTimeFrom,
+            ticketTimeTo: ticket.ticketTimeTo,
+          })),
+        };
+      }),
+    },
+  });
+});
+
+/**
+ * Get ranked technician suggestions for a new ticket
+ * GET /api/v1/technicians/suggestions?date=2025-01-01&timeFrom=10:00&timeTo=12:00&branchId=1&zoneId=2&mainServiceId=3&havingFemaleEngineer=true
+ * See suggestTechnicians for the ranking, only female technicians are returned when havingFemaleEngineer is true
+ */
+export const getTechnicianSuggestions = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requireDispatcher(user);
+
+  const date = parseDateParam('date', req.query.date);
+  const timeFrom = parseTimeParam('timeFrom', req.query.timeFrom);
+  const timeTo = req.query.timeTo
+    ? parseTimeParam('timeTo', req.query.timeTo)
+    : minutesToTime(timeToMinutes(timeFrom) + DEFAULT_SLOT_MINUTES);
+  const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+
+  const suggestions = await suggestTechnicians({
+    branchId: parseOptionalIdParam('branchId', req.query.branchId),
+    companyId,
+    havingFemaleEngineer: req.query.havingFemaleEngineer === 'true',
+    mainServiceId: parseOptionalIdParam('mainServiceId', req.query.mainServiceId),
+    ticketDate: date,
+    ticketTimeFrom: timeFrom,
+    ticketTimeTo: timeTo,
+    zoneId: parseOptionalIdParam('zoneId', req.query.zoneId),
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Technician suggestions retrieved successfully',
+    data: suggestions.slice(0, limit).map((suggestion, index) => ({
+      rank: index + 1,
+      id: suggestion.technician.id,
+      fullName: suggestion.technician.fullName,
+      userNumber: suggestion.technician.userNumber,
+      userRoleId: suggestion.technician.userRoleId,
+      gender: suggestion.technician.gender,
+      profileImage: suggestion.technician.profileImage,
+      score: suggestion.score,
+      availability: suggestion.availability,
+      bookedMinutes: suggestion.bookedMinutes,
+      ticketsOnDate: suggestion.ticketsOnDate,
+      openTickets: suggestion.openTickets,
+      recentZoneTickets: suggestion.recentZoneTickets,
+      recentServiceTickets: suggestion.recentServiceTickets,
+      recentBranchTickets: suggestion.recentBranchTickets,
+    })),
+  });
+});
+
+/**
+ * Get the customer rating averages of the company's technicians from ticket sign-offs
+ * GET /api/v1/technicians/ratings?from=2025-01-01&to=2025-01-31
+ * from / to filter on the sign-off date and are optional, technicians are sorted by average rating (unrated last)
+ * Technicians (21) and Sub-Technicians (22) only get their own rating
+ */
+export const getTechnicianRatings = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  if (user.userRoleId === RoleId.INDIVIDUAL) {
+    throw new AppError('Forbidden: You cannot view technician ratings', 403, 'FORBIDDEN');
+  }
+
+  const from = req.query.from ? parseDateParam('from', req.query.from) : undefined;
+  const to = req.query.to ? parseDateParam('to', req.query.to) : undefined;
+  if (from && to && to < from) {
+    throw new AppError('to must not be before from', 400, 'VALIDATION_ERROR');
+  }
+
+  const technicians = await User.findAll({
+    where: {
+      companyId,
+      isDeleted: false,
+      userRoleId: { [Op.in]: [RoleId.TECHNICIAN, RoleId.SUB_TECHNICIAN] },
+      ...(isTechnicianRole(user.userRoleId) && { id: user.id }),
+    },
+    attributes: ['id', 'fullName', 'userNumber', 'userRoleId', 'profileImage'],
+  });
+  const techniciansById = new Map(technicians.map(technician => [technician.id, technician]));
+
+  const ratings = await computeTechnicianRatings(companyId, { from, technicianIds: [...techniciansById.keys()], to });
+  ratings.sort((a, b) => (b.averageRating ?? -1) - (a.averageRating ?? -1) || b.ratingCount - a.ratingCount);
+
+  res.status(200).json({
+    success: true,
+    message: 'Technician ratings retrieved successfully',
+    data: {
+      from: from ?? null,
+      to: to ?? null,
+      technicians: ratings.map(rating => {
+        const technician = techniciansById.get(rating.technicianId)!;
+        return {
+          id: technician.id,
+          fullName: technician.fullName,
+          userNumber: technician.userNumber,
+          userRoleId: technician.userRoleId,
+          profileImage: technician.profileImage,
+          averageRating: rating.averageRating,
+          ratingCount: rating.ratingCount,
+          distribution: rating.distribution,
+        };
+      }),
+    },
+  });
+});
@@ -0,0 +1,207 @@
+import { Response } from 'express';
+
+import { AdditionalWork, AdditionalWorkStatus } from '../../db/models/additional-work.model';
+import { Lookup } from '../../db/models/lookup.model';
+import { TicketHistoryAction } from '../../db/models/ticket-history.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AppError, asyncHandler } from '../middleware/error.middleware';
+import { notifyUsers } from '../services/notification/notification.service';
+import { findAccessibleTicket, getRequestSource, isTechnicianRole, parseTicketId } from '../services/ticket/ticket-access.service';
+import {
+  ADDITIONAL_WORK_INCLUDE,
+  assertAdditionalWorkTransition,
+  canReviewAdditionalWork,
+  findTicketAdditionalWorks,
+  formatAdditionalWork,
+  parseAdditionalWorkInput,
+  parseStatusReason,
+} from '../services/ticket/ticket-additional-work.service';
+import { recordTicketHistory } from '../services/ticket/ticket-history.service';
+import { TicketStatusCode } from '../services/ticket/ticket-workflow.service';
+
+// Proposals cannot be submitted for tickets in these statuses
+const CLOSED_STATUS_CODES: string[] = [TicketStatusCode.COMPLETED, TicketStatusCode.CANCELLED];
+
+/**
+ * Get the additional work proposals of a ticket, newest first
+ * GET /api/v1/tickets/:id/additional-work
+ */
+export const getAdditionalWorks = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticket = await findAccessibleTicket(user, parseTicketId(req.params.id));
+
+  const works = await findTicketAdditionalWorks(ticket.id);
+
+  res.status(200).json({
+    success: true,
+    message: 'Additional work retrieved successfully',
+    data: works.map(formatAdditionalWork),
+  });
+});
+
+/**
+ * Submit an additional work proposal, the team leader of the ticket is notified
+ * POST /api/v1/tickets/:id/additional-work
+ * Body: { title, description, proposalFileId }
+ * Technicians submit for their own tickets, Admins and Team Leaders for any ticket of the company
+ */
+export const submitAdditionalWork = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  if (!isTechnicianRole(user.userRoleId) && !canReviewAdditionalWork(user.userRoleId)) {
+    throw new AppError('Forbidden: Only technicians, Team Leaders and Admins can submit additional work', 403, 'FORBIDDEN');
+  }
+
+  const ticket = await findAccessibleTicket(user, parseTicketId(req.params.id), [
+    { model: Lookup, as: 'ticketStatusLookup', required: false },
+  ]);
+  if (CLOSED_STATUS_CODES.includes(ticket.ticketStatusLookup?.code ?? '')) {
+    throw new AppError('Additional work cannot be submitted for a completed or cancelled ticket', 409, 'INVALID_TICKET_STATUS');
+  }
+
+  const input = await parseAdditionalWorkInput(user, ticket, req.body);
+
+  const work = await AdditionalWork.sequelize!.transaction(async transaction => {
+    const created = await AdditionalWork.create(
+      {
+        ...input,
+        createdBy: user.id,
+        status: AdditionalWorkStatus.IN_PROGRESS,
+        submittedAt: new Date(),
+        ticketId: ticket.id,
+        updatedBy: user.id,
+      },
+      { transaction }
+    );
+
+    await recordTicketHistory({
+      action: TicketHistoryAction.ADDITIONAL_WORK_SUBMITTED,
+      actorId: user.id,
+      changes: [
+        {
+          field: 'additionalWork',
+          newValue: { id: created.id, proposalFileId: input.proposalFileId, title: input.title },
+          oldValue: null,
+        },
+      ],
+      source: getRequestSource(req),
+      ticketId: ticket.id,
+      transaction,
+    });
+
+    return created;
+  });
+
+  if (ticket.assignToTeamLeaderId !== user.id) {
+    await notifyUsers([ticket.assignToTeamLeaderId], {
+      body: `${user.fullName} proposed additional work on ticket ${ticket.ticketCodeId}: ${input.title}`,
+      data: { additionalWorkId: String(work.id), ticketId: String(ticket.id), type: 'ADDITIONAL_WORK_SUBMITTED' },
+      title: 'Additional work proposed',
+    });
+  }
+
+  await work.reload({ include: ADDITIONAL_WORK_INCLUDE });
+
+  res.status(201).json({
+    success: true,
+    message: 'Additional work submitted successfully',
+    data: formatAdditionalWork(work),
+  });
+});
+
+/**
+ * Move a proposal to another status (see ADDITIONAL_WORK_TRANSITIONS) and notify the technician who submitted it
+ */
+const changeAdditionalWorkStatus = async (req: AuthRequest, res: Response, status: AdditionalWorkStatus) => {
+  const {user} = req;
+  if (!canReviewAdditionalWork(user.userRoleId)) {
+    throw new AppError('Forbidden: Only Admins and Team Leaders can review additional work', 403, 'FORBIDDEN');
+  }
+
+  const ticket = await findAccessibleTicket(user, parseTicketId(req.params.id));
+  const workId = parseInt(req.params.workId);
+  if (isNaN(workId)) {
+    throw new AppError('Invalid additional work ID', 400, 'VALIDATION_ERROR');
+  }
+
+  const work = await AdditionalWork.findOne({
+    where: { id: workId, isDeleted: false, ticketId: ticket.id },
+    include: ADDITIONAL_WORK_INCLUDE,
+  });
+  if (!work) {
+    throw new AppError('Additional work not found', 404, 'NOT_FOUND');
+  }
+
+  const fromStatus = work.status;
+  assertAdditionalWorkTransition(fromStatus, status);
+  const reason = parseStatusReason(req.body, status);
+
+  await AdditionalWork.sequelize!.transaction(async transaction => {
+    // Only one of concurrent reviews moves the proposal out of its current status
+    const [updated] = await AdditionalWork.update(
+      { reviewedAt: new Date(), reviewedBy: user.id, status, statusReason: reason, updatedBy: user.id },
+      { where: { id: work.id, status: fromStatus }, transaction }
+    );
+    if (updated === 0) {
+      throw new AppError('Additional work status was changed by another user, reload and try again', 409, 'INVALID_STATUS_TRANSITION');
+    }
+
+    await recordTicketHistory({
+      action: TicketHistoryAction.ADDITIONAL_WORK_STATUS_CHANGED,
+      actorId: user.id,
+      changes: [
+        {
+          field: 'additionalWork',
+          newValue: { id: work.id, reason, status },
+          oldValue: { id: work.id, status: fromStatus },
+        },
+      ],
+      source: getRequestSource(req),
+      ticketId: ticket.id,
+      transaction,
+    });
+  });
+
+  if (work.createdBy && work.createdBy !== user.id) {
+    const statusText = status.toLowerCase();
+    await notifyUsers([work.createdBy], {
+      body: `Additional work "${work.title}" on ticket ${ticket.ticketCodeId} was ${statusText}${reason ? `: ${reason}` : ''}`,
+      data: { additionalWorkId: String(work.id), ticketId: String(ticket.id), type: `ADDITIONAL_WORK_${status}` },
+      title: `Additional work ${statusText}`,
+    });
+  }
+
+  await work.reload({ include: ADDITIONAL_WORK_INCLUDE });
+
+  res.status(200).json({
+    success: true,
+    message: `Additional work ${status.toLowerCase()} successfully`,
+    data: formatAdditionalWork(work),
+  });
+};
+
+/**
+ * Approve a proposal
+ * POST /api/v1/tickets/:id/additional-work/:workId/approve
+ * Body: { reason? }
+ */
+export const approveAdditionalWork = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await changeAdditionalWorkStatus(req, res, AdditionalWorkStatus.APPROVED);
+});
+
+/**
+ * Reject a proposal
+ * POST /api/v1/tickets/:id/additional-work/:workId/reject
+ * Body: { reason }
+ */
+export const rejectAdditionalWork = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await changeAdditionalWorkStatus(req, res, AdditionalWorkStatus.REJECTED);
+});
+
+/**
+ * Cancel a proposal (pending or approved)
+ * POST /api/v1/tickets/:id/additional-work/:workId/cancel
+ * Body: { reason }
+ */
+export const cancelAdditionalWork = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await changeAdditionalWorkStatus(req, res, AdditionalWorkStatus.CANCELED);
+});
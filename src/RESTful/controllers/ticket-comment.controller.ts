@@ -0,0 +1,243 @@
+import { Response } from 'express';
+import { Op } from 'sequelize';
+
+import { File, FileEntityType } from '../../db/models/file.model';
+import { TicketComment } from '../../db/models/ticket-comment.model';
+import { Ticket } from '../../db/models/ticket.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AppError, asyncHandler } from '../middleware/error.middleware';
+import { findAccessibleTicket, findOwnTicketUploads, parseTicketId } from '../services/ticket/ticket-access.service';
+import {
+  canAccessInternalComments,
+  formatTicketComments,
+  getVisibleCommentsWhere,
+  MAX_COMMENT_LENGTH,
+} from '../services/ticket/ticket-comment.service';
+import { RoleId } from '../types/user.types';
+
+/**
+ * Validate the comment body, returns the trimmed text
+ */
+const validateCommentBody = (body: any): string => {
+  const text = typeof body === 'string' ? body.trim() : '';
+  if (!text) {
+    throw new AppError('Comment body is required', 400, 'VALIDATION_ERROR');
+  }
+  if (text.length > MAX_COMMENT_LENGTH) {
+    throw new AppError(`Comment body must not exceed ${MAX_COMMENT_LENGTH} characters`, 400, 'VALIDATION_ERROR');
+  }
+  return text;
+};
+
+/**
+ * Find a visible, non-deleted comment of the ticket
+ */
+const findTicketComment = async (user: any, ticket: Ticket, commentIdParam: string): Promise<TicketComment> => {
+  const commentId = parseInt(commentIdParam);
+  if (isNaN(commentId)) {
+    throw new AppError('Invalid comment ID', 400, 'VALIDATION_ERROR');
+  }
+
+  const comment = await TicketComment.findOne({
+    where: {
+      ...getVisibleCommentsWhere(ticket.id, user.userRoleId),
+      id: commentId,
+    },
+  });
+
+  if (!comment) {
+    throw new AppError('Comment not found', 404, 'NOT_FOUND');
+  }
+
+  return comment;
+};
+
+/**
+ * Get the comments of a ticket (newest first)
+ * GET /api/v1/tickets/:id/comments?page=1&limit=20
+ * Internal comments are only returned to Admins, Team Leaders and Super Users
+ */
+export const getTicketComments = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticketId = parseTicketId(req.params.id);
+
+  const ticket = await findAccessibleTicket(user, ticketId);
+
+  // Get pagination parameters
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+  const offset = (page - 1) * limit;
+
+  const { count, rows } = await TicketComment.findAndCountAll({
+    where: getVisibleCommentsWhere(ticket.id, user.userRoleId),
+    order: [['createdAt', 'DESC'], ['id', 'DESC']],
+    limit,
+    offset,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Ticket comments retrieved successfully',
+    data: await formatTicketComments(rows),
+    pagination: {
+      page,
+      limit,
+      total: count,
+      totalPages: Math.ceil(count / limit),
+      hasMore: offset + rows.length < count,
+    },
+  });
+});
+
+/**
+ * Validate the attachment IDs of a comment, returns the distinct IDs
+ */
+const parseFileIds = (fileIds: any): number[] => {
+  if (fileIds === undefined) {
+    return [];
+  }
+  if (!Array.isArray(fileIds)) {
+    throw new AppError('fileIds must be an array', 400, 'VALIDATION_ERROR');
+  }
+
+  const ids = fileIds.map(Number);
+  if (ids.some(id => !Number.isInteger(id) || id <= 0)) {
+    throw new AppError('fileIds must be positive integers', 400, 'VALIDATION_ERROR');
+  }
+  return [...new Set(ids)];
+};
+
+/**
+ * Add a comment to a ticket
+ * POST /api/v1/tickets/:id/comments
+ * Body: { body, isInternal?, fileIds? }
+ * Attachments are files the author uploaded to the ticket (see findOwnTicketUploads), they are then moved from the
+ * ticket to the comment
+ */
+export const createTicketComment = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticketId = parseTicketId(req.params.id);
+
+  const ticket = await findAccessibleTicket(user, ticketId);
+
+  const body = validateCommentBody(req.body.body);
+  const isInternal = req.body.isInternal === true || req.body.isInternal === 'true';
+  if (isInternal && !canAccessInternalComments(user.userRoleId)) {
+    throw new AppError('Only Admins, Team Leaders and Super Users can post internal comments', 403, 'FORBIDDEN');
+  }
+
+  const attachmentIds = parseFileIds(req.body.fileIds);
+
+  // Attachments must belong to this ticket and have been uploaded by the author
+  if (attachmentIds.length > 0) {
+    const attachments = await findOwnTicketUploads(user, ticket, attachmentIds);
+    if (attachments.length !== attachmentIds.length) {
+      throw new AppError('One or more attachments were not found on this ticket', 400, 'VALIDATION_ERROR');
+    }
+  }
+
+  const comment = await TicketComment.sequelize!.transaction(async transaction => {
+    const created = await TicketComment.create(
+      {
+        body,
+        createdBy: user.id,
+        isInternal,
+        ticketId: ticket.id,
+        updatedBy: user.id,
+      },
+      { transaction }
+    );
+
+    if (attachmentIds.length > 0) {
+      await File.update(
+        { entityId: created.id, entityType: FileEntityType.TICKET_COMMENT },
+        { where: { id: { [Op.in]: attachmentIds } }, transaction }
+      );
+    }
+
+    return created;
+  });
+
+  const [commentData] = await formatTicketComments([comment]);
+
+  res.status(201).json({
+    success: true,
+    message: 'Comment added successfully',
+    data: commentData,
+  });
+});
+
+/**
+ * Edit a comment, only the author can edit it
+ * PUT /api/v1/tickets/:id/comments/:commentId
+ * Body: { body?, isInternal? }
+ */
+export const updateTicketComment = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticketId = parseTicketId(req.params.id);
+
+  const ticket = await findAccessibleTicket(user, ticketId);
+  const comment = await findTicketComment(user, ticket, req.params.commentId);
+
+  if (comment.createdBy !== user.id) {
+    throw new AppError('Only the author can edit this comment', 403, 'FORBIDDEN');
+  }
+
+  if (req.body.body !== undefined) {
+    const body = validateCommentBody(req.body.body);
+    if (body !== comment.body) {
+      comment.body = body;
+      comment.editedAt = new Date();
+    }
+  }
+
+  if (req.body.isInternal !== undefined) {
+    const isInternal = req.body.isInternal === true || req.body.isInternal === 'true';
+    if (isInternal && !canAccessInternalComments(user.userRoleId)) {
+      throw new AppError('Only Admins, Team Leaders and Super Users can post internal comments', 403, 'FORBIDDEN');
+    }
+    comment.isInternal = isInternal;
+  }
+
+  comment.updatedBy = user.id;
+  await comment.save();
+
+  const [commentData] = await formatTicketComments([comment]);
+
+  res.status(200).json({
+    success: true,
+    message: 'Comment updated successfully',
+    data: commentData,
+  });
+});
+
+/**
+ * Delete a comment (soft delete)
+ * DELETE /api/v1/tickets/:id/comments/:commentId
+ * The author, Admins (18) and Super Users (26) can delete comments
+ */
+export const deleteTicketComment = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticketId = parseTicketId(req.params.id);
+
+  const ticket = await findAccessibleTicket(user, ticketId);
+  const comment = await findTicketComment(user, ticket, req.params.commentId);
+
+  const isModerator = user.userRoleId === RoleId.ADMIN || user.userRoleId === RoleId.SUPER_USER;
+  if (comment.createdBy !== user.id && !isModerator) {
+    throw new AppError('You do not have permission to delete this comment', 403, 'FORBIDDEN');
+  }
+
+  await comment.update({
+    deletedAt: new Date(),
+    deletedBy: user.id,
+    isDeleted: true,
+    updatedBy: user.id,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Comment deleted successfully',
+    data: { id: comment.id },
+  });
+});
@@ -0,0 +1,44 @@
+import { Response } from 'express';
+
+import { TicketHistory } from '../../db/models/ticket-history.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import { findAccessibleTicket, parseTicketId } from '../services/ticket/ticket-access.service';
+import { formatTicketHistory } from '../services/ticket/ticket-history.service';
+
+/**
+ * Get the change history of a ticket (newest first)
+ * GET /api/v1/tickets/:id/history?page=1&limit=20
+ * Technicians can only view the history of tickets assigned to them
+ */
+export const getTicketHistory = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticketId = parseTicketId(req.params.id);
+
+  const ticket = await findAccessibleTicket(user, ticketId);
+
+  // Get pagination parameters
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+  const offset = (page - 1) * limit;
+
+  const { count, rows } = await TicketHistory.findAndCountAll({
+    where: { ticketId: ticket.id },
+    order: [['createdAt', 'DESC'], ['id', 'DESC']],
+    limit,
+    offset,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Ticket history retrieved successfully',
+    data: await formatTicketHistory(rows),
+    pagination: {
+      page,
+      limit,
+      total: count,
+      totalPages: Math.ceil(count / limit),
+      hasMore: offset + rows.length < count,
+    },
+  });
+});
@@ -0,0 +1,65 @@
+import { Response } from 'express';
+import multer from 'multer';
+import path from 'path';
+
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AppError, asyncHandler } from '../middleware/error.middleware';
+import { readSpreadsheetRows, SpreadsheetFormat } from '../services/spreadsheet/spreadsheet.service';
+import { getRequestSource, requireCompanyId } from '../services/ticket/ticket-access.service';
+import { importTickets as runTicketImport } from '../services/ticket/ticket-import.service';
+import { RoleId } from '../types/user.types';
+
+// Import files are parsed in memory and never stored
+export const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    const extension = path.extname(file.originalname).toLowerCase().replace('.', '');
+    if (!Object.values(SpreadsheetFormat).includes(extension as SpreadsheetFormat)) {
+      cb(new AppError('Only CSV and XLSX files can be imported', 400, 'VALIDATION_ERROR'));
+      return;
+    }
+    cb(null, true);
+  },
+});
+
+/**
+ * Import tickets from a CSV or XLSX file
+ * POST /api/v1/tickets/import (multipart/form-data)
+ * Fields: file, dryRun? (true returns the validation report without creating tickets), contractId? (default contract)
+ * Columns: Branch, Zone, Ticket Type, Main Service, Ticket Date, Time From, Time To, Technician, Title and optionally
+ * Contract, Team Leader, Description, Customer Name, Location Map, Service Description, Female Engineer, With Material
+ * Branches and zones are matched by title, services and types by name or code, users by user number
+ * Only company admins and team leaders can import, team leaders' tickets are assigned to themselves
+ */
+export const importTickets = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  requireCompanyId(user);
+
+  if (user.userRoleId !== RoleId.ADMIN && user.userRoleId !== RoleId.TEAM_LEADER) {
+    throw new AppError('Forbidden: Only Admins and Team Leaders can import tickets', 403, 'FORBIDDEN');
+  }
+
+  if (!req.file) {
+    throw new AppError('No file uploaded', 400, 'VALIDATION_ERROR');
+  }
+
+  const dryRun = [req.body.dryRun, req.query.dryRun].some(value => value === true || value === 'true');
+  const contractId = req.body.contractId ? Number(req.body.contractId) : undefined;
+  if (contractId !== undefined && !Number.isInteger(contractId)) {
+    throw new AppError('Invalid contract ID', 400, 'VALIDATION_ERROR');
+  }
+
+  const format = path.extname(req.file.originalname).toLowerCase().replace('.', '') as SpreadsheetFormat;
+  const rows = await readSpreadsheetRows(req.file.buffer, format);
+
+  const report = await runTicketImport(user, rows, { contractId, dryRun, source: getRequestSource(req) });
+
+  res.status(dryRun || report.created.length === 0 ? 200 : 201).json({
+    success: true,
+    message: dryRun ? 'Import validated successfully' : `${report.created.length} ticket(s) imported successfully`,
+    data: report,
+  });
+});
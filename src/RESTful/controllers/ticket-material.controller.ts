@@ -0,0 +1,324 @@
+import { Response } from 'express';
+
+import { Lookup } from '../../db/models/lookup.model';
+import { TicketHistoryAction } from '../../db/models/ticket-history.model';
+import { TicketMaterial, TicketMaterialStatus } from '../../db/models/ticket-material.model';
+import { Ticket } from '../../db/models/ticket.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AppError, asyncHandler } from '../middleware/error.middleware';
+import { notifyUsers } from '../services/notification/notification.service';
+import { findAccessibleTicket, getRequestSource, isTechnicianRole, parseTicketId } from '../services/ticket/ticket-access.service';
+import { recordTicketHistory } from '../services/ticket/ticket-history.service';
+import {
+  canReviewMaterials,
+  findTicketMaterials,
+  formatTicketMaterial,
+  parseMaterialInput,
+  parseReviewNote,
+  summarizeMaterials,
+  TICKET_MATERIAL_INCLUDE,
+  TicketMaterialInput,
+} from '../services/ticket/ticket-material.service';
+import { TicketStatusCode } from '../services/ticket/ticket-workflow.service';
+
+/**
+ * Technicians and reviewers (Admins, Team Leaders, Super Users) manage materials
+ */
+const requireMaterialEditor = (user: any): void => {
+  if (!isTechnicianRole(user.userRoleId) && !canReviewMaterials(user.userRoleId)) {
+    throw new AppError('Forbidden: Only technicians, Team Leaders and Admins can manage materials', 403, 'FORBIDDEN');
+  }
+};
+
+const requireMaterialReviewer = (user: any): void => {
+  if (!canReviewMaterials(user.userRoleId)) {
+    throw new AppError('Forbidden: Only Admins, Team Leaders and Super Users can review materials', 403, 'FORBIDDEN');
+  }
+};
+
+/**
+ * Find an accessible ticket that is not cancelled, materials cannot change on cancelled tickets
+ */
+const findOpenTicket = async (user: any, ticketIdParam: string): Promise<Ticket> => {
+  const ticket = await findAccessibleTicket(user, parseTicketId(ticketIdParam), [
+    { model: Lookup, as: 'ticketStatusLookup', required: false },
+  ]);
+  if (ticket.ticketStatusLookup?.code === TicketStatusCode.CANCELLED) {
+    throw new AppError('Materials cannot be changed on a cancelled ticket', 409, 'INVALID_TICKET_STATUS');
+  }
+  return ticket;
+};
+
+/**
+ * Find a non-deleted material line of the ticket
+ */
+const findTicketMaterial = async (ticket: Ticket, materialIdParam: string): Promise<TicketMaterial> => {
+  const materialId = parseInt(materialIdParam);
+  if (isNaN(materialId)) {
+    throw new AppError('Invalid material ID', 400, 'VALIDATION_ERROR');
+  }
+
+  const material = await TicketMaterial.findOne({
+    where: { id: materialId, isDeleted: false, ticketId: ticket.id },
+    include: TICKET_MATERIAL_INCLUDE,
+  });
+  if (!material) {
+    throw new AppError('Material not found', 404, 'NOT_FOUND');
+  }
+  return material;
+};
+
+/**
+ * Technicians can only change their own pending lines, reviewers any pending line
+ */
+const requireEditableMaterial = (user: any, material: TicketMaterial): void => {
+  if (!canReviewMaterials(user.userRoleId) && material.createdBy !== user.id) {
+    throw new AppError('You can only change materials you added', 403, 'FORBIDDEN');
+  }
+  if (material.status !== TicketMaterialStatus.PENDING) {
+    throw new AppError(`Material is already ${material.status.toLowerCase()}`, 409, 'MATERIAL_ALREADY_REVIEWED');
+  }
+};
+
+const toHistoryValue = (material: TicketMaterial | TicketMaterialInput, status: TicketMaterialStatus) => ({
+  itemName: material.itemName,
+  quantity: Number(material.quantity),
+  status,
+  unit: material.unit,
+  unitCost: Number(material.unitCost),
+});
+
+/**
+ * Get the materials of a ticket (oldest first) with their totals
+ * GET /api/v1/tickets/:id/materials
+ */
+export const getTicketMaterials = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticket = await findAccessibleTicket(user, parseTicketId(req.params.id));
+
+  const materials = await findTicketMaterials(ticket.id);
+
+  res.status(200).json({
+    success: true,
+    message: 'Ticket materials retrieved successfully',
+    data: {
+      materials: materials.map(formatTicketMaterial),
+      totals: summarizeMaterials(materials),
+    },
+  });
+});
+
+/**
+ * Add a material line to a ticket, called by technicians from the mobile app
+ * POST /api/v1/tickets/:id/materials
+ * Body: { itemName, itemCode?, quantity, unit, unitCost, suppliedBy (CLIENT or WEFIX) }
+ * Lines added by technicians wait for approval and the team leader is notified, lines added by reviewers are approved
+ */
+export const addTicketMaterial = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  requireMaterialEditor(user);
+
+  const ticket = await findOpenTicket(user, req.params.id);
+  const input = parseMaterialInput(req.body);
+  const source = getRequestSource(req);
+  const approved = canReviewMaterials(user.userRoleId);
+  const status = approved ? TicketMaterialStatus.APPROVED : TicketMaterialStatus.PENDING;
+
+  const material = await TicketMaterial.sequelize!.transaction(async transaction => {
+    const created = await TicketMaterial.create(
+      {
+        ...input,
+        createdBy: user.id,
+        reviewedAt: approved ? new Date() : null,
+        reviewedBy: approved ? user.id : null,
+        status,
+        ticketId: ticket.id,
+        updatedBy: user.id,
+      },
+      { transaction }
+    );
+
+    // Keep the legacy flag in sync for clients that only read withMaterial
+    if (!ticket.withMaterial) {
+      await ticket.update({ updatedBy: user.id, withMaterial: true }, { transaction });
+    }
+
+    await recordTicketHistory({
+      action: TicketHistoryAction.MATERIAL_ADDED,
+      actorId: user.id,
+      changes: [{ field: 'material', newValue: { id: created.id, ...toHistoryValue(input, status) }, oldValue: null }],
+      source,
+      ticketId: ticket.id,
+      transaction,
+    });
+
+    return created;
+  });
+
+  if (!approved) {
+    await notifyUsers([ticket.assignToTeamLeaderId], {
+      body: `${user.fullName} added ${input.itemName} to ticket ${ticket.ticketCodeId}, it needs your approval`,
+      data: { materialId: String(material.id), ticketId: String(ticket.id), type: 'MATERIAL_APPROVAL_REQUESTED' },
+      title: 'Material approval needed',
+    });
+  }
+
+  await material.reload({ include: TICKET_MATERIAL_INCLUDE });
+
+  res.status(201).json({
+    success: true,
+    message: approved ? 'Material added successfully' : 'Material added and sent for approval',
+    data: formatTicketMaterial(material),
+  });
+});
+
+/**
+ * Update a pending material line
+ * PUT /api/v1/tickets/:id/materials/:materialId
+ * Body: any of { itemName, itemCode, quantity, unit, unitCost, suppliedBy }
+ */
+export const updateTicketMaterial = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  requireMaterialEditor(user);
+
+  const ticket = await findOpenTicket(user, req.params.id);
+  const material = await findTicketMaterial(ticket, req.params.materialId);
+  requireEditableMaterial(user, material);
+
+  const input = parseMaterialInput(req.body, material);
+  const oldValue = toHistoryValue(material, material.status);
+
+  await TicketMaterial.sequelize!.transaction(async transaction => {
+    await material.update({ ...input, updatedBy: user.id }, { transaction });
+
+    await recordTicketHistory({
+      action: TicketHistoryAction.MATERIAL_UPDATED,
+      actorId: user.id,
+      changes: [
+        { field: 'material', newValue: { id: material.id, ...toHistoryValue(input, material.status) }, oldValue },
+      ],
+      source: getRequestSource(req),
+      ticketId: ticket.id,
+      transaction,
+    });
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Material updated successfully',
+    data: formatTicketMaterial(material),
+  });
+});
+
+/**
+ * Remove a material line (soft delete)
+ * DELETE /api/v1/tickets/:id/materials/:materialId
+ * Technicians can remove their own pending lines, reviewers any line
+ */
+export const deleteTicketMaterial = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  requireMaterialEditor(user);
+
+  const ticket = await findOpenTicket(user, req.params.id);
+  const material = await findTicketMaterial(ticket, req.params.materialId);
+  if (!canReviewMaterials(user.userRoleId)) {
+    requireEditableMaterial(user, material);
+  }
+
+  await TicketMaterial.sequelize!.transaction(async transaction => {
+    await material.update(
+      { deletedAt: new Date(), deletedBy: user.id, isDeleted: true, updatedBy: user.id },
+      { transaction }
+    );
+
+    await recordTicketHistory({
+      action: TicketHistoryAction.MATERIAL_REMOVED,
+      actorId: user.id,
+      changes: [
+        { field: 'material', newValue: null, oldValue: { id: material.id, ...toHistoryValue(material, material.status) } },
+      ],
+      source: getRequestSource(req),
+      ticketId: ticket.id,
+      transaction,
+    });
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Material removed successfully',
+  });
+});
+
+/**
+ * Approve or reject a pending material line and notify the technician who added it
+ */
+const reviewTicketMaterial = async (req: AuthRequest, res: Response, status: TicketMaterialStatus) => {
+  const {user} = req;
+  requireMaterialReviewer(user);
+
+  const ticket = await findOpenTicket(user, req.params.id);
+  const material = await findTicketMaterial(ticket, req.params.materialId);
+  if (material.status !== TicketMaterialStatus.PENDING) {
+    throw new AppError(`Material is already ${material.status.toLowerCase()}`, 409, 'MATERIAL_ALREADY_REVIEWED');
+  }
+
+  const reviewNote = parseReviewNote(req.body, status === TicketMaterialStatus.REJECTED);
+  const approved = status === TicketMaterialStatus.APPROVED;
+
+  await TicketMaterial.sequelize!.transaction(async transaction => {
+    await material.update(
+      { reviewedAt: new Date(), reviewedBy: user.id, reviewNote, status, updatedBy: user.id },
+      { transaction }
+    );
+
+    await recordTicketHistory({
+      action: approved ? TicketHistoryAction.MATERIAL_APPROVED : TicketHistoryAction.MATERIAL_REJECTED,
+      actorId: user.id,
+      changes: [
+        {
+          field: 'material',
+          newValue: { id: material.id, reviewNote, status },
+          oldValue: { id: material.id, status: TicketMaterialStatus.PENDING },
+        },
+      ],
+      source: getRequestSource(req),
+      ticketId: ticket.id,
+      transaction,
+    });
+  });
+
+  if (material.createdBy !== user.id) {
+    await notifyUsers([material.createdBy], {
+      body: approved
+        ? `${material.itemName} on ticket ${ticket.ticketCodeId} was approved`
+        : `${material.itemName} on ticket ${ticket.ticketCodeId} was rejected: ${reviewNote}`,
+      data: { materialId: String(material.id), ticketId: String(ticket.id), type: `MATERIAL_${status}` },
+      title: approved ? 'Material approved' : 'Material rejected',
+    });
+  }
+
+  await material.reload({ include: TICKET_MATERIAL_INCLUDE });
+
+  res.status(200).json({
+    success: true,
+    message: approved ? 'Material approved successfully' : 'Material rejected successfully',
+    data: formatTicketMaterial(material),
+  });
+};
+
+/**
+ * Approve a pending material line
+ * POST /api/v1/tickets/:id/materials/:materialId/approve
+ */
+export const approveTicketMaterial = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await reviewTicketMaterial(req, res, TicketMaterialStatus.APPROVED);
+});
+
+/**
+ * Reject a pending material line
+ * POST /api/v1/tickets/:id/materials/:materialId/reject
+ * Body: { reason }
+ */
+export const rejectTicketMaterial = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await reviewTicketMaterial(req, res, TicketMaterialStatus.REJECTED);
+});
@@ -0,0 +1,215 @@
+import { Response } from 'express';
+
+import { Lookup } from '../../db/models/lookup.model';
+import { TicketHistoryAction, TicketFieldChange } from '../../db/models/ticket-history.model';
+import { TicketReassignment } from '../../db/models/ticket-reassignment.model';
+import { Ticket } from '../../db/models/ticket.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AppError, asyncHandler } from '../middleware/error.middleware';
+import { notifyUsers } from '../services/notification/notification.service';
+import { findAccessibleTicket, getRequestSource, parseTicketId } from '../services/ticket/ticket-access.service';
+import { assertValidTeamLeader, assertValidTechnician } from '../services/ticket/ticket-creation.service';
+import { recordTicketHistory } from '../services/ticket/ticket-history.service';
+import {
+  findTicketReassignments,
+  formatReassignment,
+  parseReassignmentReason,
+  REASSIGNMENT_INCLUDE,
+} from '../services/ticket/ticket-reassignment.service';
+import { assertTechnicianAvailable } from '../services/ticket/ticket-scheduling.service';
+import { TicketStatusCode } from '../services/ticket/ticket-workflow.service';
+import { RoleId } from '../types/user.types';
+
+// Tickets in these statuses cannot be reassigned
+const CLOSED_STATUS_CODES: string[] = [TicketStatusCode.COMPLETED, TicketStatusCode.CANCELLED];
+
+/**
+ * Parse an optional assignee ID of the request body, undefined when not sent
+ */
+const parseAssigneeId = (body: any, field: string): number | undefined => {
+  if (body[field] === undefined || body[field] === null || body[field] === '') {
+    return undefined;
+  }
+  const id = Number(body[field]);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new AppError(`Invalid ${field}`, 400, 'VALIDATION_ERROR');
+  }
+  return id;
+};
+
+/**
+ * Get the reassignment log of a ticket, oldest first
+ * GET /api/v1/tickets/:id/reassignments
+ */
+export const getTicketReassignments = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticket = await findAccessibleTicket(user, parseTicketId(req.params.id));
+
+  const reassignments = await findTicketReassignments(ticket.id);
+
+  res.status(200).json({
+    success: true,
+    message: 'Ticket reassignments retrieved successfully',
+    data: reassignments.map(formatReassignment),
+  });
+});
+
+/**
+ * Reassign a ticket to another technician and / or team leader with a reason
+ * POST /api/v1/tickets/:id/reassign
+ * Body: { assignToTechnicianId?, assignToTeamLeaderId?, reasonCode, reasonNote? (required for OTHER), allowOverlap? }
+ * - Admins, Team Leaders and Super Users only, Team Leaders can only assign the ticket to themselves as team leader
+ * - Assignees are validated like on ticket creation, double booking the new technician is rejected with 409 unless an
+ *   admin sends allowOverlap: true
+ * - The reassignment is logged with its reason, the previous and new technicians are notified
+ */
+export const reassignTicket = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const canReassign =
+    user.userRoleId === RoleId.ADMIN || user.userRoleId === RoleId.TEAM_LEADER || user.userRoleId === RoleId.SUPER_USER;
+  if (!canReassign) {
+    throw new AppError('Forbidden: Only Admins, Team Leaders and Super Users can reassign tickets', 403, 'FORBIDDEN');
+  }
+
+  const ticket = await findAccessibleTicket(user, parseTicketId(req.params.id), [
+    { model: Lookup, as: 'ticketStatusLookup', required: false },
+  ]);
+  if (CLOSED_STATUS_CODES.includes(ticket.ticketStatusLookup?.code ?? '')) {
+    throw new AppError('A completed or cancelled ticket cannot be reassigned', 409, 'INVALID_TICKET_STATUS');
+  }
+
+  const requestedTechnicianId = parseAssigneeId(req.body, 'assignToTechnicianId');
+  const requestedTeamLeaderId = parseAssigneeId(req.body, 'assignToTeamLeaderId');
+  if (requestedTechnicianId === undefined && requestedTeamLeaderId === undefined) {
+    throw new AppError('assignToTechnicianId or assignToTeamLeaderId is required', 400, 'VALIDATION_ERROR');
+  }
+  const reason = parseReassignmentReason(req.body);
+
+  // Team Leaders CANNOT reassign tickets to another Team Leader
+  if (
+    user.userRoleId === RoleId.TEAM_LEADER &&
+    requestedTeamLeaderId !== undefined &&
+    requestedTeamLeaderId !== user.id
+  ) {
+    throw new AppError(
+      'Team Leaders can only assign tickets to themselves. You cannot reassign tickets to another Team Leader.',
+      403,
+      'FORBIDDEN'
+    );
+  }
+
+  const fromTechnicianId = ticket.assignToTechnicianId;
+  const fromTeamLeaderId = ticket.assignToTeamLeaderId;
+  const toTechnicianId = requestedTechnicianId ?? fromTechnicianId;
+  const toTeamLeaderId = requestedTeamLeaderId ?? fromTeamLeaderId;
+  const technicianChanged = Number(toTechnicianId) !== Number(fromTechnicianId);
+  const teamLeaderChanged = Number(toTeamLeaderId) !== Number(fromTeamLeaderId);
+  if (!technicianChanged && !teamLeaderChanged) {
+    throw new AppError('The ticket is already assigned to these users', 400, 'VALIDATION_ERROR');
+  }
+
+  const {companyId} = ticket;
+  if (teamLeaderChanged) {
+    await assertValidTeamLeader(companyId, toTeamLeaderId);
+  }
+  const technician = technicianChanged ? await assertValidTechnician(companyId, toTechnicianId) : null;
+
+  // The new technician must be free in the ticket slot, Admins can force it with allowOverlap
+  let overlappingTickets: Ticket[] = [];
+  if (technicianChanged) {
+    overlappingTickets = await assertTechnicianAvailable(
+      {
+        excludeTicketId: ticket.id,
+        technicianId: toTechnicianId,
+        ticketDate: ticket.ticketDate,
+        ticketTimeFrom: ticket.ticketTimeFrom,
+        ticketTimeTo: ticket.ticketTimeTo,
+      },
+      user.userRoleId,
+      req.body.allowOverlap === true
+    );
+  }
+
+  const source = getRequestSource(req);
+  const reassignment = await TicketReassignment.sequelize!.transaction(async transaction => {
+    await ticket.update(
+      { assignToTeamLeaderId: toTeamLeaderId, assignToTechnicianId: toTechnicianId, updatedBy: user.id },
+      { transaction }
+    );
+
+    const created = await TicketReassignment.create(
+      {
+        createdBy: user.id,
+        fromTeamLeaderId,
+        fromTechnicianId,
+        reasonCode: reason.reasonCode,
+        reasonNote: reason.reasonNote,
+        ticketId: ticket.id,
+        toTeamLeaderId,
+        toTechnicianId,
+        updatedBy: user.id,
+      },
+      { transaction }
+    );
+
+    const changes: TicketFieldChange[] = [];
+    if (teamLeaderChanged) {
+      changes.push({ field: 'assignToTeamLeaderId', newValue: toTeamLeaderId, oldValue: fromTeamLeaderId });
+    }
+    if (technicianChanged) {
+      changes.push({ field: 'assignToTechnicianId', newValue: toTechnicianId, oldValue: fromTechnicianId });
+    }
+    changes.push({ field: 'reassignmentReason', newValue: reason, oldValue: null });
+
+    await recordTicketHistory({
+      action: TicketHistoryAction.REASSIGNED,
+      actorId: user.id,
+      changes,
+      source,
+      ticketId: ticket.id,
+      transaction,
+    });
+
+    // Record the double booking an admin forced with allowOverlap
+    if (overlappingTickets.length > 0) {
+      await recordTicketHistory({
+        action: TicketHistoryAction.SCHEDULE_OVERLAP_OVERRIDDEN,
+        actorId: user.id,
+        changes: [
+          { field: 'overlappingTickets', newValue: overlappingTickets.map(conflict => conflict.ticketCodeId), oldValue: null },
+        ],
+        source,
+        ticketId: ticket.id,
+        transaction,
+      });
+    }
+
+    return created;
+  });
+
+  if (technicianChanged) {
+    const data = { reasonCode: reason.reasonCode, ticketId: String(ticket.id), type: 'TICKET_REASSIGNED' };
+    if (fromTechnicianId && fromTechnicianId !== user.id) {
+      await notifyUsers([fromTechnicianId], {
+        body: `Ticket ${ticket.ticketCodeId} was reassigned to ${technician?.fullName ?? 'another technician'}`,
+        data,
+        title: 'Ticket reassigned',
+      });
+    }
+    if (toTechnicianId !== user.id) {
+      await notifyUsers([toTechnicianId], {
+        body: `Ticket ${ticket.ticketCodeId} was assigned to you: ${ticket.ticketTitle}`,
+        data,
+        title: 'New ticket assigned',
+      });
+    }
+  }
+
+  await reassignment.reload({ include: REASSIGNMENT_INCLUDE });
+
+  res.status(200).json({
+    success: true,
+    message: 'Ticket reassigned successfully',
+    data: formatReassignment(reassignment),
+  });
+});
@@ -0,0 +1,55 @@
+import { Response } from 'express';
+
+import { File } from '../../db/models/file.model';
+import { Lookup } from '../../db/models/lookup.model';
+import { TicketSignOff } from '../../db/models/ticket-sign-off.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AppError, asyncHandler } from '../middleware/error.middleware';
+import { findAccessibleTicket, getRequestSource, parseTicketId } from '../services/ticket/ticket-access.service';
+import { formatSignOff, saveSignOff, validateSignOff } from '../services/ticket/ticket-sign-off.service';
+import { changeTicketStatus } from '../services/ticket/ticket-transition.service';
+import { formatStatus, runTransitionEffects, TicketStatusCode } from '../services/ticket/ticket-workflow.service';
+
+/**
+ * Complete a ticket with the customer's sign-off
+ * POST /api/v1/tickets/:id/complete
+ * Body: { signatureFileId, signerName, rating (1-5), comment? }
+ * The sign-off and the move to Completed are saved in one transaction, the signature image must be uploaded to the
+ * ticket first by the same user
+ */
+export const completeTicket = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticketId = parseTicketId(req.params.id);
+  const source = getRequestSource(req);
+
+  const ticket = await findAccessibleTicket(user, ticketId, [{ model: Lookup, as: 'ticketStatusLookup', required: false }]);
+  if (ticket.ticketStatusLookup?.code === TicketStatusCode.COMPLETED) {
+    throw new AppError('Ticket is already completed', 409, 'INVALID_STATUS_TRANSITION', {
+      currentStatus: formatStatus(ticket.ticketStatusLookup),
+    });
+  }
+
+  const input = await validateSignOff(user, ticket, req.body);
+
+  const { signOff, statusTransition } = await TicketSignOff.sequelize!.transaction(async transaction => {
+    const transition = await changeTicketStatus(ticket, TicketStatusCode.COMPLETED, user, source, transaction);
+    const saved = await saveSignOff(ticket, input, user.id, source, transaction);
+    return { signOff: saved, statusTransition: transition };
+  });
+
+  if (statusTransition) {
+    await runTransitionEffects(ticket, statusTransition, user.id);
+  }
+
+  await signOff.reload({ include: [{ model: File, as: 'signatureFile', required: false }] });
+
+  res.status(200).json({
+    success: true,
+    message: 'Ticket completed successfully',
+    data: {
+      ticketId: ticket.id,
+      ticketStatus: statusTransition ? formatStatus(statusTransition.toStatus) : null,
+      signOff: formatSignOff(signOff),
+    },
+  });
+});
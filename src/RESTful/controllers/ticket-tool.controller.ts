@@ -0,0 +1,242 @@
+import { Response } from 'express';
+import { Op } from 'sequelize';
+
+import { BranchTool } from '../../db/models/branch-tool.model';
+import { Lookup } from '../../db/models/lookup.model';
+import { TicketHistoryAction } from '../../db/models/ticket-history.model';
+import { TicketToolCheckout } from '../../db/models/ticket-tool-checkout.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AppError, asyncHandler } from '../middleware/error.middleware';
+import { findAccessibleTicket, getRequestSource, isTechnicianRole, parseTicketId } from '../services/ticket/ticket-access.service';
+import { recordTicketHistory } from '../services/ticket/ticket-history.service';
+import { TicketStatusCode } from '../services/ticket/ticket-workflow.service';
+import {
+  formatToolCheckout,
+  getCheckedOutQuantities,
+  MAX_SERIAL_NUMBER_LENGTH,
+  TOOL_CHECKOUT_INCLUDE,
+} from '../services/tool/tool-inventory.service';
+import { RoleId } from '../types/user.types';
+
+// Tools cannot be checked out for tickets in these statuses
+const CLOSED_STATUS_CODES: string[] = [TicketStatusCode.COMPLETED, TicketStatusCode.CANCELLED];
+
+/**
+ * Technicians check tools out for their own tickets, Admins and Team Leaders on behalf of the ticket technician
+ */
+const requireToolHandler = (user: any) => {
+  const canHandle =
+    isTechnicianRole(user.userRoleId) || user.userRoleId === RoleId.ADMIN || user.userRoleId === RoleId.TEAM_LEADER;
+  if (!canHandle) {
+    throw new AppError('Forbidden: Only technicians, Team Leaders and Admins can check tools out', 403, 'FORBIDDEN');
+  }
+};
+
+/**
+ * Get the tools checked out for a ticket (open and returned)
+ * GET /api/v1/tickets/:id/tool-checkouts
+ */
+export const getTicketToolCheckouts = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticket = await findAccessibleTicket(user, parseTicketId(req.params.id));
+
+  const checkouts = await TicketToolCheckout.findAll({
+    where: { isDeleted: false, ticketId: ticket.id },
+    include: TOOL_CHECKOUT_INCLUDE,
+    order: [['checkedOutAt', 'ASC'], ['id', 'ASC']],
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Ticket tool checkouts retrieved successfully',
+    data: checkouts.map(formatToolCheckout),
+  });
+});
+
+/**
+ * Check a tool out of the ticket branch inventory for the ticket technician
+ * POST /api/v1/tickets/:id/tool-checkouts
+ * Body: { toolId, quantity? (default 1), serialNumber? (required when the branch tracks serial numbers) }
+ * Fails with 409 TOOL_UNAVAILABLE when not enough units (or the serial number) are available
+ */
+export const checkOutTool = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  requireToolHandler(user);
+
+  const ticket = await findAccessibleTicket(user, parseTicketId(req.params.id), [
+    { model: Lookup, as: 'ticketStatusLookup', required: false },
+  ]);
+  if (CLOSED_STATUS_CODES.includes(ticket.ticketStatusLookup?.code ?? '')) {
+    throw new AppError('Tools cannot be checked out for a completed or cancelled ticket', 409, 'INVALID_TICKET_STATUS');
+  }
+
+  const toolId = Number(req.body.toolId);
+  if (!Number.isInteger(toolId) || toolId <= 0) {
+    throw new AppError('toolId is required', 400, 'VALIDATION_ERROR');
+  }
+  const quantity = req.body.quantity !== undefined ? Number(req.body.quantity) : 1;
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new AppError('quantity must be a whole number greater than 0', 400, 'VALIDATION_ERROR');
+  }
+  const serialNumber = typeof req.body.serialNumber === 'string' ? req.body.serialNumber.trim() || null : null;
+  if (serialNumber && serialNumber.length > MAX_SERIAL_NUMBER_LENGTH) {
+    throw new AppError(`serialNumber must not exceed ${MAX_SERIAL_NUMBER_LENGTH} characters`, 400, 'VALIDATION_ERROR');
+  }
+
+  const technicianId = isTechnicianRole(user.userRoleId) ? user.id : ticket.assignToTechnicianId;
+
+  const checkout = await TicketToolCheckout.sequelize!.transaction(async transaction => {
+    // Lock the inventory line so concurrent checkouts cannot take the same units
+    const branchTool = await BranchTool.findOne({
+      where: { branchId: ticket.branchId, isDeleted: false, toolId },
+      include: [{ model: Lookup, as: 'tool', required: false, attributes: ['id', 'name'] }],
+      lock: transaction.LOCK.UPDATE,
+      transaction,
+    });
+    if (!branchTool) {
+      throw new AppError('The tool is not in the inventory of the ticket branch', 404, 'NOT_FOUND');
+    }
+
+    const serialNumbers = branchTool.serialNumbers ?? [];
+    if (serialNumbers.length > 0) {
+      if (!serialNumber || quantity !== 1) {
+        throw new AppError('The branch tracks serial numbers, check out one unit with its serialNumber', 400, 'VALIDATION_ERROR');
+      }
+      if (!serialNumbers.includes(serialNumber)) {
+        throw new AppError('Unknown serial number for this tool', 400, 'VALIDATION_ERROR');
+      }
+      const holder = await TicketToolCheckout.findOne({
+        where: { branchToolId: branchTool.id, isDeleted: false, returnedAt: null, serialNumber },
+        transaction,
+      });
+      if (holder) {
+        throw new AppError(`Unit ${serialNumber} is already checked out`, 409, 'TOOL_UNAVAILABLE', {
+          checkoutId: holder.id,
+          technicianId: holder.technicianId,
+          ticketId: holder.ticketId,
+        });
+      }
+    } else if (serialNumber) {
+      throw new AppError('The branch does not track serial numbers for this tool', 400, 'VALIDATION_ERROR');
+    }
+
+    const checkedOut = (await getCheckedOutQuantities([branchTool.id], transaction)).get(branchTool.id) ?? 0;
+    const available = Math.max(branchTool.quantity - checkedOut, 0);
+    if (quantity > available) {
+      throw new AppError(
+        `Only ${available} unit(s) of ${branchTool.tool?.name ?? 'the tool'} are available`,
+        409,
+        'TOOL_UNAVAILABLE',
+        { available, checkedOut, quantity: branchTool.quantity }
+      );
+    }
+
+    const created = await TicketToolCheckout.create(
+      {
+        branchToolId: branchTool.id,
+        checkedOutAt: new Date(),
+        createdBy: user.id,
+        quantity,
+        serialNumber,
+        technicianId,
+        ticketId: ticket.id,
+        updatedBy: user.id,
+      },
+      { transaction }
+    );
+
+    await recordTicketHistory({
+      action: TicketHistoryAction.TOOL_CHECKED_OUT,
+      actorId: user.id,
+      changes: [
+        {
+          field: 'tool',
+          newValue: { checkoutId: created.id, quantity, serialNumber, technicianId, toolId },
+          oldValue: null,
+        },
+      ],
+      source: getRequestSource(req),
+      ticketId: ticket.id,
+      transaction,
+    });
+
+    return created;
+  });
+
+  await checkout.reload({ include: TOOL_CHECKOUT_INCLUDE });
+
+  res.status(201).json({
+    success: true,
+    message: 'Tool checked out successfully',
+    data: formatToolCheckout(checkout),
+  });
+});
+
+/**
+ * Return a checked out tool
+ * POST /api/v1/tickets/:id/tool-checkouts/:checkoutId/return
+ * Technicians return the tools they hold, Admins and Team Leaders any tool of the ticket
+ */
+export const returnTool = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  requireToolHandler(user);
+
+  const ticket = await findAccessibleTicket(user, parseTicketId(req.params.id));
+  const checkoutId = parseInt(req.params.checkoutId);
+  if (isNaN(checkoutId)) {
+    throw new AppError('Invalid checkout ID', 400, 'VALIDATION_ERROR');
+  }
+
+  const checkout = await TicketToolCheckout.findOne({
+    where: {
+      id: checkoutId,
+      isDeleted: false,
+      ticketId: ticket.id,
+      ...(isTechnicianRole(user.userRoleId) ? { technicianId: user.id } : {}),
+    },
+    include: TOOL_CHECKOUT_INCLUDE,
+  });
+  if (!checkout) {
+    throw new AppError('Tool checkout not found', 404, 'NOT_FOUND');
+  }
+
+  await TicketToolCheckout.sequelize!.transaction(async transaction => {
+    // Only one of concurrent returns updates the checkout
+    const [returned] = await TicketToolCheckout.update(
+      { returnedAt: new Date(), returnedBy: user.id, updatedBy: user.id },
+      { where: { id: checkout.id, returnedAt: { [Op.is]: null } }, transaction }
+    );
+    if (returned === 0) {
+      throw new AppError('The tool was already returned', 409, 'TOOL_ALREADY_RETURNED');
+    }
+
+    await recordTicketHistory({
+      action: TicketHistoryAction.TOOL_RETURNED,
+      actorId: user.id,
+      changes: [
+        {
+          field: 'tool',
+          newValue: null,
+          oldValue: {
+            checkoutId: checkout.id,
+            quantity: checkout.quantity,
+            serialNumber: checkout.serialNumber,
+            technicianId: checkout.technicianId,
+            toolId: checkout.branchTool?.toolId,
+          },
+        },
+      ],
+      source: getRequestSource(req),
+      ticketId: ticket.id,
+      transaction,
+    });
+  });
+
+  await checkout.reload({ include: TOOL_CHECKOUT_INCLUDE });
+
+  res.status(200).json({
+    success: true,
+    message: 'Tool returned successfully',
+    data: formatToolCheckout(checkout),
+  });
+});
@@ -0,0 +1,266 @@
+import { Response } from 'express';
+
+import { File, FileEntityType } from '../../db/models/file.model';
+import { TicketHistoryAction } from '../../db/models/ticket-history.model';
+import { TicketVisit } from '../../db/models/ticket-visit.model';
+import { Ticket } from '../../db/models/ticket.model';
+import { User } from '../../db/models/user.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AppError, asyncHandler } from '../middleware/error.middleware';
+import { notifyUsers } from '../services/notification/notification.service';
+import {
+  findAccessibleTicket,
+  findOwnTicketUpload,
+  getRequestSource,
+  isTechnicianRole,
+  parseTicketId,
+} from '../services/ticket/ticket-access.service';
+import { recordTicketHistory } from '../services/ticket/ticket-history.service';
+import { saveSignOff, validateSignOff } from '../services/ticket/ticket-sign-off.service';
+import { changeTicketStatus } from '../services/ticket/ticket-transition.service';
+import {
+  findOpenVisit,
+  formatTicketVisit,
+  getSiteDistance,
+  parseGeoPoint,
+  SiteDistance,
+} from '../services/ticket/ticket-visit.service';
+import { runTransitionEffects, TicketStatusCode } from '../services/ticket/ticket-workflow.service';
+
+const VISIT_INCLUDE = [{ model: User, as: 'technician', required: false, attributes: ['id', 'fullName', 'userNumber'] }];
+
+/**
+ * Only the technician assigned to the ticket can check in and out
+ */
+const requireAssignedTechnician = (user: any, ticket: Ticket): void => {
+  if (!isTechnicianRole(user.userRoleId) || ticket.assignToTechnicianId !== user.id) {
+    throw new AppError('Only the technician assigned to this ticket can check in and out', 403, 'FORBIDDEN');
+  }
+};
+
+/**
+ * Validate the optional visit photo, returns its ID
+ * The photo is a file the technician uploaded to the ticket (see findOwnTicketUpload), it is then moved from the
+ * ticket to the visit
+ */
+const validateVisitPhoto = async (user: any, ticket: Ticket, fileId: any): Promise<number | null> => {
+  if (fileId === undefined || fileId === null || fileId === '') {
+    return null;
+  }
+
+  const photo = await findOwnTicketUpload(user, ticket, fileId);
+  if (!photo) {
+    throw new AppError('Photo was not found on this ticket', 400, 'VALIDATION_ERROR');
+  }
+  return photo.id;
+};
+
+/**
+ * Notify the team leader of a check-in or check-out away from the ticket location
+ */
+const notifyTooFar = async (ticket: Ticket, user: any, action: string, distance: SiteDistance): Promise<void> => {
+  if (!distance.tooFar) {
+    return;
+  }
+
+  await notifyUsers([ticket.assignToTeamLeaderId], {
+    body: `${user.fullName} ${action} ${distance.distanceMeters} m away from the location of ticket ${ticket.ticketCodeId}`,
+    data: { ticketId: String(ticket.id), type: 'VISIT_TOO_FAR' },
+    title: 'Technician away from site',
+  });
+};
+
+/**
+ * Get the on-site visits of a ticket (newest first)
+ * GET /api/v1/tickets/:id/visits
+ */
+export const getTicketVisits = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticketId = parseTicketId(req.params.id);
+
+  const ticket = await findAccessibleTicket(user, ticketId);
+
+  const visits = await TicketVisit.findAll({
+    where: { isDeleted: false, ticketId: ticket.id },
+    include: VISIT_INCLUDE,
+    order: [['checkInAt', 'DESC'], ['id', 'DESC']],
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Ticket visits retrieved successfully',
+    data: visits.map(formatTicketVisit),
+  });
+});
+
+/**
+ * Check in on site, called by the mobile app when the assigned technician arrives
+ * POST /api/v1/tickets/:id/check-in
+ * Body: { latitude, longitude, fileId? }
+ * Moves a Pending ticket to In Progress; the location is compared with the ticket's locationMap and check-ins
+ * further than VISIT_MAX_DISTANCE_METERS are flagged (tooFar) and reported to the team leader
+ */
+export const checkIn = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticketId = parseTicketId(req.params.id);
+  const source = getRequestSource(req);
+
+  const ticket = await findAccessibleTicket(user, ticketId);
+  requireAssignedTechnician(user, ticket);
+
+  const point = parseGeoPoint(req.body);
+  const photoFileId = await validateVisitPhoto(user, ticket, req.body.fileId);
+
+  const openVisit = await findOpenVisit(ticket.id, user.id);
+  if (openVisit) {
+    throw new AppError('You are already checked in on this ticket', 409, 'ALREADY_CHECKED_IN', {
+      visitId: openVisit.id,
+    });
+  }
+
+  const distance = getSiteDistance(ticket.locationMap, point);
+
+  const { statusTransition, visit } = await TicketVisit.sequelize!.transaction(async transaction => {
+    const created = await TicketVisit.create(
+      {
+        checkInAt: new Date(),
+        checkInDistanceMeters: distance.distanceMeters,
+        checkInLatitude: point.latitude,
+        checkInLongitude: point.longitude,
+        checkInPhotoFileId: photoFileId,
+        checkInTooFar: distance.tooFar,
+        createdBy: user.id,
+        technicianId: user.id,
+        ticketId: ticket.id,
+        updatedBy: user.id,
+      },
+      { transaction }
+    );
+
+    if (photoFileId) {
+      await File.update(
+        { entityId: created.id, entityType: FileEntityType.TICKET_VISIT },
+        { where: { id: photoFileId }, transaction }
+      );
+    }
+
+    const transition = await changeTicketStatus(ticket, TicketStatusCode.IN_PROGRESS, user, source, transaction);
+
+    await recordTicketHistory({
+      action: TicketHistoryAction.CHECKED_IN,
+      actorId: user.id,
+      changes: [
+        {
+          field: 'visit',
+          newValue: { distanceMeters: distance.distanceMeters, tooFar: distance.tooFar, visitId: created.id },
+          oldValue: null,
+        },
+      ],
+      source,
+      ticketId: ticket.id,
+      transaction,
+    });
+
+    return { statusTransition: transition, visit: created };
+  });
+
+  if (statusTransition) {
+    await runTransitionEffects(ticket, statusTransition, user.id);
+  }
+  await notifyTooFar(ticket, user, 'checked in', distance);
+
+  await visit.reload({ include: VISIT_INCLUDE });
+
+  res.status(201).json({
+    success: true,
+    message: distance.tooFar ? 'Checked in, but the location is far from the ticket site' : 'Checked in successfully',
+    data: formatTicketVisit(visit),
+  });
+});
+
+/**
+ * Check out from site, called by the mobile app when the assigned technician leaves
+ * POST /api/v1/tickets/:id/check-out
+ * Body: { latitude, longitude, fileId?, completed?, signOff? }
+ * Completes the ticket unless completed is false (the work needs another visit), a completion requires the customer
+ * sign-off ({ signatureFileId, signerName, rating, comment? }, see POST /tickets/:id/complete) which is saved with it
+ */
+export const checkOut = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticketId = parseTicketId(req.params.id);
+  const source = getRequestSource(req);
+
+  const ticket = await findAccessibleTicket(user, ticketId);
+  requireAssignedTechnician(user, ticket);
+
+  const point = parseGeoPoint(req.body);
+  const photoFileId = await validateVisitPhoto(user, ticket, req.body.fileId);
+  const completed = req.body.completed !== false && req.body.completed !== 'false';
+  const signOff = completed ? await validateSignOff(user, ticket, req.body.signOff) : null;
+
+  const visit = await findOpenVisit(ticket.id, user.id);
+  if (!visit) {
+    throw new AppError('You are not checked in on this ticket', 409, 'NOT_CHECKED_IN');
+  }
+
+  const distance = getSiteDistance(ticket.locationMap, point);
+
+  const statusTransition = await TicketVisit.sequelize!.transaction(async transaction => {
+    await visit.update(
+      {
+        checkOutAt: new Date(),
+        checkOutDistanceMeters: distance.distanceMeters,
+        checkOutLatitude: point.latitude,
+        checkOutLongitude: point.longitude,
+        checkOutPhotoFileId: photoFileId,
+        checkOutTooFar: distance.tooFar,
+        updatedBy: user.id,
+      },
+      { transaction }
+    );
+
+    if (photoFileId) {
+      await File.update(
+        { entityId: visit.id, entityType: FileEntityType.TICKET_VISIT },
+        { where: { id: photoFileId }, transaction }
+      );
+    }
+
+    const transition = completed
+      ? await changeTicketStatus(ticket, TicketStatusCode.COMPLETED, user, source, transaction)
+      : null;
+    if (signOff) {
+      await saveSignOff(ticket, signOff, user.id, source, transaction);
+    }
+
+    await recordTicketHistory({
+      action: TicketHistoryAction.CHECKED_OUT,
+      actorId: user.id,
+      changes: [
+        {
+          field: 'visit',
+          newValue: { distanceMeters: distance.distanceMeters, tooFar: distance.tooFar, visitId: visit.id },
+          oldValue: null,
+        },
+      ],
+      source,
+      ticketId: ticket.id,
+      transaction,
+    });
+
+    return transition;
+  });
+
+  if (statusTransition) {
+    await runTransitionEffects(ticket, statusTransition, user.id);
+  }
+  await notifyTooFar(ticket, user, 'checked out', distance);
+
+  await visit.reload({ include: VISIT_INCLUDE });
+
+  res.status(200).json({
+    success: true,
+    message: 'Checked out successfully',
+    data: formatTicketVisit(visit),
+  });
+});
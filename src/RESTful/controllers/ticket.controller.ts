@@ -1,51 +1,93 @@
 import { Response } from 'express';
 import fs from 'fs';
 import path from 'path';
-import { Op } from 'sequelize';
+import { Op, Transaction } from 'sequelize';
 
+import { AdditionalWork } from '../../db/models/additional-work.model';
 import { Branch } from '../../db/models/branch.model';
-import { Company } from '../../db/models/company.model';
 import { Contract } from '../../db/models/contract.model';
 import { File } from '../../db/models/file.model';
 import { Lookup, LookupCategory } from '../../db/models/lookup.model';
+import { TicketHistoryAction } from '../../db/models/ticket-history.model';
+import { TicketSignOff } from '../../db/models/ticket-sign-off.model';
 import { Ticket } from '../../db/models/ticket.model';
 import { User } from '../../db/models/user.model';
 import { Zone } from '../../db/models/zone.model';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { AppError, asyncHandler } from '../middleware/error.middleware';
+import { assertContractValidForTicket } from '../services/contract/contract-validity.service';
+import {
+  createSpreadsheetWriter,
+  SPREADSHEET_CONTENT_TYPES,
+  SpreadsheetFormat,
+} from '../services/spreadsheet/spreadsheet.service';
+import {
+  findAccessibleTicket,
+  getRequestSource,
+  isTechnicianRole,
+  parseTicketId,
+  requireCompanyId,
+} from '../services/ticket/ticket-access.service';
+import { findTicketAdditionalWorks, formatAdditionalWork } from '../services/ticket/ticket-additional-work.service';
+import { pickTechnician } from '../services/ticket/ticket-assignment.service';
+import { getLatestTicketComments } from '../services/ticket/ticket-comment.service';
+import {
+  insertTicket,
+  lockCompanyTickets,
+  NewTicketInput,
+  validateNewTicket,
+} from '../services/ticket/ticket-creation.service';
+import { findTicketEscalations, formatEscalation } from '../services/ticket/ticket-escalation.service';
+import { getCompanyLocale, writeTicketExport } from '../services/ticket/ticket-export.service';
+import { recordTicketHistory, recordTicketUpdate, snapshotTicket } from '../services/ticket/ticket-history.service';
+import { findTicketMaterials, formatTicketMaterial, summarizeMaterials } from '../services/ticket/ticket-material.service';
+import {
+  buildTicketListWhere,
+  countTicketsByType,
+  findTicketType,
+  parseTicketSort,
+} from '../services/ticket/ticket-query.service';
+import { assertTicketQuota, QuotaViolation } from '../services/ticket/ticket-quota.service';
+import { assertTechnicianAvailable, toDateOnly } from '../services/ticket/ticket-scheduling.service';
+import { formatSignOff } from '../services/ticket/ticket-sign-off.service';
+import { applySlaTransition, computeSlaDueTimes, getTicketSla } from '../services/ticket/ticket-sla.service';
+import { buildTicketStatistics } from '../services/ticket/ticket-statistics.service';
+import {
+  assertValidSubServices,
+  getSubServicesByTicket,
+  getTicketSubServiceIds,
+  parseSubServiceIds,
+  saveTicketSubServices,
+} from '../services/ticket/ticket-sub-service.service';
+import {
+  findStatusByCode,
+  formatStatus,
+  getAvailableNextStatuses,
+  getTicketStatusLookups,
+  ResolvedTicketTransition,
+  resolveTransition,
+  runTransitionEffects,
+  TicketStatusCode,
+} from '../services/ticket/ticket-workflow.service';
+import { assertValidToolIds, findUnavailableTools } from '../services/tool/tool-inventory.service';
+import { RoleId } from '../types/user.types';
 
 
 /**
  * Get tickets for the logged-in company admin's company
  * Filters tickets by companyId and groups by ticket type (Corrective, Preventive, Emergency)
+ * GET /api/v1/tickets?page=1&limit=20&ticketStatusId=109,110&search=AC&sort=-ticketDate
+ * See buildTicketListWhere for the supported filters and SORTABLE_TICKET_FIELDS for the sort fields
+ * Per-type totals are counted across the whole filtered set, the per-type ticket lists only contain the current page
  */
 export const getCompanyTickets = asyncHandler(async (req: AuthRequest, res: Response) => {
   const {user} = req;
 
-  if (!user) {
-    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
-  }
-
-  // Get companyId from the logged-in user
-  const {companyId} = user;
-
-  if (!companyId) {
-    throw new AppError('User is not associated with a company', 400, 'VALIDATION_ERROR');
-  }
-
   // Role-based filtering:
   // - Technicians (roleId 21) and Sub-Technicians (roleId 22) can only see tickets assigned to them
   // - Admins (roleId 18) and Team Leaders (roleId 20) can see all company tickets
-  const isTechnician = user.userRoleId === 21 || user.userRoleId === 22;
-  const whereClause: any = {
-    companyId,
-    isDeleted: false,
-  };
-
-  // If user is a Technician, filter to show only tickets assigned to them
-  if (isTechnician) {
-    whereClause.assignToTechnicianId = user.id;
-  }
+  const whereClause = buildTicketListWhere(user, req.query);
+  const order = parseTicketSort(req.query.sort);
 
   // Get ticket type lookups
   const ticketTypes = await Lookup.findAll({
@@ -56,19 +98,18 @@ export const getCompanyTickets = asyncHandler(async (req: AuthRequest, res: Resp
   });
 
   // Find type IDs
-  const correctiveType = ticketTypes.find(t => t.name.toLowerCase() === 'corrective');
-  const preventiveType = ticketTypes.find(t => t.name.toLowerCase() === 'preventive');
-  const emergencyType = ticketTypes.find(t => t.name.toLowerCase() === 'emergency');
+  const correctiveType = findTicketType(ticketTypes, 'CORR', 'corrective');
+  const preventiveType = findTicketType(ticketTypes, 'PREV', 'preventive');
+  const emergencyType = findTicketType(ticketTypes, 'EMRG', 'emergency');
 
   // Get pagination parameters
   const page = parseInt(req.query.page as string) || 1;
   const limit = parseInt(req.query.limit as string) || 20;
   const offset = (page - 1) * limit;
 
-  // Get total count for pagination (with role-based filtering)
-  const totalCount = await Ticket.count({
-    where: whereClause,
-  });
+  // Count the filtered tickets per type in the database
+  const countsByType = await countTicketsByType(whereClause);
+  const totalCount = [...countsByType.values()].reduce((sum, count) => sum + count, 0);
 
   // Fetch tickets for the company with pagination (with role-based filtering)
   const tickets = await Ticket.findAll({
@@ -96,42 +137,35 @@ export const getCompanyTickets = asyncHandler(async (req: AuthRequest, res: Resp
         attributes: ['id', 'fullName', 'userNumber', 'profileImage'],
       },
     ],
-    order: [['createdAt', 'DESC']],
+    order,
     limit,
     offset,
   });
 
-  // Group tickets by type
-  const correctiveTickets = correctiveType
-    ? tickets.filter(t => t.ticketTypeId === correctiveType.id)
-    : [];
-  const preventiveTickets = preventiveType
-    ? tickets.filter(t => t.ticketTypeId === preventiveType.id)
-    : [];
-  const emergencyTickets = emergencyType
-    ? tickets.filter(t => t.ticketTypeId === emergencyType.id)
-    : [];
+  // Sub services of the page's tickets in one query
+  const subServicesByTicket = await getSubServicesByTicket(tickets.map(ticket => ticket.id));
+  const formatListTicket = (ticket: Ticket) => ({
+    ...formatTicket(ticket),
+    subServices: subServicesByTicket.get(ticket.id) ?? [],
+  });
+
+  // Group the current page by type
+  const groupByType = (type?: Lookup) => ({
+    total: type ? countsByType.get(type.id) ?? 0 : 0,
+    tickets: type ? tickets.filter(t => t.ticketTypeId === type.id).map(formatListTicket) : [],
+  });
 
   // Format response
   const response = {
     success: true,
     message: 'Tickets retrieved successfully',
     data: {
-      corrective: {
-        total: correctiveTickets.length,
-        tickets: correctiveTickets.map(formatTicket),
-      },
-      preventive: {
-        total: preventiveTickets.length,
-        tickets: preventiveTickets.map(formatTicket),
-      },
-      emergency: {
-        total: emergencyTickets.length,
-        tickets: emergencyTickets.map(formatTicket),
-      },
+      corrective: groupByType(correctiveType),
+      preventive: groupByType(preventiveType),
+      emergency: groupByType(emergencyType),
       all: {
         total: totalCount,
-        tickets: tickets.map(formatTicket),
+        tickets: tickets.map(formatListTicket),
       },
     },
     pagination: {
@@ -147,182 +181,69 @@ export const getCompanyTickets = asyncHandler(async (req: AuthRequest, res: Resp
 });
 
 /**
- * Get ticket statistics for the company
+ * Export the filtered ticket list as a spreadsheet
+ * GET /api/v1/tickets/export?format=csv|xlsx
+ * Accepts the filters and sort of GET /tickets (see buildTicketListWhere), technicians only export their own tickets
+ * Rows are streamed with lookup, branch, zone and user names resolved and dates formatted in the company's locale
  */
-export const getTicketStatistics = asyncHandler(async (req: AuthRequest, res: Response) => {
+export const exportTickets = asyncHandler(async (req: AuthRequest, res: Response) => {
   const {user} = req;
 
-  if (!user) {
-    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  const format = String(req.query.format || SpreadsheetFormat.CSV).toLowerCase() as SpreadsheetFormat;
+  if (!Object.values(SpreadsheetFormat).includes(format)) {
+    throw new AppError('Invalid format, expected csv or xlsx', 400, 'VALIDATION_ERROR');
   }
 
-  const {companyId} = user;
-
-  if (!companyId) {
-    throw new AppError('User is not associated with a company', 400, 'VALIDATION_ERROR');
+  const whereClause = buildTicketListWhere(user, req.query);
+  const order = parseTicketSort(req.query.sort);
+  const locale = await getCompanyLocale(user.companyId);
+
+  const fileName = `tickets-${toDateOnly(new Date())}.${format}`;
+  res.status(200);
+  res.setHeader('Content-Type', SPREADSHEET_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+  try {
+    const writer = createSpreadsheetWriter(format, res, 'Tickets');
+    await writeTicketExport(writer, whereClause, order, locale);
+    await writer.end();
+  } catch (error) {
+    // Headers are already sent once streaming started, the error can only be logged and the download aborted
+    if (!res.headersSent) {
+      throw error;
+    }
+    console.error(`[exportTickets] Export failed for user ${user.id}: ${error.message}`);
+    res.destroy(error);
   }
+});
 
-  // Get ticket type lookups
-  const ticketTypes = await Lookup.findAll({
-    where: {
-      category: LookupCategory.TICKET_TYPE,
-      isActive: true,
-    },
-  });
-
-  const ticketStatuses = await Lookup.findAll({
-    where: {
-      category: LookupCategory.TICKET_STATUS,
-      isActive: true,
-    },
-  });
-
-  // Find ticket types by name (case-insensitive) - try multiple approaches
-  const correctiveType = ticketTypes.find(t => {
-    const name = t.name.toLowerCase().trim();
-    return name === 'corrective' || name === 'corrective maintenance' || t.code === 'CORR';
-  });
-  const preventiveType = ticketTypes.find(t => {
-    const name = t.name.toLowerCase().trim();
-    return name === 'preventive' || name === 'preventive maintenance' || t.code === 'PREV';
-  });
-  const emergencyType = ticketTypes.find(t => {
-    const name = t.name.toLowerCase().trim();
-    return name === 'emergency' || name === 'emergency maintenance' || t.code === 'EMRG';
-  });
-
-  // Count tickets by type
-  const correctiveCount = correctiveType
-    ? await Ticket.count({
-        where: {
-          companyId,
-          ticketTypeId: correctiveType.id,
-          isDeleted: false,
-        },
-      })
-    : 0;
-
-  const preventiveCount = preventiveType
-    ? await Ticket.count({
-        where: {
-          companyId,
-          ticketTypeId: preventiveType.id,
-          isDeleted: false,
-        },
-      })
-    : 0;
-
-  const emergencyCount = emergencyType
-    ? await Ticket.count({
-        where: {
-          companyId,
-          ticketTypeId: emergencyType.id,
-          isDeleted: false,
-        },
-      })
-    : 0;
-
-  // Get total count for verification
-  const totalCount = await Ticket.count({
-    where: {
-      companyId,
-      isDeleted: false,
-    },
-  });
-
-  // Find "Completed" status
-  const completedStatus = ticketStatuses.find(t => 
-    t.name.toLowerCase().trim() === 'completed'
-  );
-
-  // Count completed tickets by type
-  const correctiveCompleted = correctiveType && completedStatus
-    ? await Ticket.count({
-        where: {
-          companyId,
-          ticketTypeId: correctiveType.id,
-          ticketStatusId: completedStatus.id,
-          isDeleted: false,
-        },
-      })
-    : 0;
-
-  const preventiveCompleted = preventiveType && completedStatus
-    ? await Ticket.count({
-        where: {
-          companyId,
-          ticketTypeId: preventiveType.id,
-          ticketStatusId: completedStatus.id,
-          isDeleted: false,
-        },
-      })
-    : 0;
-
-  const emergencyCompleted = emergencyType && completedStatus
-    ? await Ticket.count({
-        where: {
-          companyId,
-          ticketTypeId: emergencyType.id,
-          ticketStatusId: completedStatus.id,
-          isDeleted: false,
-        },
-      })
-    : 0;
+/**
+ * Get ticket statistics for the company
+ * GET /api/v1/tickets/statistics?from=2025-01-01&to=2025-03-31&interval=week
+ * Accepts the filters of GET /tickets (see buildTicketListWhere), counts cover the whole company for every role, the
+ * technician breakdown of Technicians and Sub-Technicians only holds their own row
+ * Returns counts by type and status, breakdowns by branch, zone, main service, technician and source and a
+ * day / week / month time series (see buildTicketStatistics)
+ */
+export const getTicketStatistics = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
 
-  // Count by status
-  const statusCounts: Record<string, number> = {};
-  for (const status of ticketStatuses) {
-    statusCounts[status.name] = await Ticket.count({
-      where: {
-        companyId,
-        ticketStatusId: status.id,
-        isDeleted: false,
-      },
-    });
-  }
+  const statistics = await buildTicketStatistics(user, req.query);
 
   res.status(200).json({
     success: true,
     message: 'Ticket statistics retrieved successfully',
-    data: {
-      byType: {
-        corrective: {
-          total: correctiveCount,
-          completed: correctiveCompleted,
-        },
-        preventive: {
-          total: preventiveCount,
-          completed: preventiveCompleted,
-        },
-        emergency: {
-          total: emergencyCount,
-          completed: emergencyCompleted,
-        },
-        total: correctiveCount + preventiveCount + emergencyCount,
-      },
-      byStatus: statusCounts,
-    },
+    data: statistics,
   });
 });
 
 /**
- * Get ticket details by ID for the logged-in company user
+ * Load the details of a ticket for the logged-in company user (response data of getTicketById and getTicketByCode)
  * Role-based access control:
  * - Technicians (21) and Sub-Technicians (22) can only view tickets assigned to them
  * - Admins (18) and Team Leaders (20) can view all company tickets
  */
-export const getTicketById = asyncHandler(async (req: AuthRequest, res: Response) => {
-  const {user} = req;
-  const ticketId = parseInt(req.params.id);
-
-  if (!user) {
-    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
-  }
-
-  if (isNaN(ticketId)) {
-    throw new AppError('Invalid ticket ID', 400, 'VALIDATION_ERROR');
-  }
-
+const loadTicketDetails = async (user: any, ticketId: number) => {
   const {companyId} = user;
 
   if (!companyId) {
@@ -477,13 +398,135 @@ export const getTicketById = asyncHandler(async (req: AuthRequest, res: Response
     };
   });
 
+  // Sub services of the main service (MaintenanceService rows with itemType 'ticket')
+  ticketData.subServices = (await getSubServicesByTicket([ticket.id])).get(ticket.id) ?? [];
+
+  // Additional work proposals, newest first
+  ticketData.additionalWork = (await findTicketAdditionalWorks(ticket.id)).map(formatAdditionalWork);
+
+  // Latest comments visible to the user (internal notes are hidden from technicians)
+  ticketData.comments = await getLatestTicketComments(ticket.id, user.userRoleId);
+
+  // Customer sign-off recorded when the ticket was completed
+  const signOff = await TicketSignOff.findOne({
+    where: { ticketId: ticket.id },
+    include: [{ model: File, as: 'signatureFile', required: false }],
+  });
+  ticketData.signOff = formatSignOff(signOff);
+
+  // Material lines with their costs (rejected lines are listed but not counted in the totals)
+  const materials = await findTicketMaterials(ticket.id);
+  ticketData.materials = materials.map(formatTicketMaterial);
+  ticketData.materialTotals = summarizeMaterials(materials);
+
+  // Escalations of emergency tickets left pending (team leader, company admins, Super Users)
+  ticketData.escalations = (await findTicketEscalations(ticket.id)).map(formatEscalation);
+
+  return ticketData;
+};
+
+/**
+ * Get ticket details by ID for the logged-in company user (see loadTicketDetails for the access rules)
+ */
+export const getTicketById = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticketId = parseInt(req.params.id);
+
+  if (!user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  if (isNaN(ticketId)) {
+    throw new AppError('Invalid ticket ID', 400, 'VALIDATION_ERROR');
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Ticket retrieved successfully',
+    data: await loadTicketDetails(user, ticketId),
+  });
+});
+
+/**
+ * Get ticket details by ticket code (e.g., WEFIX-2026-00001), with the same response and access rules as getTicketById
+ * GET /api/v1/tickets/by-code/:code
+ */
+export const getTicketByCode = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+
+  const code = String(req.params.code || '').trim();
+  if (!code) {
+    throw new AppError('Invalid ticket code', 400, 'VALIDATION_ERROR');
+  }
+
+  // Ticket codes are unique within a company
+  const ticket = await Ticket.findOne({
+    where: {
+      companyId,
+      isDeleted: false,
+      ticketCodeId: code,
+      ...(isTechnicianRole(user.userRoleId) ? { assignToTechnicianId: user.id } : {}),
+    },
+    attributes: ['id'],
+  });
+  if (!ticket) {
+    throw new AppError('Ticket not found or access denied', 404, 'NOT_FOUND');
+  }
+
   res.status(200).json({
     success: true,
     message: 'Ticket retrieved successfully',
-    data: ticketData,
+    data: await loadTicketDetails(user, ticket.id),
   });
 });
 
+/**
+ * Record in the ticket history that an admin forced a technician double booking
+ */
+const recordOverlapOverride = async (
+  ticketId: number,
+  overlappingTickets: Ticket[],
+  actorId: number,
+  source: string,
+  transaction?: Transaction
+) => {
+  await recordTicketHistory({
+    action: TicketHistoryAction.SCHEDULE_OVERLAP_OVERRIDDEN,
+    actorId,
+    changes: overlappingTickets.length > 0
+      ? [{ field: 'overlappingTickets', newValue: overlappingTickets.map(conflict => conflict.ticketCodeId), oldValue: null }]
+      : [],
+    source,
+    ticketId,
+    transaction,
+  });
+};
+
+/**
+ * Record in the ticket history that an admin created or moved a ticket beyond its quota
+ */
+const recordQuotaOverride = async (
+  ticketId: number,
+  exceededQuotas: QuotaViolation[],
+  actorId: number,
+  source: string,
+  transaction?: Transaction
+) => {
+  await recordTicketHistory({
+    action: TicketHistoryAction.QUOTA_OVERRIDDEN,
+    actorId,
+    changes: exceededQuotas.map(quota => ({
+      field: `${quota.scope}Quota`,
+      newValue: { allowed: quota.allowed, type: quota.type, used: quota.used + 1 },
+      oldValue: { allowed: quota.allowed, type: quota.type, used: quota.used },
+    })),
+    source,
+    ticketId,
+    transaction,
+  });
+};
+
 /**
  * Helper function to format ticket for response
  */
@@ -533,6 +576,8 @@ function formatTicket(ticket: Ticket): any {
           nameArabic: ticket.ticketStatusLookup.nameArabic,
         }
       : null,
+    // Due times, remaining minutes and breach flags of the response and resolution targets
+    sla: getTicketSla(ticket, ticket.ticketStatusLookup?.code === TicketStatusCode.CANCELLED),
     ticketDate: ticket.ticketDate,
     ticketTimeFrom: ticket.ticketTimeFrom,
     ticketTimeTo: ticket.ticketTimeTo,
@@ -592,6 +637,12 @@ function formatTicket(ticket: Ticket): any {
 /**
  * Create a new ticket
  * Only company admins and team leaders can create tickets
+ * Overlapping tickets of the technician on the same date are rejected with 409 unless an admin sends allowOverlap: true
+ * With autoAssign: true and no assignToTechnicianId, the top free technician suggestion is assigned
+ * Contract and company ticket quotas are enforced with 409 unless an admin sends allowQuotaOverride: true
+ * The contract must be active and cover the ticket date (contractEndDate plus CONTRACT_GRACE_DAYS)
+ * Tools must be in the tool catalog, tools whose units are all checked out in the branch are returned in warnings
+ * subServiceIds must be children of the main service enabled for the company
  */
 export const createTicket = asyncHandler(async (req: AuthRequest, res: Response) => {
   const {user} = req;
@@ -612,8 +663,11 @@ export const createTicket = asyncHandler(async (req: AuthRequest, res: Response)
   }
 
   const {
+    allowOverlap,
+    allowQuotaOverride,
     assignToTeamLeaderId,
-    assignToTechnicianId,
+    assignToTechnicianId: requestedTechnicianId,
+    autoAssign,
     branchId,
     contractId,
     customerName,
@@ -623,6 +677,7 @@ export const createTicket = asyncHandler(async (req: AuthRequest, res: Response)
     locationMap,
     mainServiceId,
     serviceDescription,
+    subServiceIds,
     ticketDate,
     ticketDescription,
     ticketTimeFrom,
@@ -633,165 +688,70 @@ export const createTicket = asyncHandler(async (req: AuthRequest, res: Response)
     zoneId, // Array of file IDs to link to this ticket
   } = req.body;
 
-  // Get ticket type to check if it's Emergency and validate it exists
-  const ticketType = await Lookup.findOne({
-    where: { id: ticketTypeId, category: LookupCategory.TICKET_TYPE, isActive: true },
-  });
-  if (!ticketType) {
-    throw new AppError('Invalid ticket type', 400, 'VALIDATION_ERROR');
-  }
-  
-  const isEmergency = ticketType.name.toLowerCase() === 'emergency' || 
-                      ticketType.code === 'EMRG';
-
-  // Validation - Emergency tickets now have time slots (current time + 120 minutes)
-  // Ticket title is required
-  const missingFields: string[] = [];
-  
-  if (!contractId) missingFields.push('contractId');
-  if (!branchId) missingFields.push('branchId');
-  if (!zoneId) missingFields.push('zoneId');
-  if (!ticketTypeId) missingFields.push('ticketTypeId');
-  if (!ticketDate) missingFields.push('ticketDate');
-  if (!ticketTimeFrom) missingFields.push('ticketTimeFrom');
-  if (!ticketTimeTo) missingFields.push('ticketTimeTo');
-  if (!assignToTeamLeaderId) missingFields.push('assignToTeamLeaderId');
-  if (!assignToTechnicianId) missingFields.push('assignToTechnicianId');
-  if (!mainServiceId) missingFields.push('mainServiceId');
-  if (!ticketTitle || ticketTitle.trim() === '') missingFields.push('ticketTitle');
-  
-  // Validate ticketTitle length (max 100 characters)
-  if (ticketTitle && ticketTitle.trim().length > 100) {
-    throw new AppError(
-      'Ticket Title must not exceed 100 characters',
-      400,
-      'VALIDATION_ERROR'
-    );
-  }
-  
-  // Validate ticketDescription length (max 300 characters)
-  if (ticketDescription && ticketDescription.trim().length > 300) {
-    throw new AppError(
-      'Ticket Description must not exceed 300 characters',
-      400,
-      'VALIDATION_ERROR'
-    );
-  }
-  
-  // Location map and location description are optional (can be null)
-  
-  if (missingFields.length > 0) {
-    throw new AppError(
-      `Missing required fields: ${missingFields.join(', ')}`,
-      400,
-      'VALIDATION_ERROR'
-    );
-  }
-
-  // Role-based validation: Team Leaders CANNOT create tickets for another Team Leader
-  // They can ONLY assign tickets to themselves (their own user ID)
-  if (user.userRoleId === 20 && assignToTeamLeaderId !== user.id) {
-    throw new AppError(
-      'Team Leaders can only create tickets assigned to themselves. You cannot assign tickets to another Team Leader.',
-      403,
-      'FORBIDDEN'
-    );
-  }
-
-  // Verify contract belongs to user's company
-  const contract = await Contract.findByPk(contractId);
-  if (!contract || contract.companyId !== companyId) {
-    throw new AppError('Invalid contract or contract does not belong to your company', 400, 'VALIDATION_ERROR');
-  }
-
-  // Verify branch belongs to user's company
-  const branch = await Branch.findByPk(branchId);
-  if (!branch || branch.companyId !== companyId) {
-    throw new AppError('Invalid branch or branch does not belong to your company', 400, 'VALIDATION_ERROR');
-  }
-
-  // Verify zone belongs to the branch
-  const zone = await Zone.findByPk(zoneId);
-  if (!zone || zone.branchId !== branchId) {
-    throw new AppError('Invalid zone or zone does not belong to the selected branch', 400, 'VALIDATION_ERROR');
-  }
-
-  // Verify Team Leader belongs to user's company and has Team Leader role
-  const teamLeader = await User.findOne({
-    where: { id: assignToTeamLeaderId, companyId, isDeleted: false },
-    include: [{ model: Lookup, as: 'userRoleLookup', required: false }],
-  });
-  if (!teamLeader) {
-    throw new AppError('Team Leader not found or does not belong to your company', 400, 'VALIDATION_ERROR');
-  }
-  if (teamLeader.userRoleId !== 20) {
-    throw new AppError('Assigned user is not a Team Leader', 400, 'VALIDATION_ERROR');
-  }
-
-  // Verify Technician belongs to user's company and has Technician role
-  const technician = await User.findOne({
-    where: { id: assignToTechnicianId, companyId, isDeleted: false },
-    include: [{ model: Lookup, as: 'userRoleLookup', required: false }],
-  });
-  if (!technician) {
-    throw new AppError('Technician not found or does not belong to your company', 400, 'VALIDATION_ERROR');
-  }
-  // Technician role ID is typically 21 or 22 (check your lookup table)
-  // For now, we'll just verify they're not a Team Leader or Admin
-  if (technician.userRoleId === 18 || technician.userRoleId === 20) {
-    throw new AppError('Assigned user cannot be an Admin or Team Leader', 400, 'VALIDATION_ERROR');
-  }
-
-  // Ticket type already verified above
-
-  // Get default status (usually "Pending")
-  const defaultStatus = await Lookup.findOne({
-    where: { category: LookupCategory.TICKET_STATUS, isDefault: true, isActive: true },
-  });
-  if (!defaultStatus) {
-    throw new AppError('Default ticket status not found', 500, 'INTERNAL_ERROR');
-  }
-
-  // Get company for ticket code generation
-  const company = await Company.findByPk(companyId);
-  if (!company) {
-    throw new AppError('Company not found', 400, 'VALIDATION_ERROR');
+  // Pick the best free technician when autoAssign is requested without a technician (see ticket-assignment.service)
+  let assignToTechnicianId = requestedTechnicianId;
+  let autoAssigned = false;
+  if (autoAssign === true && !assignToTechnicianId && ticketDate && ticketTimeFrom && ticketTimeTo) {
+    const candidate = await pickTechnician({
+      branchId,
+      companyId,
+      havingFemaleEngineer: havingFemaleEngineer === true,
+      mainServiceId,
+      ticketDate,
+      ticketTimeFrom,
+      ticketTimeTo,
+      zoneId,
+    });
+    if (!candidate) {
+      throw new AppError('No technician is available for the selected time slot', 409, 'NO_TECHNICIAN_AVAILABLE');
+    }
+    assignToTechnicianId = candidate.technician.id;
+    autoAssigned = true;
   }
 
-  // Create ticket first (we need the ticket ID to generate the code)
-  const ticket = await Ticket.create({
-    ticketCodeId: 'TEMP', // Temporary value, will be updated after creation
-    companyId,
-    contractId,
-    branchId,
-    zoneId,
-    locationMap: locationMap || null, // Optional field
-    ticketTitle: ticketTitle || '', // Required field
-    ticketTypeId,
-    ticketStatusId: defaultStatus.id,
-    ticketDate,
-    ticketTimeFrom, // Emergency tickets now have time slots (current time + 120 minutes)
-    ticketTimeTo, // Emergency tickets now have time slots (current time + 120 minutes)
+  const input: NewTicketInput = {
     assignToTeamLeaderId,
     assignToTechnicianId,
-    ticketDescription: ticketDescription || '',
-    havingFemaleEngineer: havingFemaleEngineer || false,
-    customerName: customerName || null,
-    withMaterial: withMaterial || false,
+    branchId,
+    contractId,
+    customerName,
+    havingFemaleEngineer,
+    locationMap,
     mainServiceId,
-    serviceDescription: serviceDescription || null,
-    tools: tools || null,
-    source: 'Mobile', // Set source to Mobile for tickets created from mobile app (backend-mms)
-    createdBy: user.id,
+    serviceDescription,
+    subServiceIds: parseSubServiceIds(subServiceIds),
+    ticketDate,
+    ticketDescription,
+    ticketTimeFrom,
+    ticketTimeTo,
+    ticketTitle,
+    ticketTypeId,
+    tools,
+    withMaterial,
+    zoneId,
+  };
+
+  // Set source to Mobile for tickets created from mobile app (backend-mms)
+  const source = getRequestSource(req);
+
+  // Validate and insert in one transaction, the quota and technician overlap checks hold the company lock until the
+  // ticket is inserted (see validateNewTicket)
+  const ticket = await Ticket.sequelize!.transaction(async transaction => {
+    // Ticket type, required fields, company ownership, contract validity, quotas and technician overlap
+    const { exceededQuotas, overlappingTickets } = await validateNewTicket(user, input, {
+      allowOverlap: allowOverlap === true,
+      allowQuotaOverride: allowQuotaOverride === true,
+      transaction,
+    });
+
+    const created = await insertTicket(user, input, 'Mobile', source, transaction);
+    await recordOverlapOverride(created.id, overlappingTickets, user.id, source, transaction);
+    await recordQuotaOverride(created.id, exceededQuotas, user.id, source, transaction);
+    return created;
   });
 
-  // Generate ticket code (format: {COMPANY_NAME}-TKT-{TICKET_ID})
-  // Extract company name from title and convert to uppercase (e.g., "gamma solutions" -> "GAMMA")
-  const companyName = company.title.toUpperCase().split(' ')[0]; // Take first word and uppercase
-  const ticketCodeId = `${companyName}-TKT-${ticket.id}`;
-  
-  // Update ticket with the generated code
-  await ticket.update({ ticketCodeId });
+  // Warn (without failing) when the branch has the requested tools but all units are checked out
+  const warnings = await findUnavailableTools(input.branchId, input.tools);
 
   // Link files to ticket and move to ticket folder if fileIds are provided
   if (fileIds && Array.isArray(fileIds) && fileIds.length > 0) {
@@ -875,6 +835,14 @@ export const createTicket = asyncHandler(async (req: AuthRequest, res: Response)
         filePath: newPath,
       } as any);
     }
+
+    await recordTicketHistory({
+      action: TicketHistoryAction.FILES_LINKED,
+      actorId: user.id,
+      changes: files.length > 0 ? [{ field: 'files', newValue: files.map(file => file.id), oldValue: null }] : [],
+      source,
+      ticketId: ticket.id,
+    });
   }
 
   // Fetch created ticket with relations
@@ -890,14 +858,25 @@ export const createTicket = asyncHandler(async (req: AuthRequest, res: Response)
   res.status(201).json({
     success: true,
     message: 'Ticket created successfully',
-    data: formatTicket(createdTicket!),
+    data: {
+      ...formatTicket(createdTicket!),
+      autoAssigned,
+      warnings,
+    },
   });
 });
 
 /**
  * Update an existing ticket
  * - Company Admin (18) and Team Leader (20) can update all ticket fields
- * - Restricted roles (21, 22, 23, 26) CANNOT update tickets
+ * - Technicians (21, 22) can only update status and notes on tickets assigned to them
+ * - Role 23 CANNOT update tickets
+ * Status changes must follow the ticket workflow, illegal transitions are rejected with 409
+ * Completing is rejected with 409, tickets are completed with the customer sign-off (POST /tickets/:id/complete)
+ * Assignee changes are rejected with 409, tickets are reassigned with a reason code (POST /tickets/:id/reassign)
+ * Schedule changes that double-book the technician are rejected with 409 unless an admin sends allowOverlap: true
+ * Type or contract changes beyond the ticket quota are rejected with 409 unless an admin sends allowQuotaOverride: true
+ * subServiceIds replaces the sub services, changing mainServiceId without subServiceIds clears them
  * Rejects unauthorized updates
  * Tracks updatedBy & updatedAt automatically
  */
@@ -965,8 +944,14 @@ export const updateTicket = asyncHandler(async (req: AuthRequest, res: Response)
     );
   }
 
+  // Capture tracked fields before changes for the ticket history
+  const ticketBefore = snapshotTicket(ticket);
+  const source = getRequestSource(req);
+
   // Update fields
   const {
+    allowOverlap,
+    allowQuotaOverride,
     assignToTeamLeaderId, // Array of file IDs to link to this ticket
     assignToTechnicianId,
     branchId,
@@ -978,6 +963,7 @@ export const updateTicket = asyncHandler(async (req: AuthRequest, res: Response)
     locationMap,
     mainServiceId,
     serviceDescription,
+    subServiceIds,
     ticketDate,
     ticketDescription,
     ticketStatusId,
@@ -1016,25 +1002,34 @@ export const updateTicket = asyncHandler(async (req: AuthRequest, res: Response)
     ticket.ticketTypeId = ticketTypeId;
   }
 
-  // Validate ticket status if provided
+  // Validate ticket status transition if provided (allowed transitions are defined in ticket-workflow.service)
+  let statusTransition: ResolvedTicketTransition | null = null;
   if (ticketStatusId) {
-    const ticketStatus = await Lookup.findOne({
-      where: { id: ticketStatusId, category: LookupCategory.TICKET_STATUS, isActive: true },
-    });
-    if (!ticketStatus) {
-      throw new AppError('Invalid ticket status', 400, 'VALIDATION_ERROR');
+    statusTransition = await resolveTransition(ticket, ticketStatusId, user.userRoleId);
+
+    // Completion requires the customer sign-off, it is saved with the status change by the complete endpoint
+    if (statusTransition?.toStatus.code === TicketStatusCode.COMPLETED) {
+      throw new AppError(
+        'Tickets are completed with the customer sign-off, use POST /tickets/:id/complete',
+        409,
+        'SIGN_OFF_REQUIRED'
+      );
+    }
+    if (statusTransition) {
+      ticket.ticketStatusId = statusTransition.toStatus.id;
     }
-    ticket.ticketStatusId = ticketStatusId;
   }
 
-  // Role-based validation: Team Leaders can only update tickets assigned to themselves
-  // They cannot reassign tickets to another Team Leader
-  // Admins and Super Users can reassign tickets to any Team Leader
-  if (isTeamLeader && assignToTeamLeaderId !== undefined && assignToTeamLeaderId !== user.id) {
+  // Assignee changes need a reason code and are logged, they go through the reassign endpoint
+  const teamLeaderChanged =
+    assignToTeamLeaderId !== undefined && Number(assignToTeamLeaderId) !== ticket.assignToTeamLeaderId;
+  const technicianChanged =
+    assignToTechnicianId !== undefined && Number(assignToTechnicianId) !== ticket.assignToTechnicianId;
+  if (teamLeaderChanged || technicianChanged) {
     throw new AppError(
-      'Team Leaders can only update tickets assigned to themselves. You cannot reassign tickets to another Team Leader.',
-      403,
-      'FORBIDDEN'
+      'Tickets are reassigned with a reason code, use POST /tickets/:id/reassign',
+      409,
+      'REASSIGNMENT_REQUIRED'
     );
   }
 
@@ -1061,34 +1056,6 @@ export const updateTicket = asyncHandler(async (req: AuthRequest, res: Response)
     }
   }
 
-  // Validate Team Leader if being updated (only for Admin/Team Leader/Super User)
-  if (assignToTeamLeaderId !== undefined && !isTechnician) {
-    const teamLeader = await User.findOne({
-      where: { id: assignToTeamLeaderId, companyId, isDeleted: false },
-      include: [{ model: Lookup, as: 'userRoleLookup', required: false }],
-    });
-    if (!teamLeader) {
-      throw new AppError('Team Leader not found or does not belong to your company', 400, 'VALIDATION_ERROR');
-    }
-    if (teamLeader.userRoleId !== 20) {
-      throw new AppError('Assigned user is not a Team Leader', 400, 'VALIDATION_ERROR');
-    }
-  }
-
-  // Validate Technician if being updated (only for Admin/Team Leader/Super User)
-  if (assignToTechnicianId !== undefined && !isTechnician) {
-    const technician = await User.findOne({
-      where: { id: assignToTechnicianId, companyId, isDeleted: false },
-      include: [{ model: Lookup, as: 'userRoleLookup', required: false }],
-    });
-    if (!technician) {
-      throw new AppError('Technician not found or does not belong to your company', 400, 'VALIDATION_ERROR');
-    }
-    if (technician.userRoleId === 18 || technician.userRoleId === 20) {
-      throw new AppError('Assigned user cannot be an Admin or Team Leader', 400, 'VALIDATION_ERROR');
-    }
-  }
-
   // Validate ticketTitle length (max 100 characters) if being updated
   if (ticketTitle !== undefined && ticketTitle.trim().length > 100) {
     throw new AppError(
@@ -1107,6 +1074,22 @@ export const updateTicket = asyncHandler(async (req: AuthRequest, res: Response)
     );
   }
 
+  // Validate tools against the tool catalog if being updated
+  if (tools !== undefined && !isTechnician) {
+    await assertValidToolIds(tools);
+  }
+
+  // Sub services must belong to the (new) main service, changing the main service without a new list clears them
+  const subServiceIdsBefore = await getTicketSubServiceIds(ticket.id);
+  let nextSubServiceIds: number[] | undefined;
+  if (!isTechnician) {
+    const mainServiceChanged = mainServiceId !== undefined && Number(mainServiceId) !== Number(ticket.mainServiceId);
+    nextSubServiceIds = parseSubServiceIds(subServiceIds) ?? (mainServiceChanged ? [] : undefined);
+    if (nextSubServiceIds !== undefined) {
+      await assertValidSubServices(companyId, mainServiceId ?? ticket.mainServiceId, nextSubServiceIds);
+    }
+  }
+
   // Update other fields (only for Admin/Team Leader/Super User, Technicians can only update status and notes)
   if (contractId !== undefined && !isTechnician) ticket.contractId = contractId;
   if (branchId !== undefined && !isTechnician) ticket.branchId = branchId;
@@ -1116,8 +1099,6 @@ export const updateTicket = asyncHandler(async (req: AuthRequest, res: Response)
   if (ticketDate !== undefined && !isTechnician) ticket.ticketDate = ticketDate;
   if (ticketTimeFrom !== undefined && !isTechnician) ticket.ticketTimeFrom = ticketTimeFrom;
   if (ticketTimeTo !== undefined && !isTechnician) ticket.ticketTimeTo = ticketTimeTo;
-  if (assignToTeamLeaderId !== undefined && !isTechnician) ticket.assignToTeamLeaderId = assignToTeamLeaderId;
-  if (assignToTechnicianId !== undefined && !isTechnician) ticket.assignToTechnicianId = assignToTechnicianId;
   if (ticketDescription !== undefined && !isTechnician) ticket.ticketDescription = ticketDescription || '';
   if (havingFemaleEngineer !== undefined && !isTechnician) ticket.havingFemaleEngineer = havingFemaleEngineer;
   if (customerName !== undefined && !isTechnician) ticket.customerName = customerName;
@@ -1126,11 +1107,99 @@ export const updateTicket = asyncHandler(async (req: AuthRequest, res: Response)
   if (serviceDescription !== undefined) ticket.serviceDescription = serviceDescription; // Allow for both Technicians and Admin/Team Leader/Super User
   if (tools !== undefined && !isTechnician) ticket.tools = tools;
   
-  // Track who updated the ticket and when
-  // updatedAt is automatically set by Sequelize @UpdatedAt decorator
-  ticket.updatedBy = user.id;
+  const scheduleChanged = [ticketDate, ticketTimeFrom, ticketTimeTo].some(value => value !== undefined);
+  const reopened = statusTransition?.fromStatus.code === TicketStatusCode.CANCELLED;
+
+  // Re-check and save in one transaction, under the same company lock as ticket creation (see lockCompanyTickets)
+  await Ticket.sequelize!.transaction(async transaction => {
+    await lockCompanyTickets(companyId, transaction);
+
+    // Re-check technician availability when the schedule or technician changes, or a cancelled ticket is reopened
+    let overlappingTickets: Ticket[] = [];
+    if ((scheduleChanged && !isTechnician) || reopened) {
+      overlappingTickets = await assertTechnicianAvailable(
+        {
+          excludeTicketId: ticket.id,
+          technicianId: ticket.assignToTechnicianId,
+          ticketDate: ticket.ticketDate,
+          ticketTimeFrom: ticket.ticketTimeFrom,
+          ticketTimeTo: ticket.ticketTimeTo,
+          transaction,
+        },
+        user.userRoleId,
+        allowOverlap === true
+      );
+    }
+
+    // Re-check the contract validity when the ticket moves to another contract or date
+    const contractPeriodChanged =
+      Number(ticket.contractId) !== Number(ticketBefore.contractId) ||
+      toDateOnly(ticket.ticketDate) !== ticketBefore.ticketDate;
+    if (contractPeriodChanged) {
+      const contract = await Contract.findByPk(ticket.contractId, { transaction });
+      if (!contract) {
+        throw new AppError('Invalid contract or contract does not belong to your company', 400, 'VALIDATION_ERROR');
+      }
+      assertContractValidForTicket(contract, ticket.ticketDate);
+    }
+
+    // Re-check the ticket quotas when the ticket moves to another type or contract, or a cancelled ticket is reopened
+    let exceededQuotas: QuotaViolation[] = [];
+    const quotaChanged =
+      Number(ticket.ticketTypeId) !== Number(ticketBefore.ticketTypeId) ||
+      Number(ticket.contractId) !== Number(ticketBefore.contractId);
+    if (quotaChanged || reopened) {
+      exceededQuotas = await assertTicketQuota(
+        {
+          companyId,
+          contractId: ticket.contractId,
+          excludeTicketId: ticket.id,
+          ticketTypeId: ticket.ticketTypeId,
+          transaction,
+        },
+        user.userRoleId,
+        allowQuotaOverride === true
+      );
+    }
+
+    // Recompute the SLA due times when the ticket moves to another type, contract or slot, then stamp the
+    // response and resolution times of the status change
+    if (quotaChanged || contractPeriodChanged || ticket.changed('ticketTimeFrom')) {
+      ticket.set(await computeSlaDueTimes(ticket));
+    }
+    const slaBreaches = statusTransition ? applySlaTransition(ticket, statusTransition) : [];
+
+    // Track who updated the ticket and when
+    // updatedAt is automatically set by Sequelize @UpdatedAt decorator
+    ticket.updatedBy = user.id;
 
-  await ticket.save();
+    await ticket.save({ transaction });
+    if (nextSubServiceIds !== undefined) {
+      await saveTicketSubServices(ticket.id, ticket.mainServiceId, nextSubServiceIds, user.id, transaction);
+    }
+
+    // Record field-level changes in the ticket history (reload to compare stored values, not raw request values)
+    await ticket.reload({ transaction });
+    const subServiceIdsAfter = nextSubServiceIds ?? subServiceIdsBefore;
+    await recordTicketUpdate(
+      ticket.id,
+      { ...ticketBefore, subServiceIds: subServiceIdsBefore.length > 0 ? subServiceIdsBefore : null },
+      { ...snapshotTicket(ticket), subServiceIds: subServiceIdsAfter.length > 0 ? subServiceIdsAfter : null },
+      user.id,
+      source,
+      transaction
+    );
+    await recordOverlapOverride(ticket.id, overlappingTickets, user.id, source, transaction);
+    await recordQuotaOverride(ticket.id, exceededQuotas, user.id, source, transaction);
+    await recordTicketHistory({
+      action: TicketHistoryAction.SLA_BREACHED,
+      actorId: user.id,
+      changes: slaBreaches,
+      source,
+      ticketId: ticket.id,
+      transaction,
+    });
+  });
 
   // Link files to ticket and move to ticket folder if fileIds are provided
   if (fileIds !== undefined && Array.isArray(fileIds) && fileIds.length > 0) {
@@ -1214,6 +1283,19 @@ export const updateTicket = asyncHandler(async (req: AuthRequest, res: Response)
         filePath: newPath,
       } as any);
     }
+
+    await recordTicketHistory({
+      action: TicketHistoryAction.FILES_LINKED,
+      actorId: user.id,
+      changes: files.length > 0 ? [{ field: 'files', newValue: files.map(file => file.id), oldValue: null }] : [],
+      source,
+      ticketId: ticket.id,
+    });
+  }
+
+  // Trigger status transition side effects (notifications, closing open additional work)
+  if (statusTransition) {
+    await runTransitionEffects(ticket, statusTransition, user.id);
   }
 
   // Fetch updated ticket with relations
@@ -1232,3 +1314,270 @@ export const updateTicket = asyncHandler(async (req: AuthRequest, res: Response)
     data: formatTicket(updatedTicket!),
   });
 });
+
+/**
+ * Get the status transitions the logged-in user may perform on a ticket
+ * Used by the mobile app to only show valid status buttons
+ */
+export const getTicketTransitions = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const ticketId = parseTicketId(req.params.id);
+
+  const ticket = await findAccessibleTicket(user, ticketId, [
+    { model: Lookup, as: 'ticketStatusLookup', required: false },
+  ]);
+
+  const nextStatuses = await getAvailableNextStatuses(ticket, user.userRoleId);
+
+  res.status(200).json({
+    success: true,
+    message: 'Ticket transitions retrieved successfully',
+    data: {
+      currentStatus: ticket.ticketStatusLookup ? formatStatus(ticket.ticketStatusLookup) : null,
+      allowedTransitions: nextStatuses.map(formatStatus),
+    },
+  });
+});
+
+/**
+ * Ensure the user is an Admin (18) or Super User (26), required to delete, restore and list deleted tickets
+ */
+const requireTicketAdmin = (user: any) => {
+  if (user.userRoleId !== RoleId.ADMIN && user.userRoleId !== RoleId.SUPER_USER) {
+    throw new AppError('Only company admins and super users can manage deleted tickets', 403, 'FORBIDDEN');
+  }
+};
+
+/**
+ * Delete a ticket (soft delete)
+ * DELETE /api/v1/tickets/:id
+ * Body: { reason } (required)
+ * The ticket's additional work records (whatever their status) are soft deleted with it and restored with it
+ * Attachments are kept on disk so a restored ticket gets them back, they are hidden while the ticket is deleted
+ */
+export const deleteTicket = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requireTicketAdmin(user);
+  const ticketId = parseTicketId(req.params.id);
+
+  const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+  if (!reason) {
+    throw new AppError('A reason is required to delete a ticket', 400, 'VALIDATION_ERROR');
+  }
+  if (reason.length > 500) {
+    throw new AppError('Delete reason must not exceed 500 characters', 400, 'VALIDATION_ERROR');
+  }
+
+  const ticket = await Ticket.findOne({
+    where: { id: ticketId, companyId, isDeleted: false },
+  });
+  if (!ticket) {
+    throw new AppError('Ticket not found or access denied', 404, 'NOT_FOUND');
+  }
+
+  const deletedAt = new Date();
+  const source = getRequestSource(req);
+
+  await Ticket.sequelize!.transaction(async transaction => {
+    await ticket.update(
+      {
+        deleteReason: reason,
+        deletedAt,
+        deletedBy: user.id,
+        isDeleted: true,
+        updatedBy: user.id,
+      },
+      { transaction }
+    );
+
+    // Additional work shares the deletion timestamp so restoring the ticket only restores these records
+    await AdditionalWork.update(
+      { deletedAt, deletedBy: user.id, isDeleted: true, updatedBy: user.id },
+      { where: { isDeleted: false, ticketId: ticket.id }, transaction }
+    );
+
+    await recordTicketHistory({
+      action: TicketHistoryAction.DELETED,
+      actorId: user.id,
+      changes: [
+        { field: 'isDeleted', newValue: true, oldValue: false },
+        { field: 'deleteReason', newValue: reason, oldValue: null },
+      ],
+      source,
+      ticketId: ticket.id,
+      transaction,
+    });
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Ticket deleted successfully',
+    data: {
+      id: ticket.id,
+      ticketCodeId: ticket.ticketCodeId,
+      deletedAt: ticket.deletedAt,
+      deleteReason: ticket.deleteReason,
+    },
+  });
+});
+
+/**
+ * Restore a deleted ticket
+ * POST /api/v1/tickets/:id/restore
+ * Body: { allowOverlap?, allowQuotaOverride? }
+ * Additional work deleted together with the ticket is restored as well
+ * A restored ticket that is not cancelled counts again, its quotas and technician availability are re-checked under
+ * the company lock (see lockCompanyTickets)
+ */
+export const restoreTicket = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requireTicketAdmin(user);
+  const ticketId = parseTicketId(req.params.id);
+
+  const ticket = await Ticket.findOne({
+    where: { id: ticketId, companyId, isDeleted: true },
+  });
+  if (!ticket) {
+    throw new AppError('Deleted ticket not found', 404, 'NOT_FOUND');
+  }
+
+  const { deleteReason, deletedAt } = ticket;
+  const { allowOverlap, allowQuotaOverride } = req.body;
+  const source = getRequestSource(req);
+  const cancelledStatus = findStatusByCode(await getTicketStatusLookups(), TicketStatusCode.CANCELLED);
+
+  await Ticket.sequelize!.transaction(async transaction => {
+    await lockCompanyTickets(companyId, transaction);
+
+    // The slot or quota of the deleted ticket may have been reused meanwhile, Admins can override both
+    let exceededQuotas: QuotaViolation[] = [];
+    let overlappingTickets: Ticket[] = [];
+    if (ticket.ticketStatusId !== cancelledStatus?.id) {
+      exceededQuotas = await assertTicketQuota(
+        {
+          companyId,
+          contractId: ticket.contractId,
+          excludeTicketId: ticket.id,
+          ticketTypeId: ticket.ticketTypeId,
+          transaction,
+        },
+        user.userRoleId,
+        allowQuotaOverride === true
+      );
+      overlappingTickets = await assertTechnicianAvailable(
+        {
+          excludeTicketId: ticket.id,
+          technicianId: ticket.assignToTechnicianId,
+          ticketDate: ticket.ticketDate,
+          ticketTimeFrom: ticket.ticketTimeFrom,
+          ticketTimeTo: ticket.ticketTimeTo,
+          transaction,
+        },
+        user.userRoleId,
+        allowOverlap === true
+      );
+    }
+
+    if (deletedAt) {
+      await AdditionalWork.update(
+        { deletedAt: null, deletedBy: null, isDeleted: false, updatedBy: user.id },
+        { where: { deletedAt, isDeleted: true, ticketId: ticket.id }, transaction }
+      );
+    }
+
+    await ticket.update(
+      {
+        deleteReason: null,
+        deletedAt: null,
+        deletedBy: null,
+        isDeleted: false,
+        updatedBy: user.id,
+      },
+      { transaction }
+    );
+
+    await recordTicketHistory({
+      action: TicketHistoryAction.RESTORED,
+      actorId: user.id,
+      changes: [
+        { field: 'isDeleted', newValue: false, oldValue: true },
+        { field: 'deleteReason', newValue: null, oldValue: deleteReason },
+      ],
+      source,
+      ticketId: ticket.id,
+      transaction,
+    });
+    await recordOverlapOverride(ticket.id, overlappingTickets, user.id, source, transaction);
+    await recordQuotaOverride(ticket.id, exceededQuotas, user.id, source, transaction);
+  });
+
+  const restoredTicket = await Ticket.findByPk(ticket.id, {
+    include: [
+      { model: Lookup, as: 'ticketTypeLookup', required: false },
+      { model: Lookup, as: 'ticketStatusLookup', required: false },
+      { model: Lookup, as: 'mainServiceLookup', required: false },
+      { model: User, as: 'assignToTechnicianUser', required: false, attributes: ['id', 'fullName', 'userNumber', 'profileImage'] },
+    ],
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Ticket restored successfully',
+    data: formatTicket(restoredTicket!),
+  });
+});
+
+/**
+ * Get the deleted tickets of the company (most recently deleted first)
+ * GET /api/v1/tickets/deleted?page=1&limit=20
+ */
+export const getDeletedTickets = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requireTicketAdmin(user);
+
+  // Get pagination parameters
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+  const offset = (page - 1) * limit;
+
+  const { count, rows } = await Ticket.findAndCountAll({
+    where: { companyId, isDeleted: true },
+    include: [
+      { model: Lookup, as: 'ticketTypeLookup', required: false },
+      { model: Lookup, as: 'ticketStatusLookup', required: false },
+      { model: Lookup, as: 'mainServiceLookup', required: false },
+      { model: User, as: 'assignToTechnicianUser', required: false, attributes: ['id', 'fullName', 'userNumber', 'profileImage'] },
+      { model: User, as: 'deleter', required: false, attributes: ['id', 'fullName'] },
+    ],
+    order: [['deletedAt', 'DESC'], ['id', 'DESC']],
+    limit,
+    offset,
+    distinct: true,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Deleted tickets retrieved successfully',
+    data: rows.map(ticket => ({
+      ...formatTicket(ticket),
+      deletedAt: ticket.deletedAt,
+      deleteReason: ticket.deleteReason,
+      deletedBy: ticket.deleter
+        ? {
+            id: ticket.deleter.id,
+            name: ticket.deleter.fullName,
+          }
+        : null,
+    })),
+    pagination: {
+      page,
+      limit,
+      total: count,
+      totalPages: Math.ceil(count / limit),
+      hasMore: offset + rows.length < count,
+    },
+  });
+});
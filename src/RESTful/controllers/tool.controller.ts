@@ -0,0 +1,264 @@
+import { Response } from 'express';
+import { Op } from 'sequelize';
+
+import { BranchTool } from '../../db/models/branch-tool.model';
+import { Branch } from '../../db/models/branch.model';
+import { Lookup } from '../../db/models/lookup.model';
+import { TicketToolCheckout } from '../../db/models/ticket-tool-checkout.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AppError, asyncHandler } from '../middleware/error.middleware';
+import { isTechnicianRole, requireCompanyId } from '../services/ticket/ticket-access.service';
+import {
+  assertValidToolIds,
+  findCatalogTools,
+  formatBranchTool,
+  formatToolCheckout,
+  getCheckedOutQuantities,
+  getToolAvailability,
+  parseBranchToolInput,
+  TOOL_CHECKOUT_INCLUDE,
+} from '../services/tool/tool-inventory.service';
+import { RoleId } from '../types/user.types';
+
+const BRANCH_TOOL_INCLUDE = [
+  { model: Branch, as: 'branch', required: false, attributes: ['id', 'branchTitle'] },
+  { model: Lookup, as: 'tool', required: false, attributes: ['id', 'name', 'nameArabic'] },
+];
+
+/**
+ * Ensure the user can manage the tool inventory (Admins and Team Leaders)
+ */
+const requireInventoryManager = (user: any) => {
+  if (user.userRoleId !== RoleId.ADMIN && user.userRoleId !== RoleId.TEAM_LEADER) {
+    throw new AppError('Forbidden: Only Admins and Team Leaders can manage the tool inventory', 403, 'FORBIDDEN');
+  }
+};
+
+/**
+ * Optional positive integer query filter
+ */
+const parseIdFilter = (value: any, name: string): number | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const id = parseInt(String(value));
+  if (isNaN(id)) {
+    throw new AppError(`Invalid ${name}`, 400, 'VALIDATION_ERROR');
+  }
+  return id;
+};
+
+const findCompanyBranch = async (branchId: number, companyId: number): Promise<Branch> => {
+  const branch = await Branch.findByPk(branchId);
+  if (!branch || branch.companyId !== companyId) {
+    throw new AppError('Invalid branch or branch does not belong to your company', 400, 'VALIDATION_ERROR');
+  }
+  return branch;
+};
+
+/**
+ * Get the tool catalog
+ * GET /api/v1/tools
+ */
+export const getToolCatalog = asyncHandler(async (req: AuthRequest, res: Response) => {
+  requireCompanyId(req.user);
+
+  const tools = await findCatalogTools();
+
+  res.status(200).json({
+    success: true,
+    message: 'Tools retrieved successfully',
+    data: tools.map(tool => ({ id: tool.id, code: tool.code, title: tool.name, titleAr: tool.nameArabic })),
+  });
+});
+
+/**
+ * Get the tool inventory of the company branches with the units checked out and available
+ * GET /api/v1/tools/inventory?branchId=&toolId=
+ */
+export const getToolInventory = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const companyId = requireCompanyId(req.user);
+  const branchId = parseIdFilter(req.query.branchId, 'branch ID');
+  const toolId = parseIdFilter(req.query.toolId, 'tool ID');
+
+  const branches = await Branch.findAll({
+    where: { companyId, ...(branchId !== undefined ? { id: branchId } : {}) },
+    attributes: ['id'],
+  });
+
+  const branchTools = await BranchTool.findAll({
+    where: {
+      branchId: { [Op.in]: branches.map(branch => branch.id) },
+      isDeleted: false,
+      ...(toolId !== undefined ? { toolId } : {}),
+    },
+    include: BRANCH_TOOL_INCLUDE,
+    order: [['branchId', 'ASC'], ['toolId', 'ASC']],
+  });
+  const availability = await getToolAvailability(branchTools);
+
+  res.status(200).json({
+    success: true,
+    message: 'Tool inventory retrieved successfully',
+    data: branchTools.map((branchTool, index) => formatBranchTool(branchTool, availability[index])),
+  });
+});
+
+/**
+ * Create or update the inventory line of a tool in a branch
+ * PUT /api/v1/tools/inventory
+ * Body: { branchId, toolId, quantity, serialNumbers? } (quantity defaults to the number of serial numbers)
+ * The quantity cannot go below the units currently checked out
+ */
+export const saveToolInventory = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requireInventoryManager(user);
+
+  const input = parseBranchToolInput(req.body);
+  await findCompanyBranch(input.branchId, companyId);
+  await assertValidToolIds([input.toolId]);
+
+  const existing = await BranchTool.findOne({
+    where: { branchId: input.branchId, isDeleted: false, toolId: input.toolId },
+  });
+
+  if (existing) {
+    const checkedOut = (await getCheckedOutQuantities([existing.id])).get(existing.id) ?? 0;
+    if (input.quantity < checkedOut) {
+      throw new AppError(
+        `${checkedOut} unit(s) are checked out, the quantity cannot be lower until they are returned`,
+        409,
+        'TOOLS_CHECKED_OUT',
+        { checkedOut }
+      );
+    }
+    const heldSerials = await TicketToolCheckout.findAll({
+      where: { branchToolId: existing.id, isDeleted: false, returnedAt: null, serialNumber: { [Op.ne]: null } },
+      attributes: ['serialNumber'],
+    });
+    const missingSerials = heldSerials
+      .map(checkout => checkout.serialNumber!)
+      .filter(serial => !input.serialNumbers?.includes(serial));
+    if (missingSerials.length > 0) {
+      throw new AppError(
+        `Checked out serial numbers cannot be removed: ${missingSerials.join(', ')}`,
+        409,
+        'TOOLS_CHECKED_OUT'
+      );
+    }
+
+    await existing.update({ quantity: input.quantity, serialNumbers: input.serialNumbers, updatedBy: user.id });
+  }
+
+  const branchTool = existing ?? (await BranchTool.create({ ...input, createdBy: user.id, updatedBy: user.id }));
+  await branchTool.reload({ include: BRANCH_TOOL_INCLUDE });
+  const [availability] = await getToolAvailability([branchTool]);
+
+  res.status(existing ? 200 : 201).json({
+    success: true,
+    message: existing ? 'Tool inventory updated successfully' : 'Tool added to the inventory successfully',
+    data: formatBranchTool(branchTool, availability),
+  });
+});
+
+/**
+ * Remove a tool from the inventory of a branch (soft delete), only when no unit is checked out
+ * DELETE /api/v1/tools/inventory/:id
+ */
+export const deleteToolInventory = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+  requireInventoryManager(user);
+
+  const branchToolId = parseIdFilter(req.params.id, 'inventory ID')!;
+  const branchTool = await BranchTool.findOne({ where: { id: branchToolId, isDeleted: false } });
+  if (!branchTool) {
+    throw new AppError('Inventory line not found', 404, 'NOT_FOUND');
+  }
+  await findCompanyBranch(branchTool.branchId, companyId);
+
+  const checkedOut = (await getCheckedOutQuantities([branchTool.id])).get(branchTool.id) ?? 0;
+  if (checkedOut > 0) {
+    throw new AppError(
+      `${checkedOut} unit(s) are checked out, they must be returned first`,
+      409,
+      'TOOLS_CHECKED_OUT',
+      { checkedOut }
+    );
+  }
+
+  await branchTool.update({ deletedAt: new Date(), deletedBy: user.id, isDeleted: true, updatedBy: user.id });
+
+  res.status(200).json({
+    success: true,
+    message: 'Tool removed from the inventory successfully',
+  });
+});
+
+/**
+ * Get tool checkouts of the company, by default the tools currently held by technicians
+ * GET /api/v1/tools/checkouts?branchId=&toolId=&technicianId=&status=open|returned|all&page=&limit=
+ * Technicians only see their own checkouts
+ */
+export const getToolCheckouts = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const {user} = req;
+  const companyId = requireCompanyId(user);
+
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+  const branchId = parseIdFilter(req.query.branchId, 'branch ID');
+  const toolId = parseIdFilter(req.query.toolId, 'tool ID');
+  const technicianId = isTechnicianRole(user.userRoleId)
+    ? user.id
+    : parseIdFilter(req.query.technicianId, 'technician ID');
+
+  const status = String(req.query.status || 'open').toLowerCase();
+  if (!['open', 'returned', 'all'].includes(status)) {
+    throw new AppError('Invalid status, expected open, returned or all', 400, 'VALIDATION_ERROR');
+  }
+
+  const whereClause: any = { isDeleted: false };
+  if (status === 'open') whereClause.returnedAt = null;
+  if (status === 'returned') whereClause.returnedAt = { [Op.ne]: null };
+  if (technicianId !== undefined) whereClause.technicianId = technicianId;
+
+  // Company scope through the ticket, branch and tool filters through the inventory line
+  const include = TOOL_CHECKOUT_INCLUDE.map(association => {
+    if (association.as === 'ticket') {
+      return { ...association, required: true, where: { companyId } };
+    }
+    if (association.as === 'branchTool' && (branchId !== undefined || toolId !== undefined)) {
+      return {
+        ...association,
+        required: true,
+        where: {
+          ...(branchId !== undefined ? { branchId } : {}),
+          ...(toolId !== undefined ? { toolId } : {}),
+        },
+      };
+    }
+    return association;
+  });
+
+  const { count, rows } = await TicketToolCheckout.findAndCountAll({
+    where: whereClause,
+    include,
+    order: [['checkedOutAt', 'DESC'], ['id', 'DESC']],
+    limit,
+    offset: (page - 1) * limit,
+    distinct: true,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Tool checkouts retrieved successfully',
+    data: rows.map(formatToolCheckout),
+    pagination: {
+      page,
+      limit,
+      total: count,
+      totalPages: Math.ceil(count / limit),
+    },
+  });
+});
@@ -0,0 +1,40 @@
+import cron from 'node-cron';
+
+import { schedulerConfig } from '../../settings';
+import { runPreventivePlanScheduler } from '../services/preventive/preventive-plan.service';
+import { runEmergencyEscalationScheduler } from '../services/ticket/ticket-escalation.service';
+
+/**
+ * Start the scheduled jobs
+ * - Preventive plans: generate upcoming preventive tickets (PREVENTIVE_PLAN_CRON, daily at 02:00 by default)
+ * - Emergency escalation: escalate emergency tickets left pending (EMERGENCY_ESCALATION_CRON, every minute by default)
+ * Jobs are disabled with SCHEDULER_ENABLED=false
+ */
+export const startSchedulers = () => {
+  if (!schedulerConfig.enabled) {
+    console.log('⏸️  Scheduled jobs are disabled');
+    return;
+  }
+
+  if (!cron.validate(schedulerConfig.preventivePlanCron)) {
+    console.log(`❌ Invalid PREVENTIVE_PLAN_CRON expression: ${schedulerConfig.preventivePlanCron}`);
+  } else {
+    cron.schedule(schedulerConfig.preventivePlanCron, () => {
+      runPreventivePlanScheduler().catch(error => {
+        console.log('❌ Preventive plan scheduler failed:', error.message);
+      });
+    });
+    console.log(`⏰ Preventive plan scheduler scheduled (${schedulerConfig.preventivePlanCron})`);
+  }
+
+  if (!cron.validate(schedulerConfig.emergencyEscalationCron)) {
+    console.log(`❌ Invalid EMERGENCY_ESCALATION_CRON expression: ${schedulerConfig.emergencyEscalationCron}`);
+  } else {
+    cron.schedule(schedulerConfig.emergencyEscalationCron, () => {
+      runEmergencyEscalationScheduler().catch(error => {
+        console.log('❌ Emergency escalation scheduler failed:', error.message);
+      });
+    });
+    console.log(`⏰ Emergency escalation scheduler scheduled (${schedulerConfig.emergencyEscalationCron})`);
+  }
+};
@@ -3,6 +3,7 @@ import { Request, Response, NextFunction } from 'express';
 export interface ApiError extends Error {
   statusCode?: number;
   code?: string;
+  details?: Record<string, any>;
 }
 
 export const errorHandler = (
@@ -22,6 +23,7 @@ export const errorHandler = (
     error: {
       message,
       code,
+      ...(err.details && { details: err.details }),
       ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
     },
   });
@@ -36,11 +38,13 @@ export const asyncHandler = (fn: Function) => {
 export class AppError extends Error implements ApiError {
   statusCode: number;
   code: string;
+  details?: Record<string, any>;
 
-  constructor(message: string, statusCode: number = 500, code: string = 'ERROR') {
+  constructor(message: string, statusCode: number = 500, code: string = 'ERROR', details?: Record<string, any>) {
     super(message);
     this.statusCode = statusCode;
     this.code = code;
+    this.details = details;
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -0,0 +1,183 @@
+import { createHash } from 'crypto';
+import { NextFunction, Response } from 'express';
+import fs from 'fs';
+import { Op, UniqueConstraintError } from 'sequelize';
+
+import { AuthRequest } from './auth.middleware';
+import { AppError, asyncHandler } from './error.middleware';
+
+import { IdempotencyKey } from '../../db/models/idempotency-key.model';
+import { idempotencyConfig } from '../../settings';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// Set on replayed responses so clients can tell a retry from the first response
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Files uploaded by multer for the request (upload.single / upload.array)
+ */
+const getUploadedFiles = (req: AuthRequest): Express.Multer.File[] => {
+  if (req.file) {
+    return [req.file];
+  }
+  return Array.isArray(req.files) ? req.files : [];
+};
+
+/**
+ * Remove the files multer stored for a request that is not processed (replayed or rejected)
+ */
+const removeUploadedFiles = async (req: AuthRequest): Promise<void> => {
+  await Promise.all(
+    getUploadedFiles(req).map(file =>
+      fs.promises.unlink(file.path).catch(error => console.error(`Error removing uploaded file ${file.path}:`, error))
+    )
+  );
+};
+
+const hashFile = (filePath: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+};
+
+/**
+ * JSON with sorted object keys, so the same body always gives the same hash
+ */
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return `{${Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Hash of the request body and the uploaded files (field, name and content)
+ */
+const hashRequest = async (req: AuthRequest): Promise<string> => {
+  const files = await Promise.all(
+    getUploadedFiles(req).map(async file => ({
+      content: await hashFile(file.path),
+      fieldname: file.fieldname,
+      originalname: file.originalname,
+    }))
+  );
+  return createHash('sha256')
+    .update(stableStringify({ body: req.body ?? {}, files }))
+    .digest('hex');
+};
+
+/**
+ * Idempotency-Key support for create endpoints called from flaky mobile connections
+ * - The first response (status and body) for a key, user and endpoint is stored and replayed for retries during
+ *   idempotencyConfig.ttlMinutes, with an Idempotent-Replayed: true header
+ * - Reusing a key with a different body or files returns 409 IDEMPOTENCY_KEY_MISMATCH, a retry while the first request
+ *   is still processed returns 409 IDEMPOTENCY_KEY_IN_PROGRESS
+ * - Server errors (5xx) are not stored, the client can retry with the same key
+ * - Requests without the header are processed as usual
+ * Must come after authenticateToken (and after multer on upload routes, files are part of the request hash)
+ */
+export const idempotency = (endpoint: string) =>
+  asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const key = req.header(IDEMPOTENCY_KEY_HEADER)?.trim();
+    if (key === undefined) {
+      return next();
+    }
+    if (!key || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      await removeUploadedFiles(req);
+      throw new AppError(
+        `${IDEMPOTENCY_KEY_HEADER} header must be between 1 and ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+        400,
+        'VALIDATION_ERROR'
+      );
+    }
+
+    const userId = req.user.id;
+    const now = new Date();
+    const requestHash = await hashRequest(req);
+
+    // Expired keys of the user can be reused for new requests
+    await IdempotencyKey.destroy({ where: { expiresAt: { [Op.lte]: now }, userId } });
+
+    const existing = await IdempotencyKey.findOne({ where: { endpoint, key, userId } });
+    if (existing) {
+      await removeUploadedFiles(req);
+      if (existing.requestHash !== requestHash) {
+        throw new AppError(
+          `${IDEMPOTENCY_KEY_HEADER} was already used for a different request`,
+          409,
+          'IDEMPOTENCY_KEY_MISMATCH'
+        );
+      }
+      if (existing.statusCode === null) {
+        throw new AppError(
+          `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+          409,
+          'IDEMPOTENCY_KEY_IN_PROGRESS'
+        );
+      }
+      res.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+      return res.status(existing.statusCode).json(existing.responseBody);
+    }
+
+    let record: IdempotencyKey;
+    try {
+      record = await IdempotencyKey.create({
+        endpoint,
+        expiresAt: new Date(now.getTime() + idempotencyConfig.ttlMinutes * MINUTE_MS),
+        key,
+        requestHash,
+        statusCode: null,
+        userId,
+      });
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        // A concurrent retry claimed the key first
+        await removeUploadedFiles(req);
+        throw new AppError(
+          `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+          409,
+          'IDEMPOTENCY_KEY_IN_PROGRESS'
+        );
+      }
+      throw error;
+    }
+
+    // Store the response before sending it, a retry arriving right after the response always gets the replay
+    let settled = false;
+    const sendJson = res.json.bind(res);
+    res.json = (body?: any) => {
+      settled = true;
+      const store =
+        res.statusCode >= 500
+          ? record.destroy()
+          : record.update({ responseBody: body ?? null, statusCode: res.statusCode });
+      store
+        .catch(error => console.error('Error storing idempotent response:', error))
+        .finally(() => sendJson(body));
+      return res;
+    };
+
+    // Release the key when the request ends without a JSON response, so the client can retry
+    res.on('close', () => {
+      if (!settled) {
+        record.destroy().catch(error => console.error('Error releasing idempotency key:', error));
+      }
+    });
+
+    next();
+  });
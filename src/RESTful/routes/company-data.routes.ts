@@ -7,6 +7,7 @@ const router = express.Router();
 
 // Protected routes - require authentication
 router.get('/contracts', authenticateToken, companyDataController.getCompanyContracts);
+router.get('/contracts/:id/usage', authenticateToken, companyDataController.getContractUsage);
 router.get('/branches', authenticateToken, companyDataController.getCompanyBranches);
 router.post('/branches', authenticateToken, companyDataController.createCompanyBranch);
 router.get('/zones', authenticateToken, companyDataController.getCompanyZones);
@@ -16,6 +17,7 @@ router.get('/team-leaders', authenticateToken, companyDataController.getCompanyT
 router.get('/technicians', authenticateToken, companyDataController.getCompanyTechnicians);
 router.get('/ticket-types', authenticateToken, companyDataController.getTicketTypes);
 router.get('/ticket-statuses', authenticateToken, companyDataController.getTicketStatuses);
+router.get('/response-times', authenticateToken, companyDataController.getResponseTimes);
 
 export default router;
 
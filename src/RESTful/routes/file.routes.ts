@@ -2,12 +2,20 @@ import express from 'express';
 
 import * as fileController from '../controllers/file.controller';
 import { authenticateToken } from '../middleware/auth.middleware';
+import { idempotency } from '../middleware/idempotency.middleware';
 
 const router = express.Router();
 
 // Upload routes (multer middleware must come after authenticateToken but before controller)
-router.post('/upload', authenticateToken, fileController.upload.single('file'), fileController.uploadFile);
-router.post('/upload-multiple', authenticateToken, fileController.upload.array('files', 10), fileController.uploadMultipleFiles);
+// Optional Idempotency-Key header: retries replay the first response (idempotency must come after multer)
+router.post('/upload', authenticateToken, fileController.upload.single('file'), idempotency('POST /files/upload'), fileController.uploadFile);
+router.post(
+  '/upload-multiple',
+  authenticateToken,
+  fileController.upload.array('files', 10),
+  idempotency('POST /files/upload-multiple'),
+  fileController.uploadMultipleFiles
+);
 
 // Get files by reference
 router.get('/', authenticateToken, fileController.getFilesByReference);
@@ -3,7 +3,11 @@ import express from 'express';
 import companyDataRoutes from './company-data.routes';
 import fileRoutes from './file.routes';
 import logRoutes from './log.routes';
+import preventivePlanRoutes from './preventive-plan.routes';
+import slaRoutes from './sla.routes';
+import technicianRoutes from './technician.routes';
 import ticketRoutes from './ticket.routes';
+import toolRoutes from './tool.routes';
 import userRoutes from './user.routes';
 
 const router = express.Router();
@@ -14,6 +18,10 @@ router.use('/logs', logRoutes);
 router.use('/tickets', ticketRoutes);
 router.use('/company-data', companyDataRoutes);
 router.use('/files', fileRoutes);
+router.use('/technicians', technicianRoutes);
+router.use('/preventive-plans', preventivePlanRoutes);
+router.use('/sla', slaRoutes);
+router.use('/tools', toolRoutes);
 
 // Health check endpoint
 router.get('/health', (req, res) => {
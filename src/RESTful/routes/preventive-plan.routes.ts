@@ -0,0 +1,16 @@
+import express from 'express';
+
+import * as preventivePlanController from '../controllers/preventive-plan.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// Protected routes - require authentication
+router.get('/', authenticateToken, preventivePlanController.getPreventivePlans);
+router.get('/:id', authenticateToken, preventivePlanController.getPreventivePlanById);
+router.post('/', authenticateToken, preventivePlanController.createPreventivePlan);
+router.put('/:id', authenticateToken, preventivePlanController.updatePreventivePlan);
+router.delete('/:id', authenticateToken, preventivePlanController.deletePreventivePlan);
+router.post('/:id/generate', authenticateToken, preventivePlanController.generatePreventivePlanTickets);
+
+export default router;
@@ -0,0 +1,15 @@
+import express from 'express';
+
+import * as slaController from '../controllers/sla.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// Protected routes - require authentication
+router.get('/policies', authenticateToken, slaController.getSlaPolicies);
+router.post('/policies', authenticateToken, slaController.createSlaPolicy);
+router.put('/policies/:id', authenticateToken, slaController.updateSlaPolicy);
+router.delete('/policies/:id', authenticateToken, slaController.deleteSlaPolicy);
+router.get('/report', authenticateToken, slaController.getSlaComplianceReport);
+
+export default router;
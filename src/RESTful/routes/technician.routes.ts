@@ -0,0 +1,14 @@
+import express from 'express';
+
+import * as technicianController from '../controllers/technician.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// Protected routes - require authentication
+router.get('/availability', authenticateToken, technicianController.getTechnicianAvailability);
+router.get('/ratings', authenticateToken, technicianController.getTechnicianRatings);
+router.get('/suggestions', authenticateToken, technicianController.getTechnicianSuggestions);
+router.get('/:id/schedule', authenticateToken, technicianController.getTechnicianSchedule);
+
+export default router;
@@ -1,16 +1,81 @@
 import express from 'express';
 
+import * as ticketAdditionalWorkController from '../controllers/ticket-additional-work.controller';
+import * as ticketCommentController from '../controllers/ticket-comment.controller';
+import * as ticketHistoryController from '../controllers/ticket-history.controller';
+import * as ticketImportController from '../controllers/ticket-import.controller';
+import * as ticketMaterialController from '../controllers/ticket-material.controller';
+import * as ticketReassignmentController from '../controllers/ticket-reassignment.controller';
+import * as ticketSignOffController from '../controllers/ticket-sign-off.controller';
+import * as ticketToolController from '../controllers/ticket-tool.controller';
+import * as ticketVisitController from '../controllers/ticket-visit.controller';
 import * as ticketController from '../controllers/ticket.controller';
 import { authenticateToken } from '../middleware/auth.middleware';
+import { idempotency } from '../middleware/idempotency.middleware';
 
 const router = express.Router();
 
 // Protected routes - require authentication
 router.get('/', authenticateToken, ticketController.getCompanyTickets);
 router.get('/statistics', authenticateToken, ticketController.getTicketStatistics);
+router.get('/export', authenticateToken, ticketController.exportTickets);
+router.get('/deleted', authenticateToken, ticketController.getDeletedTickets);
+router.get('/by-code/:code', authenticateToken, ticketController.getTicketByCode);
 router.get('/:id', authenticateToken, ticketController.getTicketById);
-router.post('/', authenticateToken, ticketController.createTicket);
+router.get('/:id/transitions', authenticateToken, ticketController.getTicketTransitions);
+router.get('/:id/history', authenticateToken, ticketHistoryController.getTicketHistory);
+router.post('/', authenticateToken, idempotency('POST /tickets'), ticketController.createTicket);
+router.post(
+  '/import',
+  authenticateToken,
+  ticketImportController.importUpload.single('file'),
+  ticketImportController.importTickets
+);
 router.put('/:id', authenticateToken, ticketController.updateTicket);
+router.delete('/:id', authenticateToken, ticketController.deleteTicket);
+router.post('/:id/restore', authenticateToken, ticketController.restoreTicket);
+
+// Ticket comments
+router.get('/:id/comments', authenticateToken, ticketCommentController.getTicketComments);
+router.post('/:id/comments', authenticateToken, ticketCommentController.createTicketComment);
+router.put('/:id/comments/:commentId', authenticateToken, ticketCommentController.updateTicketComment);
+router.delete('/:id/comments/:commentId', authenticateToken, ticketCommentController.deleteTicketComment);
+
+// On-site visits (check-in / check-out from the mobile app)
+router.get('/:id/visits', authenticateToken, ticketVisitController.getTicketVisits);
+router.post('/:id/check-in', authenticateToken, ticketVisitController.checkIn);
+router.post('/:id/check-out', authenticateToken, ticketVisitController.checkOut);
+
+// Completion with customer sign-off
+router.post('/:id/complete', authenticateToken, ticketSignOffController.completeTicket);
+
+// Ticket materials (added by technicians, approved by team leaders)
+router.get('/:id/materials', authenticateToken, ticketMaterialController.getTicketMaterials);
+router.post('/:id/materials', authenticateToken, ticketMaterialController.addTicketMaterial);
+router.put('/:id/materials/:materialId', authenticateToken, ticketMaterialController.updateTicketMaterial);
+router.delete('/:id/materials/:materialId', authenticateToken, ticketMaterialController.deleteTicketMaterial);
+router.post('/:id/materials/:materialId/approve', authenticateToken, ticketMaterialController.approveTicketMaterial);
+router.post('/:id/materials/:materialId/reject', authenticateToken, ticketMaterialController.rejectTicketMaterial);
+
+// Tool checkouts from the branch inventory
+router.get('/:id/tool-checkouts', authenticateToken, ticketToolController.getTicketToolCheckouts);
+router.post('/:id/tool-checkouts', authenticateToken, ticketToolController.checkOutTool);
+router.post('/:id/tool-checkouts/:checkoutId/return', authenticateToken, ticketToolController.returnTool);
+
+// Additional work proposals (submitted by technicians, reviewed by team leaders and admins)
+router.get('/:id/additional-work', authenticateToken, ticketAdditionalWorkController.getAdditionalWorks);
+router.post('/:id/additional-work', authenticateToken, ticketAdditionalWorkController.submitAdditionalWork);
+router.post(
+  '/:id/additional-work/:workId/approve',
+  authenticateToken,
+  ticketAdditionalWorkController.approveAdditionalWork
+);
+router.post('/:id/additional-work/:workId/reject', authenticateToken, ticketAdditionalWorkController.rejectAdditionalWork);
+router.post('/:id/additional-work/:workId/cancel', authenticateToken, ticketAdditionalWorkController.cancelAdditionalWork);
+
+// Reassignment with a reason code and reassignment log
+router.post('/:id/reassign', authenticateToken, ticketReassignmentController.reassignTicket);
+router.get('/:id/reassignments', authenticateToken, ticketReassignmentController.getTicketReassignments);
 
 export default router;
 
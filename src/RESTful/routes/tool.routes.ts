@@ -0,0 +1,15 @@
+import express from 'express';
+
+import * as toolController from '../controllers/tool.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// Protected routes - require authentication
+router.get('/', authenticateToken, toolController.getToolCatalog);
+router.get('/inventory', authenticateToken, toolController.getToolInventory);
+router.put('/inventory', authenticateToken, toolController.saveToolInventory);
+router.delete('/inventory/:id', authenticateToken, toolController.deleteToolInventory);
+router.get('/checkouts', authenticateToken, toolController.getToolCheckouts);
+
+export default router;
@@ -0,0 +1,109 @@
+import { Contract } from '../../../db/models/contract.model';
+import { contractConfig } from '../../../settings';
+import { AppError } from '../../middleware/error.middleware';
+import { toDateOnly } from '../ticket/ticket-scheduling.service';
+
+export enum ContractValidityStatus {
+  ACTIVE = 'ACTIVE',
+  EXPIRING_SOON = 'EXPIRING_SOON',
+  IN_GRACE_PERIOD = 'IN_GRACE_PERIOD',
+  EXPIRED = 'EXPIRED',
+  NOT_STARTED = 'NOT_STARTED',
+  INACTIVE = 'INACTIVE',
+}
+
+export interface ContractValidity {
+  status: ContractValidityStatus;
+  isExpired: boolean;
+  isExpiringSoon: boolean;
+  daysUntilExpiry: number | null;
+  graceEndDate: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+const daysBetween = (from: string, to: string): number => {
+  return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+};
+
+/**
+ * Last date tickets can be raised against the contract (end date plus the configured grace period)
+ */
+export const getGraceEndDate = (contract: Contract): string | null => {
+  return contract.contractEndDate ? addDays(toDateOnly(contract.contractEndDate), contractConfig.graceDays) : null;
+};
+
+/**
+ * Validity of a contract on a date (defaults to today)
+ * Contracts without an end date never expire, contracts without a start date are valid from the beginning
+ */
+export const getContractValidity = (contract: Contract, date: string = toDateOnly(new Date())): ContractValidity => {
+  const endDate = contract.contractEndDate ? toDateOnly(contract.contractEndDate) : null;
+  const startDate = contract.contractStartDate ? toDateOnly(contract.contractStartDate) : null;
+  const graceEndDate = getGraceEndDate(contract);
+  const daysUntilExpiry = endDate ? daysBetween(date, endDate) : null;
+
+  let status = ContractValidityStatus.ACTIVE;
+  if (!contract.isActive || contract.isDeleted) {
+    status = ContractValidityStatus.INACTIVE;
+  } else if (startDate && date < startDate) {
+    status = ContractValidityStatus.NOT_STARTED;
+  } else if (endDate && graceEndDate && date > graceEndDate) {
+    status = ContractValidityStatus.EXPIRED;
+  } else if (endDate && date > endDate) {
+    status = ContractValidityStatus.IN_GRACE_PERIOD;
+  } else if (daysUntilExpiry !== null && daysUntilExpiry <= contractConfig.expiringSoonDays) {
+    status = ContractValidityStatus.EXPIRING_SOON;
+  }
+
+  return {
+    daysUntilExpiry,
+    graceEndDate,
+    isExpired: status === ContractValidityStatus.EXPIRED || status === ContractValidityStatus.IN_GRACE_PERIOD,
+    isExpiringSoon: status === ContractValidityStatus.EXPIRING_SOON,
+    status,
+  };
+};
+
+/**
+ * Ensure tickets can be raised against the contract on the ticket date
+ * The contract must not be deleted, must be active and the ticket date must fall between contractStartDate
+ * and contractEndDate plus the grace period (CONTRACT_GRACE_DAYS)
+ */
+export const assertContractValidForTicket = (contract: Contract, ticketDate: string | Date): void => {
+  const date = toDateOnly(ticketDate);
+  const details = {
+    contractEndDate: contract.contractEndDate ? toDateOnly(contract.contractEndDate) : null,
+    contractId: contract.id,
+    contractStartDate: contract.contractStartDate ? toDateOnly(contract.contractStartDate) : null,
+    graceEndDate: getGraceEndDate(contract),
+    ticketDate: date,
+  };
+
+  if (contract.isDeleted) {
+    throw new AppError('Contract has been deleted', 400, 'CONTRACT_NOT_VALID', details);
+  }
+
+  if (!contract.isActive) {
+    throw new AppError('Contract is not active', 400, 'CONTRACT_NOT_VALID', details);
+  }
+
+  if (details.contractStartDate && date < details.contractStartDate) {
+    throw new AppError(
+      `Ticket date is before the contract start date (${details.contractStartDate})`,
+      400,
+      'CONTRACT_NOT_VALID',
+      details
+    );
+  }
+
+  if (details.graceEndDate && date > details.graceEndDate) {
+    throw new AppError(`Contract expired on ${details.contractEndDate}`, 400, 'CONTRACT_NOT_VALID', details);
+  }
+};
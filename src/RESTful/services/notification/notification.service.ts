@@ -0,0 +1,77 @@
+import admin from 'firebase-admin';
+import fs from 'fs';
+import path from 'path';
+import { Op } from 'sequelize';
+
+import { User } from '../../../db/models/user.model';
+
+export interface NotificationPayload {
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+let firebaseApp: admin.app.App | null | undefined;
+
+/**
+ * Lazily initialize Firebase Admin from the service account in firebase.json
+ * Returns null when the service account is not configured (e.g. local development)
+ */
+const getFirebaseApp = (): admin.app.App | null => {
+  if (firebaseApp !== undefined) {
+    return firebaseApp;
+  }
+
+  firebaseApp = null;
+  try {
+    const serviceAccountPath = path.join(process.cwd(), 'firebase.json');
+    if (fs.existsSync(serviceAccountPath)) {
+      const serviceAccount = JSON.parse(fs.readFileSync(serviceAccountPath, 'utf8'));
+      if (serviceAccount.project_id && serviceAccount.private_key) {
+        firebaseApp = admin.initializeApp({ credential: admin.credential.cert(serviceAccount) });
+      }
+    }
+  } catch (error) {
+    console.warn(`[Notification] Could not initialize Firebase: ${error.message}`);
+  }
+
+  if (!firebaseApp) {
+    console.warn('[Notification] Firebase service account not configured, push notifications are disabled');
+  }
+  return firebaseApp;
+};
+
+/**
+ * Send a push notification to the devices of the given users
+ * Failures are logged and never thrown, notifications must not break the request that triggered them
+ */
+export const notifyUsers = async (userIds: (number | null | undefined)[], payload: NotificationPayload): Promise<void> => {
+  const ids = [...new Set(userIds.filter((id): id is number => typeof id === 'number'))];
+  if (ids.length === 0) {
+    return;
+  }
+
+  try {
+    const users = await User.findAll({
+      where: { id: { [Op.in]: ids }, isDeleted: false },
+      attributes: ['id', 'fcmToken'],
+    });
+    const tokens = users.map(user => user.fcmToken).filter(token => !!token);
+
+    const app = getFirebaseApp();
+    if (!app || tokens.length === 0) {
+      return;
+    }
+
+    const response = await app.messaging().sendEachForMulticast({
+      data: payload.data,
+      notification: { body: payload.body, title: payload.title },
+      tokens,
+    });
+    if (response.failureCount > 0) {
+      console.warn(`[Notification] ${response.failureCount} of ${tokens.length} notifications failed`);
+    }
+  } catch (error) {
+    console.error(`[Notification] Failed to send notification: ${error.message}`);
+  }
+};
@@ -0,0 +1,137 @@
+import { getPlanOccurrences } from './preventive-plan.service';
+
+import { PreventivePlan, PreventiveRecurrenceType } from '../../../db/models/preventive-plan.model';
+
+const buildPlan = (fields: Partial<PreventivePlan>) =>
+  ({
+    dayOfMonth: null,
+    endDate: null,
+    recurrenceInterval: 1,
+    startDate: '2025-01-01',
+    weekdays: null,
+    ...fields,
+  }) as PreventivePlan;
+
+describe('getPlanOccurrences', () => {
+  describe('EVERY_N_DAYS', () => {
+    it('steps from the start date, not from the requested range', () => {
+      const plan = buildPlan({ recurrenceInterval: 3, recurrenceType: PreventiveRecurrenceType.EVERY_N_DAYS });
+
+      expect(getPlanOccurrences(plan, '2025-01-05', '2025-01-15')).toEqual([
+        '2025-01-07',
+        '2025-01-10',
+        '2025-01-13',
+      ]);
+    });
+
+    it('stops at the end date of the plan', () => {
+      const plan = buildPlan({
+        endDate: '2025-01-04',
+        recurrenceType: PreventiveRecurrenceType.EVERY_N_DAYS,
+      });
+
+      expect(getPlanOccurrences(plan, '2024-12-01', '2025-01-31')).toEqual([
+        '2025-01-01',
+        '2025-01-02',
+        '2025-01-03',
+        '2025-01-04',
+      ]);
+    });
+
+    it('has no occurrences before the start date', () => {
+      const plan = buildPlan({ recurrenceType: PreventiveRecurrenceType.EVERY_N_DAYS });
+
+      expect(getPlanOccurrences(plan, '2024-12-01', '2024-12-31')).toEqual([]);
+    });
+  });
+
+  describe('WEEKLY', () => {
+    it('repeats every N weeks on the weekday of the start date', () => {
+      // 2025-01-01 is a Wednesday
+      const plan = buildPlan({ recurrenceInterval: 2, recurrenceType: PreventiveRecurrenceType.WEEKLY });
+
+      expect(getPlanOccurrences(plan, '2025-01-02', '2025-02-28')).toEqual([
+        '2025-01-15',
+        '2025-01-29',
+        '2025-02-12',
+        '2025-02-26',
+      ]);
+    });
+  });
+
+  describe('WEEKDAYS', () => {
+    it('repeats on the listed weekdays of every week', () => {
+      // Sunday and Tuesday
+      const plan = buildPlan({ recurrenceType: PreventiveRecurrenceType.WEEKDAYS, weekdays: [0, 2] });
+
+      expect(getPlanOccurrences(plan, '2025-01-01', '2025-01-14')).toEqual([
+        '2025-01-05',
+        '2025-01-07',
+        '2025-01-12',
+        '2025-01-14',
+      ]);
+    });
+
+    it('counts interval weeks from the Sunday of the start week', () => {
+      // Starts on Wednesday 2025-01-01, its week starts on Sunday 2024-12-29; Monday and Thursday every other week
+      const plan = buildPlan({
+        recurrenceInterval: 2,
+        recurrenceType: PreventiveRecurrenceType.WEEKDAYS,
+        weekdays: [1, 4],
+      });
+
+      expect(getPlanOccurrences(plan, '2025-01-01', '2025-01-31')).toEqual([
+        '2025-01-02',
+        '2025-01-13',
+        '2025-01-16',
+        '2025-01-27',
+        '2025-01-30',
+      ]);
+    });
+
+    it('keeps the interval weeks when generating a later range', () => {
+      const plan = buildPlan({
+        recurrenceInterval: 2,
+        recurrenceType: PreventiveRecurrenceType.WEEKDAYS,
+        weekdays: [1, 4],
+      });
+
+      expect(getPlanOccurrences(plan, '2025-01-20', '2025-01-31')).toEqual(['2025-01-27', '2025-01-30']);
+    });
+  });
+
+  describe('MONTHLY', () => {
+    it('clamps days past the end of shorter months to their last day', () => {
+      const plan = buildPlan({ recurrenceType: PreventiveRecurrenceType.MONTHLY, startDate: '2025-01-31' });
+
+      expect(getPlanOccurrences(plan, '2025-01-01', '2025-05-31')).toEqual([
+        '2025-01-31',
+        '2025-02-28',
+        '2025-03-31',
+        '2025-04-30',
+        '2025-05-31',
+      ]);
+    });
+
+    it('clamps to February 29 in leap years', () => {
+      const plan = buildPlan({
+        dayOfMonth: 30,
+        recurrenceType: PreventiveRecurrenceType.MONTHLY,
+        startDate: '2024-01-15',
+      });
+
+      expect(getPlanOccurrences(plan, '2024-02-01', '2024-03-31')).toEqual(['2024-02-29', '2024-03-30']);
+    });
+
+    it('repeats every N months across the year end', () => {
+      const plan = buildPlan({
+        dayOfMonth: 10,
+        recurrenceInterval: 3,
+        recurrenceType: PreventiveRecurrenceType.MONTHLY,
+        startDate: '2025-08-01',
+      });
+
+      expect(getPlanOccurrences(plan, '2025-09-01', '2026-06-30')).toEqual(['2025-11-10', '2026-02-10', '2026-05-10']);
+    });
+  });
+});
@@ -0,0 +1,289 @@
+import { Op, UniqueConstraintError } from 'sequelize';
+
+import { Company } from '../../../db/models/company.model';
+import { Contract } from '../../../db/models/contract.model';
+import { PreventivePlan, PreventiveRecurrenceType } from '../../../db/models/preventive-plan.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { AppError } from '../../middleware/error.middleware';
+import { RoleId } from '../../types/user.types';
+import { insertTicket, NewTicketInput, validateNewTicket } from '../ticket/ticket-creation.service';
+import { getQuotaTicketTypes, TicketQuotaType } from '../ticket/ticket-quota.service';
+import { toDateOnly } from '../ticket/ticket-scheduling.service';
+
+export interface PlanGenerationResult {
+  planId: number;
+  from: string | null;
+  to: string | null;
+  createdTickets: Ticket[];
+  skippedDates: string[];
+  conflictDates: string[];
+  quotaReached: boolean;
+  reason: string | null;
+}
+
+// History source of tickets generated by the scheduler
+const SCHEDULER_SOURCE = 'Scheduler';
+
+// Plans never generate further ahead than this
+export const MAX_GENERATE_DAYS_AHEAD = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDate = (date: string): Date => new Date(`${toDateOnly(date)}T00:00:00Z`);
+
+const addDays = (date: string, days: number): string => {
+  const result = parseDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateOnly(result);
+};
+
+const daysBetween = (from: string, to: string): number => {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / DAY_MS);
+};
+
+const minDate = (...dates: (string | null)[]): string => {
+  return dates.filter((date): date is string => !!date).sort()[0];
+};
+
+const maxDate = (...dates: (string | null)[]): string => {
+  return dates.filter((date): date is string => !!date).sort().reverse()[0];
+};
+
+/**
+ * Date of a MONTHLY occurrence, days past the end of shorter months are clamped to the last day
+ */
+const getMonthlyDate = (year: number, month: number, day: number): string => {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return toDateOnly(new Date(Date.UTC(year, month, Math.min(day, lastDay))));
+};
+
+/**
+ * Occurrence dates of a plan between two dates (inclusive), counted from the plan's startDate
+ * - EVERY_N_DAYS: every recurrenceInterval days
+ * - WEEKLY: every recurrenceInterval weeks on the weekday of startDate
+ * - WEEKDAYS: on the listed weekdays of every recurrenceInterval-th week (weeks start on Sunday)
+ * - MONTHLY: every recurrenceInterval months on dayOfMonth (defaults to the day of startDate)
+ */
+export const getPlanOccurrences = (plan: PreventivePlan, from: string, to: string): string[] => {
+  const startDate = toDateOnly(plan.startDate);
+  const first = from > startDate ? from : startDate;
+  const last = plan.endDate && toDateOnly(plan.endDate) < to ? toDateOnly(plan.endDate) : to;
+  const interval = Math.max(plan.recurrenceInterval || 1, 1);
+  const dates: string[] = [];
+
+  if (first > last) {
+    return dates;
+  }
+
+  switch (plan.recurrenceType) {
+    case PreventiveRecurrenceType.EVERY_N_DAYS:
+    case PreventiveRecurrenceType.WEEKLY: {
+      const step = plan.recurrenceType === PreventiveRecurrenceType.WEEKLY ? interval * 7 : interval;
+      const offset = daysBetween(startDate, first);
+      let date = addDays(startDate, Math.ceil(offset / step) * step);
+      while (date <= last) {
+        dates.push(date);
+        date = addDays(date, step);
+      }
+      break;
+    }
+    case PreventiveRecurrenceType.WEEKDAYS: {
+      const weekdays = new Set(plan.weekdays || []);
+      const firstWeekStart = addDays(startDate, -parseDate(startDate).getUTCDay());
+      for (let date = first; date <= last; date = addDays(date, 1)) {
+        const week = Math.floor(daysBetween(firstWeekStart, date) / 7);
+        if (week % interval === 0 && weekdays.has(parseDate(date).getUTCDay())) {
+          dates.push(date);
+        }
+      }
+      break;
+    }
+    case PreventiveRecurrenceType.MONTHLY: {
+      const start = parseDate(startDate);
+      const day = plan.dayOfMonth || start.getUTCDate();
+      for (let month = 0; ; month += interval) {
+        const date = getMonthlyDate(start.getUTCFullYear(), start.getUTCMonth() + month, day);
+        if (date > last) break;
+        if (date >= first) dates.push(date);
+      }
+      break;
+    }
+  }
+
+  return dates;
+};
+
+/**
+ * Generate the upcoming tickets of a plan
+ * - Tickets are generated from today (or startDate) up to generateDaysAhead days ahead, never past the plan's
+ *   endDate or the contract end date
+ * - Dates that already have a ticket of the plan (including deleted ones) are skipped, the unique index on
+ *   (preventive_plan_id, ticket_date) guards against concurrent runs
+ * - Each occurrence is validated and inserted like a ticket created by an Admin, in one transaction under the company
+ *   lock (see validateNewTicket)
+ * - Generation stops at the preventive quota of the contract or company
+ * - Technician double booking does not block generation, the affected dates are reported in conflictDates
+ */
+export const generatePlanTickets = async (
+  plan: PreventivePlan,
+  actorId: number | null = null
+): Promise<PlanGenerationResult> => {
+  const result: PlanGenerationResult = {
+    conflictDates: [],
+    createdTickets: [],
+    from: null,
+    planId: plan.id,
+    quotaReached: false,
+    reason: null,
+    skippedDates: [],
+    to: null,
+  };
+
+  if (!plan.isActive || plan.isDeleted) {
+    result.reason = 'Plan is not active';
+    return result;
+  }
+
+  const [contract, company, ticketTypes] = await Promise.all([
+    Contract.findByPk(plan.contractId),
+    Company.findByPk(plan.companyId),
+    getQuotaTicketTypes(),
+  ]);
+
+  if (!contract || !contract.isActive || contract.isDeleted) {
+    result.reason = 'Contract is not active';
+    return result;
+  }
+  if (!company) {
+    result.reason = 'Company not found';
+    return result;
+  }
+
+  const preventiveType = ticketTypes.get(TicketQuotaType.PREVENTIVE);
+  if (!preventiveType) {
+    throw new AppError('Preventive ticket type not found', 500, 'INTERNAL_ERROR');
+  }
+
+  const today = toDateOnly(new Date());
+  const contractStartDate = contract.contractStartDate ? toDateOnly(contract.contractStartDate) : null;
+  const from = maxDate(today, toDateOnly(plan.startDate), contractStartDate);
+  const daysAhead = Math.min(Math.max(plan.generateDaysAhead, 0), MAX_GENERATE_DAYS_AHEAD);
+  const to = minDate(
+    addDays(today, daysAhead),
+    plan.endDate ? toDateOnly(plan.endDate) : null,
+    contract.contractEndDate ? toDateOnly(contract.contractEndDate) : null
+  );
+  result.from = from;
+  result.to = to;
+
+  if (from > to) {
+    result.reason = 'Nothing to generate in the plan window';
+    return result;
+  }
+
+  const existingTickets = await Ticket.findAll({
+    where: { preventivePlanId: plan.id, ticketDate: { [Op.between]: [from, to] } },
+    attributes: ['id', 'ticketDate'],
+  });
+  const existingDates = new Set(existingTickets.map(ticket => toDateOnly(ticket.ticketDate)));
+
+  let generatedUntil = plan.lastGeneratedUntil ? toDateOnly(plan.lastGeneratedUntil) : null;
+
+  // Tickets are generated on behalf of the actor, or of the company admin role for scheduled runs
+  const generator = { companyId: plan.companyId, id: actorId, userRoleId: RoleId.ADMIN };
+
+  for (const date of getPlanOccurrences(plan, from, to)) {
+    if (existingDates.has(date)) {
+      result.skippedDates.push(date);
+      continue;
+    }
+
+    const input: NewTicketInput = {
+      assignToTeamLeaderId: plan.assignToTeamLeaderId,
+      assignToTechnicianId: plan.assignToTechnicianId,
+      branchId: plan.branchId,
+      contractId: plan.contractId,
+      mainServiceId: plan.mainServiceId,
+      preventivePlanId: plan.id,
+      ticketDate: date,
+      ticketDescription: plan.description,
+      ticketTimeFrom: plan.ticketTimeFrom,
+      ticketTimeTo: plan.ticketTimeTo,
+      ticketTitle: plan.title,
+      ticketTypeId: preventiveType.id,
+      zoneId: plan.zoneId,
+    };
+
+    try {
+      const { overlappingTickets, ticket } = await Ticket.sequelize!.transaction(async transaction => {
+        const validation = await validateNewTicket(generator, input, { allowOverlap: true, transaction });
+        const created = await insertTicket(generator, input, 'Web', SCHEDULER_SOURCE, transaction);
+        return { overlappingTickets: validation.overlappingTickets, ticket: created };
+      });
+      result.createdTickets.push(ticket);
+      if (overlappingTickets.length > 0) {
+        result.conflictDates.push(date);
+      }
+    } catch (error) {
+      if (error instanceof AppError && error.code === 'TICKET_QUOTA_EXCEEDED') {
+        result.quotaReached = true;
+        result.reason = error.message;
+        break;
+      }
+      // Another run generated the same occurrence in the meantime
+      if (!(error instanceof UniqueConstraintError)) {
+        throw error;
+      }
+      result.skippedDates.push(date);
+    }
+
+    generatedUntil = !generatedUntil || date > generatedUntil ? date : generatedUntil;
+  }
+
+  if (!result.quotaReached && (!generatedUntil || to > generatedUntil)) {
+    generatedUntil = to;
+  }
+  if (generatedUntil !== (plan.lastGeneratedUntil ? toDateOnly(plan.lastGeneratedUntil) : null)) {
+    await plan.update({ lastGeneratedUntil: generatedUntil });
+  }
+
+  return result;
+};
+
+let schedulerRunning = false;
+
+/**
+ * Generate the upcoming tickets of every active plan, a failing plan does not stop the others
+ * Runs are skipped while a previous run is still in progress
+ */
+export const runPreventivePlanScheduler = async (): Promise<void> => {
+  if (schedulerRunning) {
+    console.log('⚠️  Preventive plan scheduler is already running, skipping');
+    return;
+  }
+
+  schedulerRunning = true;
+  try {
+    const plans = await PreventivePlan.findAll({
+      where: { isActive: true, isDeleted: false },
+      order: [['id', 'ASC']],
+    });
+
+    let created = 0;
+    for (const plan of plans) {
+      try {
+        const result = await generatePlanTickets(plan);
+        created += result.createdTickets.length;
+        if (result.quotaReached) {
+          console.log(`⚠️  Preventive plan ${plan.id}: ${result.reason}`);
+        }
+      } catch (error: any) {
+        console.log(`❌ Preventive plan ${plan.id} failed:`, error.message);
+      }
+    }
+
+    console.log(`✅ Preventive plan scheduler generated ${created} ticket(s) for ${plans.length} plan(s)`);
+  } finally {
+    schedulerRunning = false;
+  }
+};
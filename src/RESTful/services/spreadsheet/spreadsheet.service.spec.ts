@@ -0,0 +1,70 @@
+import { PassThrough } from 'stream';
+
+import {
+  createCsvWriter,
+  parseCsv,
+  readSpreadsheetRows,
+  SpreadsheetCell,
+  SpreadsheetFormat,
+} from './spreadsheet.service';
+
+const writeCsv = async (rows: SpreadsheetCell[][]): Promise<string> => {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+
+  const writer = createCsvWriter(output);
+  for (const row of rows) {
+    await writer.writeRow(row);
+  }
+  await writer.end();
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+describe('createCsvWriter', () => {
+  it('starts with a UTF-8 BOM and quotes cells when needed', async () => {
+    const csv = await writeCsv([
+      ['Title', 'Description'],
+      ['AC, split unit', 'Says "cold"'],
+    ]);
+
+    expect(csv).toBe('\uFEFFTitle,Description\r\n"AC, split unit","Says ""cold"""\r\n');
+  });
+
+  it.each(['=HYPERLINK("http://example.com")', '+1+1', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd'])(
+    'prefixes text Excel would run as a formula: %p',
+    async text => {
+      const [row] = parseCsv(await writeCsv([[text]]));
+
+      expect(row).toEqual([`'${text}`]);
+    }
+  );
+
+  it('keeps numbers, dates and plain text as they are', async () => {
+    const csv = await writeCsv([[-5, 'Leak - kitchen', new Date('2025-03-10T10:00:00Z'), null]]);
+
+    expect(parseCsv(csv)).toEqual([['-5', 'Leak - kitchen', '2025-03-10T10:00:00.000Z', '']]);
+  });
+});
+
+describe('parseCsv', () => {
+  it('detects semicolon separated files from the header row', () => {
+    expect(parseCsv('Branch;Date\r\nMain;2025-03-10\r\n')).toEqual([
+      ['Branch', 'Date'],
+      ['Main', '2025-03-10'],
+    ]);
+  });
+
+  it('rejects malformed files with a validation error', () => {
+    expect(() => parseCsv('Title\r\n"unclosed')).toThrow('File is not a valid CSV spreadsheet');
+  });
+});
+
+describe('readSpreadsheetRows', () => {
+  it('rejects files that are not XLSX workbooks', async () => {
+    await expect(readSpreadsheetRows(Buffer.from('not a workbook'), SpreadsheetFormat.XLSX)).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+      statusCode: 400,
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { CsvError, parse } from 'csv-parse/sync';
+import { stringify } from 'csv-stringify';
+import { once } from 'events';
+import ExcelJS from 'exceljs';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+
+import { AppError } from '../../middleware/error.middleware';
+
+export type SpreadsheetCell = string | number | boolean | Date | null | undefined;
+
+export interface SpreadsheetWriter {
+  writeRow: (cells: SpreadsheetCell[]) => Promise<void>;
+  end: () => Promise<void>;
+}
+
+export enum SpreadsheetFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
+
+export const SPREADSHEET_CONTENT_TYPES: Record<SpreadsheetFormat, string> = {
+  [SpreadsheetFormat.CSV]: 'text/csv; charset=utf-8',
+  [SpreadsheetFormat.XLSX]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const UTF8_BOM = '\uFEFF';
+
+// Excel stores dates as days since 1899-12-30 and times as fractions of a day
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Text starting with one of these characters is run as a formula when a CSV file is opened in Excel
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Control characters are not allowed in XLSX (XML) text
+const XML_INVALID_CHARACTERS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g;
+
+const toText = (cell: SpreadsheetCell): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString();
+  return String(cell);
+};
+
+// ---------------------------------------------------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------------------------------------------------
+
+/**
+ * Text of a CSV cell, text that Excel would run as a formula (CSV formula injection) is prefixed with '
+ */
+const toCsvText = (cell: SpreadsheetCell): string => {
+  const text = toText(cell);
+  return typeof cell === 'string' && CSV_FORMULA_PREFIX.test(text) ? `'${text}` : text;
+};
+
+/**
+ * CSV writer (RFC 4180), starts with a UTF-8 BOM so Excel opens Arabic text correctly
+ */
+export const createCsvWriter = (output: Writable): SpreadsheetWriter => {
+  // Cells with a lone CR or LF are quoted too, only CRLF is the record delimiter
+  const csv = stringify({ bom: true, quoted_match: /[\r\n]/, record_delimiter: 'windows' });
+  csv.pipe(output);
+
+  return {
+    end: async () => {
+      csv.end();
+      await finished(output);
+    },
+    writeRow: async cells => {
+      if (!csv.write(cells.map(toCsvText))) {
+        await once(csv, 'drain');
+      }
+    },
+  };
+};
+
+const toXlsxValue = (cell: SpreadsheetCell): ExcelJS.CellValue => {
+  if (cell === null || cell === undefined || cell === '') return null;
+  if (typeof cell === 'number') return Number.isFinite(cell) ? cell : null;
+  if (typeof cell === 'boolean') return cell;
+  return toText(cell).replace(XML_INVALID_CHARACTERS, '');
+};
+
+/**
+ * XLSX writer with a single worksheet, the first row written is styled as the header
+ * Rows are committed as they are written, so the workbook is streamed and never held in memory
+ */
+export const createXlsxWriter = (output: Writable, sheetName: string = 'Sheet1'): SpreadsheetWriter => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useSharedStrings: false, useStyles: true });
+  const worksheet = workbook.addWorksheet(sheetName.slice(0, 31));
+  let rowCount = 0;
+
+  return {
+    end: async () => {
+      worksheet.commit();
+      await workbook.commit();
+    },
+    writeRow: async cells => {
+      const row = worksheet.addRow(cells.map(toXlsxValue));
+      if (++rowCount === 1) {
+        row.font = { bold: true };
+      }
+      row.commit();
+    },
+  };
+};
+
+/**
+ * Spreadsheet writer of the requested format
+ */
+export const createSpreadsheetWriter = (
+  format: SpreadsheetFormat,
+  output: Writable,
+  sheetName?: string
+): SpreadsheetWriter => {
+  return format === SpreadsheetFormat.XLSX ? createXlsxWriter(output, sheetName) : createCsvWriter(output);
+};
+
+// ---------------------------------------------------------------------------------------------------------------------
+// Reading
+// Rows are returned as cell text, indexed by row number - 1 so callers can report the row numbers users see
+// ---------------------------------------------------------------------------------------------------------------------
+
+const invalidFile = (format: SpreadsheetFormat): AppError =>
+  new AppError(`File is not a valid ${format.toUpperCase()} spreadsheet`, 400, 'VALIDATION_ERROR');
+
+/**
+ * Parse CSV text (RFC 4180), semicolon separated files (Excel in some locales) are detected from the header row
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+
+  try {
+    return parse(content, { delimiter, relax_column_count: true, skip_empty_lines: false });
+  } catch (error) {
+    if (error instanceof CsvError) {
+      throw invalidFile(SpreadsheetFormat.CSV);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Text of an XLSX cell value
+ * Dates are returned as Excel serials (days since 1899-12-30, times as day fractions) like numbers formatted as dates
+ */
+const toCellText = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return String((value.getTime() - EXCEL_EPOCH) / DAY_MS);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value !== 'object') return String(value);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('formula' in value || 'sharedFormula' in value) {
+    return toCellText((value as ExcelJS.CellFormulaValue).result as ExcelJS.CellValue);
+  }
+  if ('hyperlink' in value) return toCellText(value.text as ExcelJS.CellValue);
+  // Error values (#N/A, #REF!, ...)
+  return '';
+};
+
+/**
+ * Read the first worksheet of an XLSX file
+ */
+export const readXlsxRows = async (buffer: Buffer): Promise<string[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer);
+  } catch {
+    throw invalidFile(SpreadsheetFormat.XLSX);
+  }
+
+  const [worksheet] = workbook.worksheets;
+  if (!worksheet) {
+    throw invalidFile(SpreadsheetFormat.XLSX);
+  }
+
+  const rows: string[][] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    const cells: string[] = [];
+    row.eachCell((cell, columnNumber) => {
+      cells[columnNumber - 1] = toCellText(cell.value);
+    });
+    rows[rowNumber - 1] = Array.from(cells, cell => cell ?? '');
+  });
+
+  return Array.from(rows, row => row ?? []);
+};
+
+/**
+ * Read the rows of an uploaded CSV or XLSX file
+ */
+export const readSpreadsheetRows = async (buffer: Buffer, format: SpreadsheetFormat): Promise<string[][]> => {
+  if (format === SpreadsheetFormat.XLSX) {
+    return readXlsxRows(buffer);
+  }
+  return parseCsv(buffer.toString('utf8'));
+};
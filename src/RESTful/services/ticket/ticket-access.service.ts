@@ -0,0 +1,124 @@
+import { Includeable, Op } from 'sequelize';
+
+import { File, FileEntityType } from '../../../db/models/file.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { AppError } from '../../middleware/error.middleware';
+import { RoleId } from '../../types/user.types';
+
+/**
+ * Whether the user is a Technician (21) or Sub-Technician (22)
+ */
+export const isTechnicianRole = (roleId: number): boolean => {
+  return roleId === RoleId.TECHNICIAN || roleId === RoleId.SUB_TECHNICIAN;
+};
+
+/**
+ * Resolve the company of an authenticated user or fail with the standard errors
+ */
+export const requireCompanyId = (user: any): number => {
+  if (!user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  if (!user.companyId) {
+    throw new AppError('User is not associated with a company', 400, 'VALIDATION_ERROR');
+  }
+
+  return user.companyId;
+};
+
+/**
+ * Parse the :id route parameter of a ticket
+ */
+export const parseTicketId = (value: string): number => {
+  const ticketId = parseInt(value);
+  if (isNaN(ticketId)) {
+    throw new AppError('Invalid ticket ID', 400, 'VALIDATION_ERROR');
+  }
+  return ticketId;
+};
+
+/**
+ * Parse a text field of the request body, returns the trimmed text or null when blank and not required
+ */
+export const parseText = (body: any, field: string, maxLength: number, required: boolean): string | null => {
+  const value = typeof body?.[field] === 'string' ? body[field].trim() : '';
+  if (!value) {
+    if (required) {
+      throw new AppError(`${field} is required`, 400, 'VALIDATION_ERROR');
+    }
+    return null;
+  }
+  if (value.length > maxLength) {
+    throw new AppError(`${field} must not exceed ${maxLength} characters`, 400, 'VALIDATION_ERROR');
+  }
+  return value;
+};
+
+/**
+ * Find a non-deleted ticket the user is allowed to see
+ * - Technicians (21) and Sub-Technicians (22) can only access tickets assigned to them
+ * - Other company users can access all tickets of their company
+ */
+export const findAccessibleTicket = async (user: any, ticketId: number, include: Includeable[] = []): Promise<Ticket> => {
+  const companyId = requireCompanyId(user);
+
+  const whereClause: any = {
+    id: ticketId,
+    companyId,
+    isDeleted: false,
+  };
+
+  if (isTechnicianRole(user.userRoleId)) {
+    whereClause.assignToTechnicianId = user.id;
+  }
+
+  const ticket = await Ticket.findOne({ where: whereClause, include });
+
+  if (!ticket) {
+    throw new AppError('Ticket not found or access denied', 404, 'NOT_FOUND');
+  }
+
+  return ticket;
+};
+
+/**
+ * Source of the request (Web for frontend-oms, Mobile for the mobile apps)
+ * The web frontend sends X-Request-Source: Web, everything else reaching backend-mms is treated as Mobile
+ */
+export const getRequestSource = (req: { headers: Record<string, any> }): string => {
+  const source = String(req.headers['x-request-source'] || '').toLowerCase();
+  return source === 'web' ? 'Web' : 'Mobile';
+};
+
+/**
+ * Files the user uploaded to a ticket, for attachments referenced by ID (comment attachments, visit photos,
+ * signatures, proposals)
+ * Files are uploaded first (POST /files/upload with entityType 'ticket' and the ticket ID as referenceId), files of
+ * other tickets or uploaded by other users are not returned
+ */
+export const findOwnTicketUploads = async (user: any, ticket: Ticket, fileIds: number[]): Promise<File[]> => {
+  if (fileIds.length === 0) {
+    return [];
+  }
+  return File.findAll({
+    where: {
+      entityId: ticket.id,
+      entityType: FileEntityType.TICKET,
+      id: { [Op.in]: fileIds },
+      uploadedBy: user.id,
+    },
+  });
+};
+
+/**
+ * Single file the user uploaded to a ticket (see findOwnTicketUploads), null when not found
+ */
+export const findOwnTicketUpload = async (user: any, ticket: Ticket, fileId: any): Promise<File | null> => {
+  const id = Number(fileId);
+  if (!Number.isInteger(id) || id <= 0) {
+    return null;
+  }
+  const [file] = await findOwnTicketUploads(user, ticket, [id]);
+  return file ?? null;
+};
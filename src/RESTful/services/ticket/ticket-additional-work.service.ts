@@ -0,0 +1,127 @@
+import { findOwnTicketUpload, parseText } from './ticket-access.service';
+
+import { AdditionalWork, AdditionalWorkStatus } from '../../../db/models/additional-work.model';
+import { File } from '../../../db/models/file.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { User } from '../../../db/models/user.model';
+import { AppError } from '../../middleware/error.middleware';
+import { RoleId } from '../../types/user.types';
+
+export interface AdditionalWorkInput {
+  title: string;
+  description: string;
+  proposalFileId: number;
+}
+
+export const MAX_ADDITIONAL_WORK_TITLE_LENGTH = 255;
+export const MAX_ADDITIONAL_WORK_DESCRIPTION_LENGTH = 2000;
+export const MAX_STATUS_REASON_LENGTH = 500;
+
+// Allowed status changes of a proposal, rejected and canceled proposals are final
+export const ADDITIONAL_WORK_TRANSITIONS: Record<AdditionalWorkStatus, AdditionalWorkStatus[]> = {
+  [AdditionalWorkStatus.IN_PROGRESS]: [
+    AdditionalWorkStatus.APPROVED,
+    AdditionalWorkStatus.REJECTED,
+    AdditionalWorkStatus.CANCELED,
+  ],
+  [AdditionalWorkStatus.APPROVED]: [AdditionalWorkStatus.CANCELED],
+  [AdditionalWorkStatus.REJECTED]: [],
+  [AdditionalWorkStatus.CANCELED]: [],
+};
+
+// Users and proposal file shown on proposals
+export const ADDITIONAL_WORK_INCLUDE = [
+  { model: File, as: 'proposalFile', required: false },
+  { model: User, as: 'creator', required: false, attributes: ['id', 'fullName', 'userNumber'] },
+  { model: User, as: 'reviewer', required: false, attributes: ['id', 'fullName', 'userNumber'] },
+];
+
+/**
+ * Admins and Team Leaders approve, reject and cancel proposals
+ */
+export const canReviewAdditionalWork = (roleId: number): boolean => {
+  return roleId === RoleId.ADMIN || roleId === RoleId.TEAM_LEADER;
+};
+
+/**
+ * Validate a proposal
+ * The proposal file is a file the user submitting the proposal uploaded to the ticket (see findOwnTicketUpload)
+ */
+export const parseAdditionalWorkInput = async (user: any, ticket: Ticket, body: any): Promise<AdditionalWorkInput> => {
+  const title = parseText(body, 'title', MAX_ADDITIONAL_WORK_TITLE_LENGTH, true)!;
+  const description = parseText(body, 'description', MAX_ADDITIONAL_WORK_DESCRIPTION_LENGTH, true)!;
+
+  if (body.proposalFileId === undefined || body.proposalFileId === null || body.proposalFileId === '') {
+    throw new AppError('proposalFileId is required', 400, 'VALIDATION_ERROR');
+  }
+  const proposalFile = await findOwnTicketUpload(user, ticket, body.proposalFileId);
+  if (!proposalFile) {
+    throw new AppError('Proposal file was not found on this ticket', 400, 'VALIDATION_ERROR');
+  }
+
+  return { description, proposalFileId: proposalFile.id, title };
+};
+
+/**
+ * Validate the reason of a status change, rejecting and canceling require one
+ */
+export const parseStatusReason = (body: any, status: AdditionalWorkStatus): string | null => {
+  return parseText(body, 'reason', MAX_STATUS_REASON_LENGTH, status !== AdditionalWorkStatus.APPROVED);
+};
+
+/**
+ * Reject status changes that are not allowed from the current status
+ */
+export const assertAdditionalWorkTransition = (from: AdditionalWorkStatus, to: AdditionalWorkStatus): void => {
+  const allowed = ADDITIONAL_WORK_TRANSITIONS[from] ?? [];
+  if (!allowed.includes(to)) {
+    throw new AppError(
+      `Additional work cannot be changed from ${from} to ${to}`,
+      409,
+      'INVALID_STATUS_TRANSITION',
+      { allowed, from, to }
+    );
+  }
+};
+
+/**
+ * Format a proposal for responses
+ */
+export const formatAdditionalWork = (work: AdditionalWork) => ({
+  id: work.id,
+  ticketId: work.ticketId,
+  title: work.title,
+  description: work.description,
+  status: work.status,
+  allowedStatuses: ADDITIONAL_WORK_TRANSITIONS[work.status] ?? [],
+  proposalFile: work.proposalFile
+    ? {
+        id: work.proposalFile.id,
+        fileName: work.proposalFile.originalFilename ?? work.proposalFile.filename ?? '',
+        filePath: work.proposalFile.filePath ?? work.proposalFile.path ?? '',
+      }
+    : work.proposalFileId
+      ? { id: work.proposalFileId }
+      : null,
+  submittedAt: work.submittedAt,
+  submittedBy: work.creator
+    ? { id: work.creator.id, name: work.creator.fullName, userNumber: work.creator.userNumber }
+    : work.createdBy,
+  reviewedBy: work.reviewer
+    ? { id: work.reviewer.id, name: work.reviewer.fullName, userNumber: work.reviewer.userNumber }
+    : work.reviewedBy,
+  reviewedAt: work.reviewedAt,
+  statusReason: work.statusReason,
+  updatedAt: work.updatedAt,
+});
+
+/**
+ * Proposals of a ticket, newest first
+ */
+export const findTicketAdditionalWorks = async (ticketId: number): Promise<AdditionalWork[]> => {
+  return AdditionalWork.findAll({
+    where: { isDeleted: false, ticketId },
+    include: ADDITIONAL_WORK_INCLUDE,
+    order: [['submittedAt', 'DESC'], ['id', 'DESC']],
+  });
+};
@@ -0,0 +1,175 @@
+import { fn, col, Op } from 'sequelize';
+
+import {
+  rankTechnicianAvailability,
+  TechnicianAvailability,
+  toDateOnly,
+  toTime,
+} from './ticket-scheduling.service';
+import { findStatusByCode, getTicketStatusLookups, TicketStatusCode } from './ticket-workflow.service';
+
+import { Ticket } from '../../../db/models/ticket.model';
+import { User } from '../../../db/models/user.model';
+import { RoleId } from '../../types/user.types';
+
+export interface AssignmentCriteria {
+  companyId: number;
+  branchId?: number | null;
+  zoneId?: number | null;
+  mainServiceId?: number | null;
+  ticketDate: string | Date;
+  ticketTimeFrom: string;
+  ticketTimeTo: string;
+  havingFemaleEngineer?: boolean;
+}
+
+export interface TechnicianSuggestion {
+  technician: User;
+  score: number;
+  availability: TechnicianAvailability;
+  bookedMinutes: number;
+  ticketsOnDate: number;
+  openTickets: number;
+  recentZoneTickets: number;
+  recentServiceTickets: number;
+  recentBranchTickets: number;
+}
+
+// Recent work is counted over this many days
+const RECENT_WORK_DAYS = 90;
+
+// Score weights, availability dominates so a free technician is always preferred over a busy one
+const AVAILABILITY_SCORE: Record<TechnicianAvailability, number> = {
+  [TechnicianAvailability.FREE]: 100,
+  [TechnicianAvailability.PARTIAL]: 30,
+  [TechnicianAvailability.FULL]: -100,
+};
+const OPEN_TICKET_PENALTY = 4;
+const SAME_DAY_TICKET_PENALTY = 6;
+const RECENT_ZONE_BONUS = 5;
+const RECENT_SERVICE_BONUS = 4;
+const RECENT_BRANCH_BONUS = 1;
+// Recent work bonuses stop growing after this many tickets
+const RECENT_WORK_CAP = 5;
+
+/**
+ * Count tickets per technician matching the where clause
+ */
+const countByTechnician = async (whereClause: any): Promise<Map<number, number>> => {
+  const rows = (await Ticket.findAll({
+    where: whereClause,
+    attributes: ['assignToTechnicianId', [fn('COUNT', col('id')), 'count']],
+    group: ['assignToTechnicianId'],
+    raw: true,
+  })) as unknown as { assignToTechnicianId: number; count: string }[];
+
+  return new Map(rows.map(row => [Number(row.assignToTechnicianId), Number(row.count)]));
+};
+
+/**
+ * Whether the user's gender column says female
+ */
+export const isFemale = (user: User): boolean => (user.gender || '').trim().toLowerCase() === 'female';
+
+/**
+ * Rank the company's technicians for a ticket
+ * - Technicians other than female ones are excluded when a female engineer is required
+ * - Slot availability weighs the most, then workload (open tickets and tickets on the same date),
+ *   then recent work in the same zone, main service and branch
+ */
+export const suggestTechnicians = async (criteria: AssignmentCriteria): Promise<TechnicianSuggestion[]> => {
+  let technicians = await User.findAll({
+    where: {
+      companyId: criteria.companyId,
+      isActive: true,
+      isDeleted: false,
+      userRoleId: { [Op.in]: [RoleId.TECHNICIAN, RoleId.SUB_TECHNICIAN] },
+    },
+    attributes: ['id', 'fullName', 'userNumber', 'userRoleId', 'gender', 'profileImage'],
+    order: [['fullName', 'ASC']],
+  });
+
+  if (criteria.havingFemaleEngineer) {
+    technicians = technicians.filter(isFemale);
+  }
+
+  if (technicians.length === 0) {
+    return [];
+  }
+
+  const technicianIds = technicians.map(technician => technician.id);
+  const statuses = await getTicketStatusLookups();
+  const openStatusIds = [TicketStatusCode.PENDING, TicketStatusCode.IN_PROGRESS]
+    .map(code => findStatusByCode(statuses, code)?.id)
+    .filter((id): id is number => !!id);
+  const cancelledStatus = findStatusByCode(statuses, TicketStatusCode.CANCELLED);
+
+  const recentFrom = new Date();
+  recentFrom.setDate(recentFrom.getDate() - RECENT_WORK_DAYS);
+  const recentWhere: any = {
+    assignToTechnicianId: { [Op.in]: technicianIds },
+    isDeleted: false,
+    ticketDate: { [Op.gte]: toDateOnly(recentFrom) },
+  };
+  if (cancelledStatus) {
+    recentWhere.ticketStatusId = { [Op.ne]: cancelledStatus.id };
+  }
+
+  const [availability, openTickets, zoneTickets, serviceTickets, branchTickets] = await Promise.all([
+    rankTechnicianAvailability(
+      technicianIds,
+      toDateOnly(criteria.ticketDate),
+      toTime(criteria.ticketTimeFrom),
+      toTime(criteria.ticketTimeTo)
+    ),
+    countByTechnician({
+      assignToTechnicianId: { [Op.in]: technicianIds },
+      isDeleted: false,
+      ticketStatusId: { [Op.in]: openStatusIds },
+    }),
+    criteria.zoneId ? countByTechnician({ ...recentWhere, zoneId: criteria.zoneId }) : new Map<number, number>(),
+    criteria.mainServiceId
+      ? countByTechnician({ ...recentWhere, mainServiceId: criteria.mainServiceId })
+      : new Map<number, number>(),
+    criteria.branchId ? countByTechnician({ ...recentWhere, branchId: criteria.branchId }) : new Map<number, number>(),
+  ]);
+
+  const techniciansById = new Map(technicians.map(technician => [technician.id, technician]));
+
+  const suggestions = availability.map(result => {
+    const open = openTickets.get(result.technicianId) ?? 0;
+    const zone = zoneTickets.get(result.technicianId) ?? 0;
+    const service = serviceTickets.get(result.technicianId) ?? 0;
+    const branch = branchTickets.get(result.technicianId) ?? 0;
+
+    const score =
+      AVAILABILITY_SCORE[result.availability] -
+      open * OPEN_TICKET_PENALTY -
+      result.ticketsOnDate * SAME_DAY_TICKET_PENALTY +
+      Math.min(zone, RECENT_WORK_CAP) * RECENT_ZONE_BONUS +
+      Math.min(service, RECENT_WORK_CAP) * RECENT_SERVICE_BONUS +
+      Math.min(branch, RECENT_WORK_CAP) * RECENT_BRANCH_BONUS;
+
+    return {
+      availability: result.availability,
+      bookedMinutes: result.bookedMinutes,
+      openTickets: open,
+      recentBranchTickets: branch,
+      recentServiceTickets: service,
+      recentZoneTickets: zone,
+      score,
+      technician: techniciansById.get(result.technicianId)!,
+      ticketsOnDate: result.ticketsOnDate,
+    };
+  });
+
+  return suggestions.sort((a, b) => b.score - a.score || a.technician.fullName.localeCompare(b.technician.fullName));
+};
+
+/**
+ * Best technician that is free for the whole slot, null when every candidate is at least partially booked
+ */
+export const pickTechnician = async (criteria: AssignmentCriteria): Promise<TechnicianSuggestion | null> => {
+  const suggestions = await suggestTechnicians(criteria);
+  return suggestions.find(suggestion => suggestion.availability === TechnicianAvailability.FREE) ?? null;
+};
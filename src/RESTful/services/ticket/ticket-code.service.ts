@@ -0,0 +1,81 @@
+import { QueryTypes, Transaction } from 'sequelize';
+
+import { Company } from '../../../db/models/company.model';
+import { TicketCodeSequence } from '../../../db/models/ticket-code-sequence.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { ticketCodeConfig } from '../../../settings';
+import { AppError } from '../../middleware/error.middleware';
+
+const SEQUENCE_PATTERN = /\{SEQ(?::(\d+))?\}/g;
+
+// Numbers already taken by codes of the previous format are skipped, give up after this many tries
+const MAX_CODE_ATTEMPTS = 100;
+
+/**
+ * Prefix of the ticket codes of a company: its ticketShortCode, or the first word of the company title in uppercase
+ * for companies without one (e.g., "gamma solutions" -> "GAMMA")
+ */
+export const getTicketCodePrefix = (company: Company): string => {
+  return (company.ticketShortCode || company.title.split(' ')[0]).trim().toUpperCase();
+};
+
+/**
+ * Whether the ticket code format restarts the company counter every year
+ */
+export const isYearlyTicketCodeFormat = (format: string = ticketCodeConfig.format): boolean => {
+  return format.includes('{YEAR}');
+};
+
+/**
+ * Build a ticket code from the format (see ticketCodeConfig)
+ */
+export const formatTicketCode = (
+  prefix: string,
+  year: number,
+  sequence: number,
+  format: string = ticketCodeConfig.format
+): string => {
+  return format
+    .replace(/\{PREFIX\}/g, prefix)
+    .replace(/\{YEAR\}/g, String(year))
+    .replace(SEQUENCE_PATTERN, (_match, width?: string) => String(sequence).padStart(Number(width ?? 0), '0'));
+};
+
+/**
+ * Take the next number of the company counter
+ * The upsert locks the counter row until the transaction ends, so concurrent tickets of the company wait for each
+ * other and a rolled back ticket does not leave a gap
+ */
+const nextSequenceNumber = async (companyId: number, year: number, transaction: Transaction): Promise<number> => {
+  const [row] = await TicketCodeSequence.sequelize!.query<{ last_number: number }>(
+    `INSERT INTO "ticket_code_sequences" ("company_id", "year", "last_number", "created_at", "updated_at")
+     VALUES (:companyId, :year, 1, NOW(), NOW())
+     ON CONFLICT ("company_id", "year")
+     DO UPDATE SET "last_number" = "ticket_code_sequences"."last_number" + 1, "updated_at" = NOW()
+     RETURNING "last_number"`,
+    { replacements: { companyId, year }, transaction, type: QueryTypes.SELECT }
+  );
+  return Number(row.last_number);
+};
+
+/**
+ * Generate the code of a new ticket of the company from its counter (see ticketCodeConfig for the format)
+ * Must run in the transaction inserting the ticket, tickets have a unique (company_id, ticket_code_id) constraint
+ */
+export const generateTicketCode = async (
+  company: Company,
+  transaction: Transaction,
+  date: Date = new Date()
+): Promise<string> => {
+  const year = isYearlyTicketCodeFormat() ? date.getFullYear() : 0;
+  const prefix = getTicketCodePrefix(company);
+
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const code = formatTicketCode(prefix, year, await nextSequenceNumber(company.id, year, transaction));
+    const taken = await Ticket.count({ where: { companyId: company.id, ticketCodeId: code }, transaction });
+    if (taken === 0) {
+      return code;
+    }
+  }
+  throw new AppError('Could not generate a free ticket code', 500, 'INTERNAL_ERROR');
+};
@@ -0,0 +1,112 @@
+import { Op } from 'sequelize';
+
+import { File, FileEntityType } from '../../../db/models/file.model';
+import { TicketComment } from '../../../db/models/ticket-comment.model';
+import { User } from '../../../db/models/user.model';
+import { RoleId } from '../../types/user.types';
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+// Roles allowed to read and write internal (team leader) notes
+const INTERNAL_COMMENT_ROLES = [RoleId.ADMIN, RoleId.TEAM_LEADER, RoleId.SUPER_USER];
+
+/**
+ * Whether the user can see and post internal comments
+ */
+export const canAccessInternalComments = (roleId: number): boolean => {
+  return INTERNAL_COMMENT_ROLES.includes(roleId);
+};
+
+/**
+ * Where clause for the comments of a ticket visible to a user with the given role
+ */
+export const getVisibleCommentsWhere = (ticketId: number, roleId: number): any => {
+  const whereClause: any = {
+    isDeleted: false,
+    ticketId,
+  };
+
+  if (!canAccessInternalComments(roleId)) {
+    whereClause.isInternal = false;
+  }
+
+  return whereClause;
+};
+
+/**
+ * Latest visible comments of a ticket (newest first) and the total number of visible comments
+ */
+export const getLatestTicketComments = async (
+  ticketId: number,
+  roleId: number,
+  limit = 5
+): Promise<{ total: number; latest: any[] }> => {
+  const { count, rows } = await TicketComment.findAndCountAll({
+    where: getVisibleCommentsWhere(ticketId, roleId),
+    order: [['createdAt', 'DESC'], ['id', 'DESC']],
+    limit,
+  });
+
+  return {
+    total: count,
+    latest: await formatTicketComments(rows),
+  };
+};
+
+/**
+ * Format comments for responses, loading their authors and attachments
+ */
+export const formatTicketComments = async (comments: TicketComment[]): Promise<any[]> => {
+  if (comments.length === 0) {
+    return [];
+  }
+
+  const commentIds = comments.map(comment => comment.id);
+  const authorIds = [...new Set(comments.map(comment => comment.createdBy).filter((id): id is number => !!id))];
+
+  const [authors, attachments] = await Promise.all([
+    User.findAll({ where: { id: { [Op.in]: authorIds } }, attributes: ['id', 'fullName', 'userRoleId'] }),
+    File.findAll({
+      where: {
+        entityId: { [Op.in]: commentIds },
+        entityType: FileEntityType.TICKET_COMMENT,
+      },
+      attributes: ['id', 'entityId', 'filename', 'originalFilename', 'path', 'filePath', 'size', 'category', 'createdAt'],
+      order: [['createdAt', 'ASC']],
+    }),
+  ]);
+
+  const authorsById = new Map(authors.map(author => [author.id, author]));
+
+  return comments.map(comment => {
+    const author = comment.createdBy ? authorsById.get(comment.createdBy) : undefined;
+
+    return {
+      id: comment.id,
+      ticketId: comment.ticketId,
+      body: comment.body,
+      isInternal: comment.isInternal,
+      author: author
+        ? {
+            id: author.id,
+            name: author.fullName,
+            userRoleId: author.userRoleId,
+          }
+        : null,
+      attachments: attachments
+        .filter(file => file.entityId === comment.id)
+        .map(file => ({
+          id: file.id,
+          fileName: file.originalFilename ?? file.filename ?? '',
+          filePath: file.filePath ?? file.path ?? '',
+          fileSize: file.size ?? 0,
+          category: file.category ?? 'other',
+          createdAt: file.createdAt,
+        })),
+      isEdited: !!comment.editedAt,
+      editedAt: comment.editedAt,
+      createdAt: comment.createdAt,
+      updatedAt: comment.updatedAt,
+    };
+  });
+};
@@ -0,0 +1,301 @@
+import { Transaction } from 'sequelize';
+
+import { generateTicketCode } from './ticket-code.service';
+import { diffTicketSnapshots, recordTicketHistory, snapshotTicket } from './ticket-history.service';
+import { assertTicketQuota, QuotaViolation } from './ticket-quota.service';
+import { assertTechnicianAvailable } from './ticket-scheduling.service';
+import { computeSlaDueTimes } from './ticket-sla.service';
+import { assertValidSubServices, saveTicketSubServices } from './ticket-sub-service.service';
+
+import { Branch } from '../../../db/models/branch.model';
+import { Company } from '../../../db/models/company.model';
+import { Contract } from '../../../db/models/contract.model';
+import { Lookup, LookupCategory } from '../../../db/models/lookup.model';
+import { TicketHistoryAction } from '../../../db/models/ticket-history.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { User } from '../../../db/models/user.model';
+import { Zone } from '../../../db/models/zone.model';
+import { AppError } from '../../middleware/error.middleware';
+import { RoleId } from '../../types/user.types';
+import { assertContractValidForTicket } from '../contract/contract-validity.service';
+import { assertValidToolIds } from '../tool/tool-inventory.service';
+
+export interface NewTicketInput {
+  contractId: number;
+  branchId: number;
+  zoneId: number;
+  ticketTypeId: number;
+  mainServiceId: number;
+  ticketDate: string;
+  ticketTimeFrom: string;
+  ticketTimeTo: string;
+  assignToTeamLeaderId: number;
+  assignToTechnicianId: number;
+  ticketTitle: string;
+  ticketDescription?: string | null;
+  locationMap?: string | null;
+  customerName?: string | null;
+  serviceDescription?: string | null;
+  havingFemaleEngineer?: boolean;
+  withMaterial?: boolean;
+  tools?: number[] | null;
+  // Sub services of the main service, stored as MaintenanceService rows with itemType 'ticket'
+  subServiceIds?: number[];
+  // Plan of tickets generated from a preventive plan
+  preventivePlanId?: number | null;
+}
+
+export interface NewTicketOptions {
+  allowOverlap?: boolean;
+  allowQuotaOverride?: boolean;
+  transaction?: Transaction;
+}
+
+export interface NewTicketValidation {
+  exceededQuotas: QuotaViolation[];
+  overlappingTickets: Ticket[];
+}
+
+/**
+ * Verify the Team Leader belongs to the company and has the Team Leader role
+ */
+export const assertValidTeamLeader = async (companyId: number, teamLeaderId: number): Promise<User> => {
+  const teamLeader = await User.findOne({
+    where: { id: teamLeaderId, companyId, isDeleted: false },
+  });
+  if (!teamLeader) {
+    throw new AppError('Team Leader not found or does not belong to your company', 400, 'VALIDATION_ERROR');
+  }
+  if (teamLeader.userRoleId !== RoleId.TEAM_LEADER) {
+    throw new AppError('Assigned user is not a Team Leader', 400, 'VALIDATION_ERROR');
+  }
+  return teamLeader;
+};
+
+/**
+ * Verify the Technician belongs to the company and is not an Admin or Team Leader
+ */
+export const assertValidTechnician = async (companyId: number, technicianId: number): Promise<User> => {
+  const technician = await User.findOne({
+    where: { id: technicianId, companyId, isDeleted: false },
+  });
+  if (!technician) {
+    throw new AppError('Technician not found or does not belong to your company', 400, 'VALIDATION_ERROR');
+  }
+  if (technician.userRoleId === RoleId.ADMIN || technician.userRoleId === RoleId.TEAM_LEADER) {
+    throw new AppError('Assigned user cannot be an Admin or Team Leader', 400, 'VALIDATION_ERROR');
+  }
+  return technician;
+};
+
+/**
+ * Lock the company row until the transaction ends, taken before the quota and technician overlap checks of ticket
+ * creations, updates and restores so concurrent requests of the company are checked one after the other
+ */
+export const lockCompanyTickets = async (companyId: number, transaction: Transaction): Promise<void> => {
+  await Company.findByPk(companyId, { lock: transaction.LOCK.UPDATE, transaction });
+};
+
+/**
+ * Validate a new ticket for the user's company, throws the first problem found as an AppError
+ * - Required fields, title / description lengths and ticket type
+ * - Team Leaders can only assign tickets to themselves
+ * - Contract, branch, zone, team leader and technician must belong to the company, the contract must cover the date
+ * - Tools must be active tools of the tool catalog, sub services children of the main service enabled for the company
+ * - Contract and company quotas and technician double booking (Admins can override both)
+ * With a transaction the company row is locked before the quota and overlap checks, so concurrent creations of the
+ * company wait for each other; insert the ticket in the same transaction
+ * Returns the overridden quotas and overlapping tickets so the caller can record them
+ */
+export const validateNewTicket = async (
+  user: any,
+  input: NewTicketInput,
+  options: NewTicketOptions = {}
+): Promise<NewTicketValidation> => {
+  const { companyId } = user;
+  const { transaction } = options;
+
+  // Emergency tickets now have time slots (current time + 120 minutes), ticket title is required
+  const missingFields: string[] = [];
+
+  if (!input.contractId) missingFields.push('contractId');
+  if (!input.branchId) missingFields.push('branchId');
+  if (!input.zoneId) missingFields.push('zoneId');
+  if (!input.ticketTypeId) missingFields.push('ticketTypeId');
+  if (!input.ticketDate) missingFields.push('ticketDate');
+  if (!input.ticketTimeFrom) missingFields.push('ticketTimeFrom');
+  if (!input.ticketTimeTo) missingFields.push('ticketTimeTo');
+  if (!input.assignToTeamLeaderId) missingFields.push('assignToTeamLeaderId');
+  if (!input.assignToTechnicianId) missingFields.push('assignToTechnicianId');
+  if (!input.mainServiceId) missingFields.push('mainServiceId');
+  if (!input.ticketTitle || input.ticketTitle.trim() === '') missingFields.push('ticketTitle');
+
+  // Validate ticketTitle length (max 100 characters)
+  if (input.ticketTitle && input.ticketTitle.trim().length > 100) {
+    throw new AppError('Ticket Title must not exceed 100 characters', 400, 'VALIDATION_ERROR');
+  }
+
+  // Validate ticketDescription length (max 300 characters)
+  if (input.ticketDescription && input.ticketDescription.trim().length > 300) {
+    throw new AppError('Ticket Description must not exceed 300 characters', 400, 'VALIDATION_ERROR');
+  }
+
+  if (missingFields.length > 0) {
+    throw new AppError(`Missing required fields: ${missingFields.join(', ')}`, 400, 'VALIDATION_ERROR');
+  }
+
+  const ticketType = await Lookup.findOne({
+    where: { id: input.ticketTypeId, category: LookupCategory.TICKET_TYPE, isActive: true },
+  });
+  if (!ticketType) {
+    throw new AppError('Invalid ticket type', 400, 'VALIDATION_ERROR');
+  }
+
+  // Team Leaders CANNOT create tickets for another Team Leader, they can ONLY assign tickets to themselves
+  if (user.userRoleId === RoleId.TEAM_LEADER && input.assignToTeamLeaderId !== user.id) {
+    throw new AppError(
+      'Team Leaders can only create tickets assigned to themselves. You cannot assign tickets to another Team Leader.',
+      403,
+      'FORBIDDEN'
+    );
+  }
+
+  // Verify contract belongs to user's company
+  const contract = await Contract.findByPk(input.contractId);
+  if (!contract || contract.companyId !== companyId) {
+    throw new AppError('Invalid contract or contract does not belong to your company', 400, 'VALIDATION_ERROR');
+  }
+
+  // Verify the contract is active and covers the ticket date (including the grace period)
+  assertContractValidForTicket(contract, input.ticketDate);
+
+  // Verify branch belongs to user's company
+  const branch = await Branch.findByPk(input.branchId);
+  if (!branch || branch.companyId !== companyId) {
+    throw new AppError('Invalid branch or branch does not belong to your company', 400, 'VALIDATION_ERROR');
+  }
+
+  // Verify zone belongs to the branch
+  const zone = await Zone.findByPk(input.zoneId);
+  if (!zone || zone.branchId !== input.branchId) {
+    throw new AppError('Invalid zone or zone does not belong to the selected branch', 400, 'VALIDATION_ERROR');
+  }
+
+  // Verify the Team Leader and the Technician belong to user's company and have the right roles
+  await assertValidTeamLeader(companyId, input.assignToTeamLeaderId);
+  await assertValidTechnician(companyId, input.assignToTechnicianId);
+
+  // Verify the tools are in the tool catalog and the sub services belong to the main service and the company
+  await assertValidToolIds(input.tools, transaction);
+  await assertValidSubServices(companyId, input.mainServiceId, input.subServiceIds ?? [], transaction);
+
+  // Serialize the ticket creations of the company until the transaction ends, the checks below then see the tickets
+  // inserted by concurrent requests
+  if (transaction) {
+    await lockCompanyTickets(companyId, transaction);
+  }
+
+  // Enforce the contract and company ticket quotas, Admins can override with allowQuotaOverride
+  const exceededQuotas = await assertTicketQuota(
+    { companyId, contractId: input.contractId, ticketTypeId: input.ticketTypeId, transaction },
+    user.userRoleId,
+    options.allowQuotaOverride === true
+  );
+
+  // Reject double booking of the technician, Admins can force it with allowOverlap
+  const overlappingTickets = await assertTechnicianAvailable(
+    {
+      technicianId: input.assignToTechnicianId,
+      ticketDate: input.ticketDate,
+      ticketTimeFrom: input.ticketTimeFrom,
+      ticketTimeTo: input.ticketTimeTo,
+      transaction,
+    },
+    user.userRoleId,
+    options.allowOverlap === true
+  );
+
+  return { exceededQuotas, overlappingTickets };
+};
+
+/**
+ * Insert a validated ticket in the default status with its company ticket code and SLA due times and record its
+ * creation, in the given transaction or a new one (the ticket code counter must be taken in the inserting transaction)
+ * ticketSource is stored on the ticket (Web or Mobile), historySource on the history entry
+ */
+export const insertTicket = async (
+  user: any,
+  input: NewTicketInput,
+  ticketSource: string,
+  historySource: string,
+  transaction?: Transaction
+): Promise<Ticket> => {
+  if (!transaction) {
+    return Ticket.sequelize!.transaction(inserting => insertTicket(user, input, ticketSource, historySource, inserting));
+  }
+
+  // Get default status (usually "Pending")
+  const defaultStatus = await Lookup.findOne({
+    where: { category: LookupCategory.TICKET_STATUS, isDefault: true, isActive: true },
+  });
+  if (!defaultStatus) {
+    throw new AppError('Default ticket status not found', 500, 'INTERNAL_ERROR');
+  }
+
+  // Get company for ticket code generation
+  const company = await Company.findByPk(user.companyId);
+  if (!company) {
+    throw new AppError('Company not found', 400, 'VALIDATION_ERROR');
+  }
+
+  const ticket = await Ticket.create(
+    {
+      ticketCodeId: await generateTicketCode(company, transaction),
+      companyId: user.companyId,
+      contractId: input.contractId,
+      branchId: input.branchId,
+      zoneId: input.zoneId,
+      locationMap: input.locationMap || null, // Optional field
+      ticketTitle: input.ticketTitle || '', // Required field
+      ticketTypeId: input.ticketTypeId,
+      ticketStatusId: defaultStatus.id,
+      ticketDate: input.ticketDate,
+      ticketTimeFrom: input.ticketTimeFrom,
+      ticketTimeTo: input.ticketTimeTo,
+      assignToTeamLeaderId: input.assignToTeamLeaderId,
+      assignToTechnicianId: input.assignToTechnicianId,
+      ticketDescription: input.ticketDescription || '',
+      havingFemaleEngineer: input.havingFemaleEngineer || false,
+      customerName: input.customerName || null,
+      withMaterial: input.withMaterial || false,
+      mainServiceId: input.mainServiceId,
+      serviceDescription: input.serviceDescription || null,
+      tools: input.tools || null,
+      preventivePlanId: input.preventivePlanId ?? null,
+      source: ticketSource,
+      createdBy: user.id,
+    },
+    { transaction }
+  );
+
+  // Update ticket with the SLA due times of its policy
+  await ticket.update(await computeSlaDueTimes(ticket), { transaction });
+
+  const subServiceIds = input.subServiceIds ?? [];
+  if (subServiceIds.length > 0) {
+    await saveTicketSubServices(ticket.id, input.mainServiceId, subServiceIds, user.id, transaction);
+  }
+
+  // Record ticket creation in the ticket history
+  const snapshot = { ...snapshotTicket(ticket), subServiceIds: subServiceIds.length > 0 ? subServiceIds : null };
+  await recordTicketHistory({
+    action: TicketHistoryAction.CREATED,
+    actorId: user.id,
+    changes: diffTicketSnapshots({}, snapshot),
+    source: historySource,
+    ticketId: ticket.id,
+    transaction,
+  });
+
+  return ticket;
+};
@@ -0,0 +1,223 @@
+import { col, fn, Op, UniqueConstraintError } from 'sequelize';
+
+import { recordTicketHistory } from './ticket-history.service';
+import { findTicketType } from './ticket-query.service';
+import { findStatusByCode, getTicketStatusLookups, TicketStatusCode } from './ticket-workflow.service';
+
+import { Lookup, LookupCategory } from '../../../db/models/lookup.model';
+import { TicketEscalation, TicketEscalationLevel } from '../../../db/models/ticket-escalation.model';
+import { TicketHistory, TicketHistoryAction } from '../../../db/models/ticket-history.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { User } from '../../../db/models/user.model';
+import { escalationConfig } from '../../../settings';
+import { RoleId } from '../../types/user.types';
+import { notifyUsers } from '../notification/notification.service';
+
+// Levels in the order they are reached, level n is due after n times escalationConfig.emergencyMinutes
+export const ESCALATION_CHAIN: TicketEscalationLevel[] = [
+  TicketEscalationLevel.TEAM_LEADER,
+  TicketEscalationLevel.COMPANY_ADMIN,
+  TicketEscalationLevel.SUPER_USER,
+];
+
+// History source of escalations recorded by the scheduler
+const SCHEDULER_SOURCE = 'Scheduler';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Number of escalation levels due for a ticket pending since pendingSince
+ */
+export const getDueEscalationCount = (
+  pendingSince: Date,
+  now: Date = new Date(),
+  minutes: number = escalationConfig.emergencyMinutes
+): number => {
+  const minutesPending = Math.floor((now.getTime() - new Date(pendingSince).getTime()) / MINUTE_MS);
+  return Math.min(Math.max(Math.floor(minutesPending / minutes), 0), ESCALATION_CHAIN.length);
+};
+
+/**
+ * Time each pending ticket entered Pending: its last status change (moved back from In Progress or reopened), or its
+ * creation when its status never changed
+ */
+const findPendingSince = async (tickets: Ticket[]): Promise<Map<number, Date>> => {
+  const lastStatusChanges = (await TicketHistory.findAll({
+    where: { action: TicketHistoryAction.STATUS_CHANGED, ticketId: { [Op.in]: tickets.map(ticket => ticket.id) } },
+    attributes: ['ticketId', [fn('MAX', col('created_at')), 'changedAt']],
+    group: ['ticketId'],
+    raw: true,
+  })) as unknown as { ticketId: number; changedAt: Date | string }[];
+
+  const pendingSince = new Map(tickets.map(ticket => [ticket.id, new Date(ticket.createdAt)]));
+  for (const change of lastStatusChanges) {
+    pendingSince.set(change.ticketId, new Date(change.changedAt));
+  }
+  return pendingSince;
+};
+
+/**
+ * Users notified when a ticket reaches an escalation level
+ * - TEAM_LEADER: the team leader of the ticket
+ * - COMPANY_ADMIN: the active admins of the ticket company
+ * - SUPER_USER: the active WeFix Super Users
+ */
+const findEscalationRecipients = async (ticket: Ticket, level: TicketEscalationLevel): Promise<number[]> => {
+  if (level === TicketEscalationLevel.TEAM_LEADER) {
+    return ticket.assignToTeamLeaderId ? [ticket.assignToTeamLeaderId] : [];
+  }
+
+  const users = await User.findAll({
+    where:
+      level === TicketEscalationLevel.COMPANY_ADMIN
+        ? { companyId: ticket.companyId, isActive: true, isDeleted: false, userRoleId: RoleId.ADMIN }
+        : { isActive: true, isDeleted: false, userRoleId: RoleId.SUPER_USER },
+    attributes: ['id'],
+  });
+  return users.map(user => user.id);
+};
+
+/**
+ * Escalate one ticket to a level: record the escalation and its history entry, then notify the recipients
+ * Returns false when another run already escalated the ticket to that level
+ */
+const escalateTicket = async (
+  ticket: Ticket,
+  level: TicketEscalationLevel,
+  pendingSince: Date,
+  now: Date
+): Promise<boolean> => {
+  const notifiedUserIds = await findEscalationRecipients(ticket, level);
+  const minutesPending = Math.floor((now.getTime() - pendingSince.getTime()) / MINUTE_MS);
+  const previousLevel = ESCALATION_CHAIN[ESCALATION_CHAIN.indexOf(level) - 1] ?? null;
+
+  try {
+    await TicketEscalation.sequelize!.transaction(async transaction => {
+      await TicketEscalation.create(
+        { escalatedAt: now, level, minutesPending, notifiedUserIds, ticketId: ticket.id },
+        { transaction }
+      );
+      await recordTicketHistory({
+        action: TicketHistoryAction.ESCALATED,
+        actorId: null,
+        changes: [{ field: 'escalationLevel', newValue: level, oldValue: previousLevel }],
+        source: SCHEDULER_SOURCE,
+        ticketId: ticket.id,
+        transaction,
+      });
+    });
+  } catch (error) {
+    if (error instanceof UniqueConstraintError) {
+      return false;
+    }
+    throw error;
+  }
+
+  await notifyUsers(notifiedUserIds, {
+    body: `Emergency ticket ${ticket.ticketCodeId} has been pending for ${minutesPending} minutes: ${ticket.ticketTitle}`,
+    data: { level, ticketId: String(ticket.id), type: 'TICKET_ESCALATED' },
+    title: 'Emergency ticket escalated',
+  });
+  return true;
+};
+
+/**
+ * Escalate the emergency tickets (type EMRG) that are still pending, one level per escalationConfig.emergencyMinutes
+ * since the ticket entered Pending: team leader, then company admins, then WeFix Super Users
+ * Tickets moved to In Progress (or completed / cancelled) stop escalating and restart the clock when they are moved
+ * back to Pending, levels already reached are not repeated; levels missed while the scheduler was not running are
+ * caught up in order
+ * Returns the number of escalations recorded
+ */
+export const escalateEmergencyTickets = async (now: Date = new Date()): Promise<number> => {
+  const [statuses, ticketTypes] = await Promise.all([
+    getTicketStatusLookups(),
+    Lookup.findAll({ where: { category: LookupCategory.TICKET_TYPE, isActive: true } }),
+  ]);
+  const pendingStatus = findStatusByCode(statuses, TicketStatusCode.PENDING);
+  const emergencyType = findTicketType(ticketTypes, 'EMRG', 'emergency');
+  if (!pendingStatus || !emergencyType) {
+    return 0;
+  }
+
+  // A ticket cannot have entered Pending before it was created
+  const tickets = await Ticket.findAll({
+    where: {
+      createdAt: { [Op.lte]: new Date(now.getTime() - escalationConfig.emergencyMinutes * MINUTE_MS) },
+      isDeleted: false,
+      ticketStatusId: pendingStatus.id,
+      ticketTypeId: emergencyType.id,
+    },
+    order: [['id', 'ASC']],
+  });
+  if (tickets.length === 0) {
+    return 0;
+  }
+
+  const [pendingSince, reachedEscalations] = await Promise.all([
+    findPendingSince(tickets),
+    TicketEscalation.findAll({
+      where: { ticketId: { [Op.in]: tickets.map(ticket => ticket.id) } },
+      attributes: ['ticketId', 'level'],
+    }),
+  ]);
+
+  let escalated = 0;
+  for (const ticket of tickets) {
+    const reached = new Set(
+      reachedEscalations.filter(escalation => escalation.ticketId === ticket.id).map(escalation => escalation.level)
+    );
+    const since = pendingSince.get(ticket.id)!;
+    const dueLevels = ESCALATION_CHAIN.slice(0, getDueEscalationCount(since, now));
+    for (const level of dueLevels.filter(due => !reached.has(due))) {
+      if (await escalateTicket(ticket, level, since, now)) {
+        escalated++;
+      }
+    }
+  }
+  return escalated;
+};
+
+let escalationRunning = false;
+
+/**
+ * Scheduled run of the emergency escalation, overlapping runs are skipped
+ */
+export const runEmergencyEscalationScheduler = async (): Promise<void> => {
+  if (escalationRunning) {
+    console.log('⚠️  Emergency escalation scheduler is already running, skipping');
+    return;
+  }
+
+  escalationRunning = true;
+  try {
+    const escalated = await escalateEmergencyTickets();
+    if (escalated > 0) {
+      console.log(`✅ Emergency escalation scheduler recorded ${escalated} escalation(s)`);
+    }
+  } finally {
+    escalationRunning = false;
+  }
+};
+
+/**
+ * Escalations of a ticket, in the order they were reached
+ */
+export const findTicketEscalations = async (ticketId: number): Promise<TicketEscalation[]> => {
+  return TicketEscalation.findAll({
+    where: { ticketId },
+    order: [['escalatedAt', 'ASC'], ['id', 'ASC']],
+  });
+};
+
+/**
+ * Format an escalation for responses
+ */
+export const formatEscalation = (escalation: TicketEscalation) => ({
+  id: escalation.id,
+  level: escalation.level,
+  levelNumber: ESCALATION_CHAIN.indexOf(escalation.level) + 1,
+  minutesPending: escalation.minutesPending,
+  notifiedUserIds: escalation.notifiedUserIds ?? [],
+  escalatedAt: escalation.escalatedAt,
+});
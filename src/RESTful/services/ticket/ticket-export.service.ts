@@ -0,0 +1,169 @@
+import { Order, WhereOptions } from 'sequelize';
+
+import { getMaterialTotalsByTicket, TicketMaterialTotals } from './ticket-material.service';
+import { toDateOnly } from './ticket-scheduling.service';
+
+import { Branch } from '../../../db/models/branch.model';
+import { Company } from '../../../db/models/company.model';
+import { Contract } from '../../../db/models/contract.model';
+import { Lookup } from '../../../db/models/lookup.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { User } from '../../../db/models/user.model';
+import { Zone } from '../../../db/models/zone.model';
+import { SpreadsheetCell, SpreadsheetWriter } from '../spreadsheet/spreadsheet.service';
+
+export interface CompanyLocale {
+  locale: string;
+  timeZone: string;
+}
+
+// Tickets are read from the database in batches of this size while the export is streamed
+const EXPORT_BATCH_SIZE = 500;
+
+// Locale and time zone of the company's country (COUNTRY lookup code), Jordan by default
+const COUNTRY_LOCALES: Record<string, CompanyLocale> = {
+  AE: { locale: 'en-AE', timeZone: 'Asia/Dubai' },
+  BH: { locale: 'en-BH', timeZone: 'Asia/Bahrain' },
+  EG: { locale: 'en-EG', timeZone: 'Africa/Cairo' },
+  JO: { locale: 'en-JO', timeZone: 'Asia/Amman' },
+  KW: { locale: 'en-KW', timeZone: 'Asia/Kuwait' },
+  OM: { locale: 'en-OM', timeZone: 'Asia/Muscat' },
+  QA: { locale: 'en-QA', timeZone: 'Asia/Qatar' },
+  SA: { locale: 'en-SA', timeZone: 'Asia/Riyadh' },
+};
+const DEFAULT_COUNTRY = 'JO';
+
+const TICKET_EXPORT_INCLUDE = [
+  { model: Lookup, as: 'ticketTypeLookup', required: false, attributes: ['id', 'name'] },
+  { model: Lookup, as: 'ticketStatusLookup', required: false, attributes: ['id', 'name'] },
+  { model: Lookup, as: 'mainServiceLookup', required: false, attributes: ['id', 'name'] },
+  { model: Contract, as: 'contract', required: false, attributes: ['id', 'contractReference', 'contractTitle'] },
+  { model: Branch, as: 'branch', required: false, attributes: ['id', 'branchTitle'] },
+  { model: Zone, as: 'zone', required: false, attributes: ['id', 'zoneTitle'] },
+  { model: User, as: 'assignToTeamLeaderUser', required: false, attributes: ['id', 'fullName'] },
+  { model: User, as: 'assignToTechnicianUser', required: false, attributes: ['id', 'fullName'] },
+];
+
+export const TICKET_EXPORT_HEADERS = [
+  'Ticket Code',
+  'Title',
+  'Type',
+  'Status',
+  'Main Service',
+  'Contract',
+  'Branch',
+  'Zone',
+  'Ticket Date',
+  'Time From',
+  'Time To',
+  'Team Leader',
+  'Technician',
+  'Customer Name',
+  'Description',
+  'Source',
+  'Response Due',
+  'Resolution Due',
+  'Materials',
+  'Materials Cost',
+  'Pending Materials Cost',
+  'Client Supplied Cost',
+  'WeFix Supplied Cost',
+  'Created At',
+  'Updated At',
+];
+
+/**
+ * Locale and time zone used to format dates for a company
+ */
+export const getCompanyLocale = async (companyId: number): Promise<CompanyLocale> => {
+  const company = await Company.findByPk(companyId, {
+    attributes: ['id', 'countryLookupId'],
+    include: [{ model: Lookup, as: 'countryLookup', required: false, attributes: ['id', 'code'] }],
+  });
+  const code = company?.countryLookup?.code?.toUpperCase() ?? DEFAULT_COUNTRY;
+  return COUNTRY_LOCALES[code] ?? COUNTRY_LOCALES[DEFAULT_COUNTRY];
+};
+
+/**
+ * Date and date-time formatters of a locale, ticket dates are calendar dates and are not shifted to the time zone
+ */
+const createFormatters = ({ locale, timeZone }: CompanyLocale) => {
+  const dateFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'short', timeZone: 'UTC' });
+  const dateTimeFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'short', timeStyle: 'short', timeZone });
+
+  return {
+    date: (value: Date | string | null | undefined) =>
+      value ? dateFormat.format(new Date(`${toDateOnly(value)}T00:00:00Z`)) : '',
+    dateTime: (value: Date | string | null | undefined) => (value ? dateTimeFormat.format(new Date(value)) : ''),
+  };
+};
+
+const toExportRow = (
+  ticket: Ticket,
+  materials: TicketMaterialTotals | undefined,
+  format: ReturnType<typeof createFormatters>
+): SpreadsheetCell[] => [
+  ticket.ticketCodeId,
+  ticket.ticketTitle,
+  ticket.ticketTypeLookup?.name,
+  ticket.ticketStatusLookup?.name,
+  ticket.mainServiceLookup?.name,
+  ticket.contract ? ticket.contract.contractReference || ticket.contract.contractTitle : '',
+  ticket.branch?.branchTitle,
+  ticket.zone?.zoneTitle,
+  format.date(ticket.ticketDate),
+  ticket.ticketTimeFrom,
+  ticket.ticketTimeTo,
+  ticket.assignToTeamLeaderUser?.fullName,
+  ticket.assignToTechnicianUser?.fullName,
+  ticket.customerName,
+  ticket.ticketDescription,
+  ticket.source,
+  format.dateTime(ticket.responseDueAt),
+  format.dateTime(ticket.resolutionDueAt),
+  materials?.itemCount ?? 0,
+  materials?.approvedCost ?? 0,
+  materials?.pendingCost ?? 0,
+  materials?.clientSuppliedCost ?? 0,
+  materials?.wefixSuppliedCost ?? 0,
+  format.dateTime(ticket.createdAt),
+  format.dateTime(ticket.updatedAt),
+];
+
+/**
+ * Write the header and one row per matching ticket
+ * Tickets are loaded in batches of EXPORT_BATCH_SIZE (parseTicketSort orders by ID last, so batches are stable) and
+ * each batch is written before the next one is loaded, so memory use does not grow with the export size
+ * Returns the number of exported tickets
+ */
+export const writeTicketExport = async (
+  writer: SpreadsheetWriter,
+  whereClause: WhereOptions,
+  order: Order,
+  locale: CompanyLocale
+): Promise<number> => {
+  const format = createFormatters(locale);
+
+  await writer.writeRow(TICKET_EXPORT_HEADERS);
+
+  let exported = 0;
+  for (;;) {
+    const tickets = await Ticket.findAll({
+      where: whereClause,
+      include: TICKET_EXPORT_INCLUDE,
+      order,
+      limit: EXPORT_BATCH_SIZE,
+      offset: exported,
+    });
+
+    const materialTotals = await getMaterialTotalsByTicket(tickets.map(ticket => ticket.id));
+    for (const ticket of tickets) {
+      await writer.writeRow(toExportRow(ticket, materialTotals.get(ticket.id), format));
+    }
+    exported += tickets.length;
+
+    if (tickets.length < EXPORT_BATCH_SIZE) {
+      return exported;
+    }
+  }
+};
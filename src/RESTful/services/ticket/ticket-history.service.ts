@@ -0,0 +1,206 @@
+import { Op, Transaction } from 'sequelize';
+
+import { Branch } from '../../../db/models/branch.model';
+import { Contract } from '../../../db/models/contract.model';
+import { Lookup } from '../../../db/models/lookup.model';
+import { TicketFieldChange, TicketHistory, TicketHistoryAction } from '../../../db/models/ticket-history.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { User } from '../../../db/models/user.model';
+import { Zone } from '../../../db/models/zone.model';
+
+type TrackedFieldKind = 'lookup' | 'user' | 'branch' | 'zone' | 'contract' | 'value';
+
+// Ticket fields recorded in the history and how their IDs are resolved to names
+export const TRACKED_TICKET_FIELDS: Record<string, TrackedFieldKind> = {
+  assignToTeamLeaderId: 'user',
+  assignToTechnicianId: 'user',
+  branchId: 'branch',
+  contractId: 'contract',
+  customerName: 'value',
+  havingFemaleEngineer: 'value',
+  locationMap: 'value',
+  mainServiceId: 'lookup',
+  serviceDescription: 'value',
+  // Not a ticket column, callers add the IDs of the ticket MaintenanceService rows to the snapshots
+  subServiceIds: 'value',
+  ticketDate: 'value',
+  ticketDescription: 'value',
+  ticketStatusId: 'lookup',
+  ticketTimeFrom: 'value',
+  ticketTimeTo: 'value',
+  ticketTitle: 'value',
+  ticketTypeId: 'lookup',
+  tools: 'value',
+  withMaterial: 'value',
+  zoneId: 'zone',
+};
+
+export type TicketSnapshot = Record<string, any>;
+
+const normalizeValue = (field: string, value: any): any => {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  if (value instanceof Date) {
+    return field === 'ticketDate' ? value.toISOString().split('T')[0] : value.toISOString();
+  }
+  return value;
+};
+
+/**
+ * Capture the tracked fields of a ticket, call before applying changes
+ */
+export const snapshotTicket = (ticket: Ticket): TicketSnapshot => {
+  const snapshot: TicketSnapshot = {};
+  for (const field of Object.keys(TRACKED_TICKET_FIELDS)) {
+    snapshot[field] = normalizeValue(field, (ticket as any)[field]);
+  }
+  return snapshot;
+};
+
+/**
+ * Field-level differences between two snapshots
+ */
+export const diffTicketSnapshots = (before: TicketSnapshot, after: TicketSnapshot): TicketFieldChange[] => {
+  const changes: TicketFieldChange[] = [];
+  for (const field of Object.keys(TRACKED_TICKET_FIELDS)) {
+    const oldValue = before[field] ?? null;
+    const newValue = after[field] ?? null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, newValue, oldValue });
+    }
+  }
+  return changes;
+};
+
+interface RecordTicketHistoryInput {
+  ticketId: number;
+  action: TicketHistoryAction;
+  changes: TicketFieldChange[];
+  // Null for entries recorded by scheduled jobs
+  actorId: number | null;
+  source: string;
+  transaction?: Transaction;
+}
+
+/**
+ * Append an entry to the ticket history, entries without changes are skipped
+ */
+export const recordTicketHistory = async (input: RecordTicketHistoryInput): Promise<TicketHistory | null> => {
+  const { action, actorId, changes, source, ticketId, transaction } = input;
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return TicketHistory.create(
+    {
+      action,
+      changes,
+      createdBy: actorId,
+      source,
+      ticketId,
+    },
+    { transaction }
+  );
+};
+
+/**
+ * Record the history of a ticket update, status changes get their own entry
+ */
+export const recordTicketUpdate = async (
+  ticketId: number,
+  before: TicketSnapshot,
+  after: TicketSnapshot,
+  actorId: number,
+  source: string,
+  transaction?: Transaction
+): Promise<void> => {
+  const changes = diffTicketSnapshots(before, after);
+  const statusChanges = changes.filter(change => change.field === 'ticketStatusId');
+  const fieldChanges = changes.filter(change => change.field !== 'ticketStatusId');
+
+  await recordTicketHistory({
+    action: TicketHistoryAction.STATUS_CHANGED,
+    actorId,
+    changes: statusChanges,
+    source,
+    ticketId,
+    transaction,
+  });
+  await recordTicketHistory({
+    action: TicketHistoryAction.UPDATED,
+    actorId,
+    changes: fieldChanges,
+    source,
+    ticketId,
+    transaction,
+  });
+};
+
+const collectIds = (entries: TicketHistory[], kind: TrackedFieldKind): number[] => {
+  const ids = new Set<number>();
+  for (const entry of entries) {
+    for (const change of entry.changes || []) {
+      if (TRACKED_TICKET_FIELDS[change.field] !== kind) continue;
+      for (const value of [change.oldValue, change.newValue]) {
+        if (value !== null && value !== undefined && !isNaN(Number(value))) {
+          ids.add(Number(value));
+        }
+      }
+    }
+  }
+  return [...ids];
+};
+
+/**
+ * Format history entries for responses, resolving lookup, user, branch, zone and contract IDs to names
+ */
+export const formatTicketHistory = async (entries: TicketHistory[]): Promise<any[]> => {
+  const userIds = new Set(collectIds(entries, 'user'));
+  entries.forEach(entry => entry.createdBy && userIds.add(entry.createdBy));
+
+  const [lookups, users, branches, zones, contracts] = await Promise.all([
+    Lookup.findAll({ where: { id: { [Op.in]: collectIds(entries, 'lookup') } }, attributes: ['id', 'name', 'nameArabic'] }),
+    User.findAll({ where: { id: { [Op.in]: [...userIds] } }, attributes: ['id', 'fullName'] }),
+    Branch.findAll({ where: { id: { [Op.in]: collectIds(entries, 'branch') } }, attributes: ['id', 'branchTitle'] }),
+    Zone.findAll({ where: { id: { [Op.in]: collectIds(entries, 'zone') } }, attributes: ['id', 'zoneTitle'] }),
+    Contract.findAll({ where: { id: { [Op.in]: collectIds(entries, 'contract') } }, attributes: ['id', 'contractTitle'] }),
+  ]);
+
+  const names: Record<TrackedFieldKind, Map<number, string>> = {
+    branch: new Map(branches.map(branch => [branch.id, branch.branchTitle])),
+    contract: new Map(contracts.map(contract => [contract.id, contract.contractTitle])),
+    lookup: new Map(lookups.map(lookup => [lookup.id, lookup.name])),
+    user: new Map(users.map(user => [user.id, user.fullName])),
+    value: new Map(),
+    zone: new Map(zones.map(zone => [zone.id, zone.zoneTitle])),
+  };
+
+  const resolve = (field: string, value: any): any => {
+    const kind = TRACKED_TICKET_FIELDS[field];
+    if (!kind || kind === 'value' || value === null || value === undefined) {
+      return null;
+    }
+    return names[kind].get(Number(value)) ?? null;
+  };
+
+  return entries.map(entry => ({
+    id: entry.id,
+    action: entry.action,
+    source: entry.source,
+    changes: (entry.changes || []).map(change => ({
+      field: change.field,
+      oldValue: change.oldValue,
+      oldValueName: resolve(change.field, change.oldValue),
+      newValue: change.newValue,
+      newValueName: resolve(change.field, change.newValue),
+    })),
+    changedBy: entry.createdBy
+      ? {
+          id: entry.createdBy,
+          name: names.user.get(entry.createdBy) ?? null,
+        }
+      : null,
+    createdAt: entry.createdAt,
+  }));
+};
@@ -0,0 +1,377 @@
+import { Op } from 'sequelize';
+
+import { insertTicket, NewTicketInput, validateNewTicket } from './ticket-creation.service';
+import { minutesToTime, toTime } from './ticket-scheduling.service';
+
+import { Branch } from '../../../db/models/branch.model';
+import { Contract } from '../../../db/models/contract.model';
+import { Lookup, LookupCategory } from '../../../db/models/lookup.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { User } from '../../../db/models/user.model';
+import { Zone } from '../../../db/models/zone.model';
+import { AppError } from '../../middleware/error.middleware';
+import { RoleId } from '../../types/user.types';
+
+export interface TicketImportOptions {
+  dryRun: boolean;
+  // Contract used for rows without a Contract column value
+  contractId?: number;
+  source: string;
+}
+
+export interface TicketImportRowError {
+  row: number;
+  errors: string[];
+}
+
+export interface TicketImportReport {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  created: { row: number; ticketId: number; ticketCodeId: string }[];
+  errors: TicketImportRowError[];
+}
+
+type ImportColumn =
+  | 'contract'
+  | 'branch'
+  | 'zone'
+  | 'ticketType'
+  | 'mainService'
+  | 'ticketDate'
+  | 'ticketTimeFrom'
+  | 'ticketTimeTo'
+  | 'teamLeader'
+  | 'technician'
+  | 'ticketTitle'
+  | 'ticketDescription'
+  | 'customerName'
+  | 'locationMap'
+  | 'serviceDescription'
+  | 'havingFemaleEngineer'
+  | 'withMaterial';
+
+// Accepted header names per column, compared lowercase without spaces and punctuation (the export headers are accepted)
+const COLUMN_ALIASES: Record<ImportColumn, string[]> = {
+  branch: ['branch', 'branchtitle'],
+  contract: ['contract', 'contractreference'],
+  customerName: ['customer', 'customername'],
+  havingFemaleEngineer: ['femaleengineer', 'havingfemaleengineer'],
+  locationMap: ['location', 'locationmap'],
+  mainService: ['mainservice', 'service'],
+  serviceDescription: ['servicedescription'],
+  teamLeader: ['teamleader', 'teamleadernumber', 'teamleaderusernumber'],
+  technician: ['technician', 'techniciannumber', 'technicianusernumber'],
+  ticketDate: ['date', 'ticketdate'],
+  ticketDescription: ['description', 'ticketdescription'],
+  ticketTimeFrom: ['from', 'timefrom', 'tickettimefrom'],
+  ticketTimeTo: ['timeto', 'tickettimeto', 'to'],
+  ticketTitle: ['tickettitle', 'title'],
+  ticketType: ['tickettype', 'type'],
+  withMaterial: ['material', 'withmaterial'],
+  zone: ['zone', 'zonetitle'],
+};
+
+const REQUIRED_COLUMNS: ImportColumn[] = [
+  'branch',
+  'zone',
+  'ticketType',
+  'mainService',
+  'ticketDate',
+  'ticketTimeFrom',
+  'ticketTimeTo',
+  'technician',
+  'ticketTitle',
+];
+
+// Largest number of data rows in one import
+export const MAX_IMPORT_ROWS = 1000;
+
+// Excel stores dates as days since 1899-12-30 and times as fractions of a day
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalizeKey = (value: string): string => value.toLowerCase().replace(/[^a-z0-9؀-ۿ]/g, '');
+
+const normalizeName = (value: string): string => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Column index of each known header, throws when a required column is missing
+ */
+const mapColumns = (header: string[]): Partial<Record<ImportColumn, number>> => {
+  const columns: Partial<Record<ImportColumn, number>> = {};
+  header.forEach((name, index) => {
+    const key = normalizeKey(name);
+    const column = (Object.keys(COLUMN_ALIASES) as ImportColumn[]).find(c => COLUMN_ALIASES[c].includes(key));
+    if (column && columns[column] === undefined) {
+      columns[column] = index;
+    }
+  });
+
+  const missing = REQUIRED_COLUMNS.filter(column => columns[column] === undefined);
+  if (missing.length > 0) {
+    throw new AppError(`Missing required columns: ${missing.join(', ')}`, 400, 'VALIDATION_ERROR');
+  }
+  return columns;
+};
+
+/**
+ * Parse a date cell: YYYY-MM-DD, DD/MM/YYYY (the export format) or an Excel date serial
+ */
+const parseImportDate = (value: string): string | null => {
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(value);
+  if (match) {
+    return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  }
+  match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(value);
+  if (match) {
+    return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return new Date(EXCEL_EPOCH + Math.floor(Number(value)) * DAY_MS).toISOString().split('T')[0];
+  }
+  return null;
+};
+
+/**
+ * Parse a time cell: HH:MM, HH:MM:SS or an Excel day fraction
+ */
+const parseImportTime = (value: string): string | null => {
+  if (/^\d{1,2}:\d{2}(:\d{2})?$/.test(value)) {
+    const time = toTime(value);
+    return time <= '24:00:00' ? time : null;
+  }
+  if (/^0?\.\d+$/.test(value)) {
+    return minutesToTime(Math.round(Number(value) * 24 * 60));
+  }
+  return null;
+};
+
+const parseImportBoolean = (value: string): boolean => ['1', 'true', 'y', 'yes', 'نعم'].includes(normalizeName(value));
+
+const isValidDate = (value: string): boolean => {
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+/**
+ * Group records by one or more names (lowercase), used to resolve spreadsheet names to IDs
+ */
+const indexByName = <T>(records: T[], getNames: (record: T) => (string | null | undefined)[]): Map<string, T[]> => {
+  const index = new Map<string, T[]>();
+  for (const record of records) {
+    const names = new Set(getNames(record).filter((name): name is string => !!name).map(normalizeName));
+    for (const name of names) {
+      index.set(name, [...(index.get(name) ?? []), record]);
+    }
+  }
+  return index;
+};
+
+/**
+ * Company branches, zones, contracts and users and the ticket type and main service lookups, loaded once per import
+ */
+const loadReferenceData = async (companyId: number) => {
+  const [branches, contracts, users, lookups] = await Promise.all([
+    Branch.findAll({ where: { companyId, isDeleted: false }, attributes: ['id', 'branchTitle'] }),
+    Contract.findAll({
+      where: { companyId, isDeleted: false },
+      attributes: ['id', 'contractReference', 'contractTitle'],
+    }),
+    User.findAll({ where: { companyId, isDeleted: false }, attributes: ['id', 'userNumber'] }),
+    Lookup.findAll({
+      where: { category: { [Op.in]: [LookupCategory.TICKET_TYPE, LookupCategory.MAIN_SERVICE] }, isActive: true },
+      attributes: ['id', 'category', 'code', 'name', 'nameArabic'],
+    }),
+  ]);
+  const zones = await Zone.findAll({
+    where: { branchId: { [Op.in]: branches.map(branch => branch.id) }, isDeleted: false },
+    attributes: ['id', 'branchId', 'zoneTitle'],
+  });
+  const lookupNames = (lookup: Lookup) => [lookup.name, lookup.nameArabic, lookup.code];
+
+  return {
+    branches: indexByName(branches, branch => [branch.branchTitle]),
+    contracts: indexByName(contracts, contract => [contract.contractReference, contract.contractTitle]),
+    mainServices: indexByName(
+      lookups.filter(lookup => lookup.category === LookupCategory.MAIN_SERVICE),
+      lookupNames
+    ),
+    ticketTypes: indexByName(
+      lookups.filter(lookup => lookup.category === LookupCategory.TICKET_TYPE),
+      lookupNames
+    ),
+    users: indexByName(users, user => [user.userNumber]),
+    zones: indexByName(zones, zone => [`${zone.branchId}:${zone.zoneTitle}`]),
+  };
+};
+
+type ReferenceData = Awaited<ReturnType<typeof loadReferenceData>>;
+
+/**
+ * Map a spreadsheet row to createTicket fields, blank required cells and names that do not resolve to exactly one
+ * record are reported
+ */
+const resolveRow = (
+  user: any,
+  cells: Partial<Record<ImportColumn, string>>,
+  reference: ReferenceData,
+  options: TicketImportOptions
+): { input: NewTicketInput; errors: string[] } => {
+  const errors: string[] = [];
+
+  const resolve = <T extends { id: number }>(
+    index: Map<string, T[]>,
+    value: string | undefined,
+    label: string,
+    required: boolean,
+    key: string | undefined = value
+  ) => {
+    if (!value || !key) {
+      if (required) errors.push(`${label} is required`);
+      return undefined;
+    }
+    const matches = index.get(normalizeName(key)) ?? [];
+    if (matches.length !== 1) {
+      errors.push(matches.length === 0 ? `${label} "${value}" was not found` : `${label} "${value}" is ambiguous`);
+      return undefined;
+    }
+    return matches[0];
+  };
+
+  const branch = resolve(reference.branches, cells.branch, 'Branch', true);
+  // Zone titles are only unique within their branch, without a branch only a blank zone can be reported
+  const zone = branch ? resolve(reference.zones, cells.zone, 'Zone', true, `${branch.id}:${cells.zone}`) : undefined;
+  if (!branch && !cells.zone) errors.push('Zone is required');
+  // The contract cell can be left blank when the import has a default contract
+  const contract = resolve(reference.contracts, cells.contract, 'Contract', options.contractId === undefined);
+  const ticketType = resolve(reference.ticketTypes, cells.ticketType, 'Ticket type', true);
+  const mainService = resolve(reference.mainServices, cells.mainService, 'Main service', true);
+  const technician = resolve(reference.users, cells.technician, 'Technician', true);
+  // Team Leaders import tickets assigned to themselves
+  const teamLeader =
+    !cells.teamLeader && user.userRoleId === RoleId.TEAM_LEADER
+      ? { id: user.id }
+      : resolve(reference.users, cells.teamLeader, 'Team Leader', true);
+
+  if (!cells.ticketDate) errors.push('Ticket date is required');
+  if (!cells.ticketTimeFrom) errors.push('Time from is required');
+  if (!cells.ticketTimeTo) errors.push('Time to is required');
+
+  const ticketDate = cells.ticketDate ? parseImportDate(cells.ticketDate) : null;
+  if (cells.ticketDate && (!ticketDate || !isValidDate(ticketDate))) {
+    errors.push(`Invalid ticket date "${cells.ticketDate}", expected YYYY-MM-DD`);
+  }
+  const ticketTimeFrom = cells.ticketTimeFrom ? parseImportTime(cells.ticketTimeFrom) : null;
+  if (cells.ticketTimeFrom && !ticketTimeFrom) {
+    errors.push(`Invalid time from "${cells.ticketTimeFrom}", expected HH:MM`);
+  }
+  const ticketTimeTo = cells.ticketTimeTo ? parseImportTime(cells.ticketTimeTo) : null;
+  if (cells.ticketTimeTo && !ticketTimeTo) {
+    errors.push(`Invalid time to "${cells.ticketTimeTo}", expected HH:MM`);
+  }
+
+  return {
+    errors,
+    input: {
+      assignToTeamLeaderId: teamLeader?.id as number,
+      assignToTechnicianId: technician?.id as number,
+      branchId: branch?.id as number,
+      contractId: (contract?.id ?? (cells.contract ? undefined : options.contractId)) as number,
+      customerName: cells.customerName || null,
+      havingFemaleEngineer: parseImportBoolean(cells.havingFemaleEngineer ?? ''),
+      locationMap: cells.locationMap || null,
+      mainServiceId: mainService?.id as number,
+      serviceDescription: cells.serviceDescription || null,
+      ticketDate: ticketDate as string,
+      ticketDescription: cells.ticketDescription || null,
+      ticketTimeFrom: ticketTimeFrom as string,
+      ticketTimeTo: ticketTimeTo as string,
+      ticketTitle: cells.ticketTitle ?? '',
+      ticketTypeId: ticketType?.id as number,
+      withMaterial: parseImportBoolean(cells.withMaterial ?? ''),
+      zoneId: zone?.id as number,
+    },
+  };
+};
+
+/**
+ * Import tickets from spreadsheet rows (the first row is the header)
+ * Every row goes through the createTicket validations. All rows are processed in one transaction so quotas and
+ * technician overlaps account for the rows above them; a dry run rolls the transaction back and only reports, a commit
+ * keeps the valid rows and reports the invalid ones
+ */
+export const importTickets = async (
+  user: any,
+  rows: string[][],
+  options: TicketImportOptions
+): Promise<TicketImportReport> => {
+  const [header = [], ...dataRows] = rows;
+  const columns = mapColumns(header);
+
+  // Row numbers are the spreadsheet row numbers (the header is row 1), blank rows are skipped
+  const entries = dataRows
+    .map((cells, index) => ({ cells, row: index + 2 }))
+    .filter(({ cells }) => cells.some(cell => cell && cell.trim() !== ''));
+  if (entries.length === 0) {
+    throw new AppError('The file does not contain any ticket rows', 400, 'VALIDATION_ERROR');
+  }
+  if (entries.length > MAX_IMPORT_ROWS) {
+    throw new AppError(`A file can contain at most ${MAX_IMPORT_ROWS} ticket rows`, 400, 'VALIDATION_ERROR');
+  }
+
+  const reference = await loadReferenceData(user.companyId);
+  const report: TicketImportReport = {
+    created: [],
+    dryRun: options.dryRun,
+    errors: [],
+    invalidRows: 0,
+    totalRows: entries.length,
+    validRows: 0,
+  };
+
+  const transaction = await Ticket.sequelize!.transaction();
+  try {
+    for (const { cells, row } of entries) {
+      const values: Partial<Record<ImportColumn, string>> = {};
+      for (const [column, index] of Object.entries(columns) as [ImportColumn, number][]) {
+        values[column] = (cells[index] ?? '').trim();
+      }
+
+      const { errors, input } = resolveRow(user, values, reference, options);
+      if (errors.length > 0) {
+        report.errors.push({ errors, row });
+        continue;
+      }
+
+      try {
+        // Quotas and technician overlaps cannot be overridden in an import
+        await validateNewTicket(user, input, { transaction });
+
+        // Inserted in the dry run as well, so the quota and overlap checks of the next rows see this row
+        const ticket = await insertTicket(user, input, options.source, options.source, transaction);
+        report.created.push({ row, ticketCodeId: ticket.ticketCodeId, ticketId: ticket.id });
+      } catch (error) {
+        if (!(error instanceof AppError)) {
+          throw error;
+        }
+        report.errors.push({ errors: [error.message], row });
+      }
+    }
+
+    if (options.dryRun) {
+      await transaction.rollback();
+      report.created = [];
+    } else {
+      await transaction.commit();
+    }
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+
+  report.invalidRows = report.errors.length;
+  report.validRows = report.totalRows - report.invalidRows;
+  return report;
+};
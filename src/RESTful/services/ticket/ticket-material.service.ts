@@ -0,0 +1,219 @@
+import { col, fn, literal, Op } from 'sequelize';
+
+import { parseText } from './ticket-access.service';
+
+import { TicketMaterial, TicketMaterialStatus, TicketMaterialSupplier } from '../../../db/models/ticket-material.model';
+import { User } from '../../../db/models/user.model';
+import { AppError } from '../../middleware/error.middleware';
+import { RoleId } from '../../types/user.types';
+
+export interface TicketMaterialInput {
+  itemName: string;
+  itemCode: string | null;
+  quantity: number;
+  unit: string;
+  unitCost: number;
+  suppliedBy: TicketMaterialSupplier;
+}
+
+export interface TicketMaterialTotals {
+  // Approved and pending materials, rejected ones are left out
+  itemCount: number;
+  totalCost: number;
+  approvedCost: number;
+  pendingCost: number;
+  // Approved cost per supplier
+  clientSuppliedCost: number;
+  wefixSuppliedCost: number;
+}
+
+// Users shown on material lines
+export const TICKET_MATERIAL_INCLUDE = [
+  { model: User, as: 'creator', required: false, attributes: ['id', 'fullName', 'userNumber'] },
+  { model: User, as: 'reviewer', required: false, attributes: ['id', 'fullName', 'userNumber'] },
+];
+
+export const MAX_MATERIAL_NAME_LENGTH = 100;
+export const MAX_MATERIAL_CODE_LENGTH = 50;
+export const MAX_MATERIAL_UNIT_LENGTH = 20;
+export const MAX_REVIEW_NOTE_LENGTH = 500;
+
+// Quantities are stored with 2 decimals and costs with 3 (fils)
+const roundQuantity = (value: number): number => Math.round(value * 100) / 100;
+const roundCost = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Admins, Team Leaders and Super Users approve materials, the ones they add are approved right away
+ */
+export const canReviewMaterials = (roleId: number): boolean => {
+  return roleId === RoleId.ADMIN || roleId === RoleId.TEAM_LEADER || roleId === RoleId.SUPER_USER;
+};
+
+/**
+ * Validate a material line, with existing the missing fields are taken from it (partial update)
+ */
+export const parseMaterialInput = (body: any, existing?: TicketMaterial): TicketMaterialInput => {
+  const merged = {
+    itemCode: existing?.itemCode,
+    itemName: existing?.itemName,
+    quantity: existing?.quantity,
+    suppliedBy: existing?.suppliedBy,
+    unit: existing?.unit,
+    unitCost: existing?.unitCost,
+    ...Object.fromEntries(Object.entries(body || {}).filter(([, value]) => value !== undefined)),
+  };
+
+  const quantity = roundQuantity(Number(merged.quantity));
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    throw new AppError('quantity must be a number greater than 0', 400, 'VALIDATION_ERROR');
+  }
+
+  // Number(null) and Number('') are 0, a missing cost must not pass as free
+  const rawUnitCost: unknown = merged.unitCost;
+  const unitCost = roundCost(Number(rawUnitCost));
+  if (rawUnitCost === null || rawUnitCost === '' || !Number.isFinite(unitCost) || unitCost < 0) {
+    throw new AppError('unitCost must be a number of 0 or more', 400, 'VALIDATION_ERROR');
+  }
+
+  const suppliedBy = String(merged.suppliedBy || '').toUpperCase() as TicketMaterialSupplier;
+  if (!Object.values(TicketMaterialSupplier).includes(suppliedBy)) {
+    throw new AppError('suppliedBy must be CLIENT or WEFIX', 400, 'VALIDATION_ERROR');
+  }
+
+  return {
+    itemCode: parseText(merged, 'itemCode', MAX_MATERIAL_CODE_LENGTH, false),
+    itemName: parseText(merged, 'itemName', MAX_MATERIAL_NAME_LENGTH, true)!,
+    quantity,
+    suppliedBy,
+    unit: parseText(merged, 'unit', MAX_MATERIAL_UNIT_LENGTH, true)!,
+    unitCost,
+  };
+};
+
+/**
+ * Validate the note of a rejection
+ */
+export const parseReviewNote = (body: any, required: boolean): string | null => {
+  return parseText(body || {}, 'reason', MAX_REVIEW_NOTE_LENGTH, required);
+};
+
+const getLineCost = (material: TicketMaterial): number => roundCost(Number(material.quantity) * Number(material.unitCost));
+
+/**
+ * Format a material line for responses (DECIMAL columns are returned as numbers)
+ */
+export const formatTicketMaterial = (material: TicketMaterial) => ({
+  id: material.id,
+  ticketId: material.ticketId,
+  itemName: material.itemName,
+  itemCode: material.itemCode,
+  quantity: Number(material.quantity),
+  unit: material.unit,
+  unitCost: Number(material.unitCost),
+  totalCost: getLineCost(material),
+  suppliedBy: material.suppliedBy,
+  status: material.status,
+  reviewedBy: material.reviewer
+    ? { id: material.reviewer.id, name: material.reviewer.fullName, userNumber: material.reviewer.userNumber }
+    : material.reviewedBy,
+  reviewedAt: material.reviewedAt,
+  reviewNote: material.reviewNote,
+  createdBy: material.creator
+    ? { id: material.creator.id, name: material.creator.fullName, userNumber: material.creator.userNumber }
+    : material.createdBy,
+  createdAt: material.createdAt,
+  updatedAt: material.updatedAt,
+});
+
+/**
+ * Material lines of a ticket, oldest first
+ */
+export const findTicketMaterials = async (ticketId: number): Promise<TicketMaterial[]> => {
+  return TicketMaterial.findAll({
+    where: { isDeleted: false, ticketId },
+    include: TICKET_MATERIAL_INCLUDE,
+    order: [['createdAt', 'ASC'], ['id', 'ASC']],
+  });
+};
+
+const emptyTotals = (): TicketMaterialTotals => ({
+  approvedCost: 0,
+  clientSuppliedCost: 0,
+  itemCount: 0,
+  pendingCost: 0,
+  totalCost: 0,
+  wefixSuppliedCost: 0,
+});
+
+const addToTotals = (
+  totals: TicketMaterialTotals,
+  status: TicketMaterialStatus,
+  suppliedBy: TicketMaterialSupplier,
+  count: number,
+  cost: number
+): void => {
+  if (status === TicketMaterialStatus.REJECTED) {
+    return;
+  }
+  totals.itemCount += count;
+  totals.totalCost = roundCost(totals.totalCost + cost);
+  if (status === TicketMaterialStatus.PENDING) {
+    totals.pendingCost = roundCost(totals.pendingCost + cost);
+    return;
+  }
+  totals.approvedCost = roundCost(totals.approvedCost + cost);
+  if (suppliedBy === TicketMaterialSupplier.CLIENT) {
+    totals.clientSuppliedCost = roundCost(totals.clientSuppliedCost + cost);
+  } else {
+    totals.wefixSuppliedCost = roundCost(totals.wefixSuppliedCost + cost);
+  }
+};
+
+/**
+ * Totals of the material lines of one ticket
+ */
+export const summarizeMaterials = (materials: TicketMaterial[]): TicketMaterialTotals => {
+  const totals = emptyTotals();
+  for (const material of materials) {
+    addToTotals(totals, material.status, material.suppliedBy, 1, getLineCost(material));
+  }
+  return totals;
+};
+
+/**
+ * Material totals of several tickets (used by the export), tickets without materials are not in the map
+ */
+export const getMaterialTotalsByTicket = async (ticketIds: number[]): Promise<Map<number, TicketMaterialTotals>> => {
+  const totalsByTicket = new Map<number, TicketMaterialTotals>();
+  if (ticketIds.length === 0) {
+    return totalsByTicket;
+  }
+
+  const rows = (await TicketMaterial.findAll({
+    where: { isDeleted: false, ticketId: { [Op.in]: ticketIds } },
+    attributes: [
+      'ticketId',
+      'status',
+      'suppliedBy',
+      [fn('COUNT', col('TicketMaterial.id')), 'count'],
+      // Line costs are rounded like getLineCost so the totals match summarizeMaterials
+      [fn('SUM', literal('ROUND("TicketMaterial"."quantity" * "TicketMaterial"."unit_cost", 3)')), 'cost'],
+    ],
+    group: ['ticketId', 'status', 'suppliedBy'],
+    raw: true,
+  })) as unknown as {
+    ticketId: number;
+    status: TicketMaterialStatus;
+    suppliedBy: TicketMaterialSupplier;
+    count: string;
+    cost: string;
+  }[];
+
+  for (const row of rows) {
+    if (!totalsByTicket.has(row.ticketId)) {
+      totalsByTicket.set(row.ticketId, emptyTotals());
+    }
+    addToTotals(totalsByTicket.get(row.ticketId)!, row.status, row.suppliedBy, Number(row.count), Number(row.cost));
+  }
+  return totalsByTicket;
+};
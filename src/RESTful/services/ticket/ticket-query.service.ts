@@ -0,0 +1,191 @@
+import { Op, Order, WhereOptions } from 'sequelize';
+
+import { isTechnicianRole, requireCompanyId } from './ticket-access.service';
+
+import { Lookup } from '../../../db/models/lookup.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { AppError } from '../../middleware/error.middleware';
+
+// Query parameters that filter on a ticket ID column, values may be comma separated (?ticketStatusId=109,110)
+const ID_FILTERS: Record<string, keyof Ticket> = {
+  assignToTeamLeaderId: 'assignToTeamLeaderId',
+  assignToTechnicianId: 'assignToTechnicianId',
+  branchId: 'branchId',
+  mainServiceId: 'mainServiceId',
+  ticketStatusId: 'ticketStatusId',
+  ticketTypeId: 'ticketTypeId',
+  zoneId: 'zoneId',
+};
+
+// Columns the ticket list can be sorted by (?sort=ticketDate or ?sort=-createdAt for descending)
+export const SORTABLE_TICKET_FIELDS = [
+  'createdAt',
+  'customerName',
+  'ticketCodeId',
+  'ticketDate',
+  'ticketStatusId',
+  'ticketTitle',
+  'ticketTypeId',
+  'updatedAt',
+];
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseIdList = (name: string, value: any): number[] => {
+  const ids = String(value)
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part !== '')
+    .map(part => Number(part));
+
+  if (ids.length === 0 || ids.some(id => !Number.isInteger(id))) {
+    throw new AppError(`Invalid ${name} filter`, 400, 'VALIDATION_ERROR');
+  }
+
+  return ids;
+};
+
+const parseDateParam = (name: string, value: any): Date => {
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new AppError(`Invalid ${name} date`, 400, 'VALIDATION_ERROR');
+  }
+  return date;
+};
+
+/**
+ * Range condition for a date column
+ * A date-only upper bound (YYYY-MM-DD) includes the whole day
+ */
+const buildDateRange = (fromName: string, from: any, toName: string, to: any, dateOnly: boolean): any => {
+  const range: any = {};
+
+  if (from) {
+    const fromDate = parseDateParam(fromName, from);
+    range[Op.gte] = dateOnly ? fromDate.toISOString().split('T')[0] : fromDate;
+  }
+
+  if (to) {
+    const toDate = parseDateParam(toName, to);
+    if (dateOnly) {
+      range[Op.lte] = toDate.toISOString().split('T')[0];
+    } else if (DATE_ONLY_PATTERN.test(String(to))) {
+      toDate.setUTCDate(toDate.getUTCDate() + 1);
+      range[Op.lt] = toDate;
+    } else {
+      range[Op.lte] = toDate;
+    }
+  }
+
+  return Object.getOwnPropertySymbols(range).length > 0 ? range : null;
+};
+
+const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+/**
+ * Build the where clause of the ticket list from the request query
+ * - Always scoped to the user's company and non-deleted tickets
+ * - Technicians (21) and Sub-Technicians (22) only see tickets assigned to them, whatever the filters say (unless
+ *   scopeToTechnician is false, company-wide statistics)
+ *
+ * Supported query parameters:
+ * ticketStatusId, ticketTypeId, branchId, zoneId, mainServiceId, assignToTeamLeaderId, assignToTechnicianId (comma separated IDs),
+ * source (Web or Mobile), ticketDateFrom, ticketDateTo, createdAtFrom, createdAtTo and search
+ * (matches ticketCodeId, ticketTitle and customerName)
+ */
+export const buildTicketListWhere = (
+  user: any,
+  query: Record<string, any>,
+  { scopeToTechnician = true }: { scopeToTechnician?: boolean } = {}
+): WhereOptions => {
+  const companyId = requireCompanyId(user);
+
+  const whereClause: any = {
+    companyId,
+    isDeleted: false,
+  };
+
+  for (const [param, column] of Object.entries(ID_FILTERS)) {
+    if (query[param] !== undefined && query[param] !== '') {
+      const ids = parseIdList(param, query[param]);
+      whereClause[column] = ids.length === 1 ? ids[0] : { [Op.in]: ids };
+    }
+  }
+
+  if (query.source) {
+    const source = String(query.source).toLowerCase();
+    if (source !== 'web' && source !== 'mobile') {
+      throw new AppError('Invalid source filter, expected Web or Mobile', 400, 'VALIDATION_ERROR');
+    }
+    whereClause.source = source === 'web' ? 'Web' : 'Mobile';
+  }
+
+  const ticketDateRange = buildDateRange('ticketDateFrom', query.ticketDateFrom, 'ticketDateTo', query.ticketDateTo, true);
+  if (ticketDateRange) {
+    whereClause.ticketDate = ticketDateRange;
+  }
+
+  const createdAtRange = buildDateRange('createdAtFrom', query.createdAtFrom, 'createdAtTo', query.createdAtTo, false);
+  if (createdAtRange) {
+    whereClause.createdAt = createdAtRange;
+  }
+
+  const search = typeof query.search === 'string' ? query.search.trim() : '';
+  if (search) {
+    const pattern = `%${escapeLikePattern(search)}%`;
+    whereClause[Op.or] = [
+      { ticketCodeId: { [Op.iLike]: pattern } },
+      { ticketTitle: { [Op.iLike]: pattern } },
+      { customerName: { [Op.iLike]: pattern } },
+    ];
+  }
+
+  // Role-based filtering is applied last so it cannot be overridden by the technician filter
+  if (scopeToTechnician && isTechnicianRole(user.userRoleId)) {
+    whereClause.assignToTechnicianId = user.id;
+  }
+
+  return whereClause;
+};
+
+/**
+ * Parse the sort query parameter, defaults to newest first
+ * Only fields in SORTABLE_TICKET_FIELDS are accepted, a leading '-' sorts descending
+ */
+export const parseTicketSort = (sort: any): Order => {
+  if (sort === undefined || sort === '') {
+    return [['createdAt', 'DESC'], ['id', 'DESC']];
+  }
+
+  const value = String(sort).trim();
+  const descending = value.startsWith('-');
+  const field = descending ? value.substring(1) : value;
+
+  if (!SORTABLE_TICKET_FIELDS.includes(field)) {
+    throw new AppError(`Invalid sort field: ${field}`, 400, 'VALIDATION_ERROR', {
+      allowedFields: SORTABLE_TICKET_FIELDS,
+    });
+  }
+
+  const direction = descending ? 'DESC' : 'ASC';
+  return [[field, direction], ['id', direction]];
+};
+
+/**
+ * Number of tickets per ticket type across the whole filtered set, keyed by ticket type ID
+ */
+export const countTicketsByType = async (whereClause: WhereOptions): Promise<Map<number, number>> => {
+  const rows = (await Ticket.count({
+    where: whereClause,
+    group: ['ticketTypeId'],
+  })) as unknown as { ticketTypeId: number; count: number | string }[];
+
+  return new Map(rows.map(row => [Number(row.ticketTypeId), Number(row.count)]));
+};
+
+/**
+ * Find a ticket type lookup by code or name (e.g. CORR / Corrective)
+ */
+export const findTicketType = (ticketTypes: Lookup[], code: string, name: string): Lookup | undefined => {
+  return ticketTypes.find(type => type.code === code || type.name.toLowerCase().trim() === name);
+};
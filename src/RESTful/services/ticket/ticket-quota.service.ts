@@ -0,0 +1,231 @@
+import { Op, Transaction } from 'sequelize';
+
+import { toDateOnly } from './ticket-scheduling.service';
+import { findStatusByCode, getTicketStatusLookups, TicketStatusCode } from './ticket-workflow.service';
+
+import { Company } from '../../../db/models/company.model';
+import { Contract } from '../../../db/models/contract.model';
+import { Lookup, LookupCategory } from '../../../db/models/lookup.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { AppError } from '../../middleware/error.middleware';
+import { RoleId } from '../../types/user.types';
+
+export enum TicketQuotaType {
+  CORRECTIVE = 'corrective',
+  PREVENTIVE = 'preventive',
+  EMERGENCY = 'emergency',
+}
+
+export interface QuotaUsage {
+  allowed: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+export interface QuotaViolation {
+  scope: 'contract' | 'company';
+  type: TicketQuotaType;
+  allowed: number;
+  used: number;
+}
+
+interface QuotaCheck {
+  companyId: number;
+  contractId: number;
+  ticketTypeId: number;
+  excludeTicketId?: number;
+  // Count tickets created earlier in the same transaction (bulk import)
+  transaction?: Transaction;
+}
+
+// TICKET_TYPE lookup codes of each quota type
+const QUOTA_TYPE_CODES: Record<TicketQuotaType, string> = {
+  [TicketQuotaType.CORRECTIVE]: 'CORR',
+  [TicketQuotaType.PREVENTIVE]: 'PREV',
+  [TicketQuotaType.EMERGENCY]: 'EMRG',
+};
+
+/**
+ * Quota limits are optional, 0 or null means the type is not limited
+ */
+const toLimit = (value: number | null | undefined): number | null => (value && value > 0 ? value : null);
+
+const getContractLimit = (contract: Contract, type: TicketQuotaType): number | null => {
+  switch (type) {
+    case TicketQuotaType.CORRECTIVE:
+      return toLimit(contract.numberOfCorrectiveTickets);
+    case TicketQuotaType.PREVENTIVE:
+      return toLimit(contract.numberOfPreventiveTickets);
+    default:
+      return null;
+  }
+};
+
+const getCompanyLimit = (company: Company, type: TicketQuotaType): number | null => {
+  switch (type) {
+    case TicketQuotaType.CORRECTIVE:
+      return toLimit(company.totalCorrective);
+    case TicketQuotaType.PREVENTIVE:
+      return toLimit(company.totalPreventive);
+    case TicketQuotaType.EMERGENCY:
+      return toLimit(company.totalEmergency);
+  }
+};
+
+/**
+ * Active TICKET_TYPE lookups keyed by quota type
+ */
+export const getQuotaTicketTypes = async (): Promise<Map<TicketQuotaType, Lookup>> => {
+  const ticketTypes = await Lookup.findAll({
+    where: { category: LookupCategory.TICKET_TYPE, isActive: true },
+  });
+
+  const types = new Map<TicketQuotaType, Lookup>();
+  for (const type of Object.values(TicketQuotaType)) {
+    const lookup = ticketTypes.find(
+      ticketType => ticketType.code === QUOTA_TYPE_CODES[type] || ticketType.name.toLowerCase().trim() === type
+    );
+    if (lookup) {
+      types.set(type, lookup);
+    }
+  }
+  return types;
+};
+
+/**
+ * Count the non-deleted, non-cancelled tickets of a type
+ * Contract counts are limited to tickets dated within the contract period
+ */
+const countQuotaTickets = async (
+  whereClause: any,
+  ticketTypeId: number,
+  excludeTicketId?: number,
+  transaction?: Transaction
+): Promise<number> => {
+  const statuses = await getTicketStatusLookups();
+  const cancelledStatus = findStatusByCode(statuses, TicketStatusCode.CANCELLED);
+
+  const where: any = {
+    ...whereClause,
+    isDeleted: false,
+    ticketTypeId,
+  };
+  if (cancelledStatus) {
+    where.ticketStatusId = { [Op.ne]: cancelledStatus.id };
+  }
+  if (excludeTicketId) {
+    where.id = { [Op.ne]: excludeTicketId };
+  }
+
+  return Ticket.count({ where, transaction });
+};
+
+/**
+ * Where clause of the tickets counted against a contract
+ */
+const getContractPeriodWhere = (contract: Contract): any => {
+  const whereClause: any = { contractId: contract.id };
+  const period: any = {};
+  if (contract.contractStartDate) period[Op.gte] = toDateOnly(contract.contractStartDate);
+  if (contract.contractEndDate) period[Op.lte] = toDateOnly(contract.contractEndDate);
+  if (Object.getOwnPropertySymbols(period).length > 0) {
+    whereClause.ticketDate = period;
+  }
+  return whereClause;
+};
+
+const toUsage = (allowed: number | null, used: number): QuotaUsage => ({
+  allowed,
+  used,
+  remaining: allowed === null ? null : Math.max(allowed - used, 0),
+});
+
+/**
+ * Used vs. allowed tickets per type for the contract period and for the whole company
+ */
+export const getQuotaUsage = async (
+  contract: Contract,
+  company: Company
+): Promise<{ contract: Record<TicketQuotaType, QuotaUsage>; company: Record<TicketQuotaType, QuotaUsage> }> => {
+  const types = await getQuotaTicketTypes();
+  const contractUsage = {} as Record<TicketQuotaType, QuotaUsage>;
+  const companyUsage = {} as Record<TicketQuotaType, QuotaUsage>;
+
+  for (const type of Object.values(TicketQuotaType)) {
+    const lookup = types.get(type);
+    const [contractUsed, companyUsed] = lookup
+      ? await Promise.all([
+          countQuotaTickets(getContractPeriodWhere(contract), lookup.id),
+          countQuotaTickets({ companyId: company.id }, lookup.id),
+        ])
+      : [0, 0];
+
+    contractUsage[type] = toUsage(getContractLimit(contract, type), contractUsed);
+    companyUsage[type] = toUsage(getCompanyLimit(company, type), companyUsed);
+  }
+
+  return { company: companyUsage, contract: contractUsage };
+};
+
+/**
+ * Reject a ticket that would exceed the contract or company quota of its type with 409 TICKET_QUOTA_EXCEEDED
+ * Admins (18) and Super Users (26) can override with allowQuotaOverride, the exceeded quotas are returned
+ * so the caller can record the override
+ */
+export const assertTicketQuota = async (
+  check: QuotaCheck,
+  roleId: number,
+  allowOverride: boolean
+): Promise<QuotaViolation[]> => {
+  if (allowOverride && roleId !== RoleId.ADMIN && roleId !== RoleId.SUPER_USER) {
+    throw new AppError('Only company admins and super users can override ticket quotas', 403, 'FORBIDDEN');
+  }
+
+  const types = await getQuotaTicketTypes();
+  const type = [...types.entries()].find(([, lookup]) => lookup.id === Number(check.ticketTypeId))?.[0];
+  if (!type) {
+    return [];
+  }
+
+  const [contract, company] = await Promise.all([
+    Contract.findByPk(check.contractId),
+    Company.findByPk(check.companyId),
+  ]);
+
+  const violations: QuotaViolation[] = [];
+
+  const contractLimit = contract ? getContractLimit(contract, type) : null;
+  if (contract && contractLimit !== null) {
+    const used = await countQuotaTickets(
+      getContractPeriodWhere(contract),
+      Number(check.ticketTypeId),
+      check.excludeTicketId,
+      check.transaction
+    );
+    if (used >= contractLimit) {
+      violations.push({ allowed: contractLimit, scope: 'contract', type, used });
+    }
+  }
+
+  const companyLimit = company ? getCompanyLimit(company, type) : null;
+  if (company && companyLimit !== null) {
+    const used = await countQuotaTickets(
+      { companyId: company.id },
+      Number(check.ticketTypeId),
+      check.excludeTicketId,
+      check.transaction
+    );
+    if (used >= companyLimit) {
+      violations.push({ allowed: companyLimit, scope: 'company', type, used });
+    }
+  }
+
+  if (violations.length === 0 || allowOverride) {
+    return violations;
+  }
+
+  const summary = violations
+    .map(violation => `${violation.scope} ${violation.type} quota (${violation.used}/${violation.allowed})`)
+    .join(', ');
+  throw new AppError(`Ticket quota reached: ${summary}`, 409, 'TICKET_QUOTA_EXCEEDED', { violations });
+};
@@ -0,0 +1,132 @@
+import { col, fn, Op, WhereOptions } from 'sequelize';
+
+import { TicketReassignment, TicketReassignmentReason } from '../../../db/models/ticket-reassignment.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { User } from '../../../db/models/user.model';
+import { AppError } from '../../middleware/error.middleware';
+
+export interface ReassignmentReason {
+  reasonCode: TicketReassignmentReason;
+  reasonNote: string | null;
+}
+
+export interface TechnicianReassignmentCounts {
+  reassignedIn: number;
+  reassignedOut: number;
+}
+
+export const MAX_REASSIGNMENT_NOTE_LENGTH = 500;
+
+const USER_ATTRIBUTES = ['id', 'fullName', 'userNumber'];
+
+// Users shown on reassignment log entries
+export const REASSIGNMENT_INCLUDE = [
+  { model: User, as: 'fromTeamLeader', required: false, attributes: USER_ATTRIBUTES },
+  { model: User, as: 'toTeamLeader', required: false, attributes: USER_ATTRIBUTES },
+  { model: User, as: 'fromTechnician', required: false, attributes: USER_ATTRIBUTES },
+  { model: User, as: 'toTechnician', required: false, attributes: USER_ATTRIBUTES },
+  { model: User, as: 'creator', required: false, attributes: USER_ATTRIBUTES },
+];
+
+/**
+ * Validate the reason of a reassignment, the OTHER reason code requires a reasonNote
+ */
+export const parseReassignmentReason = (body: any): ReassignmentReason => {
+  const reasonCode = typeof body?.reasonCode === 'string' ? body.reasonCode.trim().toUpperCase() : '';
+  if (!reasonCode) {
+    throw new AppError('reasonCode is required', 400, 'VALIDATION_ERROR', {
+      allowedReasons: Object.values(TicketReassignmentReason),
+    });
+  }
+  if (!Object.values(TicketReassignmentReason).includes(reasonCode)) {
+    throw new AppError(`Invalid reasonCode: ${reasonCode}`, 400, 'VALIDATION_ERROR', {
+      allowedReasons: Object.values(TicketReassignmentReason),
+    });
+  }
+
+  const reasonNote = typeof body.reasonNote === 'string' ? body.reasonNote.trim() || null : null;
+  if (reasonNote && reasonNote.length > MAX_REASSIGNMENT_NOTE_LENGTH) {
+    throw new AppError(`reasonNote must not exceed ${MAX_REASSIGNMENT_NOTE_LENGTH} characters`, 400, 'VALIDATION_ERROR');
+  }
+  if (reasonCode === TicketReassignmentReason.OTHER && !reasonNote) {
+    throw new AppError('reasonNote is required when reasonCode is OTHER', 400, 'VALIDATION_ERROR');
+  }
+
+  return { reasonCode: reasonCode as TicketReassignmentReason, reasonNote };
+};
+
+const formatUser = (user: User | null | undefined, id: number | null) => {
+  if (!user) {
+    return id ? { id } : null;
+  }
+  return { id: user.id, name: user.fullName, userNumber: user.userNumber };
+};
+
+/**
+ * Format a reassignment log entry for responses
+ */
+export const formatReassignment = (reassignment: TicketReassignment) => ({
+  id: reassignment.id,
+  ticketId: reassignment.ticketId,
+  fromTeamLeader: formatUser(reassignment.fromTeamLeader, reassignment.fromTeamLeaderId),
+  toTeamLeader: formatUser(reassignment.toTeamLeader, reassignment.toTeamLeaderId),
+  fromTechnician: formatUser(reassignment.fromTechnician, reassignment.fromTechnicianId),
+  toTechnician: formatUser(reassignment.toTechnician, reassignment.toTechnicianId),
+  reasonCode: reassignment.reasonCode,
+  reasonNote: reassignment.reasonNote,
+  reassignedBy: formatUser(reassignment.creator, reassignment.createdBy),
+  reassignedAt: reassignment.createdAt,
+});
+
+/**
+ * Reassignment log of a ticket, oldest first
+ */
+export const findTicketReassignments = async (ticketId: number): Promise<TicketReassignment[]> => {
+  return TicketReassignment.findAll({
+    where: { isDeleted: false, ticketId },
+    include: REASSIGNMENT_INCLUDE,
+    order: [['createdAt', 'ASC'], ['id', 'ASC']],
+  });
+};
+
+/**
+ * Count technician reassignments of the tickets matching the where clause, per technician
+ * reassignedIn counts tickets moved to the technician, reassignedOut tickets moved away from them
+ * Entries that only changed the team leader are not counted
+ */
+export const countReassignmentsByTechnician = async (
+  ticketWhere: WhereOptions
+): Promise<Map<number, TechnicianReassignmentCounts>> => {
+  const countBy = async (column: 'toTechnicianId' | 'fromTechnicianId') => {
+    return (await TicketReassignment.findAll({
+      where: {
+        isDeleted: false,
+        [Op.and]: [{ fromTechnicianId: { [Op.ne]: col('TicketReassignment.to_technician_id') } }],
+      },
+      include: [{ model: Ticket, as: 'ticket', required: true, attributes: [], where: ticketWhere }],
+      attributes: [
+        [col(`TicketReassignment.${TicketReassignment.rawAttributes[column].field}`), 'key'],
+        [fn('COUNT', col('TicketReassignment.id')), 'total'],
+      ],
+      group: ['key'],
+      raw: true,
+    })) as unknown as { key: number | null; total: string | number }[];
+  };
+
+  const [reassignedIn, reassignedOut] = await Promise.all([countBy('toTechnicianId'), countBy('fromTechnicianId')]);
+
+  const counts = new Map<number, TechnicianReassignmentCounts>();
+  const countsOf = (technicianId: number) => {
+    if (!counts.has(technicianId)) {
+      counts.set(technicianId, { reassignedIn: 0, reassignedOut: 0 });
+    }
+    return counts.get(technicianId)!;
+  };
+  for (const row of reassignedIn) {
+    if (row.key !== null) countsOf(Number(row.key)).reassignedIn = Number(row.total);
+  }
+  for (const row of reassignedOut) {
+    if (row.key !== null) countsOf(Number(row.key)).reassignedOut = Number(row.total);
+  }
+  return counts;
+};
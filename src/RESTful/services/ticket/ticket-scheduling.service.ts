@@ -0,0 +1,246 @@
+import { col, Op, Transaction } from 'sequelize';
+
+import { findStatusByCode, getTicketStatusLookups, TicketStatusCode } from './ticket-workflow.service';
+
+import { Ticket } from '../../../db/models/ticket.model';
+import { AppError } from '../../middleware/error.middleware';
+import { RoleId } from '../../types/user.types';
+
+export interface TicketSlot {
+  technicianId: number;
+  ticketDate: string | Date;
+  ticketTimeFrom: string;
+  ticketTimeTo: string;
+  excludeTicketId?: number;
+  // See tickets created earlier in the same transaction (bulk import)
+  transaction?: Transaction;
+}
+
+/**
+ * Normalize a DATEONLY value to YYYY-MM-DD
+ */
+export const toDateOnly = (value: string | Date): string => {
+  return value instanceof Date ? value.toISOString().split('T')[0] : String(value).split('T')[0];
+};
+
+/**
+ * Normalize a TIME value to HH:MM:SS
+ */
+export const toTime = (value: string): string => {
+  const [hours = '00', minutes = '00', seconds = '00'] = String(value).trim().split(':');
+  return [hours, minutes, seconds].map(part => part.padStart(2, '0').substring(0, 2)).join(':');
+};
+
+/**
+ * End of a slot, slots ending at or before their start (e.g. emergency tickets created late in the evening)
+ * run until the end of the day
+ */
+export const getSlotEnd = (timeFrom: string, timeTo: string): string => {
+  const from = toTime(timeFrom);
+  const to = toTime(timeTo);
+  return to > from ? to : '24:00:00';
+};
+
+/**
+ * Non-cancelled, non-deleted tickets of the technician on the same date whose time slot overlaps the given slot
+ */
+export const findTechnicianConflicts = async (slot: TicketSlot): Promise<Ticket[]> => {
+  const statuses = await getTicketStatusLookups();
+  const cancelledStatus = findStatusByCode(statuses, TicketStatusCode.CANCELLED);
+
+  const start = toTime(slot.ticketTimeFrom);
+  const end = getSlotEnd(slot.ticketTimeFrom, slot.ticketTimeTo);
+
+  const whereClause: any = {
+    assignToTechnicianId: slot.technicianId,
+    isDeleted: false,
+    ticketDate: toDateOnly(slot.ticketDate),
+    ticketTimeFrom: { [Op.lt]: end },
+    [Op.or]: [
+      { ticketTimeTo: { [Op.gt]: start } },
+      // Tickets running past midnight end after any slot starting later that day
+      { ticketTimeTo: { [Op.lte]: col('ticket_time_from') } },
+    ],
+  };
+
+  if (cancelledStatus) {
+    whereClause.ticketStatusId = { [Op.ne]: cancelledStatus.id };
+  }
+
+  if (slot.excludeTicketId) {
+    whereClause.id = { [Op.ne]: slot.excludeTicketId };
+  }
+
+  return Ticket.findAll({
+    where: whereClause,
+    attributes: ['id', 'ticketCodeId', 'ticketTitle', 'ticketDate', 'ticketTimeFrom', 'ticketTimeTo', 'ticketStatusId'],
+    order: [['ticketTimeFrom', 'ASC']],
+    transaction: slot.transaction,
+  });
+};
+
+/**
+ * Reject a slot that overlaps other tickets of the technician with 409 TECHNICIAN_DOUBLE_BOOKED
+ * Admins (18) and Super Users (26) can force the overlap with allowOverlap, the conflicting tickets are returned
+ * so the caller can record the override
+ */
+export const assertTechnicianAvailable = async (
+  slot: TicketSlot,
+  roleId: number,
+  allowOverlap: boolean
+): Promise<Ticket[]> => {
+  if (allowOverlap && roleId !== RoleId.ADMIN && roleId !== RoleId.SUPER_USER) {
+    throw new AppError('Only company admins and super users can override technician double booking', 403, 'FORBIDDEN');
+  }
+
+  const conflicts = await findTechnicianConflicts(slot);
+  if (conflicts.length === 0 || allowOverlap) {
+    return conflicts;
+  }
+
+  throw new AppError(
+    `Technician is already booked at this time: ${conflicts.map(conflict => conflict.ticketCodeId).join(', ')}`,
+    409,
+    'TECHNICIAN_DOUBLE_BOOKED',
+    {
+      conflicts: conflicts.map(conflict => ({
+        id: conflict.id,
+        ticketCodeId: conflict.ticketCodeId,
+        ticketTitle: conflict.ticketTitle,
+        ticketDate: conflict.ticketDate,
+        ticketTimeFrom: conflict.ticketTimeFrom,
+        ticketTimeTo: conflict.ticketTimeTo,
+      })),
+    }
+  );
+};
+
+export enum TechnicianAvailability {
+  FREE = 'free',
+  PARTIAL = 'partial',
+  FULL = 'full',
+}
+
+// Default length of an availability slot in minutes (tickets are booked in 2-hour slots)
+export const DEFAULT_SLOT_MINUTES = 120;
+
+/**
+ * Minutes since midnight of a TIME value
+ */
+export const timeToMinutes = (value: string): number => {
+  const [hours, minutes] = toTime(value).split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * TIME value (HH:MM:SS) of minutes since midnight, capped at 24:00:00
+ */
+export const minutesToTime = (value: number): string => {
+  const minutes = Math.min(value, 24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}:00`;
+};
+
+/**
+ * Non-cancelled, non-deleted tickets of the technicians between two dates (inclusive), ordered by date and time
+ */
+export const findTechnicianTickets = async (technicianIds: number[], from: string, to: string): Promise<Ticket[]> => {
+  if (technicianIds.length === 0) {
+    return [];
+  }
+
+  const statuses = await getTicketStatusLookups();
+  const cancelledStatus = findStatusByCode(statuses, TicketStatusCode.CANCELLED);
+
+  const whereClause: any = {
+    assignToTechnicianId: { [Op.in]: technicianIds },
+    isDeleted: false,
+    ticketDate: { [Op.between]: [from, to] },
+  };
+
+  if (cancelledStatus) {
+    whereClause.ticketStatusId = { [Op.ne]: cancelledStatus.id };
+  }
+
+  return Ticket.findAll({
+    where: whereClause,
+    order: [['ticketDate', 'ASC'], ['ticketTimeFrom', 'ASC']],
+  });
+};
+
+/**
+ * Minutes of the slot [slotStart, slotEnd) covered by the ticket
+ */
+export const getOverlapMinutes = (slotStart: number, slotEnd: number, ticket: Ticket): number => {
+  const ticketStart = timeToMinutes(ticket.ticketTimeFrom);
+  const ticketEnd = timeToMinutes(getSlotEnd(ticket.ticketTimeFrom, ticket.ticketTimeTo));
+  return Math.max(0, Math.min(slotEnd, ticketEnd) - Math.max(slotStart, ticketStart));
+};
+
+export interface TechnicianAvailabilityResult {
+  technicianId: number;
+  availability: TechnicianAvailability;
+  bookedMinutes: number;
+  ticketsOnDate: number;
+  conflicts: Ticket[];
+}
+
+/**
+ * Availability of technicians for a slot on a date, ranked free first, then partially booked (least booked first),
+ * then fully booked; ties are broken by the number of tickets the technician already has that day
+ */
+export const rankTechnicianAvailability = async (
+  technicianIds: number[],
+  date: string,
+  timeFrom: string,
+  timeTo: string
+): Promise<TechnicianAvailabilityResult[]> => {
+  const slotStart = timeToMinutes(timeFrom);
+  const slotEnd = timeToMinutes(getSlotEnd(timeFrom, timeTo));
+  const slotLength = slotEnd - slotStart;
+
+  const tickets = await findTechnicianTickets(technicianIds, date, date);
+
+  const results = technicianIds.map(technicianId => {
+    const dayTickets = tickets.filter(ticket => ticket.assignToTechnicianId === technicianId);
+    const conflicts = dayTickets.filter(ticket => getOverlapMinutes(slotStart, slotEnd, ticket) > 0);
+
+    // Merge overlapping bookings so double-booked minutes are only counted once
+    let bookedMinutes = 0;
+    let coveredUntil = slotStart;
+    const intervals = conflicts
+      .map(ticket => [
+        Math.max(slotStart, timeToMinutes(ticket.ticketTimeFrom)),
+        Math.min(slotEnd, timeToMinutes(getSlotEnd(ticket.ticketTimeFrom, ticket.ticketTimeTo))),
+      ])
+      .sort((a, b) => a[0] - b[0]);
+    for (const [start, end] of intervals) {
+      if (end > coveredUntil) {
+        bookedMinutes += end - Math.max(start, coveredUntil);
+        coveredUntil = end;
+      }
+    }
+
+    let availability = TechnicianAvailability.PARTIAL;
+    if (bookedMinutes === 0) {
+      availability = TechnicianAvailability.FREE;
+    } else if (bookedMinutes >= slotLength) {
+      availability = TechnicianAvailability.FULL;
+    }
+
+    return {
+      availability,
+      bookedMinutes,
+      conflicts,
+      technicianId,
+      ticketsOnDate: dayTickets.length,
+    };
+  });
+
+  const rank = { [TechnicianAvailability.FREE]: 0, [TechnicianAvailability.PARTIAL]: 1, [TechnicianAvailability.FULL]: 2 };
+  return results.sort(
+    (a, b) =>
+      rank[a.availability] - rank[b.availability] ||
+      a.bookedMinutes - b.bookedMinutes ||
+      a.ticketsOnDate - b.ticketsOnDate
+  );
+};
@@ -0,0 +1,188 @@
+import { col, fn, Op, Transaction } from 'sequelize';
+
+import { findOwnTicketUpload } from './ticket-access.service';
+import { recordTicketHistory } from './ticket-history.service';
+
+import { File, FileCategory } from '../../../db/models/file.model';
+import { TicketHistoryAction } from '../../../db/models/ticket-history.model';
+import { TicketSignOff } from '../../../db/models/ticket-sign-off.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { AppError } from '../../middleware/error.middleware';
+
+export interface SignOffInput {
+  signatureFileId: number;
+  signerName: string;
+  rating: number;
+  comment: string | null;
+}
+
+export interface TechnicianRating {
+  technicianId: number;
+  averageRating: number | null;
+  ratingCount: number;
+  // Number of sign-offs per rating, keys 1 to 5
+  distribution: Record<number, number>;
+}
+
+export const MAX_SIGNER_NAME_LENGTH = 100;
+export const MAX_SIGN_OFF_COMMENT_LENGTH = 1000;
+
+/**
+ * Validate the sign-off sent with a completion
+ * The signature image is a file the user completing the ticket uploaded to it (see findOwnTicketUpload)
+ */
+export const validateSignOff = async (user: any, ticket: Ticket, body: any): Promise<SignOffInput> => {
+  if (!body || typeof body !== 'object') {
+    throw new AppError('Customer sign-off is required', 400, 'VALIDATION_ERROR');
+  }
+
+  const signerName = typeof body.signerName === 'string' ? body.signerName.trim() : '';
+  if (!signerName) {
+    throw new AppError('signerName is required', 400, 'VALIDATION_ERROR');
+  }
+  if (signerName.length > MAX_SIGNER_NAME_LENGTH) {
+    throw new AppError(`signerName must not exceed ${MAX_SIGNER_NAME_LENGTH} characters`, 400, 'VALIDATION_ERROR');
+  }
+
+  const rating = Number(body.rating);
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new AppError('rating must be a whole number from 1 to 5', 400, 'VALIDATION_ERROR');
+  }
+
+  const comment = typeof body.comment === 'string' && body.comment.trim() ? body.comment.trim() : null;
+  if (comment && comment.length > MAX_SIGN_OFF_COMMENT_LENGTH) {
+    throw new AppError(`comment must not exceed ${MAX_SIGN_OFF_COMMENT_LENGTH} characters`, 400, 'VALIDATION_ERROR');
+  }
+
+  if (body.signatureFileId === undefined || body.signatureFileId === null || body.signatureFileId === '') {
+    throw new AppError('signatureFileId is required', 400, 'VALIDATION_ERROR');
+  }
+  const signature = await findOwnTicketUpload(user, ticket, body.signatureFileId);
+  if (!signature) {
+    throw new AppError('Signature was not found on this ticket', 400, 'VALIDATION_ERROR');
+  }
+  if (!String(signature.mimeType || '').startsWith('image/')) {
+    throw new AppError('Signature must be an image', 400, 'VALIDATION_ERROR');
+  }
+
+  return { comment, rating, signatureFileId: signature.id, signerName };
+};
+
+/**
+ * Store the sign-off of a ticket and mark the signature file, call in the transaction of the Completed transition
+ * A ticket reopened and completed again keeps a single sign-off, the new one replaces the previous one
+ */
+export const saveSignOff = async (
+  ticket: Ticket,
+  input: SignOffInput,
+  actorId: number,
+  source: string,
+  transaction: Transaction
+): Promise<TicketSignOff> => {
+  const values = {
+    ...input,
+    signedAt: new Date(),
+    technicianId: ticket.assignToTechnicianId,
+    updatedBy: actorId,
+  };
+
+  const previous = await TicketSignOff.findOne({ where: { ticketId: ticket.id }, transaction });
+  const signOff = previous
+    ? await previous.update(values, { transaction })
+    : await TicketSignOff.create({ ...values, createdBy: actorId, ticketId: ticket.id }, { transaction });
+
+  await File.update({ category: FileCategory.SIGNATURE }, { where: { id: input.signatureFileId }, transaction });
+
+  await recordTicketHistory({
+    action: TicketHistoryAction.SIGNED_OFF,
+    actorId,
+    changes: [{ field: 'signOff', newValue: { rating: input.rating, signerName: input.signerName }, oldValue: null }],
+    source,
+    ticketId: ticket.id,
+    transaction,
+  });
+
+  return signOff;
+};
+
+/**
+ * Format a sign-off for responses
+ */
+export const formatSignOff = (signOff: TicketSignOff | null | undefined) => {
+  if (!signOff) {
+    return null;
+  }
+
+  return {
+    id: signOff.id,
+    signerName: signOff.signerName,
+    rating: signOff.rating,
+    comment: signOff.comment,
+    signedAt: signOff.signedAt,
+    technicianId: signOff.technicianId,
+    signature: signOff.signatureFile
+      ? {
+          id: signOff.signatureFile.id,
+          fileName: signOff.signatureFile.originalFilename ?? signOff.signatureFile.filename ?? '',
+          filePath: signOff.signatureFile.filePath ?? signOff.signatureFile.path ?? '',
+        }
+      : { id: signOff.signatureFileId },
+  };
+};
+
+const emptyRating = (technicianId: number): TechnicianRating => ({
+  averageRating: null,
+  distribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+  ratingCount: 0,
+  technicianId,
+});
+
+/**
+ * Customer rating averages of technicians from the sign-offs of the company's non-deleted tickets
+ * Optionally limited to some technicians and to sign-offs between two dates (inclusive)
+ */
+export const computeTechnicianRatings = async (
+  companyId: number,
+  options: { technicianIds?: number[]; from?: string; to?: string } = {}
+): Promise<TechnicianRating[]> => {
+  const whereClause: any = {};
+  if (options.technicianIds) {
+    whereClause.technicianId = { [Op.in]: options.technicianIds };
+  }
+  if (options.from || options.to) {
+    whereClause.signedAt = {
+      ...(options.from && { [Op.gte]: new Date(`${options.from}T00:00:00`) }),
+      ...(options.to && { [Op.lte]: new Date(`${options.to}T23:59:59.999`) }),
+    };
+  }
+
+  const rows = (await TicketSignOff.findAll({
+    where: whereClause,
+    attributes: ['technicianId', 'rating', [fn('COUNT', col('TicketSignOff.id')), 'count']],
+    include: [{ model: Ticket, as: 'ticket', attributes: [], where: { companyId, isDeleted: false } }],
+    group: ['TicketSignOff.technician_id', 'TicketSignOff.rating'],
+    raw: true,
+  })) as unknown as { technicianId: number; rating: number; count: string }[];
+
+  // Technicians asked for are listed even without sign-offs
+  const ratings = new Map<number, TechnicianRating>();
+  for (const technicianId of options.technicianIds || []) {
+    ratings.set(technicianId, emptyRating(technicianId));
+  }
+
+  for (const row of rows) {
+    if (!ratings.has(row.technicianId)) {
+      ratings.set(row.technicianId, emptyRating(row.technicianId));
+    }
+    const rating = ratings.get(row.technicianId)!;
+    rating.distribution[row.rating] = Number(row.count);
+    rating.ratingCount += Number(row.count);
+  }
+
+  for (const rating of ratings.values()) {
+    const total = Object.entries(rating.distribution).reduce((sum, [value, count]) => sum + Number(value) * count, 0);
+    rating.averageRating = rating.ratingCount > 0 ? Math.round((total / rating.ratingCount) * 100) / 100 : null;
+  }
+
+  return [...ratings.values()];
+};
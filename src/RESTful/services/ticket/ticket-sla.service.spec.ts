@@ -0,0 +1,141 @@
+import { applySlaTransition, getResponseTimeMinutes, getTicketSla, SlaStatus } from './ticket-sla.service';
+import { ResolvedTicketTransition, TicketStatusCode } from './ticket-workflow.service';
+
+import { Lookup } from '../../../db/models/lookup.model';
+import { Ticket } from '../../../db/models/ticket.model';
+
+const DUE_AT = new Date('2025-03-10T10:00:00Z');
+const BEFORE_DUE = new Date('2025-03-10T09:30:00Z');
+const AFTER_DUE = new Date('2025-03-10T11:15:00Z');
+
+const transition = (from: TicketStatusCode, to: TicketStatusCode) =>
+  ({ fromStatus: { code: from }, toStatus: { code: to } }) as ResolvedTicketTransition;
+
+const START = transition(TicketStatusCode.PENDING, TicketStatusCode.IN_PROGRESS);
+const COMPLETE = transition(TicketStatusCode.IN_PROGRESS, TicketStatusCode.COMPLETED);
+const COMPLETE_PENDING = transition(TicketStatusCode.PENDING, TicketStatusCode.COMPLETED);
+const REOPEN = transition(TicketStatusCode.COMPLETED, TicketStatusCode.IN_PROGRESS);
+
+const buildTicket = (fields: Partial<Ticket> = {}) =>
+  ({
+    resolutionBreached: false,
+    resolutionDueAt: DUE_AT,
+    resolvedAt: null,
+    respondedAt: null,
+    responseBreached: false,
+    responseDueAt: DUE_AT,
+    ...fields,
+  }) as Ticket;
+
+describe('getResponseTimeMinutes', () => {
+  it.each([
+    ['RT_30M', 30],
+    ['RT_4H', 240],
+    ['rt_2d', 2880],
+  ])('reads %s as %i minutes', (code, minutes) => {
+    expect(getResponseTimeMinutes({ code } as Lookup)).toBe(minutes);
+  });
+
+  it('returns null for codes without a duration', () => {
+    expect(getResponseTimeMinutes({ code: 'SAME_DAY' } as Lookup)).toBeNull();
+    expect(getResponseTimeMinutes(null)).toBeNull();
+  });
+});
+
+describe('applySlaTransition', () => {
+  it('stamps the response on the first move to In Progress', () => {
+    const ticket = buildTicket();
+
+    const breaches = applySlaTransition(ticket, START, BEFORE_DUE);
+
+    expect(ticket.respondedAt).toEqual(BEFORE_DUE);
+    expect(ticket.responseBreached).toBe(false);
+    expect(ticket.resolvedAt).toBeNull();
+    expect(breaches).toEqual([]);
+  });
+
+  it('flags a late response and returns the breach', () => {
+    const ticket = buildTicket();
+
+    const breaches = applySlaTransition(ticket, START, AFTER_DUE);
+
+    expect(ticket.responseBreached).toBe(true);
+    expect(breaches).toEqual([
+      { field: 'response', newValue: AFTER_DUE.toISOString(), oldValue: DUE_AT.toISOString() },
+    ]);
+  });
+
+  it('keeps the first response time when the ticket is started again', () => {
+    const ticket = buildTicket({ respondedAt: BEFORE_DUE });
+
+    applySlaTransition(ticket, START, AFTER_DUE);
+
+    expect(ticket.respondedAt).toEqual(BEFORE_DUE);
+    expect(ticket.responseBreached).toBe(false);
+  });
+
+  it('counts a ticket completed straight from Pending as responded', () => {
+    const ticket = buildTicket();
+
+    const breaches = applySlaTransition(ticket, COMPLETE_PENDING, AFTER_DUE);
+
+    expect(ticket.respondedAt).toEqual(AFTER_DUE);
+    expect(ticket.resolvedAt).toEqual(AFTER_DUE);
+    expect(breaches.map(breach => breach.field)).toEqual(['response', 'resolution']);
+  });
+
+  it('clears the resolution time on reopen and keeps the recorded breaches', () => {
+    const ticket = buildTicket({ resolutionBreached: true, resolvedAt: AFTER_DUE, respondedAt: BEFORE_DUE });
+
+    const breaches = applySlaTransition(ticket, REOPEN, new Date('2025-03-11T08:00:00Z'));
+
+    expect(ticket.resolvedAt).toBeNull();
+    expect(ticket.resolutionBreached).toBe(true);
+    expect(ticket.respondedAt).toEqual(BEFORE_DUE);
+    expect(breaches).toEqual([]);
+  });
+
+  it('stamps the new resolution of a reopened ticket, still breached when completed in time', () => {
+    const ticket = buildTicket({ resolutionBreached: true, resolutionDueAt: AFTER_DUE, respondedAt: BEFORE_DUE });
+
+    const breaches = applySlaTransition(ticket, COMPLETE, DUE_AT);
+
+    expect(ticket.resolvedAt).toEqual(DUE_AT);
+    expect(ticket.resolutionBreached).toBe(true);
+    expect(breaches).toEqual([]);
+    expect(getTicketSla(ticket, false, DUE_AT).resolution.status).toBe(SlaStatus.BREACHED);
+  });
+});
+
+describe('getTicketSla', () => {
+  it('reports open milestones as pending with the minutes left', () => {
+    const sla = getTicketSla(buildTicket(), false, BEFORE_DUE);
+
+    expect(sla.response).toMatchObject({ breached: false, remainingMinutes: 30, status: SlaStatus.PENDING });
+  });
+
+  it('reports overdue open milestones as breached', () => {
+    const sla = getTicketSla(buildTicket(), false, AFTER_DUE);
+
+    expect(sla.response).toMatchObject({ breached: true, remainingMinutes: -75, status: SlaStatus.BREACHED });
+  });
+
+  it('reports milestones completed in time as met', () => {
+    const sla = getTicketSla(buildTicket({ respondedAt: BEFORE_DUE }), false, AFTER_DUE);
+
+    expect(sla.response).toMatchObject({ breached: false, remainingMinutes: null, status: SlaStatus.MET });
+  });
+
+  it('stops the clock of cancelled tickets', () => {
+    const sla = getTicketSla(buildTicket({ respondedAt: BEFORE_DUE }), true, AFTER_DUE);
+
+    expect(sla.response.status).toBe(SlaStatus.MET);
+    expect(sla.resolution).toMatchObject({ breached: false, status: SlaStatus.NOT_APPLICABLE });
+  });
+
+  it('reports milestones without a due time as not applicable', () => {
+    const sla = getTicketSla(buildTicket({ responseDueAt: null }), false, AFTER_DUE);
+
+    expect(sla.response.status).toBe(SlaStatus.NOT_APPLICABLE);
+  });
+});
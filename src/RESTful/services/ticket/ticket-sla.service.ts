@@ -0,0 +1,295 @@
+import { Op } from 'sequelize';
+
+import { toDateOnly, toTime } from './ticket-scheduling.service';
+import { findStatusByCode, getTicketStatusLookups, ResolvedTicketTransition, TicketStatusCode } from './ticket-workflow.service';
+
+import { Lookup } from '../../../db/models/lookup.model';
+import { SlaPolicy } from '../../../db/models/sla-policy.model';
+import { TicketFieldChange } from '../../../db/models/ticket-history.model';
+import { Ticket } from '../../../db/models/ticket.model';
+
+export enum SlaStatus {
+  PENDING = 'pending',
+  MET = 'met',
+  BREACHED = 'breached',
+  NOT_APPLICABLE = 'not_applicable',
+}
+
+export interface SlaDueTimes {
+  slaPolicyId: number | null;
+  responseDueAt: Date | null;
+  resolutionDueAt: Date | null;
+}
+
+export interface SlaMilestone {
+  status: SlaStatus;
+  dueAt: Date | null;
+  completedAt: Date | null;
+  breached: boolean;
+  // Minutes left until dueAt (negative when overdue), null once the milestone is completed or without an SLA
+  remainingMinutes: number | null;
+}
+
+export interface SlaComplianceCounts {
+  total: number;
+  responseMet: number;
+  responseBreached: number;
+  responsePending: number;
+  resolutionMet: number;
+  resolutionBreached: number;
+  resolutionPending: number;
+  responseCompliance: number | null;
+  resolutionCompliance: number | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Minutes per unit of the RESPONSE_TIME lookup codes (RT_<number><M|H|D>, e.g. RT_4H)
+const RESPONSE_TIME_UNITS: Record<string, number> = { D: 24 * 60, H: 60, M: 1 };
+const RESPONSE_TIME_CODE_PATTERN = /^RT_(\d+)([MHD])$/i;
+
+/**
+ * Target in minutes of a RESPONSE_TIME lookup, null when its code does not encode a duration
+ */
+export const getResponseTimeMinutes = (lookup: Lookup | null | undefined): number | null => {
+  const match = RESPONSE_TIME_CODE_PATTERN.exec(lookup?.code || '');
+  return match ? Number(match[1]) * RESPONSE_TIME_UNITS[match[2].toUpperCase()] : null;
+};
+
+/**
+ * Active SLA policy of a ticket, a policy of the ticket's contract takes precedence over the company-wide one
+ */
+export const findSlaPolicy = async (
+  companyId: number,
+  contractId: number | null,
+  ticketTypeId: number
+): Promise<SlaPolicy | null> => {
+  const policies = await SlaPolicy.findAll({
+    where: {
+      companyId,
+      contractId: contractId ? { [Op.or]: [contractId, null] } : null,
+      isActive: true,
+      isDeleted: false,
+      ticketTypeId,
+    },
+    include: [
+      { model: Lookup, as: 'responseTimeLookup' },
+      { model: Lookup, as: 'resolutionTimeLookup' },
+    ],
+  });
+
+  return policies.find(policy => policy.contractId !== null) ?? policies[0] ?? null;
+};
+
+/**
+ * Start of the SLA clock: the scheduled slot start, or the creation time for tickets created after their slot
+ * started (e.g. emergency tickets); slot times are interpreted in the server's time zone
+ */
+export const getSlaClockStart = (ticket: Ticket): Date => {
+  const createdAt = ticket.createdAt ? new Date(ticket.createdAt) : new Date();
+  const slotStart = new Date(`${toDateOnly(ticket.ticketDate)}T${toTime(ticket.ticketTimeFrom)}`);
+  return isNaN(slotStart.getTime()) || slotStart < createdAt ? createdAt : slotStart;
+};
+
+/**
+ * SLA due times of a ticket from the policy of its company, contract and type
+ * All fields are null when no policy applies
+ */
+export const computeSlaDueTimes = async (ticket: Ticket): Promise<SlaDueTimes> => {
+  const policy = await findSlaPolicy(ticket.companyId, ticket.contractId, ticket.ticketTypeId);
+  if (!policy) {
+    return { resolutionDueAt: null, responseDueAt: null, slaPolicyId: null };
+  }
+
+  const start = getSlaClockStart(ticket).getTime();
+  const responseMinutes = getResponseTimeMinutes(policy.responseTimeLookup);
+  const resolutionMinutes = getResponseTimeMinutes(policy.resolutionTimeLookup);
+
+  return {
+    resolutionDueAt: resolutionMinutes !== null ? new Date(start + resolutionMinutes * MINUTE_MS) : null,
+    responseDueAt: responseMinutes !== null ? new Date(start + responseMinutes * MINUTE_MS) : null,
+    slaPolicyId: policy.id,
+  };
+};
+
+/**
+ * Stamp the response and resolution times on a status change and flag late ones
+ * - First move to In Progress: respondedAt, responseBreached when after responseDueAt
+ * - Move to Completed: resolvedAt, resolutionBreached when after resolutionDueAt (a ticket completed straight
+ *   from Pending also counts as responded)
+ * - Reopening a Completed ticket clears resolvedAt, recorded breaches are kept
+ * Returns the breaches so the caller can record them in the ticket history
+ */
+export const applySlaTransition = (
+  ticket: Ticket,
+  resolved: ResolvedTicketTransition,
+  now: Date = new Date()
+): TicketFieldChange[] => {
+  const breaches: TicketFieldChange[] = [];
+  const toCode = resolved.toStatus.code;
+
+  if ((toCode === TicketStatusCode.IN_PROGRESS || toCode === TicketStatusCode.COMPLETED) && !ticket.respondedAt) {
+    ticket.respondedAt = now;
+    if (ticket.responseDueAt && now > new Date(ticket.responseDueAt)) {
+      ticket.responseBreached = true;
+      breaches.push({ field: 'response', newValue: now.toISOString(), oldValue: new Date(ticket.responseDueAt).toISOString() });
+    }
+  }
+
+  if (toCode === TicketStatusCode.COMPLETED) {
+    ticket.resolvedAt = now;
+    if (ticket.resolutionDueAt && now > new Date(ticket.resolutionDueAt)) {
+      ticket.resolutionBreached = true;
+      breaches.push({
+        field: 'resolution',
+        newValue: now.toISOString(),
+        oldValue: new Date(ticket.resolutionDueAt).toISOString(),
+      });
+    }
+  } else if (resolved.fromStatus.code === TicketStatusCode.COMPLETED) {
+    ticket.resolvedAt = null;
+  }
+
+  return breaches;
+};
+
+const getMilestone = (
+  dueAt: Date | null,
+  completedAt: Date | null,
+  recordedBreach: boolean,
+  cancelled: boolean,
+  now: Date
+): SlaMilestone => {
+  if (!dueAt) {
+    return { breached: false, completedAt, dueAt: null, remainingMinutes: null, status: SlaStatus.NOT_APPLICABLE };
+  }
+
+  const due = new Date(dueAt);
+  if (completedAt) {
+    const breached = recordedBreach || new Date(completedAt) > due;
+    return {
+      breached,
+      completedAt,
+      dueAt: due,
+      remainingMinutes: null,
+      status: breached ? SlaStatus.BREACHED : SlaStatus.MET,
+    };
+  }
+
+  if (cancelled) {
+    return { breached: recordedBreach, completedAt, dueAt: due, remainingMinutes: null, status: SlaStatus.NOT_APPLICABLE };
+  }
+
+  const remainingMinutes = Math.floor((due.getTime() - now.getTime()) / MINUTE_MS);
+  const breached = recordedBreach || remainingMinutes < 0;
+  return {
+    breached,
+    completedAt,
+    dueAt: due,
+    remainingMinutes,
+    status: breached ? SlaStatus.BREACHED : SlaStatus.PENDING,
+  };
+};
+
+/**
+ * Live SLA state of a ticket for responses, overdue open milestones are reported as breached
+ * The clock of cancelled tickets is stopped, their open milestones are not applicable
+ */
+export const getTicketSla = (ticket: Ticket, cancelled: boolean = false, now: Date = new Date()) => {
+  return {
+    policyId: ticket.slaPolicyId ?? null,
+    response: getMilestone(ticket.responseDueAt, ticket.respondedAt, ticket.responseBreached, cancelled, now),
+    resolution: getMilestone(ticket.resolutionDueAt, ticket.resolvedAt, ticket.resolutionBreached, cancelled, now),
+  };
+};
+
+const emptyCounts = (): SlaComplianceCounts => ({
+  resolutionBreached: 0,
+  resolutionCompliance: null,
+  resolutionMet: 0,
+  resolutionPending: 0,
+  responseBreached: 0,
+  responseCompliance: null,
+  responseMet: 0,
+  responsePending: 0,
+  total: 0,
+});
+
+const toCompliance = (met: number, breached: number): number | null => {
+  return met + breached > 0 ? Math.round((met / (met + breached)) * 10000) / 100 : null;
+};
+
+const addToCounts = (counts: SlaComplianceCounts, sla: ReturnType<typeof getTicketSla>) => {
+  counts.total++;
+  if (sla.response.status === SlaStatus.MET) counts.responseMet++;
+  if (sla.response.status === SlaStatus.BREACHED) counts.responseBreached++;
+  if (sla.response.status === SlaStatus.PENDING) counts.responsePending++;
+  if (sla.resolution.status === SlaStatus.MET) counts.resolutionMet++;
+  if (sla.resolution.status === SlaStatus.BREACHED) counts.resolutionBreached++;
+  if (sla.resolution.status === SlaStatus.PENDING) counts.resolutionPending++;
+};
+
+const finalizeCounts = (counts: SlaComplianceCounts): SlaComplianceCounts => ({
+  ...counts,
+  resolutionCompliance: toCompliance(counts.resolutionMet, counts.resolutionBreached),
+  responseCompliance: toCompliance(counts.responseMet, counts.responseBreached),
+});
+
+/**
+ * SLA compliance of the company's tickets dated between two dates (inclusive), overall, per branch and per technician
+ * Only non-deleted, non-cancelled tickets with an SLA policy are counted; compliance is met / (met + breached)
+ * in percent, pending milestones are not counted against it
+ */
+export const buildSlaComplianceReport = async (companyId: number, from: string, to: string) => {
+  const statuses = await getTicketStatusLookups();
+  const cancelledStatus = findStatusByCode(statuses, TicketStatusCode.CANCELLED);
+
+  const whereClause: any = {
+    companyId,
+    isDeleted: false,
+    slaPolicyId: { [Op.ne]: null },
+    ticketDate: { [Op.between]: [from, to] },
+  };
+  if (cancelledStatus) {
+    whereClause.ticketStatusId = { [Op.ne]: cancelledStatus.id };
+  }
+
+  const tickets = await Ticket.findAll({
+    where: whereClause,
+    attributes: [
+      'id',
+      'branchId',
+      'assignToTechnicianId',
+      'ticketStatusId',
+      'slaPolicyId',
+      'responseDueAt',
+      'resolutionDueAt',
+      'respondedAt',
+      'resolvedAt',
+      'responseBreached',
+      'resolutionBreached',
+    ],
+  });
+
+  const now = new Date();
+  const company = emptyCounts();
+  const branches = new Map<number, SlaComplianceCounts>();
+  const technicians = new Map<number, SlaComplianceCounts>();
+
+  for (const ticket of tickets) {
+    const sla = getTicketSla(ticket, false, now);
+    addToCounts(company, sla);
+
+    if (!branches.has(ticket.branchId)) branches.set(ticket.branchId, emptyCounts());
+    addToCounts(branches.get(ticket.branchId)!, sla);
+
+    if (!technicians.has(ticket.assignToTechnicianId)) technicians.set(ticket.assignToTechnicianId, emptyCounts());
+    addToCounts(technicians.get(ticket.assignToTechnicianId)!, sla);
+  }
+
+  return {
+    branches: [...branches.entries()].map(([branchId, counts]) => ({ branchId, ...finalizeCounts(counts) })),
+    company: finalizeCounts(company),
+    technicians: [...technicians.entries()].map(([technicianId, counts]) => ({ technicianId, ...finalizeCounts(counts) })),
+  };
+};
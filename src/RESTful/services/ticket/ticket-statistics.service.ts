@@ -0,0 +1,280 @@
+import { col, fn, literal, Op, WhereOptions } from 'sequelize';
+
+import { isTechnicianRole } from './ticket-access.service';
+import { buildTicketListWhere, findTicketType } from './ticket-query.service';
+import { countReassignmentsByTechnician } from './ticket-reassignment.service';
+import { findStatusByCode, getTicketStatusLookups, TicketStatusCode } from './ticket-workflow.service';
+
+import { Branch } from '../../../db/models/branch.model';
+import { Lookup, LookupCategory } from '../../../db/models/lookup.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { User } from '../../../db/models/user.model';
+import { Zone } from '../../../db/models/zone.model';
+import { AppError } from '../../middleware/error.middleware';
+
+export enum StatisticsInterval {
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+}
+
+export interface StatisticsCounts {
+  total: number;
+  completed: number;
+}
+
+interface GroupedCounts {
+  key: any;
+  total: string | number;
+  completed: string | number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest time series returned, longer ranges need a larger interval
+const MAX_SERIES_PERIODS = 1000;
+
+const parseStatisticsDate = (name: string, value: any): string | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const date = String(value);
+  if (!DATE_PATTERN.test(date) || isNaN(new Date(date).getTime())) {
+    throw new AppError(`Invalid ${name}, expected YYYY-MM-DD`, 400, 'VALIDATION_ERROR');
+  }
+  return date;
+};
+
+/**
+ * Start of the period (YYYY-MM-DD) containing a date, weeks start on Monday like PostgreSQL's date_trunc
+ */
+const getPeriodStart = (date: string, interval: StatisticsInterval): string => {
+  const value = new Date(`${date}T00:00:00Z`);
+  if (interval === StatisticsInterval.WEEK) {
+    value.setUTCDate(value.getUTCDate() - ((value.getUTCDay() + 6) % 7));
+  } else if (interval === StatisticsInterval.MONTH) {
+    value.setUTCDate(1);
+  }
+  return value.toISOString().split('T')[0];
+};
+
+const getNextPeriod = (period: string, interval: StatisticsInterval): string => {
+  const value = new Date(`${period}T00:00:00Z`);
+  if (interval === StatisticsInterval.MONTH) {
+    value.setUTCMonth(value.getUTCMonth() + 1);
+  } else {
+    value.setTime(value.getTime() + (interval === StatisticsInterval.WEEK ? 7 : 1) * DAY_MS);
+  }
+  return value.toISOString().split('T')[0];
+};
+
+/**
+ * Count tickets matching the where clause grouped by an expression, with the number of completed ones
+ * One query per grouping, the counting is done by the database
+ */
+const countGrouped = async (
+  whereClause: WhereOptions,
+  key: string | ReturnType<typeof literal>,
+  completedStatusId: number | undefined
+): Promise<GroupedCounts[]> => {
+  const completed = completedStatusId
+    ? literal(`CASE WHEN "Ticket"."ticket_status_id" = ${Number(completedStatusId)} THEN 1 END`)
+    : literal('NULL');
+
+  return (await Ticket.findAll({
+    where: whereClause,
+    attributes: [
+      [typeof key === 'string' ? col(`Ticket.${Ticket.rawAttributes[key].field}`) : key, 'key'],
+      [fn('COUNT', col('Ticket.id')), 'total'],
+      [fn('COUNT', completed), 'completed'],
+    ],
+    group: ['key'],
+    raw: true,
+  })) as unknown as GroupedCounts[];
+};
+
+const toCounts = (row?: GroupedCounts): StatisticsCounts => ({
+  completed: Number(row?.completed ?? 0),
+  total: Number(row?.total ?? 0),
+});
+
+const sumCounts = (rows: GroupedCounts[]): StatisticsCounts => {
+  return rows.reduce(
+    (sum, row) => ({ completed: sum.completed + Number(row.completed), total: sum.total + Number(row.total) }),
+    { completed: 0, total: 0 }
+  );
+};
+
+/**
+ * Breakdown rows sorted by ticket count, with the name of each grouped record
+ */
+const toBreakdown = <T>(rows: GroupedCounts[], describe: (key: any) => T) => {
+  return rows
+    .map(row => ({ key: row.key, ...toCounts(row) }))
+    .sort((a, b) => b.total - a.total)
+    .map(({ key, ...counts }) => ({ ...describe(key), ...counts }));
+};
+
+/**
+ * Ticket statistics of the company for the ticket list filters (see buildTicketListWhere), company-wide for every role
+ * like the original statistics endpoint, technicians are not limited to their own tickets
+ * - from / to (YYYY-MM-DD) filter on the ticket date, like ticketDateFrom / ticketDateTo
+ * - interval (day, week or month) sets the period of the time series, periods without tickets are included with zero
+ *   counts between from and to (or the first and last ticket dates)
+ * byTechnician also counts the tickets reassigned to and away from each technician (see POST /tickets/:id/reassign),
+ * Technicians (21) and Sub-Technicians (22) only get their own row
+ * Counts by type and status keep the shape of the original statistics endpoint; every count is a grouped query so the
+ * number of queries does not depend on the number of tickets, statuses or types
+ */
+export const buildTicketStatistics = async (user: any, query: Record<string, any>) => {
+  const from = parseStatisticsDate('from', query.from);
+  const to = parseStatisticsDate('to', query.to);
+  if (from && to && to < from) {
+    throw new AppError('to must not be before from', 400, 'VALIDATION_ERROR');
+  }
+
+  const interval = (query.interval ? String(query.interval).toLowerCase() : StatisticsInterval.DAY) as StatisticsInterval;
+  if (!Object.values(StatisticsInterval).includes(interval)) {
+    throw new AppError('Invalid interval, expected day, week or month', 400, 'VALIDATION_ERROR');
+  }
+
+  const whereClause = buildTicketListWhere(
+    user,
+    { ...query, ticketDateFrom: from ?? query.ticketDateFrom, ticketDateTo: to ?? query.ticketDateTo },
+    { scopeToTechnician: false }
+  );
+
+  const [statuses, ticketTypes] = await Promise.all([
+    getTicketStatusLookups(),
+    Lookup.findAll({ where: { category: LookupCategory.TICKET_TYPE, isActive: true } }),
+  ]);
+  const completedStatusId = findStatusByCode(statuses, TicketStatusCode.COMPLETED)?.id;
+
+  // The interval is validated above, so it is safe to put in the SQL
+  const period = literal(`to_char(date_trunc('${interval}', "Ticket"."ticket_date"::timestamp), 'YYYY-MM-DD')`);
+
+  const [
+    byTypeAndStatus,
+    series,
+    branchRows,
+    zoneRows,
+    mainServiceRows,
+    technicianRows,
+    sourceRows,
+    reassignmentsByTechnician,
+  ] = await Promise.all([
+    Ticket.findAll({
+      where: whereClause,
+      attributes: ['ticketTypeId', 'ticketStatusId', [fn('COUNT', col('Ticket.id')), 'total']],
+      group: ['ticketTypeId', 'ticketStatusId'],
+      raw: true,
+    }) as unknown as Promise<{ ticketTypeId: number; ticketStatusId: number; total: string }[]>,
+    countGrouped(whereClause, period, completedStatusId),
+    countGrouped(whereClause, 'branchId', completedStatusId),
+    countGrouped(whereClause, 'zoneId', completedStatusId),
+    countGrouped(whereClause, 'mainServiceId', completedStatusId),
+    countGrouped(whereClause, 'assignToTechnicianId', completedStatusId),
+    countGrouped(whereClause, 'source', completedStatusId),
+    countReassignmentsByTechnician(whereClause),
+  ]);
+
+  // Technicians whose tickets were all reassigned away still show up with their reassignment counts
+  for (const technicianId of reassignmentsByTechnician.keys()) {
+    if (!technicianRows.some(row => Number(row.key) === technicianId)) {
+      technicianRows.push({ completed: 0, key: technicianId, total: 0 });
+    }
+  }
+  const visibleTechnicianRows = isTechnicianRole(user.userRoleId)
+    ? technicianRows.filter(row => Number(row.key) === user.id)
+    : technicianRows;
+
+  // Totals by type (with completed) and by status from the single type x status grouping
+  const countType = (type?: Lookup): StatisticsCounts => {
+    const rows = type ? byTypeAndStatus.filter(row => row.ticketTypeId === type.id) : [];
+    return {
+      completed: Number(rows.find(row => row.ticketStatusId === completedStatusId)?.total ?? 0),
+      total: rows.reduce((sum, row) => sum + Number(row.total), 0),
+    };
+  };
+  const corrective = countType(findTicketType(ticketTypes, 'CORR', 'corrective'));
+  const preventive = countType(findTicketType(ticketTypes, 'PREV', 'preventive'));
+  const emergency = countType(findTicketType(ticketTypes, 'EMRG', 'emergency'));
+
+  const byStatus: Record<string, number> = {};
+  for (const status of statuses) {
+    byStatus[status.name] = byTypeAndStatus
+      .filter(row => row.ticketStatusId === status.id)
+      .reduce((sum, row) => sum + Number(row.total), 0);
+  }
+
+  const idsOf = (rows: GroupedCounts[]) => rows.map(row => row.key).filter(id => id !== null);
+  const [branches, zones, mainServices, technicians] = await Promise.all([
+    Branch.findAll({ where: { id: { [Op.in]: idsOf(branchRows) } }, attributes: ['id', 'branchTitle'] }),
+    Zone.findAll({ where: { id: { [Op.in]: idsOf(zoneRows) } }, attributes: ['id', 'zoneTitle'] }),
+    Lookup.findAll({ where: { id: { [Op.in]: idsOf(mainServiceRows) } }, attributes: ['id', 'name', 'nameArabic'] }),
+    User.findAll({
+      where: { id: { [Op.in]: idsOf(visibleTechnicianRows) } },
+      attributes: ['id', 'fullName', 'userNumber'],
+    }),
+  ]);
+  const branchesById = new Map(branches.map(branch => [branch.id, branch]));
+  const zonesById = new Map(zones.map(zone => [zone.id, zone]));
+  const mainServicesById = new Map(mainServices.map(service => [service.id, service]));
+  const techniciansById = new Map(technicians.map(technician => [technician.id, technician]));
+
+  // Time series with empty periods filled in
+  const seriesByPeriod = new Map(series.map(row => [String(row.key), toCounts(row)]));
+  const periods = [...seriesByPeriod.keys()].sort();
+  const timeSeries: ({ period: string } & StatisticsCounts)[] = [];
+  if (periods.length > 0 || (from && to)) {
+    const first = getPeriodStart(from ?? periods[0], interval);
+    const last = getPeriodStart(to ?? periods[periods.length - 1], interval);
+    for (let current = first; current <= last; current = getNextPeriod(current, interval)) {
+      if (timeSeries.length === MAX_SERIES_PERIODS) {
+        throw new AppError(
+          `The time series is limited to ${MAX_SERIES_PERIODS} periods, use a shorter range or a larger interval`,
+          400,
+          'VALIDATION_ERROR'
+        );
+      }
+      timeSeries.push({ period: current, ...(seriesByPeriod.get(current) ?? toCounts()) });
+    }
+  }
+
+  return {
+    from: from ?? null,
+    to: to ?? null,
+    interval,
+    ...sumCounts(series),
+    byType: {
+      corrective,
+      preventive,
+      emergency,
+      total: corrective.total + preventive.total + emergency.total,
+    },
+    byStatus,
+    byBranch: toBreakdown(branchRows, id => ({
+      branch: { id, title: branchesById.get(id)?.branchTitle ?? null },
+    })),
+    byZone: toBreakdown(zoneRows, id => ({
+      zone: { id, title: zonesById.get(id)?.zoneTitle ?? null },
+    })),
+    byMainService: toBreakdown(mainServiceRows, id => ({
+      mainService: {
+        id,
+        name: mainServicesById.get(id)?.name ?? null,
+        nameArabic: mainServicesById.get(id)?.nameArabic ?? null,
+      },
+    })),
+    byTechnician: toBreakdown(visibleTechnicianRows, id => ({
+      technician: {
+        id,
+        name: techniciansById.get(id)?.fullName ?? null,
+        userNumber: techniciansById.get(id)?.userNumber ?? null,
+      },
+      ...(reassignmentsByTechnician.get(id) ?? { reassignedIn: 0, reassignedOut: 0 }),
+    })),
+    bySource: toBreakdown(sourceRows, source => ({ source })),
+    timeSeries,
+  };
+};
@@ -0,0 +1,179 @@
+import { Op, Transaction } from 'sequelize';
+
+import { Lookup, LookupCategory } from '../../../db/models/lookup.model';
+import { MaintenanceService } from '../../../db/models/maintenance-service.model';
+import { AppError } from '../../middleware/error.middleware';
+
+export interface TicketSubService {
+  id: number;
+  name: string;
+  nameArabic: string | null;
+  mainServiceId: number;
+}
+
+/**
+ * Parse the subServiceIds of a request body: undefined when not sent, null clears the list
+ */
+export const parseSubServiceIds = (value: any): number[] | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || !value.every(id => Number.isInteger(id) && id > 0)) {
+    throw new AppError('subServiceIds must be an array of sub service IDs', 400, 'VALIDATION_ERROR');
+  }
+  if (new Set(value).size !== value.length) {
+    throw new AppError('subServiceIds must not contain the same sub service twice', 400, 'VALIDATION_ERROR');
+  }
+  return [...value].sort((a, b) => a - b);
+};
+
+/**
+ * Verify each sub service is an active child of the main service (Lookup.parentLookupId) and is enabled for the
+ * company (an active MaintenanceService row with itemType 'company')
+ */
+export const assertValidSubServices = async (
+  companyId: number,
+  mainServiceId: number,
+  subServiceIds: number[],
+  transaction?: Transaction
+): Promise<void> => {
+  if (subServiceIds.length === 0) {
+    return;
+  }
+
+  const [subServices, companyServices] = await Promise.all([
+    Lookup.findAll({
+      where: {
+        category: LookupCategory.SUB_SERVICE,
+        id: { [Op.in]: subServiceIds },
+        isActive: true,
+        parentLookupId: mainServiceId,
+      },
+      attributes: ['id'],
+      transaction,
+    }),
+    MaintenanceService.findAll({
+      where: {
+        isActive: true,
+        isDeleted: false,
+        itemId: companyId,
+        itemType: 'company',
+        mainServiceId,
+        subServiceId: { [Op.in]: subServiceIds },
+      },
+      attributes: ['subServiceId'],
+      transaction,
+    }),
+  ]);
+
+  const childIds = new Set(subServices.map(service => service.id));
+  const notChildren = subServiceIds.filter(id => !childIds.has(id));
+  if (notChildren.length > 0) {
+    throw new AppError(
+      `Sub services ${notChildren.join(', ')} do not belong to the selected main service`,
+      400,
+      'VALIDATION_ERROR',
+      { invalidIds: notChildren }
+    );
+  }
+
+  const enabledIds = new Set(companyServices.map(service => service.subServiceId));
+  const notEnabled = subServiceIds.filter(id => !enabledIds.has(id));
+  if (notEnabled.length > 0) {
+    throw new AppError(
+      `Sub services ${notEnabled.join(', ')} are not enabled for your company`,
+      400,
+      'VALIDATION_ERROR',
+      { invalidIds: notEnabled }
+    );
+  }
+};
+
+/**
+ * Sorted sub service IDs of a ticket
+ */
+export const getTicketSubServiceIds = async (ticketId: number, transaction?: Transaction): Promise<number[]> => {
+  const rows = await MaintenanceService.findAll({
+    where: { isDeleted: false, itemId: ticketId, itemType: 'ticket' },
+    attributes: ['subServiceId'],
+    transaction,
+  });
+  return rows.map(row => row.subServiceId).sort((a, b) => a - b);
+};
+
+/**
+ * Replace the sub services of a ticket with the given list (MaintenanceService rows with itemType 'ticket')
+ * Removed sub services are soft deleted, kept ones are left untouched
+ */
+export const saveTicketSubServices = async (
+  ticketId: number,
+  mainServiceId: number,
+  subServiceIds: number[],
+  userId: number,
+  transaction?: Transaction
+): Promise<void> => {
+  const existing = await MaintenanceService.findAll({
+    where: { isDeleted: false, itemId: ticketId, itemType: 'ticket' },
+    transaction,
+  });
+
+  // Rows of another main service are replaced too, the ticket main service may have changed
+  const removed = existing.filter(
+    row => !subServiceIds.includes(row.subServiceId) || row.mainServiceId !== mainServiceId
+  );
+  if (removed.length > 0) {
+    await MaintenanceService.update(
+      { deletedAt: new Date(), deletedBy: userId, isActive: false, isDeleted: true, updatedBy: userId },
+      { where: { id: { [Op.in]: removed.map(row => row.id) } }, transaction }
+    );
+  }
+
+  const keptIds = new Set(existing.filter(row => !removed.includes(row)).map(row => row.subServiceId));
+  const added = subServiceIds.filter(id => !keptIds.has(id));
+  if (added.length > 0) {
+    await MaintenanceService.bulkCreate(
+      added.map(subServiceId => ({
+        createdBy: userId,
+        isActive: true,
+        itemId: ticketId,
+        itemType: 'ticket',
+        mainServiceId,
+        subServiceId,
+        updatedBy: userId,
+      })),
+      { transaction }
+    );
+  }
+};
+
+/**
+ * Sub services of several tickets with their names, tickets without sub services are not in the map
+ */
+export const getSubServicesByTicket = async (ticketIds: number[]): Promise<Map<number, TicketSubService[]>> => {
+  const subServicesByTicket = new Map<number, TicketSubService[]>();
+  if (ticketIds.length === 0) {
+    return subServicesByTicket;
+  }
+
+  const rows = await MaintenanceService.findAll({
+    where: { isDeleted: false, itemId: { [Op.in]: ticketIds }, itemType: 'ticket' },
+    include: [{ model: Lookup, as: 'subService', required: false, attributes: ['id', 'name', 'nameArabic'] }],
+    order: [['subServiceId', 'ASC']],
+  });
+
+  for (const row of rows) {
+    if (!subServicesByTicket.has(row.itemId)) {
+      subServicesByTicket.set(row.itemId, []);
+    }
+    subServicesByTicket.get(row.itemId)!.push({
+      id: row.subServiceId,
+      mainServiceId: row.mainServiceId,
+      name: row.subService?.name ?? '',
+      nameArabic: row.subService?.nameArabic ?? null,
+    });
+  }
+  return subServicesByTicket;
+};
@@ -0,0 +1,58 @@
+import { Transaction } from 'sequelize';
+
+import { recordTicketHistory, recordTicketUpdate, snapshotTicket } from './ticket-history.service';
+import { applySlaTransition } from './ticket-sla.service';
+import {
+  findStatusByCode,
+  getTicketStatusLookups,
+  ResolvedTicketTransition,
+  resolveTransition,
+  TicketStatusCode,
+} from './ticket-workflow.service';
+
+import { TicketHistoryAction } from '../../../db/models/ticket-history.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { AppError } from '../../middleware/error.middleware';
+
+/**
+ * Move a ticket to another status from endpoints other than the ticket update (check-in, check-out, ...)
+ * The transition is validated for the actor's role, the SLA times are stamped and the status change and any SLA
+ * breach are recorded in the ticket history
+ * Returns null when the ticket already has the status, otherwise pass the result to runTransitionEffects once the
+ * transaction is committed
+ */
+export const changeTicketStatus = async (
+  ticket: Ticket,
+  statusCode: TicketStatusCode,
+  actor: { id: number; userRoleId: number },
+  source: string,
+  transaction?: Transaction
+): Promise<ResolvedTicketTransition | null> => {
+  const status = findStatusByCode(await getTicketStatusLookups(), statusCode);
+  if (!status) {
+    throw new AppError(`Ticket status ${statusCode} not found`, 500, 'INTERNAL_ERROR');
+  }
+
+  const resolved = await resolveTransition(ticket, status.id, actor.userRoleId);
+  if (!resolved) {
+    return null;
+  }
+
+  const ticketBefore = snapshotTicket(ticket);
+  ticket.ticketStatusId = resolved.toStatus.id;
+  const slaBreaches = applySlaTransition(ticket, resolved);
+  ticket.updatedBy = actor.id;
+  await ticket.save({ transaction });
+
+  await recordTicketUpdate(ticket.id, ticketBefore, snapshotTicket(ticket), actor.id, source, transaction);
+  await recordTicketHistory({
+    action: TicketHistoryAction.SLA_BREACHED,
+    actorId: actor.id,
+    changes: slaBreaches,
+    source,
+    ticketId: ticket.id,
+    transaction,
+  });
+
+  return resolved;
+};
@@ -0,0 +1,63 @@
+import { getDistanceMeters, parseGeoPoint, parseLocationMap } from './ticket-visit.service';
+
+describe('parseLocationMap', () => {
+  it.each([
+    ['24.7136,46.6753', { latitude: 24.7136, longitude: 46.6753 }],
+    ['https://www.google.com/maps?q=24.7136, 46.6753', { latitude: 24.7136, longitude: 46.6753 }],
+    ['https://www.google.com/maps/@-33.8688,151.2093,15z', { latitude: -33.8688, longitude: 151.2093 }],
+    ['https://maps.google.com/?q=24.7136%2C46.6753', { latitude: 24.7136, longitude: 46.6753 }],
+  ])('reads the coordinates of %s', (locationMap, point) => {
+    expect(parseLocationMap(locationMap)).toEqual(point);
+  });
+
+  it('reads the coordinates of a link with a stray %', () => {
+    expect(parseLocationMap('https://maps.google.com/?q=24.7136,46.6753&label=100%')).toEqual({
+      latitude: 24.7136,
+      longitude: 46.6753,
+    });
+  });
+
+  it.each([null, undefined, '', 'https://maps.app.goo.gl/abc123', 'Riyadh 100%', '95.1,46.6'])(
+    'returns null for %p',
+    locationMap => {
+      expect(parseLocationMap(locationMap)).toBeNull();
+    }
+  );
+});
+
+describe('getDistanceMeters', () => {
+  it('is zero for the same point', () => {
+    const point = { latitude: 24.7136, longitude: 46.6753 };
+
+    expect(getDistanceMeters(point, point)).toBe(0);
+  });
+
+  it('measures one degree of latitude as about 111 km', () => {
+    const distance = getDistanceMeters({ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 0 });
+
+    expect(distance).toBeCloseTo(111195, -1);
+  });
+
+  it('measures the great-circle distance between two cities', () => {
+    const riyadh = { latitude: 24.7136, longitude: 46.6753 };
+    const jeddah = { latitude: 21.4858, longitude: 39.1925 };
+
+    expect(getDistanceMeters(riyadh, jeddah)).toBeGreaterThan(845000);
+    expect(getDistanceMeters(riyadh, jeddah)).toBeLessThan(850000);
+    expect(getDistanceMeters(jeddah, riyadh)).toBeCloseTo(getDistanceMeters(riyadh, jeddah), 6);
+  });
+});
+
+describe('parseGeoPoint', () => {
+  it('reads numeric strings', () => {
+    expect(parseGeoPoint({ latitude: '24.7', longitude: '46.6' })).toEqual({ latitude: 24.7, longitude: 46.6 });
+  });
+
+  it('requires both coordinates', () => {
+    expect(() => parseGeoPoint({ latitude: 24.7 })).toThrow('latitude and longitude are required');
+  });
+
+  it('rejects coordinates out of range', () => {
+    expect(() => parseGeoPoint({ latitude: 91, longitude: 46.6 })).toThrow('Invalid latitude or longitude');
+  });
+});
@@ -0,0 +1,137 @@
+import { TicketVisit } from '../../../db/models/ticket-visit.model';
+import { visitConfig } from '../../../settings';
+import { AppError } from '../../middleware/error.middleware';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface SiteDistance {
+  distanceMeters: number | null;
+  tooFar: boolean;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// "lat,lng" pairs as found in Google Maps links (?q=, ?ll=, /@lat,lng,zoom) or typed as plain text
+const COORDINATES_PATTERN = /(-?\d{1,2}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)/;
+
+const isValidPoint = ({ latitude, longitude }: GeoPoint): boolean => {
+  return (
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  );
+};
+
+/**
+ * Decode the URL escapes of a locationMap link (%2C for the comma), free text with a stray % is kept as it is
+ */
+const decodeLocationMap = (locationMap: string): string => {
+  try {
+    return decodeURIComponent(locationMap);
+  } catch {
+    return locationMap;
+  }
+};
+
+/**
+ * Coordinates of a ticket's locationMap, null when it holds no recognizable "lat,lng" pair
+ * (e.g. short maps.app.goo.gl links)
+ */
+export const parseLocationMap = (locationMap: string | null | undefined): GeoPoint | null => {
+  const match = COORDINATES_PATTERN.exec(decodeLocationMap(locationMap || ''));
+  if (!match) {
+    return null;
+  }
+
+  const point = { latitude: Number(match[1]), longitude: Number(match[2]) };
+  return isValidPoint(point) ? point : null;
+};
+
+/**
+ * Great-circle distance between two points in meters (haversine formula)
+ */
+export const getDistanceMeters = (from: GeoPoint, to: GeoPoint): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLatitude = toRadians(to.latitude - from.latitude);
+  const dLongitude = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Validate the latitude / longitude sent by the mobile app
+ */
+export const parseGeoPoint = (body: any): GeoPoint => {
+  if (body.latitude === undefined || body.latitude === null || body.longitude === undefined || body.longitude === null) {
+    throw new AppError('latitude and longitude are required', 400, 'VALIDATION_ERROR');
+  }
+
+  const point = { latitude: Number(body.latitude), longitude: Number(body.longitude) };
+  if (!isValidPoint(point)) {
+    throw new AppError('Invalid latitude or longitude', 400, 'VALIDATION_ERROR');
+  }
+  return point;
+};
+
+/**
+ * Distance between a reported location and the ticket site
+ * Locations further than VISIT_MAX_DISTANCE_METERS are flagged as too far, tickets without coordinates in their
+ * locationMap cannot be checked and are never flagged
+ */
+export const getSiteDistance = (locationMap: string | null | undefined, point: GeoPoint): SiteDistance => {
+  const site = parseLocationMap(locationMap);
+  if (!site) {
+    return { distanceMeters: null, tooFar: false };
+  }
+
+  const distanceMeters = Math.round(getDistanceMeters(site, point));
+  return { distanceMeters, tooFar: distanceMeters > visitConfig.maxDistanceMeters };
+};
+
+/**
+ * Open visit of a technician on a ticket (checked in, not checked out yet)
+ */
+export const findOpenVisit = async (ticketId: number, technicianId: number): Promise<TicketVisit | null> => {
+  return TicketVisit.findOne({
+    where: { checkOutAt: null, isDeleted: false, technicianId, ticketId },
+    order: [['checkInAt', 'DESC']],
+  });
+};
+
+/**
+ * Format a visit for responses
+ */
+export const formatTicketVisit = (visit: TicketVisit) => ({
+  id: visit.id,
+  ticketId: visit.ticketId,
+  technician: visit.technician
+    ? { id: visit.technician.id, fullName: visit.technician.fullName, userNumber: visit.technician.userNumber }
+    : null,
+  checkIn: {
+    at: visit.checkInAt,
+    latitude: visit.checkInLatitude,
+    longitude: visit.checkInLongitude,
+    distanceMeters: visit.checkInDistanceMeters,
+    tooFar: visit.checkInTooFar,
+    photoFileId: visit.checkInPhotoFileId,
+  },
+  checkOut: visit.checkOutAt
+    ? {
+        at: visit.checkOutAt,
+        latitude: visit.checkOutLatitude,
+        longitude: visit.checkOutLongitude,
+        distanceMeters: visit.checkOutDistanceMeters,
+        tooFar: visit.checkOutTooFar,
+        photoFileId: visit.checkOutPhotoFileId,
+      }
+    : null,
+  durationMinutes: visit.checkOutAt
+    ? Math.round((new Date(visit.checkOutAt).getTime() - new Date(visit.checkInAt).getTime()) / 60000)
+    : null,
+});
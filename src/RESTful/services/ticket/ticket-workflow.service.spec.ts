@@ -0,0 +1,100 @@
+import { getAllowedTransitions, resolveTransition, TicketStatusCode } from './ticket-workflow.service';
+
+import { Lookup } from '../../../db/models/lookup.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { RoleId } from '../../types/user.types';
+
+const STATUSES = [
+  { code: TicketStatusCode.PENDING, id: 1, name: 'Pending' },
+  { code: TicketStatusCode.IN_PROGRESS, id: 2, name: 'In Progress' },
+  { code: TicketStatusCode.COMPLETED, id: 3, name: 'Completed' },
+  { code: TicketStatusCode.CANCELLED, id: 4, name: 'Cancelled' },
+] as Lookup[];
+
+const statusId = (code: TicketStatusCode): number => STATUSES.find(status => status.code === code)!.id;
+
+const ticketIn = (code: TicketStatusCode) => ({ ticketStatusId: statusId(code) }) as Ticket;
+
+const nextStatuses = (from: TicketStatusCode, roleId: RoleId): TicketStatusCode[] =>
+  getAllowedTransitions(from, roleId).map(transition => transition.to);
+
+describe('getAllowedTransitions', () => {
+  const { CANCELLED, COMPLETED, IN_PROGRESS, PENDING } = TicketStatusCode;
+
+  it.each([RoleId.ADMIN, RoleId.SUPER_USER])('lets role %i reopen completed and cancelled tickets', roleId => {
+    expect(nextStatuses(PENDING, roleId)).toEqual([IN_PROGRESS, CANCELLED]);
+    expect(nextStatuses(IN_PROGRESS, roleId)).toEqual([PENDING, COMPLETED, CANCELLED]);
+    expect(nextStatuses(COMPLETED, roleId)).toEqual([IN_PROGRESS]);
+    expect(nextStatuses(CANCELLED, roleId)).toEqual([PENDING]);
+  });
+
+  it('lets team leaders manage open tickets only', () => {
+    expect(nextStatuses(PENDING, RoleId.TEAM_LEADER)).toEqual([IN_PROGRESS, CANCELLED]);
+    expect(nextStatuses(IN_PROGRESS, RoleId.TEAM_LEADER)).toEqual([PENDING, COMPLETED, CANCELLED]);
+    expect(nextStatuses(COMPLETED, RoleId.TEAM_LEADER)).toEqual([]);
+    expect(nextStatuses(CANCELLED, RoleId.TEAM_LEADER)).toEqual([]);
+  });
+
+  it.each([RoleId.TECHNICIAN, RoleId.SUB_TECHNICIAN])('lets role %i only start and complete tickets', roleId => {
+    expect(nextStatuses(PENDING, roleId)).toEqual([IN_PROGRESS]);
+    expect(nextStatuses(IN_PROGRESS, roleId)).toEqual([COMPLETED]);
+    expect(nextStatuses(COMPLETED, roleId)).toEqual([]);
+    expect(nextStatuses(CANCELLED, roleId)).toEqual([]);
+  });
+
+  it('allows nothing to individual users or from an unknown status', () => {
+    for (const from of Object.values(TicketStatusCode)) {
+      expect(nextStatuses(from, RoleId.INDIVIDUAL)).toEqual([]);
+    }
+    expect(getAllowedTransitions(null, RoleId.ADMIN)).toEqual([]);
+  });
+});
+
+describe('resolveTransition', () => {
+  beforeEach(() => {
+    jest.spyOn(Lookup, 'findAll').mockResolvedValue(STATUSES);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('resolves a legal transition with its statuses', async () => {
+    const resolved = await resolveTransition(
+      ticketIn(TicketStatusCode.PENDING),
+      statusId(TicketStatusCode.IN_PROGRESS),
+      RoleId.TECHNICIAN
+    );
+
+    expect(resolved?.fromStatus.code).toBe(TicketStatusCode.PENDING);
+    expect(resolved?.toStatus.code).toBe(TicketStatusCode.IN_PROGRESS);
+    expect(resolved?.transition.to).toBe(TicketStatusCode.IN_PROGRESS);
+  });
+
+  it('returns null when the status does not change', async () => {
+    const ticket = ticketIn(TicketStatusCode.IN_PROGRESS);
+
+    await expect(resolveTransition(ticket, ticket.ticketStatusId, RoleId.TECHNICIAN)).resolves.toBeNull();
+  });
+
+  it('rejects an unknown status', async () => {
+    await expect(resolveTransition(ticketIn(TicketStatusCode.PENDING), 99, RoleId.ADMIN)).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+      statusCode: 400,
+    });
+  });
+
+  it('rejects an illegal transition with the allowed next statuses', async () => {
+    const resolving = resolveTransition(
+      ticketIn(TicketStatusCode.COMPLETED),
+      statusId(TicketStatusCode.IN_PROGRESS),
+      RoleId.TECHNICIAN
+    );
+
+    await expect(resolving).rejects.toMatchObject({
+      code: 'INVALID_STATUS_TRANSITION',
+      details: { allowedTransitions: [] },
+      statusCode: 409,
+    });
+  });
+});
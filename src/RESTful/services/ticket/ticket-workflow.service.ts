@@ -0,0 +1,223 @@
+import { AdditionalWork, AdditionalWorkStatus } from '../../../db/models/additional-work.model';
+import { Lookup, LookupCategory } from '../../../db/models/lookup.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { AppError } from '../../middleware/error.middleware';
+import { RoleId } from '../../types/user.types';
+import { notifyUsers } from '../notification/notification.service';
+
+// Codes of the TICKET_STATUS lookups
+export enum TicketStatusCode {
+  PENDING = 'PEND',
+  IN_PROGRESS = 'PROG',
+  COMPLETED = 'COMP',
+  CANCELLED = 'CANC',
+}
+
+export enum TicketTransitionEffect {
+  NOTIFY_TEAM_LEADER = 'NOTIFY_TEAM_LEADER',
+  NOTIFY_TECHNICIAN = 'NOTIFY_TECHNICIAN',
+  CANCEL_OPEN_ADDITIONAL_WORK = 'CANCEL_OPEN_ADDITIONAL_WORK',
+}
+
+export interface TicketTransition {
+  from: TicketStatusCode;
+  to: TicketStatusCode;
+  roles: RoleId[];
+  effects: TicketTransitionEffect[];
+}
+
+export interface ResolvedTicketTransition {
+  transition: TicketTransition;
+  fromStatus: Lookup;
+  toStatus: Lookup;
+}
+
+const MANAGERS = [RoleId.ADMIN, RoleId.TEAM_LEADER, RoleId.SUPER_USER];
+const FIELD_WORKERS = [...MANAGERS, RoleId.TECHNICIAN, RoleId.SUB_TECHNICIAN];
+
+/**
+ * Legal ticket status transitions
+ * Anything not listed here is rejected, including reopening Completed or Cancelled tickets by field workers
+ */
+export const TICKET_TRANSITIONS: readonly TicketTransition[] = [
+  {
+    effects: [TicketTransitionEffect.NOTIFY_TEAM_LEADER],
+    from: TicketStatusCode.PENDING,
+    roles: FIELD_WORKERS,
+    to: TicketStatusCode.IN_PROGRESS,
+  },
+  {
+    effects: [TicketTransitionEffect.NOTIFY_TECHNICIAN, TicketTransitionEffect.CANCEL_OPEN_ADDITIONAL_WORK],
+    from: TicketStatusCode.PENDING,
+    roles: MANAGERS,
+    to: TicketStatusCode.CANCELLED,
+  },
+  {
+    effects: [TicketTransitionEffect.NOTIFY_TECHNICIAN],
+    from: TicketStatusCode.IN_PROGRESS,
+    roles: MANAGERS,
+    to: TicketStatusCode.PENDING,
+  },
+  {
+    effects: [TicketTransitionEffect.NOTIFY_TEAM_LEADER],
+    from: TicketStatusCode.IN_PROGRESS,
+    roles: FIELD_WORKERS,
+    to: TicketStatusCode.COMPLETED,
+  },
+  {
+    effects: [TicketTransitionEffect.NOTIFY_TECHNICIAN, TicketTransitionEffect.CANCEL_OPEN_ADDITIONAL_WORK],
+    from: TicketStatusCode.IN_PROGRESS,
+    roles: MANAGERS,
+    to: TicketStatusCode.CANCELLED,
+  },
+  {
+    effects: [TicketTransitionEffect.NOTIFY_TECHNICIAN, TicketTransitionEffect.NOTIFY_TEAM_LEADER],
+    from: TicketStatusCode.COMPLETED,
+    roles: [RoleId.ADMIN, RoleId.SUPER_USER],
+    to: TicketStatusCode.IN_PROGRESS,
+  },
+  {
+    effects: [TicketTransitionEffect.NOTIFY_TECHNICIAN, TicketTransitionEffect.NOTIFY_TEAM_LEADER],
+    from: TicketStatusCode.CANCELLED,
+    roles: [RoleId.ADMIN, RoleId.SUPER_USER],
+    to: TicketStatusCode.PENDING,
+  },
+];
+
+/**
+ * Load the active TICKET_STATUS lookups
+ */
+export const getTicketStatusLookups = async (): Promise<Lookup[]> => {
+  return Lookup.findAll({
+    where: { category: LookupCategory.TICKET_STATUS, isActive: true },
+    order: [['orderId', 'ASC']],
+  });
+};
+
+/**
+ * Find the status lookup with the given code
+ */
+export const findStatusByCode = (statuses: Lookup[], code: TicketStatusCode): Lookup | undefined => {
+  return statuses.find(status => status.code === code);
+};
+
+/**
+ * Transitions a user with the given role may perform from the given status
+ */
+export const getAllowedTransitions = (from: string | null, roleId: number): TicketTransition[] => {
+  return TICKET_TRANSITIONS.filter(transition => transition.from === from && transition.roles.includes(roleId));
+};
+
+/**
+ * Next statuses (as lookups) the user may move the ticket to
+ */
+export const getAvailableNextStatuses = async (ticket: Ticket, roleId: number): Promise<Lookup[]> => {
+  const statuses = await getTicketStatusLookups();
+  const currentStatus = statuses.find(status => status.id === ticket.ticketStatusId);
+  const allowed = getAllowedTransitions(currentStatus?.code ?? null, roleId);
+
+  return allowed
+    .map(transition => findStatusByCode(statuses, transition.to))
+    .filter((status): status is Lookup => !!status);
+};
+
+/**
+ * Validate a status change requested by a user
+ * Returns null when the status does not change, throws a 409 listing the allowed next states when it is not legal
+ */
+export const resolveTransition = async (
+  ticket: Ticket,
+  targetStatusId: number,
+  roleId: number
+): Promise<ResolvedTicketTransition | null> => {
+  const statuses = await getTicketStatusLookups();
+  const toStatus = statuses.find(status => status.id === Number(targetStatusId));
+  if (!toStatus) {
+    throw new AppError('Invalid ticket status', 400, 'VALIDATION_ERROR');
+  }
+
+  if (toStatus.id === ticket.ticketStatusId) {
+    return null;
+  }
+
+  const fromStatus = statuses.find(status => status.id === ticket.ticketStatusId);
+  const allowed = getAllowedTransitions(fromStatus?.code ?? null, roleId);
+  const transition = allowed.find(candidate => candidate.to === toStatus.code);
+
+  if (!fromStatus || !transition) {
+    const allowedStatuses = allowed
+      .map(candidate => findStatusByCode(statuses, candidate.to))
+      .filter((status): status is Lookup => !!status);
+
+    throw new AppError(
+      `Cannot change ticket status from ${fromStatus?.name ?? 'Unknown'} to ${toStatus.name}`,
+      409,
+      'INVALID_STATUS_TRANSITION',
+      {
+        allowedTransitions: allowedStatuses.map(formatStatus),
+        currentStatus: fromStatus ? formatStatus(fromStatus) : null,
+        requestedStatus: formatStatus(toStatus),
+      }
+    );
+  }
+
+  return { fromStatus, toStatus, transition };
+};
+
+/**
+ * Run the side effects of a transition after the ticket has been saved
+ * Errors are logged so a failing side effect does not roll back the status change
+ */
+export const runTransitionEffects = async (
+  ticket: Ticket,
+  resolved: ResolvedTicketTransition,
+  actorId: number
+): Promise<void> => {
+  const { fromStatus, toStatus, transition } = resolved;
+  const message = {
+    body: `Ticket ${ticket.ticketCodeId} moved from ${fromStatus.name} to ${toStatus.name}`,
+    data: { ticketId: String(ticket.id), ticketStatus: toStatus.code ?? '' },
+    title: `Ticket ${toStatus.name}`,
+  };
+
+  for (const effect of transition.effects) {
+    try {
+      switch (effect) {
+        case TicketTransitionEffect.NOTIFY_TEAM_LEADER:
+          if (ticket.assignToTeamLeaderId !== actorId) {
+            await notifyUsers([ticket.assignToTeamLeaderId], message);
+          }
+          break;
+        case TicketTransitionEffect.NOTIFY_TECHNICIAN:
+          if (ticket.assignToTechnicianId !== actorId) {
+            await notifyUsers([ticket.assignToTechnicianId], message);
+          }
+          break;
+        case TicketTransitionEffect.CANCEL_OPEN_ADDITIONAL_WORK:
+          await AdditionalWork.update(
+            { status: AdditionalWorkStatus.CANCELED, updatedBy: actorId },
+            {
+              where: {
+                isDeleted: false,
+                status: AdditionalWorkStatus.IN_PROGRESS,
+                ticketId: ticket.id,
+              },
+            }
+          );
+          break;
+      }
+    } catch (error) {
+      console.error(`[TicketWorkflow] Side effect ${effect} failed for ticket ${ticket.id}: ${error.message}`);
+    }
+  }
+};
+
+/**
+ * Helper function to format a status lookup for responses
+ */
+export const formatStatus = (status: Lookup) => ({
+  code: status.code,
+  id: status.id,
+  name: status.name,
+  nameArabic: status.nameArabic,
+});
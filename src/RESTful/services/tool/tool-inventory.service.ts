@@ -0,0 +1,259 @@
+import { col, fn, Op, Transaction } from 'sequelize';
+
+import { BranchTool } from '../../../db/models/branch-tool.model';
+import { Lookup, LookupCategory } from '../../../db/models/lookup.model';
+import { TicketToolCheckout } from '../../../db/models/ticket-tool-checkout.model';
+import { Ticket } from '../../../db/models/ticket.model';
+import { User } from '../../../db/models/user.model';
+import { AppError } from '../../middleware/error.middleware';
+
+export interface BranchToolInput {
+  branchId: number;
+  toolId: number;
+  quantity: number;
+  serialNumbers: string[] | null;
+}
+
+export interface ToolAvailability {
+  branchToolId: number;
+  toolId: number;
+  quantity: number;
+  checkedOut: number;
+  available: number;
+}
+
+export interface UnavailableToolWarning {
+  code: 'TOOL_UNAVAILABLE';
+  message: string;
+  toolId: number;
+  toolName: string | null;
+  quantity: number;
+  checkedOut: number;
+}
+
+export const MAX_SERIAL_NUMBER_LENGTH = 100;
+
+// Ticket, tool and technician shown on checkouts
+export const TOOL_CHECKOUT_INCLUDE = [
+  { model: Ticket, as: 'ticket', required: false, attributes: ['id', 'ticketCodeId'] },
+  {
+    model: BranchTool,
+    as: 'branchTool',
+    required: false,
+    include: [{ model: Lookup, as: 'tool', required: false, attributes: ['id', 'name', 'nameArabic'] }],
+  },
+  { model: User, as: 'technician', required: false, attributes: ['id', 'fullName', 'userNumber'] },
+];
+
+const isPositiveInteger = (value: any): boolean => Number.isInteger(value) && value > 0;
+
+/**
+ * Active tools of the tool catalog (Lookups with category Tool)
+ */
+export const findCatalogTools = async (toolIds?: number[], transaction?: Transaction): Promise<Lookup[]> => {
+  return Lookup.findAll({
+    where: {
+      category: LookupCategory.TOOL,
+      isActive: true,
+      ...(toolIds ? { id: { [Op.in]: toolIds } } : {}),
+    },
+    order: [['orderId', 'ASC'], ['id', 'ASC']],
+    transaction,
+  });
+};
+
+/**
+ * Validate the tools of a ticket: null or an array of distinct IDs of active catalog tools
+ */
+export const assertValidToolIds = async (tools: any, transaction?: Transaction): Promise<void> => {
+  if (tools === null || tools === undefined) {
+    return;
+  }
+  if (!Array.isArray(tools) || !tools.every(isPositiveInteger)) {
+    throw new AppError('tools must be an array of tool IDs', 400, 'VALIDATION_ERROR');
+  }
+  if (new Set(tools).size !== tools.length) {
+    throw new AppError('tools must not contain the same tool twice', 400, 'VALIDATION_ERROR');
+  }
+  if (tools.length === 0) {
+    return;
+  }
+
+  const catalogTools = await findCatalogTools(tools, transaction);
+  const catalogIds = new Set(catalogTools.map(tool => tool.id));
+  const invalidIds = tools.filter((id: number) => !catalogIds.has(id));
+  if (invalidIds.length > 0) {
+    throw new AppError(`Invalid tool IDs: ${invalidIds.join(', ')}`, 400, 'VALIDATION_ERROR', { invalidIds });
+  }
+};
+
+/**
+ * Validate an inventory line, serial numbers are optional but there must be one per unit when they are given
+ */
+export const parseBranchToolInput = (body: any): BranchToolInput => {
+  const branchId = Number(body?.branchId);
+  const toolId = Number(body?.toolId);
+  if (!isPositiveInteger(branchId) || !isPositiveInteger(toolId)) {
+    throw new AppError('branchId and toolId are required', 400, 'VALIDATION_ERROR');
+  }
+
+  let serialNumbers: string[] | null = null;
+  if (body.serialNumbers !== undefined && body.serialNumbers !== null) {
+    if (!Array.isArray(body.serialNumbers) || !body.serialNumbers.every((serial: any) => typeof serial === 'string')) {
+      throw new AppError('serialNumbers must be an array of strings', 400, 'VALIDATION_ERROR');
+    }
+    serialNumbers = body.serialNumbers.map((serial: string) => serial.trim()).filter(Boolean);
+    if (serialNumbers!.some(serial => serial.length > MAX_SERIAL_NUMBER_LENGTH)) {
+      throw new AppError(
+        `Serial numbers must not exceed ${MAX_SERIAL_NUMBER_LENGTH} characters`,
+        400,
+        'VALIDATION_ERROR'
+      );
+    }
+    if (new Set(serialNumbers).size !== serialNumbers!.length) {
+      throw new AppError('serialNumbers must not contain duplicates', 400, 'VALIDATION_ERROR');
+    }
+    if (serialNumbers!.length === 0) {
+      serialNumbers = null;
+    }
+  }
+
+  const quantity = body.quantity !== undefined ? Number(body.quantity) : serialNumbers?.length;
+  if (quantity === undefined || !Number.isInteger(quantity) || quantity < 0) {
+    throw new AppError('quantity must be a whole number of 0 or more', 400, 'VALIDATION_ERROR');
+  }
+  if (serialNumbers && serialNumbers.length !== quantity) {
+    throw new AppError('There must be one serial number per unit', 400, 'VALIDATION_ERROR');
+  }
+
+  return { branchId, quantity, serialNumbers, toolId };
+};
+
+/**
+ * Units of each inventory line held by technicians (checkouts that were not returned)
+ */
+export const getCheckedOutQuantities = async (
+  branchToolIds: number[],
+  transaction?: Transaction
+): Promise<Map<number, number>> => {
+  const checkedOut = new Map<number, number>();
+  if (branchToolIds.length === 0) {
+    return checkedOut;
+  }
+
+  const rows = (await TicketToolCheckout.findAll({
+    where: { branchToolId: { [Op.in]: branchToolIds }, isDeleted: false, returnedAt: null },
+    attributes: ['branchToolId', [fn('SUM', col('quantity')), 'quantity']],
+    group: ['branchToolId'],
+    raw: true,
+    transaction,
+  })) as unknown as { branchToolId: number; quantity: string }[];
+
+  for (const row of rows) {
+    checkedOut.set(row.branchToolId, Number(row.quantity));
+  }
+  return checkedOut;
+};
+
+/**
+ * Availability of inventory lines, checked out units are not available until they are returned
+ */
+export const getToolAvailability = async (
+  branchTools: BranchTool[],
+  transaction?: Transaction
+): Promise<ToolAvailability[]> => {
+  const checkedOut = await getCheckedOutQuantities(
+    branchTools.map(branchTool => branchTool.id),
+    transaction
+  );
+
+  return branchTools.map(branchTool => {
+    const held = checkedOut.get(branchTool.id) ?? 0;
+    return {
+      available: Math.max(branchTool.quantity - held, 0),
+      branchToolId: branchTool.id,
+      checkedOut: held,
+      quantity: branchTool.quantity,
+      toolId: branchTool.toolId,
+    };
+  });
+};
+
+/**
+ * Warnings for the tools of a new ticket that the branch has in inventory but are all checked out
+ * Tools the branch does not keep in inventory are not reported, availability is the current one (units still held
+ * by technicians), so the warning tells the planner to check the slot before the technician goes on site
+ */
+export const findUnavailableTools = async (
+  branchId: number,
+  toolIds: number[] | null | undefined,
+  transaction?: Transaction
+): Promise<UnavailableToolWarning[]> => {
+  if (!toolIds || toolIds.length === 0) {
+    return [];
+  }
+
+  const branchTools = await BranchTool.findAll({
+    where: { branchId, isDeleted: false, toolId: { [Op.in]: toolIds } },
+    include: [{ model: Lookup, as: 'tool', required: false, attributes: ['id', 'name'] }],
+    transaction,
+  });
+  const availability = await getToolAvailability(branchTools, transaction);
+
+  return availability
+    .filter(line => line.available === 0)
+    .map(line => {
+      const toolName = branchTools.find(branchTool => branchTool.id === line.branchToolId)?.tool?.name ?? null;
+      return {
+        checkedOut: line.checkedOut,
+        code: 'TOOL_UNAVAILABLE',
+        message: `All units of ${toolName ?? `tool ${line.toolId}`} in the branch are checked out`,
+        quantity: line.quantity,
+        toolId: line.toolId,
+        toolName,
+      };
+    });
+};
+
+/**
+ * Format an inventory line with its availability
+ */
+export const formatBranchTool = (branchTool: BranchTool, availability?: ToolAvailability) => ({
+  id: branchTool.id,
+  branchId: branchTool.branchId,
+  branch: branchTool.branch ? { id: branchTool.branch.id, title: branchTool.branch.branchTitle } : null,
+  tool: branchTool.tool
+    ? { id: branchTool.tool.id, title: branchTool.tool.name, titleAr: branchTool.tool.nameArabic }
+    : { id: branchTool.toolId },
+  quantity: branchTool.quantity,
+  serialNumbers: branchTool.serialNumbers ?? [],
+  checkedOut: availability?.checkedOut ?? 0,
+  available: availability?.available ?? branchTool.quantity,
+  updatedAt: branchTool.updatedAt,
+});
+
+/**
+ * Format a checkout for responses
+ */
+export const formatToolCheckout = (checkout: TicketToolCheckout) => {
+  const tool = checkout.branchTool?.tool;
+  return {
+    id: checkout.id,
+    ticketId: checkout.ticketId,
+    ticketCodeId: checkout.ticket?.ticketCodeId ?? null,
+    branchToolId: checkout.branchToolId,
+    tool: tool ? { id: tool.id, title: tool.name, titleAr: tool.nameArabic } : null,
+    technician: checkout.technician
+      ? {
+          id: checkout.technician.id,
+          name: checkout.technician.fullName,
+          userNumber: checkout.technician.userNumber,
+        }
+      : { id: checkout.technicianId },
+    quantity: checkout.quantity,
+    serialNumber: checkout.serialNumber,
+    checkedOutAt: checkout.checkedOutAt,
+    returnedAt: checkout.returnedAt,
+    returnedBy: checkout.returnedBy,
+  };
+};
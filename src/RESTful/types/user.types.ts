@@ -5,6 +5,16 @@ export enum UserRoles {
   DOCTOR = 'Doctor',
 }
 
+// Lookup IDs of the company and user roles (see COMPANY_ROLES / USER_ROLES seeds)
+export enum RoleId {
+  ADMIN = 18,
+  TEAM_LEADER = 20,
+  TECHNICIAN = 21,
+  SUB_TECHNICIAN = 22,
+  INDIVIDUAL = 23,
+  SUPER_USER = 26,
+}
+
 export interface UserOrm {
   id: number;
   email: string | null;
@@ -0,0 +1,114 @@
+import { DataTypes, QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!(await tableExists('tickets'))) {
+    console.log('   ⚠️  Tickets table does not exist, skipping ticket_history table creation');
+    return;
+  }
+
+  if (await tableExists('ticket_history')) {
+    console.log('   ⚠️  ticket_history table already exists, skipping creation');
+    return;
+  }
+
+  const usersTableExists = await tableExists('users');
+
+  await queryInterface.createTable('ticket_history', {
+    id: {
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+      type: DataTypes.INTEGER,
+    },
+    ticket_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: {
+        model: 'tickets',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    action: {
+      allowNull: false,
+      type: DataTypes.ENUM('CREATED', 'UPDATED', 'STATUS_CHANGED', 'FILES_LINKED'),
+    },
+    changes: {
+      allowNull: false,
+      defaultValue: [],
+      type: DataTypes.JSONB,
+    },
+    source: {
+      allowNull: false,
+      defaultValue: 'Mobile',
+      type: DataTypes.STRING(20),
+    },
+    created_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    created_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: usersTableExists ? {
+        model: 'users',
+        key: 'id',
+      } : undefined,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+  });
+
+  await queryInterface.sequelize.query(`
+    COMMENT ON TABLE "ticket_history" IS 'Field-level change history of tickets';
+    COMMENT ON COLUMN "ticket_history"."action" IS 'Type of change (CREATED, UPDATED, STATUS_CHANGED, FILES_LINKED)';
+    COMMENT ON COLUMN "ticket_history"."changes" IS 'Array of field changes ({ field, oldValue, newValue })';
+    COMMENT ON COLUMN "ticket_history"."source" IS 'Source of the change: Web (frontend-oms) or Mobile (mobile-mms)';
+    COMMENT ON COLUMN "ticket_history"."created_by" IS 'User who made the change';
+  `);
+
+  try {
+    await queryInterface.addIndex('ticket_history', ['ticket_id', 'created_at'], {
+      name: 'ticket_history_ticket_id_created_at_idx',
+    });
+  } catch (error: any) {
+    console.log('Note: Could not add indexes:', error.message);
+  }
+
+  console.log('   ✅ Created ticket_history table');
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await tableExists('ticket_history')) {
+    await queryInterface.dropTable('ticket_history');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_ticket_history_action";');
+    console.log('   ✅ Dropped ticket_history table');
+  } else {
+    console.log('   ⚠️  ticket_history table does not exist, skipping drop');
+  }
+};
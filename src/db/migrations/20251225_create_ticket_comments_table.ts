@@ -0,0 +1,133 @@
+import { DataTypes, QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!(await tableExists('tickets'))) {
+    console.log('   ⚠️  Tickets table does not exist, skipping ticket_comments table creation');
+    return;
+  }
+
+  if (await tableExists('ticket_comments')) {
+    console.log('   ⚠️  ticket_comments table already exists, skipping creation');
+    return;
+  }
+
+  const usersTableExists = await tableExists('users');
+  const userReference = usersTableExists ? { model: 'users', key: 'id' } : undefined;
+
+  await queryInterface.createTable('ticket_comments', {
+    id: {
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+      type: DataTypes.INTEGER,
+    },
+    ticket_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: {
+        model: 'tickets',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    body: {
+      allowNull: false,
+      type: DataTypes.STRING(2000),
+    },
+    is_internal: {
+      allowNull: false,
+      defaultValue: false,
+      type: DataTypes.BOOLEAN,
+    },
+    edited_at: {
+      allowNull: true,
+      type: DataTypes.DATE,
+    },
+    created_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    created_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    updated_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    deleted_at: {
+      allowNull: true,
+      type: DataTypes.DATE,
+    },
+    deleted_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    is_deleted: {
+      allowNull: false,
+      defaultValue: false,
+      type: DataTypes.BOOLEAN,
+    },
+  });
+
+  await queryInterface.sequelize.query(`
+    COMMENT ON TABLE "ticket_comments" IS 'Comments posted on tickets by company users and technicians';
+    COMMENT ON COLUMN "ticket_comments"."body" IS 'Comment text (max 2000 characters)';
+    COMMENT ON COLUMN "ticket_comments"."is_internal" IS 'Internal notes are hidden from technicians';
+    COMMENT ON COLUMN "ticket_comments"."edited_at" IS 'DateTime when the comment text was last edited';
+    COMMENT ON COLUMN "ticket_comments"."created_by" IS 'Author of the comment';
+  `);
+
+  try {
+    await queryInterface.addIndex('ticket_comments', ['ticket_id', 'created_at'], {
+      name: 'ticket_comments_ticket_id_created_at_idx',
+    });
+  } catch (error: any) {
+    console.log('Note: Could not add indexes:', error.message);
+  }
+
+  console.log('   ✅ Created ticket_comments table');
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await tableExists('ticket_comments')) {
+    await queryInterface.dropTable('ticket_comments');
+    console.log('   ✅ Dropped ticket_comments table');
+  } else {
+    console.log('   ⚠️  ticket_comments table does not exist, skipping drop');
+  }
+};
@@ -0,0 +1,32 @@
+import { DataTypes, QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  console.log('Adding delete_reason field to tickets table...');
+
+  try {
+    await queryInterface.addColumn('tickets', 'delete_reason', {
+      allowNull: true,
+      type: DataTypes.STRING(500),
+      comment: 'Reason given when the ticket was deleted',
+    });
+    console.log('✓ Added delete_reason column to tickets table');
+  } catch (error: any) {
+    if (error.message.includes('already exists')) {
+      console.log('Note: delete_reason column already exists in tickets table');
+    } else {
+      console.log('Note: Could not add delete_reason column:', error.message);
+      throw error;
+    }
+  }
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  console.log('Removing delete_reason field from tickets table...');
+
+  try {
+    await queryInterface.removeColumn('tickets', 'delete_reason');
+    console.log('✓ Removed delete_reason column from tickets table');
+  } catch (error: any) {
+    console.log('Note: Could not remove delete_reason column:', error.message);
+  }
+};
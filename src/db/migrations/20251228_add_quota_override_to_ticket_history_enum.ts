@@ -0,0 +1,40 @@
+import { QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  console.log('Adding QUOTA_OVERRIDDEN value to enum_ticket_history_action enum...');
+  const enumName = 'enum_ticket_history_action';
+  const valuesToAdd = ['QUOTA_OVERRIDDEN'];
+
+  for (const valueToAdd of valuesToAdd) {
+    try {
+      // Check if the value already exists
+      const [results] = await queryInterface.sequelize.query(`
+        SELECT enumlabel FROM pg_enum
+        WHERE enumtypid = (SELECT oid FROM pg_type WHERE typname = '${enumName}')
+        AND enumlabel = '${valueToAdd}';
+      `);
+
+      if (Array.isArray(results) && results.length > 0) {
+        console.log(`Note: "${valueToAdd}" already exists in ${enumName}`);
+        continue;
+      }
+
+      // PostgreSQL doesn't support IF NOT EXISTS for ALTER TYPE ADD VALUE
+      // So we check first and only add if it doesn't exist
+      await queryInterface.sequelize.query(`ALTER TYPE ${enumName} ADD VALUE '${valueToAdd}';`);
+      console.log(`✓ Added "${valueToAdd}" to ${enumName}`);
+    } catch (error: any) {
+      if (error.message.includes('already exists')) {
+        console.log(`Note: "${valueToAdd}" already exists in ${enumName}`);
+      } else {
+        console.log(`Note: Could not add "${valueToAdd}" to enum:`, error.message);
+        throw error;
+      }
+    }
+  }
+};
+
+export const down = async () => {
+  console.log('Warning: PostgreSQL does not support removing enum values.');
+  console.log('Skipping down migration for safety.');
+};
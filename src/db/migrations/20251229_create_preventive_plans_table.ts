@@ -0,0 +1,284 @@
+import { DataTypes, Op, QueryInterface } from 'sequelize';
+
+/**
+ * Migration: Preventive maintenance plans
+ *
+ * This migration:
+ * 1. Reactivates the Preventive ticket type (id: 202) deactivated by 20250120_remove_preventive_ticket_type
+ * 2. Creates the preventive_plans table
+ * 3. Adds preventive_plan_id to tickets, unique per plan and ticket date so occurrences are never generated twice
+ */
+export const up = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await tableExists('lookups')) {
+    await queryInterface.sequelize.query(`
+      UPDATE lookups
+      SET is_active = true,
+          updated_at = NOW()
+      WHERE id = 202
+        AND category = 'TicketType'
+        AND code = 'PREV';
+    `);
+    await queryInterface.sequelize.query(`
+      INSERT INTO lookups (id, category, code, name, name_arabic, description, order_id, is_default, is_active, created_at, updated_at)
+      SELECT 202, 'TicketType', 'PREV', 'Preventive', 'وقائي', 'Preventive maintenance ticket generated from a preventive plan', 3, false, true, NOW(), NOW()
+      WHERE NOT EXISTS (SELECT 1 FROM lookups WHERE id = 202);
+    `);
+    console.log('   ✅ Reactivated Preventive ticket type');
+  }
+
+  if (!(await tableExists('tickets'))) {
+    console.log('   ⚠️  Tickets table does not exist, skipping preventive_plans table creation');
+    return;
+  }
+
+  const usersTableExists = await tableExists('users');
+  const userReference = usersTableExists ? { model: 'users', key: 'id' } : undefined;
+
+  if (await tableExists('preventive_plans')) {
+    console.log('   ⚠️  preventive_plans table already exists, skipping creation');
+  } else {
+    await queryInterface.createTable('preventive_plans', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: DataTypes.INTEGER,
+      },
+      company_id: {
+        allowNull: false,
+        type: DataTypes.INTEGER,
+        references: { model: 'companies', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      contract_id: {
+        allowNull: false,
+        type: DataTypes.INTEGER,
+        references: { model: 'contracts', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      branch_id: {
+        allowNull: false,
+        type: DataTypes.INTEGER,
+        references: { model: 'branches', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      zone_id: {
+        allowNull: false,
+        type: DataTypes.INTEGER,
+        references: { model: 'zones', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      main_service_id: {
+        allowNull: false,
+        type: DataTypes.INTEGER,
+        references: { model: 'lookups', key: 'id' },
+        onDelete: 'RESTRICT',
+        onUpdate: 'CASCADE',
+      },
+      title: {
+        allowNull: false,
+        type: DataTypes.STRING(100),
+      },
+      description: {
+        allowNull: true,
+        type: DataTypes.STRING(300),
+      },
+      recurrence_type: {
+        allowNull: false,
+        type: DataTypes.ENUM('WEEKLY', 'MONTHLY', 'EVERY_N_DAYS', 'WEEKDAYS'),
+      },
+      recurrence_interval: {
+        allowNull: false,
+        defaultValue: 1,
+        type: DataTypes.INTEGER,
+      },
+      weekdays: {
+        allowNull: true,
+        type: DataTypes.JSONB,
+      },
+      day_of_month: {
+        allowNull: true,
+        type: DataTypes.INTEGER,
+      },
+      start_date: {
+        allowNull: false,
+        type: DataTypes.DATEONLY,
+      },
+      end_date: {
+        allowNull: true,
+        type: DataTypes.DATEONLY,
+      },
+      ticket_time_from: {
+        allowNull: false,
+        type: DataTypes.TIME,
+      },
+      ticket_time_to: {
+        allowNull: false,
+        type: DataTypes.TIME,
+      },
+      assign_to_team_leader_id: {
+        allowNull: false,
+        type: DataTypes.INTEGER,
+        references: userReference,
+        onDelete: 'RESTRICT',
+        onUpdate: 'CASCADE',
+      },
+      assign_to_technician_id: {
+        allowNull: false,
+        type: DataTypes.INTEGER,
+        references: userReference,
+        onDelete: 'RESTRICT',
+        onUpdate: 'CASCADE',
+      },
+      generate_days_ahead: {
+        allowNull: false,
+        defaultValue: 14,
+        type: DataTypes.INTEGER,
+      },
+      last_generated_until: {
+        allowNull: true,
+        type: DataTypes.DATEONLY,
+      },
+      is_active: {
+        allowNull: false,
+        defaultValue: true,
+        type: DataTypes.BOOLEAN,
+      },
+      created_at: {
+        allowNull: false,
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+      },
+      updated_at: {
+        allowNull: false,
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+      },
+      created_by: {
+        allowNull: true,
+        type: DataTypes.INTEGER,
+        references: userReference,
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      },
+      updated_by: {
+        allowNull: true,
+        type: DataTypes.INTEGER,
+        references: userReference,
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      },
+      deleted_at: {
+        allowNull: true,
+        type: DataTypes.DATE,
+      },
+      deleted_by: {
+        allowNull: true,
+        type: DataTypes.INTEGER,
+        references: userReference,
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      },
+      is_deleted: {
+        allowNull: false,
+        defaultValue: false,
+        type: DataTypes.BOOLEAN,
+      },
+    });
+
+    await queryInterface.sequelize.query(`
+      COMMENT ON TABLE "preventive_plans" IS 'Recurring preventive maintenance plans that generate tickets ahead of time';
+      COMMENT ON COLUMN "preventive_plans"."recurrence_interval" IS 'N of every N days, weeks or months';
+      COMMENT ON COLUMN "preventive_plans"."weekdays" IS 'Weekdays for WEEKDAYS plans (0 = Sunday ... 6 = Saturday)';
+      COMMENT ON COLUMN "preventive_plans"."day_of_month" IS 'Day of the month for MONTHLY plans (clamped to the last day of shorter months)';
+      COMMENT ON COLUMN "preventive_plans"."generate_days_ahead" IS 'How many days ahead the scheduler generates tickets';
+      COMMENT ON COLUMN "preventive_plans"."last_generated_until" IS 'Last date the scheduler has generated tickets up to';
+    `);
+
+    try {
+      await queryInterface.addIndex('preventive_plans', ['company_id', 'is_active'], {
+        name: 'preventive_plans_company_id_is_active_idx',
+      });
+    } catch (error: any) {
+      console.log('Note: Could not add indexes:', error.message);
+    }
+
+    console.log('   ✅ Created preventive_plans table');
+  }
+
+  const ticketsTable = await queryInterface.describeTable('tickets');
+  if (ticketsTable.preventive_plan_id) {
+    console.log('   ⚠️  preventive_plan_id column already exists in tickets table');
+    return;
+  }
+
+  await queryInterface.addColumn('tickets', 'preventive_plan_id', {
+    allowNull: true,
+    type: DataTypes.INTEGER,
+    references: { model: 'preventive_plans', key: 'id' },
+    onDelete: 'SET NULL',
+    onUpdate: 'CASCADE',
+    comment: 'Preventive maintenance plan that generated this ticket',
+  });
+
+  try {
+    await queryInterface.addIndex('tickets', ['preventive_plan_id', 'ticket_date'], {
+      name: 'tickets_preventive_plan_id_ticket_date_unique',
+      unique: true,
+      where: { preventive_plan_id: { [Op.ne]: null } },
+    });
+  } catch (error: any) {
+    console.log('Note: Could not add indexes:', error.message);
+  }
+
+  console.log('   ✅ Added preventive_plan_id column to tickets table');
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await tableExists('tickets')) {
+    const ticketsTable = await queryInterface.describeTable('tickets');
+    if (ticketsTable.preventive_plan_id) {
+      await queryInterface.removeColumn('tickets', 'preventive_plan_id');
+      console.log('   ✅ Removed preventive_plan_id column from tickets table');
+    }
+  }
+
+  if (await tableExists('preventive_plans')) {
+    await queryInterface.dropTable('preventive_plans');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_preventive_plans_recurrence_type";');
+    console.log('   ✅ Dropped preventive_plans table');
+  } else {
+    console.log('   ⚠️  preventive_plans table does not exist, skipping drop');
+  }
+
+  await queryInterface.sequelize.query(`
+    UPDATE lookups
+    SET is_active = false,
+        updated_at = NOW()
+    WHERE id = 202
+      AND category = 'TicketType'
+      AND code = 'PREV';
+  `);
+};
@@ -0,0 +1,185 @@
+import { DataTypes, QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!(await tableExists('tickets'))) {
+    console.log('   ⚠️  Tickets table does not exist, skipping ticket_visits table creation');
+    return;
+  }
+
+  if (await tableExists('ticket_visits')) {
+    console.log('   ⚠️  ticket_visits table already exists, skipping creation');
+    return;
+  }
+
+  const usersTableExists = await tableExists('users');
+  const userReference = usersTableExists ? { model: 'users', key: 'id' } : undefined;
+
+  await queryInterface.createTable('ticket_visits', {
+    id: {
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+      type: DataTypes.INTEGER,
+    },
+    ticket_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: {
+        model: 'tickets',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    technician_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    check_in_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+    },
+    check_in_latitude: {
+      allowNull: false,
+      type: DataTypes.DOUBLE,
+    },
+    check_in_longitude: {
+      allowNull: false,
+      type: DataTypes.DOUBLE,
+    },
+    check_in_distance_meters: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+    },
+    check_in_too_far: {
+      allowNull: false,
+      defaultValue: false,
+      type: DataTypes.BOOLEAN,
+    },
+    check_in_photo_file_id: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+    },
+    check_out_at: {
+      allowNull: true,
+      type: DataTypes.DATE,
+    },
+    check_out_latitude: {
+      allowNull: true,
+      type: DataTypes.DOUBLE,
+    },
+    check_out_longitude: {
+      allowNull: true,
+      type: DataTypes.DOUBLE,
+    },
+    check_out_distance_meters: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+    },
+    check_out_too_far: {
+      allowNull: false,
+      defaultValue: false,
+      type: DataTypes.BOOLEAN,
+    },
+    check_out_photo_file_id: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+    },
+    created_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    created_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    updated_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    deleted_at: {
+      allowNull: true,
+      type: DataTypes.DATE,
+    },
+    deleted_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    is_deleted: {
+      allowNull: false,
+      defaultValue: false,
+      type: DataTypes.BOOLEAN,
+    },
+  });
+
+  await queryInterface.sequelize.query(`
+    COMMENT ON TABLE "ticket_visits" IS 'On-site visits of technicians, recorded by check-in and check-out from the mobile app';
+    COMMENT ON COLUMN "ticket_visits"."technician_id" IS 'Technician who checked in';
+    COMMENT ON COLUMN "ticket_visits"."check_in_at" IS 'DateTime of the check-in';
+    COMMENT ON COLUMN "ticket_visits"."check_in_distance_meters" IS 'Distance in meters between the check-in location and the ticket locationMap (null when unknown)';
+    COMMENT ON COLUMN "ticket_visits"."check_in_too_far" IS 'Whether the check-in location was further than the allowed distance from the ticket location';
+    COMMENT ON COLUMN "ticket_visits"."check_in_photo_file_id" IS 'Photo taken at check-in';
+    COMMENT ON COLUMN "ticket_visits"."check_out_at" IS 'DateTime of the check-out, null while the technician is on site';
+    COMMENT ON COLUMN "ticket_visits"."check_out_distance_meters" IS 'Distance in meters between the check-out location and the ticket locationMap (null when unknown)';
+    COMMENT ON COLUMN "ticket_visits"."check_out_too_far" IS 'Whether the check-out location was further than the allowed distance from the ticket location';
+    COMMENT ON COLUMN "ticket_visits"."check_out_photo_file_id" IS 'Photo taken at check-out';
+  `);
+
+  try {
+    await queryInterface.addIndex('ticket_visits', ['ticket_id', 'check_in_at'], {
+      name: 'ticket_visits_ticket_id_check_in_at_idx',
+    });
+    await queryInterface.addIndex('ticket_visits', ['technician_id', 'check_out_at'], {
+      name: 'ticket_visits_technician_id_check_out_at_idx',
+    });
+  } catch (error: any) {
+    console.log('Note: Could not add indexes:', error.message);
+  }
+
+  console.log('   ✅ Created ticket_visits table');
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await tableExists('ticket_visits')) {
+    await queryInterface.dropTable('ticket_visits');
+    console.log('   ✅ Dropped ticket_visits table');
+  } else {
+    console.log('   ⚠️  ticket_visits table does not exist, skipping drop');
+  }
+};
@@ -0,0 +1,152 @@
+import { DataTypes, QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!(await tableExists('tickets'))) {
+    console.log('   ⚠️  Tickets table does not exist, skipping ticket_sign_offs table creation');
+    return;
+  }
+
+  if (await tableExists('ticket_sign_offs')) {
+    console.log('   ⚠️  ticket_sign_offs table already exists, skipping creation');
+    return;
+  }
+
+  const usersTableExists = await tableExists('users');
+  const userReference = usersTableExists ? { model: 'users', key: 'id' } : undefined;
+
+  await queryInterface.createTable('ticket_sign_offs', {
+    id: {
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+      type: DataTypes.INTEGER,
+    },
+    ticket_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: {
+        model: 'tickets',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+      unique: true,
+    },
+    technician_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    signature_file_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+    },
+    signer_name: {
+      allowNull: false,
+      type: DataTypes.STRING(100),
+    },
+    rating: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+    },
+    comment: {
+      allowNull: true,
+      type: DataTypes.STRING(1000),
+    },
+    signed_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+    },
+    created_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    created_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    updated_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    deleted_at: {
+      allowNull: true,
+      type: DataTypes.DATE,
+    },
+    deleted_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    is_deleted: {
+      allowNull: false,
+      defaultValue: false,
+      type: DataTypes.BOOLEAN,
+    },
+  });
+
+  await queryInterface.sequelize.query(`
+    ALTER TABLE "ticket_sign_offs" ADD CONSTRAINT "ticket_sign_offs_rating_check" CHECK ("rating" BETWEEN 1 AND 5);
+    COMMENT ON TABLE "ticket_sign_offs" IS 'Customer sign-off of completed tickets: signature, signer name and satisfaction rating';
+    COMMENT ON COLUMN "ticket_sign_offs"."ticket_id" IS 'Ticket signed off, one sign-off per ticket';
+    COMMENT ON COLUMN "ticket_sign_offs"."technician_id" IS 'Technician assigned to the ticket when it was signed off, the rating counts towards this technician';
+    COMMENT ON COLUMN "ticket_sign_offs"."signature_file_id" IS 'Customer signature image (file category signature)';
+    COMMENT ON COLUMN "ticket_sign_offs"."signer_name" IS 'Name of the customer who signed';
+    COMMENT ON COLUMN "ticket_sign_offs"."rating" IS 'Customer satisfaction rating from 1 to 5';
+    COMMENT ON COLUMN "ticket_sign_offs"."comment" IS 'Optional customer comment';
+    COMMENT ON COLUMN "ticket_sign_offs"."signed_at" IS 'DateTime when the customer signed';
+  `);
+
+  try {
+    await queryInterface.addIndex('ticket_sign_offs', ['technician_id', 'signed_at'], {
+      name: 'ticket_sign_offs_technician_id_signed_at_idx',
+    });
+  } catch (error: any) {
+    console.log('Note: Could not add indexes:', error.message);
+  }
+
+  console.log('   ✅ Created ticket_sign_offs table');
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await tableExists('ticket_sign_offs')) {
+    await queryInterface.dropTable('ticket_sign_offs');
+    console.log('   ✅ Dropped ticket_sign_offs table');
+  } else {
+    console.log('   ⚠️  ticket_sign_offs table does not exist, skipping drop');
+  }
+};
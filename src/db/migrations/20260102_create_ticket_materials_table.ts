@@ -0,0 +1,175 @@
+import { DataTypes, QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!(await tableExists('tickets'))) {
+    console.log('   ⚠️  Tickets table does not exist, skipping ticket_materials table creation');
+    return;
+  }
+
+  if (await tableExists('ticket_materials')) {
+    console.log('   ⚠️  ticket_materials table already exists, skipping creation');
+    return;
+  }
+
+  const usersTableExists = await tableExists('users');
+  const userReference = usersTableExists ? { model: 'users', key: 'id' } : undefined;
+
+  await queryInterface.createTable('ticket_materials', {
+    id: {
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+      type: DataTypes.INTEGER,
+    },
+    ticket_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: {
+        model: 'tickets',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    item_name: {
+      allowNull: false,
+      type: DataTypes.STRING(100),
+    },
+    item_code: {
+      allowNull: true,
+      type: DataTypes.STRING(50),
+    },
+    quantity: {
+      allowNull: false,
+      type: DataTypes.DECIMAL(10, 2),
+    },
+    unit: {
+      allowNull: false,
+      type: DataTypes.STRING(20),
+    },
+    unit_cost: {
+      allowNull: false,
+      type: DataTypes.DECIMAL(12, 3),
+    },
+    supplied_by: {
+      allowNull: false,
+      type: DataTypes.ENUM('CLIENT', 'WEFIX'),
+    },
+    status: {
+      allowNull: false,
+      defaultValue: 'PENDING',
+      type: DataTypes.ENUM('PENDING', 'APPROVED', 'REJECTED'),
+    },
+    reviewed_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    reviewed_at: {
+      allowNull: true,
+      type: DataTypes.DATE,
+    },
+    review_note: {
+      allowNull: true,
+      type: DataTypes.STRING(500),
+    },
+    created_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    created_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    updated_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    deleted_at: {
+      allowNull: true,
+      type: DataTypes.DATE,
+    },
+    deleted_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    is_deleted: {
+      allowNull: false,
+      defaultValue: false,
+      type: DataTypes.BOOLEAN,
+    },
+  });
+
+  await queryInterface.sequelize.query(`
+    ALTER TABLE "ticket_materials" ADD CONSTRAINT "ticket_materials_quantity_check" CHECK ("quantity" > 0);
+    ALTER TABLE "ticket_materials" ADD CONSTRAINT "ticket_materials_unit_cost_check" CHECK ("unit_cost" >= 0);
+    COMMENT ON TABLE "ticket_materials" IS 'Materials used on tickets with their cost, supplier and approval status';
+    COMMENT ON COLUMN "ticket_materials"."ticket_id" IS 'Ticket the material was used on';
+    COMMENT ON COLUMN "ticket_materials"."item_name" IS 'Material name';
+    COMMENT ON COLUMN "ticket_materials"."item_code" IS 'Optional material code (SKU or catalog number)';
+    COMMENT ON COLUMN "ticket_materials"."quantity" IS 'Quantity used, in unit';
+    COMMENT ON COLUMN "ticket_materials"."unit" IS 'Unit of the quantity (e.g., piece, meter, liter)';
+    COMMENT ON COLUMN "ticket_materials"."unit_cost" IS 'Cost of one unit';
+    COMMENT ON COLUMN "ticket_materials"."supplied_by" IS 'Who supplied the material: the client or WeFix';
+    COMMENT ON COLUMN "ticket_materials"."status" IS 'Approval status, materials added by technicians wait for a team leader';
+    COMMENT ON COLUMN "ticket_materials"."reviewed_by" IS 'User who approved or rejected the material';
+    COMMENT ON COLUMN "ticket_materials"."reviewed_at" IS 'DateTime when the material was approved or rejected';
+    COMMENT ON COLUMN "ticket_materials"."review_note" IS 'Reason given when the material was rejected';
+  `);
+
+  try {
+    await queryInterface.addIndex('ticket_materials', ['ticket_id', 'status'], {
+      name: 'ticket_materials_ticket_id_status_idx',
+    });
+  } catch (error: any) {
+    console.log('Note: Could not add indexes:', error.message);
+  }
+
+  console.log('   ✅ Created ticket_materials table');
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await tableExists('ticket_materials')) {
+    await queryInterface.dropTable('ticket_materials');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_ticket_materials_supplied_by";');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_ticket_materials_status";');
+    console.log('   ✅ Dropped ticket_materials table');
+  } else {
+    console.log('   ⚠️  ticket_materials table does not exist, skipping drop');
+  }
+};
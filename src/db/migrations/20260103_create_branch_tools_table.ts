@@ -0,0 +1,143 @@
+import { DataTypes, QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!(await tableExists('branches')) || !(await tableExists('lookups'))) {
+    console.log('   ⚠️  Branches or lookups table does not exist, skipping branch_tools table creation');
+    return;
+  }
+
+  if (await tableExists('branch_tools')) {
+    console.log('   ⚠️  branch_tools table already exists, skipping creation');
+    return;
+  }
+
+  const usersTableExists = await tableExists('users');
+  const userReference = usersTableExists ? { model: 'users', key: 'id' } : undefined;
+
+  await queryInterface.createTable('branch_tools', {
+    id: {
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+      type: DataTypes.INTEGER,
+    },
+    branch_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: {
+        model: 'branches',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    tool_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: {
+        model: 'lookups',
+        key: 'id',
+      },
+      onDelete: 'RESTRICT',
+      onUpdate: 'CASCADE',
+    },
+    quantity: {
+      allowNull: false,
+      defaultValue: 0,
+      type: DataTypes.INTEGER,
+    },
+    serial_numbers: {
+      allowNull: true,
+      type: DataTypes.JSONB,
+    },
+    created_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    created_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    updated_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    deleted_at: {
+      allowNull: true,
+      type: DataTypes.DATE,
+    },
+    deleted_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    is_deleted: {
+      allowNull: false,
+      defaultValue: false,
+      type: DataTypes.BOOLEAN,
+    },
+  });
+
+  await queryInterface.sequelize.query(`
+    ALTER TABLE "branch_tools" ADD CONSTRAINT "branch_tools_quantity_check" CHECK ("quantity" >= 0);
+    COMMENT ON TABLE "branch_tools" IS 'Tool inventory of each branch';
+    COMMENT ON COLUMN "branch_tools"."branch_id" IS 'Branch holding the tools';
+    COMMENT ON COLUMN "branch_tools"."tool_id" IS 'Tool from the tool catalog (Lookup with category Tool)';
+    COMMENT ON COLUMN "branch_tools"."quantity" IS 'Number of units of the tool in the branch';
+    COMMENT ON COLUMN "branch_tools"."serial_numbers" IS 'Serial numbers of the units (one per unit) when they are tracked';
+  `);
+
+  try {
+    // One inventory line per tool and branch (deleted lines are kept for the checkout history)
+    await queryInterface.addIndex('branch_tools', ['branch_id', 'tool_id'], {
+      name: 'branch_tools_branch_id_tool_id_unique',
+      unique: true,
+      where: { is_deleted: false },
+    });
+  } catch (error: any) {
+    console.log('Note: Could not add indexes:', error.message);
+  }
+
+  console.log('   ✅ Created branch_tools table');
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await tableExists('branch_tools')) {
+    await queryInterface.dropTable('branch_tools');
+    console.log('   ✅ Dropped branch_tools table');
+  } else {
+    console.log('   ⚠️  branch_tools table does not exist, skipping drop');
+  }
+};
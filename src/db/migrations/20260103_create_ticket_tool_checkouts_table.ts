@@ -0,0 +1,173 @@
+import { DataTypes, QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!(await tableExists('tickets')) || !(await tableExists('branch_tools'))) {
+    console.log('   ⚠️  Tickets or branch_tools table does not exist, skipping ticket_tool_checkouts table creation');
+    return;
+  }
+
+  if (await tableExists('ticket_tool_checkouts')) {
+    console.log('   ⚠️  ticket_tool_checkouts table already exists, skipping creation');
+    return;
+  }
+
+  const usersTableExists = await tableExists('users');
+  const userReference = usersTableExists ? { model: 'users', key: 'id' } : undefined;
+
+  await queryInterface.createTable('ticket_tool_checkouts', {
+    id: {
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+      type: DataTypes.INTEGER,
+    },
+    ticket_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: {
+        model: 'tickets',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    branch_tool_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: {
+        model: 'branch_tools',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    technician_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    quantity: {
+      allowNull: false,
+      defaultValue: 1,
+      type: DataTypes.INTEGER,
+    },
+    serial_number: {
+      allowNull: true,
+      type: DataTypes.STRING(100),
+    },
+    checked_out_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+    },
+    returned_at: {
+      allowNull: true,
+      type: DataTypes.DATE,
+    },
+    returned_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    created_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    created_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    updated_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    deleted_at: {
+      allowNull: true,
+      type: DataTypes.DATE,
+    },
+    deleted_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    is_deleted: {
+      allowNull: false,
+      defaultValue: false,
+      type: DataTypes.BOOLEAN,
+    },
+  });
+
+  await queryInterface.sequelize.query(`
+    ALTER TABLE "ticket_tool_checkouts" ADD CONSTRAINT "ticket_tool_checkouts_quantity_check" CHECK ("quantity" > 0);
+    COMMENT ON TABLE "ticket_tool_checkouts" IS 'Tools checked out by technicians for tickets';
+    COMMENT ON COLUMN "ticket_tool_checkouts"."ticket_id" IS 'Ticket the tool was checked out for';
+    COMMENT ON COLUMN "ticket_tool_checkouts"."branch_tool_id" IS 'Branch inventory line the tool was taken from';
+    COMMENT ON COLUMN "ticket_tool_checkouts"."technician_id" IS 'Technician holding the tool';
+    COMMENT ON COLUMN "ticket_tool_checkouts"."quantity" IS 'Number of units checked out';
+    COMMENT ON COLUMN "ticket_tool_checkouts"."serial_number" IS 'Serial number of the unit, when the branch tracks serial numbers';
+    COMMENT ON COLUMN "ticket_tool_checkouts"."checked_out_at" IS 'DateTime of the checkout';
+    COMMENT ON COLUMN "ticket_tool_checkouts"."returned_at" IS 'DateTime of the return (null while the technician holds the tool)';
+    COMMENT ON COLUMN "ticket_tool_checkouts"."returned_by" IS 'User who recorded the return';
+  `);
+
+  try {
+    await queryInterface.addIndex('ticket_tool_checkouts', ['ticket_id'], {
+      name: 'ticket_tool_checkouts_ticket_id_idx',
+    });
+    // Open checkouts are looked up by inventory line and by technician
+    await queryInterface.addIndex('ticket_tool_checkouts', ['branch_tool_id', 'returned_at'], {
+      name: 'ticket_tool_checkouts_branch_tool_id_returned_at_idx',
+    });
+    await queryInterface.addIndex('ticket_tool_checkouts', ['technician_id', 'returned_at'], {
+      name: 'ticket_tool_checkouts_technician_id_returned_at_idx',
+    });
+  } catch (error: any) {
+    console.log('Note: Could not add indexes:', error.message);
+  }
+
+  console.log('   ✅ Created ticket_tool_checkouts table');
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await tableExists('ticket_tool_checkouts')) {
+    await queryInterface.dropTable('ticket_tool_checkouts');
+    console.log('   ✅ Dropped ticket_tool_checkouts table');
+  } else {
+    console.log('   ⚠️  ticket_tool_checkouts table does not exist, skipping drop');
+  }
+};
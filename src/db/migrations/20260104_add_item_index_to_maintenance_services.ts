@@ -0,0 +1,32 @@
+import { QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  console.log('Adding item index to maintenance_services table...');
+
+  try {
+    // Sub services of tickets are read by ticket (itemType 'ticket', itemId = ticket ID) for every ticket list page
+    await queryInterface.addIndex('maintenance_services', ['item_type', 'item_id'], {
+      name: 'maintenance_services_item_type_item_id_idx',
+      where: { is_deleted: false },
+    });
+    console.log('✓ Added maintenance_services_item_type_item_id_idx index');
+  } catch (error: any) {
+    if (error.message.includes('already exists')) {
+      console.log('Note: maintenance_services_item_type_item_id_idx index already exists');
+    } else {
+      console.log('Note: Could not add maintenance_services item index:', error.message);
+      throw error;
+    }
+  }
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  console.log('Removing item index from maintenance_services table...');
+
+  try {
+    await queryInterface.removeIndex('maintenance_services', 'maintenance_services_item_type_item_id_idx');
+    console.log('✓ Removed maintenance_services_item_type_item_id_idx index');
+  } catch (error: any) {
+    console.log('Note: Could not remove maintenance_services item index:', error.message);
+  }
+};
@@ -0,0 +1,66 @@
+import { DataTypes, QueryInterface } from 'sequelize';
+
+const REVIEW_COLUMNS = {
+  reviewed_by: {
+    allowNull: true,
+    comment: 'User who approved, rejected or canceled the work',
+    type: DataTypes.INTEGER,
+  },
+  reviewed_at: {
+    allowNull: true,
+    comment: 'DateTime of the last status change',
+    type: DataTypes.DATE,
+  },
+  status_reason: {
+    allowNull: true,
+    comment: 'Reason given with the last status change (required to reject or cancel)',
+    type: DataTypes.STRING(500),
+  },
+};
+
+export const up = async (queryInterface: QueryInterface) => {
+  console.log('Adding review fields to additional_work table...');
+
+  for (const [column, definition] of Object.entries(REVIEW_COLUMNS)) {
+    try {
+      await queryInterface.addColumn('additional_work', column, definition);
+      console.log(`✓ Added ${column} column to additional_work table`);
+    } catch (error: any) {
+      if (error.message.includes('already exists')) {
+        console.log(`Note: ${column} column already exists in additional_work table`);
+      } else {
+        console.log(`Note: Could not add ${column} column:`, error.message);
+        throw error;
+      }
+    }
+  }
+
+  try {
+    await queryInterface.addConstraint('additional_work', {
+      fields: ['reviewed_by'],
+      type: 'foreign key',
+      name: 'additional_work_reviewed_by_fkey',
+      references: {
+        table: 'users',
+        field: 'id',
+      },
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    });
+  } catch (error: any) {
+    console.log('Note: Could not add reviewed_by foreign key:', error.message);
+  }
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  console.log('Removing review fields from additional_work table...');
+
+  for (const column of Object.keys(REVIEW_COLUMNS)) {
+    try {
+      await queryInterface.removeColumn('additional_work', column);
+      console.log(`✓ Removed ${column} column from additional_work table`);
+    } catch (error: any) {
+      console.log(`Note: Could not remove ${column} column:`, error.message);
+    }
+  }
+};
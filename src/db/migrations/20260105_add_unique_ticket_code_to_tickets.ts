@@ -0,0 +1,40 @@
+import { QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  console.log('Adding unique ticket code index to tickets table...');
+
+  // Tickets left with the TEMP placeholder (code update failed after the insert) get the code of the previous format
+  await queryInterface.sequelize.query(`
+    UPDATE "tickets" AS t
+    SET "ticket_code_id" = UPPER(SPLIT_PART(c."title", ' ', 1)) || '-TKT-' || t."id"
+    FROM "companies" AS c
+    WHERE c."id" = t."company_id" AND t."ticket_code_id" = 'TEMP';
+  `);
+
+  try {
+    // Ticket codes come from per-company counters, so they are unique within a company
+    await queryInterface.addIndex('tickets', ['company_id', 'ticket_code_id'], {
+      name: 'tickets_company_id_ticket_code_id_key',
+      unique: true,
+    });
+    console.log('✓ Added tickets_company_id_ticket_code_id_key index');
+  } catch (error: any) {
+    if (error.message.includes('already exists')) {
+      console.log('Note: tickets_company_id_ticket_code_id_key index already exists');
+    } else {
+      console.log('Note: Could not add unique ticket code index:', error.message);
+      throw error;
+    }
+  }
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  console.log('Removing unique ticket code index from tickets table...');
+
+  try {
+    await queryInterface.removeIndex('tickets', 'tickets_company_id_ticket_code_id_key');
+    console.log('✓ Removed tickets_company_id_ticket_code_id_key index');
+  } catch (error: any) {
+    console.log('Note: Could not remove unique ticket code index:', error.message);
+  }
+};
@@ -0,0 +1,121 @@
+import { DataTypes, QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!(await tableExists('users'))) {
+    console.log('   ⚠️  Users table does not exist, skipping idempotency_keys table creation');
+    return;
+  }
+
+  if (await tableExists('idempotency_keys')) {
+    console.log('   ⚠️  idempotency_keys table already exists, skipping creation');
+    return;
+  }
+
+  await queryInterface.createTable('idempotency_keys', {
+    id: {
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+      type: DataTypes.INTEGER,
+    },
+    key: {
+      allowNull: false,
+      type: DataTypes.STRING(255),
+    },
+    user_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    endpoint: {
+      allowNull: false,
+      type: DataTypes.STRING(100),
+    },
+    request_hash: {
+      allowNull: false,
+      type: DataTypes.STRING(64),
+    },
+    status_code: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+    },
+    response_body: {
+      allowNull: true,
+      type: DataTypes.JSONB,
+    },
+    expires_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+    },
+    created_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+  });
+
+  await queryInterface.sequelize.query(`
+    COMMENT ON TABLE "idempotency_keys" IS 'First responses of requests sent with an Idempotency-Key header, replayed for retries';
+    COMMENT ON COLUMN "idempotency_keys"."key" IS 'Idempotency-Key header sent by the client';
+    COMMENT ON COLUMN "idempotency_keys"."user_id" IS 'User who sent the request';
+    COMMENT ON COLUMN "idempotency_keys"."endpoint" IS 'Endpoint of the request (e.g., POST /tickets)';
+    COMMENT ON COLUMN "idempotency_keys"."request_hash" IS 'SHA-256 of the request body and uploaded files';
+    COMMENT ON COLUMN "idempotency_keys"."status_code" IS 'HTTP status of the first response (null while the first request is in progress)';
+    COMMENT ON COLUMN "idempotency_keys"."response_body" IS 'Body of the first response, replayed for retries';
+    COMMENT ON COLUMN "idempotency_keys"."expires_at" IS 'DateTime after which the key can be used for a new request';
+  `);
+
+  // Only one request per user, endpoint and key can claim the key, concurrent retries get a conflict
+  await queryInterface.addIndex('idempotency_keys', ['user_id', 'endpoint', 'key'], {
+    name: 'idempotency_keys_user_id_endpoint_key_key',
+    unique: true,
+  });
+
+  try {
+    // Expired keys of the user are purged when a new key is claimed
+    await queryInterface.addIndex('idempotency_keys', ['user_id', 'expires_at'], {
+      name: 'idempotency_keys_user_id_expires_at_idx',
+    });
+  } catch (error: any) {
+    console.log('Note: Could not add indexes:', error.message);
+  }
+
+  console.log('   ✅ Created idempotency_keys table');
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await tableExists('idempotency_keys')) {
+    await queryInterface.dropTable('idempotency_keys');
+    console.log('   ✅ Dropped idempotency_keys table');
+  } else {
+    console.log('   ⚠️  idempotency_keys table does not exist, skipping drop');
+  }
+};
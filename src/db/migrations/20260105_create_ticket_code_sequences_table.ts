@@ -0,0 +1,93 @@
+import { DataTypes, QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!(await tableExists('companies'))) {
+    console.log('   ⚠️  Companies table does not exist, skipping ticket_code_sequences table creation');
+    return;
+  }
+
+  if (await tableExists('ticket_code_sequences')) {
+    console.log('   ⚠️  ticket_code_sequences table already exists, skipping creation');
+    return;
+  }
+
+  await queryInterface.createTable('ticket_code_sequences', {
+    id: {
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+      type: DataTypes.INTEGER,
+    },
+    company_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: {
+        model: 'companies',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    year: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+    },
+    last_number: {
+      allowNull: false,
+      defaultValue: 0,
+      type: DataTypes.INTEGER,
+    },
+    created_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+  });
+
+  await queryInterface.sequelize.query(`
+    COMMENT ON TABLE "ticket_code_sequences" IS 'Ticket code counters of the companies, one row per company and year';
+    COMMENT ON COLUMN "ticket_code_sequences"."company_id" IS 'Company the counter belongs to';
+    COMMENT ON COLUMN "ticket_code_sequences"."year" IS 'Year of the counter, 0 when the code format does not restart yearly';
+    COMMENT ON COLUMN "ticket_code_sequences"."last_number" IS 'Last number used in a ticket code';
+  `);
+
+  // Ticket codes take the next number with INSERT ... ON CONFLICT on this index
+  await queryInterface.addIndex('ticket_code_sequences', ['company_id', 'year'], {
+    name: 'ticket_code_sequences_company_id_year_key',
+    unique: true,
+  });
+
+  console.log('   ✅ Created ticket_code_sequences table');
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await tableExists('ticket_code_sequences')) {
+    await queryInterface.dropTable('ticket_code_sequences');
+    console.log('   ✅ Dropped ticket_code_sequences table');
+  } else {
+    console.log('   ⚠️  ticket_code_sequences table does not exist, skipping drop');
+  }
+};
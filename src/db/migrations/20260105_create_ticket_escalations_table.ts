@@ -0,0 +1,104 @@
+import { DataTypes, QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!(await tableExists('tickets'))) {
+    console.log('   ⚠️  Tickets table does not exist, skipping ticket_escalations table creation');
+    return;
+  }
+
+  if (await tableExists('ticket_escalations')) {
+    console.log('   ⚠️  ticket_escalations table already exists, skipping creation');
+    return;
+  }
+
+  await queryInterface.createTable('ticket_escalations', {
+    id: {
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+      type: DataTypes.INTEGER,
+    },
+    ticket_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: {
+        model: 'tickets',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    level: {
+      allowNull: false,
+      type: DataTypes.ENUM('TEAM_LEADER', 'COMPANY_ADMIN', 'SUPER_USER'),
+    },
+    notified_user_ids: {
+      allowNull: false,
+      defaultValue: [],
+      type: DataTypes.JSONB,
+    },
+    minutes_pending: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+    },
+    escalated_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+    },
+    created_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+  });
+
+  await queryInterface.sequelize.query(`
+    COMMENT ON TABLE "ticket_escalations" IS 'Escalations of emergency tickets that stayed pending too long';
+    COMMENT ON COLUMN "ticket_escalations"."ticket_id" IS 'Emergency ticket that was escalated';
+    COMMENT ON COLUMN "ticket_escalations"."level" IS 'Level of the escalation chain reached';
+    COMMENT ON COLUMN "ticket_escalations"."notified_user_ids" IS 'Users notified of the escalation';
+    COMMENT ON COLUMN "ticket_escalations"."minutes_pending" IS 'Minutes the ticket had been pending when it was escalated';
+    COMMENT ON COLUMN "ticket_escalations"."escalated_at" IS 'DateTime of the escalation';
+  `);
+
+  // A ticket reaches each level once, even when several scheduler runs overlap
+  await queryInterface.addIndex('ticket_escalations', ['ticket_id', 'level'], {
+    name: 'ticket_escalations_ticket_id_level_key',
+    unique: true,
+  });
+
+  console.log('   ✅ Created ticket_escalations table');
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await tableExists('ticket_escalations')) {
+    await queryInterface.dropTable('ticket_escalations');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_ticket_escalations_level";');
+    console.log('   ✅ Dropped ticket_escalations table');
+  } else {
+    console.log('   ⚠️  ticket_escalations table does not exist, skipping drop');
+  }
+};
@@ -0,0 +1,167 @@
+import { DataTypes, QueryInterface } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!(await tableExists('tickets'))) {
+    console.log('   ⚠️  Tickets table does not exist, skipping ticket_reassignments table creation');
+    return;
+  }
+
+  if (await tableExists('ticket_reassignments')) {
+    console.log('   ⚠️  ticket_reassignments table already exists, skipping creation');
+    return;
+  }
+
+  const usersTableExists = await tableExists('users');
+  const userReference = usersTableExists ? { model: 'users', key: 'id' } : undefined;
+
+  await queryInterface.createTable('ticket_reassignments', {
+    id: {
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+      type: DataTypes.INTEGER,
+    },
+    ticket_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: {
+        model: 'tickets',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    from_team_leader_id: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    to_team_leader_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    from_technician_id: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    to_technician_id: {
+      allowNull: false,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    reason_code: {
+      allowNull: false,
+      type: DataTypes.ENUM('TECHNICIAN_UNAVAILABLE', 'SKILL_MISMATCH', 'WORKLOAD_BALANCING', 'SCHEDULE_CONFLICT', 'CUSTOMER_REQUEST', 'OTHER'),
+    },
+    reason_note: {
+      allowNull: true,
+      type: DataTypes.STRING(500),
+    },
+    created_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      allowNull: false,
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    created_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    updated_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    deleted_at: {
+      allowNull: true,
+      type: DataTypes.DATE,
+    },
+    deleted_by: {
+      allowNull: true,
+      type: DataTypes.INTEGER,
+      references: userReference,
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    is_deleted: {
+      allowNull: false,
+      defaultValue: false,
+      type: DataTypes.BOOLEAN,
+    },
+  });
+
+  await queryInterface.sequelize.query(`
+    COMMENT ON TABLE "ticket_reassignments" IS 'Reassignment log of tickets, one row per reassignment';
+    COMMENT ON COLUMN "ticket_reassignments"."ticket_id" IS 'Ticket that was reassigned';
+    COMMENT ON COLUMN "ticket_reassignments"."from_team_leader_id" IS 'Team leader before the reassignment';
+    COMMENT ON COLUMN "ticket_reassignments"."to_team_leader_id" IS 'Team leader after the reassignment';
+    COMMENT ON COLUMN "ticket_reassignments"."from_technician_id" IS 'Technician before the reassignment';
+    COMMENT ON COLUMN "ticket_reassignments"."to_technician_id" IS 'Technician after the reassignment';
+    COMMENT ON COLUMN "ticket_reassignments"."reason_code" IS 'Why the ticket was reassigned';
+    COMMENT ON COLUMN "ticket_reassignments"."reason_note" IS 'Free text explanation, required for the OTHER reason';
+  `);
+
+  try {
+    await queryInterface.addIndex('ticket_reassignments', ['ticket_id'], {
+      name: 'ticket_reassignments_ticket_id_idx',
+    });
+    // Technician statistics count reassignments to and away from each technician
+    await queryInterface.addIndex('ticket_reassignments', ['to_technician_id'], {
+      name: 'ticket_reassignments_to_technician_id_idx',
+    });
+    await queryInterface.addIndex('ticket_reassignments', ['from_technician_id'], {
+      name: 'ticket_reassignments_from_technician_id_idx',
+    });
+  } catch (error: any) {
+    console.log('Note: Could not add indexes:', error.message);
+  }
+
+  console.log('   ✅ Created ticket_reassignments table');
+};
+
+export const down = async (queryInterface: QueryInterface) => {
+  const tableExists = async (tableName: string): Promise<boolean> => {
+    try {
+      await queryInterface.describeTable(tableName);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await tableExists('ticket_reassignments')) {
+    await queryInterface.dropTable('ticket_reassignments');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_ticket_reassignments_reason_code";');
+    console.log('   ✅ Dropped ticket_reassignments table');
+  } else {
+    console.log('   ⚠️  ticket_reassignments table does not exist, skipping drop');
+  }
+};
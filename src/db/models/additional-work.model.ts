@@ -77,6 +77,33 @@ export class AdditionalWork extends Model {
   })
   public submittedAt: Date;
 
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who approved, rejected or canceled the work',
+    type: DataTypes.INTEGER,
+  })
+  public reviewedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'reviewedBy', as: 'reviewer' })
+  public reviewer?: User | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime of the last status change',
+    get: getDate('reviewedAt'),
+    set: setDate('reviewedAt'),
+    type: DataTypes.DATE,
+  })
+  public reviewedAt: Date | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'Reason given with the last status change (required to reject or cancel)',
+    type: DataTypes.STRING(500),
+  })
+  public statusReason: string | null;
+
   @CreatedAt
   @Column({
     allowNull: false,
@@ -0,0 +1,133 @@
+import { DataTypes } from 'sequelize';
+import { BelongsTo, Column, CreatedAt, ForeignKey, Model, Table, UpdatedAt } from 'sequelize-typescript';
+
+import { Branch } from './branch.model';
+import { Lookup } from './lookup.model';
+import { User } from './user.model';
+
+import { getDate, getIsoTimestamp, setDate } from '../../lib';
+
+@Table({
+  modelName: 'BranchTool',
+  tableName: 'branch_tools',
+  underscored: true,
+})
+export class BranchTool extends Model {
+  @Column({
+    allowNull: false,
+    autoIncrement: true,
+    primaryKey: true,
+    type: DataTypes.INTEGER,
+  })
+  public id: number;
+
+  @ForeignKey(() => Branch)
+  @Column({
+    allowNull: false,
+    comment: 'Branch holding the tools',
+    type: DataTypes.INTEGER,
+  })
+  public branchId: number;
+
+  @BelongsTo(() => Branch, { foreignKey: 'branchId', as: 'branch' })
+  public branch: Branch;
+
+  @ForeignKey(() => Lookup)
+  @Column({
+    allowNull: false,
+    comment: 'Tool from the tool catalog (Lookup with category Tool)',
+    type: DataTypes.INTEGER,
+  })
+  public toolId: number;
+
+  @BelongsTo(() => Lookup, { foreignKey: 'toolId', as: 'tool' })
+  public tool: Lookup;
+
+  @Column({
+    allowNull: false,
+    comment: 'Number of units of the tool in the branch',
+    defaultValue: 0,
+    type: DataTypes.INTEGER,
+  })
+  public quantity: number;
+
+  @Column({
+    allowNull: true,
+    comment: 'Serial numbers of the units (one per unit) when they are tracked',
+    type: DataTypes.JSONB,
+  })
+  public serialNumbers: string[] | null;
+
+  @CreatedAt
+  @Column({
+    allowNull: false,
+    comment: 'BranchTool created DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('createdAt'),
+    set: setDate('createdAt'),
+    type: DataTypes.DATE,
+  })
+  public createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    allowNull: false,
+    comment: 'BranchTool updated DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('updatedAt'),
+    set: setDate('updatedAt'),
+    type: DataTypes.DATE,
+  })
+  public updatedAt: Date;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who created this record',
+    type: DataTypes.INTEGER,
+  })
+  public createdBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'createdBy', as: 'creator' })
+  public creator?: User | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who last updated this record',
+    type: DataTypes.INTEGER,
+  })
+  public updatedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'updatedBy', as: 'updater' })
+  public updater?: User | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime when record was deleted',
+    get: getDate('deletedAt'),
+    set: setDate('deletedAt'),
+    type: DataTypes.DATE,
+  })
+  public deletedAt: Date | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who deleted this record',
+    type: DataTypes.INTEGER,
+  })
+  public deletedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'deletedBy', as: 'deleter' })
+  public deleter?: User | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Whether the record is deleted (soft delete)',
+    defaultValue: false,
+    type: DataTypes.BOOLEAN,
+  })
+  public isDeleted: boolean;
+}
+
@@ -12,6 +12,7 @@ export enum FileCategory {
   VIDEO = 'video',
   AUDIO = 'audio',
   OTHER = 'other',
+  SIGNATURE = 'signature', // Customer sign-off signatures
 }
 
 export enum FileEntityType {
@@ -19,6 +20,8 @@ export enum FileEntityType {
   CONTRACT = 'contract',
   USER = 'user',
   TICKET = 'ticket', // For ticket attachments
+  TICKET_COMMENT = 'ticket_comment', // For ticket comment attachments
+  TICKET_VISIT = 'ticket_visit', // For check-in / check-out photos
 }
 
 // ReferenceType enum values as per specification
@@ -58,6 +61,7 @@ export enum StorageProvider {
 export const convertFileCategoryToFileType = (category: FileCategory): string => {
   switch (category) {
     case FileCategory.IMAGE:
+    case FileCategory.SIGNATURE:
       return FileType.IMAGE;
     case FileCategory.CONTRACT:
       return FileType.PDF;
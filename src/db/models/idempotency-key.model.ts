@@ -0,0 +1,98 @@
+import { DataTypes } from 'sequelize';
+import { BelongsTo, Column, CreatedAt, ForeignKey, Model, Table, UpdatedAt } from 'sequelize-typescript';
+
+import { User } from './user.model';
+
+import { getDate, getIsoTimestamp, setDate } from '../../lib';
+
+@Table({
+  modelName: 'IdempotencyKey',
+  tableName: 'idempotency_keys',
+  underscored: true,
+})
+export class IdempotencyKey extends Model {
+  @Column({
+    allowNull: false,
+    autoIncrement: true,
+    primaryKey: true,
+    type: DataTypes.INTEGER,
+  })
+  public id: number;
+
+  @Column({
+    allowNull: false,
+    comment: 'Idempotency-Key header sent by the client',
+    type: DataTypes.STRING(255),
+  })
+  public key: string;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: false,
+    comment: 'User who sent the request',
+    type: DataTypes.INTEGER,
+  })
+  public userId: number;
+
+  @BelongsTo(() => User, { foreignKey: 'userId', as: 'user' })
+  public user?: User | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Endpoint of the request (e.g., POST /tickets)',
+    type: DataTypes.STRING(100),
+  })
+  public endpoint: string;
+
+  @Column({
+    allowNull: false,
+    comment: 'SHA-256 of the request body and uploaded files',
+    type: DataTypes.STRING(64),
+  })
+  public requestHash: string;
+
+  @Column({
+    allowNull: true,
+    comment: 'HTTP status of the first response (null while the first request is in progress)',
+    type: DataTypes.INTEGER,
+  })
+  public statusCode: number | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'Body of the first response, replayed for retries',
+    type: DataTypes.JSONB,
+  })
+  public responseBody: any;
+
+  @Column({
+    allowNull: false,
+    comment: 'DateTime after which the key can be used for a new request',
+    get: getDate('expiresAt'),
+    set: setDate('expiresAt'),
+    type: DataTypes.DATE,
+  })
+  public expiresAt: Date;
+
+  @CreatedAt
+  @Column({
+    allowNull: false,
+    comment: 'IdempotencyKey created DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('createdAt'),
+    set: setDate('createdAt'),
+    type: DataTypes.DATE,
+  })
+  public createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    allowNull: false,
+    comment: 'IdempotencyKey updated DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('updatedAt'),
+    set: setDate('updatedAt'),
+    type: DataTypes.DATE,
+  })
+  public updatedAt: Date;
+}
@@ -1,23 +1,49 @@
 import { AdditionalWork } from './additional-work.model'
+import { BranchTool } from './branch-tool.model'
 import { Branch } from './branch.model'
 import { Company } from './company.model'
 import { Contract } from './contract.model'
 import { File } from './file.model'
+import { IdempotencyKey } from './idempotency-key.model'
 import { Log } from './log.model'
 import { Lookup } from './lookup.model'
 import { MaintenanceService } from './maintenance-service.model'
+import { PreventivePlan } from './preventive-plan.model'
+import { SlaPolicy } from './sla-policy.model'
+import { TicketCodeSequence } from './ticket-code-sequence.model'
+import { TicketComment } from './ticket-comment.model'
+import { TicketEscalation } from './ticket-escalation.model'
+import { TicketHistory } from './ticket-history.model'
+import { TicketMaterial } from './ticket-material.model'
+import { TicketReassignment } from './ticket-reassignment.model'
+import { TicketSignOff } from './ticket-sign-off.model'
+import { TicketToolCheckout } from './ticket-tool-checkout.model'
+import { TicketVisit } from './ticket-visit.model'
 import { Ticket } from './ticket.model'
 import { User } from './user.model'
 import { Zone } from './zone.model'
 
 export * from './additional-work.model'
+export * from './branch-tool.model'
 export * from './branch.model'
 export * from './company.model'
 export * from './contract.model'
 export * from './file.model'
+export * from './idempotency-key.model'
 export * from './log.model'
 export * from './lookup.model'
 export * from './maintenance-service.model'
+export * from './preventive-plan.model'
+export * from './sla-policy.model'
+export * from './ticket-code-sequence.model'
+export * from './ticket-comment.model'
+export * from './ticket-escalation.model'
+export * from './ticket-history.model'
+export * from './ticket-material.model'
+export * from './ticket-reassignment.model'
+export * from './ticket-sign-off.model'
+export * from './ticket-tool-checkout.model'
+export * from './ticket-visit.model'
 export * from './ticket.model'
 export * from './user.model'
 export * from './zone.model'
@@ -26,7 +52,7 @@ export * from './zone.model'
 
 // Order matters for synchronize: true - tables without foreign keys must come first
 // Lookup must come before User, Company, Contract, Branch, etc. since they reference it
-export const MODELS = [Log, Lookup, Company, User, Contract, Branch, Zone, MaintenanceService, Ticket, File, AdditionalWork];
+export const MODELS = [Log, Lookup, Company, User, Contract, Branch, Zone, MaintenanceService, PreventivePlan, SlaPolicy, Ticket, File, AdditionalWork, TicketHistory, TicketComment, TicketVisit, TicketSignOff, TicketMaterial, BranchTool, TicketToolCheckout, TicketReassignment, TicketCodeSequence, TicketEscalation, IdempotencyKey];
 
 export const setupAssociations = () => {
   // Note: Most belongsTo associations are already defined in model decorators (@BelongsTo)
@@ -50,8 +76,50 @@ export const setupAssociations = () => {
     scope: { itemType: 'company' },
   });
   
+  // Ticket sub services use the same polymorphic relationship with itemType='ticket'
+  Ticket.hasMany(MaintenanceService, {
+    as: 'subServices',
+    constraints: false,
+    foreignKey: 'itemId',
+    scope: { itemType: 'ticket' },
+  });
+  
   // AdditionalWork associations (hasMany only - belongsTo is in decorators)
   Ticket.hasMany(AdditionalWork, { as: 'additionalWorks', foreignKey: 'ticketId' });
+
+  // TicketHistory associations (hasMany only - belongsTo is in decorators)
+  Ticket.hasMany(TicketHistory, { as: 'history', foreignKey: 'ticketId' });
+
+  // TicketComment associations (hasMany only - belongsTo is in decorators)
+  Ticket.hasMany(TicketComment, { as: 'comments', foreignKey: 'ticketId' });
+
+  // TicketVisit associations (hasMany only - belongsTo is in decorators)
+  Ticket.hasMany(TicketVisit, { as: 'visits', foreignKey: 'ticketId' });
+
+  // TicketSignOff associations (hasOne only - belongsTo is in decorators)
+  Ticket.hasOne(TicketSignOff, { as: 'signOff', foreignKey: 'ticketId' });
+
+  // TicketMaterial associations (hasMany only - belongsTo is in decorators)
+  Ticket.hasMany(TicketMaterial, { as: 'materials', foreignKey: 'ticketId' });
+
+  // BranchTool associations (hasMany only - belongsTo is in decorators)
+  Branch.hasMany(BranchTool, { as: 'tools', foreignKey: 'branchId' });
+
+  // TicketToolCheckout associations (hasMany only - belongsTo is in decorators)
+  Ticket.hasMany(TicketToolCheckout, { as: 'toolCheckouts', foreignKey: 'ticketId' });
+  BranchTool.hasMany(TicketToolCheckout, { as: 'checkouts', foreignKey: 'branchToolId' });
+
+  // TicketReassignment associations (hasMany only - belongsTo is in decorators)
+  Ticket.hasMany(TicketReassignment, { as: 'reassignments', foreignKey: 'ticketId' });
+
+  // TicketCodeSequence associations (hasMany only - belongsTo is in decorators)
+  Company.hasMany(TicketCodeSequence, { as: 'ticketCodeSequences', foreignKey: 'companyId' });
+
+  // TicketEscalation associations (hasMany only - belongsTo is in decorators)
+  Ticket.hasMany(TicketEscalation, { as: 'escalations', foreignKey: 'ticketId' });
+
+  // IdempotencyKey associations (hasMany only - belongsTo is in decorators)
+  User.hasMany(IdempotencyKey, { as: 'idempotencyKeys', foreignKey: 'userId' });
   
   // User associations (hasMany only - belongsTo is in decorators)
   Company.hasMany(User, { as: 'users', foreignKey: 'companyId' });
@@ -61,6 +129,15 @@ export const setupAssociations = () => {
   Contract.hasMany(Ticket, { as: 'tickets', foreignKey: 'contractId' });
   Branch.hasMany(Ticket, { as: 'tickets', foreignKey: 'branchId' });
   Zone.hasMany(Ticket, { as: 'tickets', foreignKey: 'zoneId' });
+
+  // PreventivePlan associations (hasMany only - belongsTo is in decorators)
+  Company.hasMany(PreventivePlan, { as: 'preventivePlans', foreignKey: 'companyId' });
+  Contract.hasMany(PreventivePlan, { as: 'preventivePlans', foreignKey: 'contractId' });
+  PreventivePlan.hasMany(Ticket, { as: 'tickets', foreignKey: 'preventivePlanId' });
+
+  // SlaPolicy associations (hasMany only - belongsTo is in decorators)
+  Company.hasMany(SlaPolicy, { as: 'slaPolicies', foreignKey: 'companyId' });
+  Contract.hasMany(SlaPolicy, { as: 'slaPolicies', foreignKey: 'contractId' });
   
   
   // File associations (polymorphic) - these are new and not in decorators
@@ -102,4 +179,12 @@ export const setupAssociations = () => {
     constraints: false,
     foreignKey: 'entityId',
   });
+
+  // Ticket comment files (attachments)
+  TicketComment.hasMany(File, {
+    as: 'attachments',
+    constraints: false,
+    foreignKey: 'entityId',
+    scope: { entity_type: 'ticket_comment' },
+  });
 }
\ No newline at end of file
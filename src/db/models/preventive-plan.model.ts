@@ -0,0 +1,268 @@
+import { DataTypes } from 'sequelize';
+import { BelongsTo, Column, CreatedAt, ForeignKey, Model, Table, UpdatedAt } from 'sequelize-typescript';
+
+import { Branch } from './branch.model';
+import { Company } from './company.model';
+import { Contract } from './contract.model';
+import { Lookup } from './lookup.model';
+import { User } from './user.model';
+import { Zone } from './zone.model';
+
+import { getDate, getIsoTimestamp, setDate } from '../../lib';
+
+export enum PreventiveRecurrenceType {
+  WEEKLY = 'WEEKLY', // Every N weeks on the weekday of startDate
+  MONTHLY = 'MONTHLY', // Every N months on dayOfMonth (or the day of startDate)
+  EVERY_N_DAYS = 'EVERY_N_DAYS', // Every N days from startDate
+  WEEKDAYS = 'WEEKDAYS', // On the listed weekdays, every N weeks
+}
+
+@Table({
+  modelName: 'PreventivePlan',
+  tableName: 'preventive_plans',
+  underscored: true,
+})
+export class PreventivePlan extends Model {
+  @Column({
+    allowNull: false,
+    autoIncrement: true,
+    primaryKey: true,
+    type: DataTypes.INTEGER,
+  })
+  public id: number;
+
+  @ForeignKey(() => Company)
+  @Column({
+    allowNull: false,
+    type: DataTypes.INTEGER,
+  })
+  public companyId: number;
+
+  @BelongsTo(() => Company, { foreignKey: 'companyId', as: 'company' })
+  public company: Company;
+
+  @ForeignKey(() => Contract)
+  @Column({
+    allowNull: false,
+    type: DataTypes.INTEGER,
+  })
+  public contractId: number;
+
+  @BelongsTo(() => Contract, { foreignKey: 'contractId', as: 'contract' })
+  public contract: Contract;
+
+  @ForeignKey(() => Branch)
+  @Column({
+    allowNull: false,
+    type: DataTypes.INTEGER,
+  })
+  public branchId: number;
+
+  @BelongsTo(() => Branch, { foreignKey: 'branchId', as: 'branch' })
+  public branch: Branch;
+
+  @ForeignKey(() => Zone)
+  @Column({
+    allowNull: false,
+    type: DataTypes.INTEGER,
+  })
+  public zoneId: number;
+
+  @BelongsTo(() => Zone, { foreignKey: 'zoneId', as: 'zone' })
+  public zone: Zone;
+
+  @ForeignKey(() => Lookup)
+  @Column({
+    allowNull: false,
+    type: DataTypes.INTEGER,
+  })
+  public mainServiceId: number;
+
+  @BelongsTo(() => Lookup, { foreignKey: 'mainServiceId', as: 'mainServiceLookup' })
+  public mainServiceLookup: Lookup;
+
+  @Column({
+    allowNull: false,
+    comment: 'Title of the generated tickets (max 100 characters)',
+    type: DataTypes.STRING(100),
+  })
+  public title: string;
+
+  @Column({
+    allowNull: true,
+    comment: 'Description of the generated tickets (max 300 characters)',
+    type: DataTypes.STRING(300),
+  })
+  public description: string | null;
+
+  @Column({
+    allowNull: false,
+    type: DataTypes.ENUM(...Object.values(PreventiveRecurrenceType)),
+  })
+  public recurrenceType: PreventiveRecurrenceType;
+
+  @Column({
+    allowNull: false,
+    comment: 'N of every N days, weeks or months',
+    defaultValue: 1,
+    type: DataTypes.INTEGER,
+  })
+  public recurrenceInterval: number;
+
+  @Column({
+    allowNull: true,
+    comment: 'Weekdays for WEEKDAYS plans (0 = Sunday ... 6 = Saturday)',
+    type: DataTypes.JSONB,
+  })
+  public weekdays: number[] | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'Day of the month for MONTHLY plans (clamped to the last day of shorter months)',
+    type: DataTypes.INTEGER,
+  })
+  public dayOfMonth: number | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'First date the plan can generate tickets for',
+    type: DataTypes.DATEONLY,
+  })
+  public startDate: string;
+
+  @Column({
+    allowNull: true,
+    comment: 'Last date the plan can generate tickets for (the contract end date also applies)',
+    type: DataTypes.DATEONLY,
+  })
+  public endDate: string | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Start time of the generated tickets',
+    type: DataTypes.TIME,
+  })
+  public ticketTimeFrom: string;
+
+  @Column({
+    allowNull: false,
+    comment: 'End time of the generated tickets',
+    type: DataTypes.TIME,
+  })
+  public ticketTimeTo: string;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: false,
+    type: DataTypes.INTEGER,
+  })
+  public assignToTeamLeaderId: number;
+
+  @BelongsTo(() => User, { foreignKey: 'assignToTeamLeaderId', as: 'assignToTeamLeaderUser' })
+  public assignToTeamLeaderUser: User;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: false,
+    type: DataTypes.INTEGER,
+  })
+  public assignToTechnicianId: number;
+
+  @BelongsTo(() => User, { foreignKey: 'assignToTechnicianId', as: 'assignToTechnicianUser' })
+  public assignToTechnicianUser: User;
+
+  @Column({
+    allowNull: false,
+    comment: 'How many days ahead the scheduler generates tickets',
+    defaultValue: 14,
+    type: DataTypes.INTEGER,
+  })
+  public generateDaysAhead: number;
+
+  @Column({
+    allowNull: true,
+    comment: 'Last date the scheduler has generated tickets up to',
+    type: DataTypes.DATEONLY,
+  })
+  public lastGeneratedUntil: string | null;
+
+  @Column({
+    allowNull: false,
+    defaultValue: true,
+    type: DataTypes.BOOLEAN,
+  })
+  public isActive: boolean;
+
+  @CreatedAt
+  @Column({
+    allowNull: false,
+    comment: 'PreventivePlan created DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('createdAt'),
+    set: setDate('createdAt'),
+    type: DataTypes.DATE,
+  })
+  public createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    allowNull: false,
+    comment: 'PreventivePlan updated DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('updatedAt'),
+    set: setDate('updatedAt'),
+    type: DataTypes.DATE,
+  })
+  public updatedAt: Date;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who created this record',
+    type: DataTypes.INTEGER,
+  })
+  public createdBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'createdBy', as: 'creator' })
+  public creator?: User | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who last updated this record',
+    type: DataTypes.INTEGER,
+  })
+  public updatedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'updatedBy', as: 'updater' })
+  public updater?: User | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime when record was deleted',
+    get: getDate('deletedAt'),
+    set: setDate('deletedAt'),
+    type: DataTypes.DATE,
+  })
+  public deletedAt: Date | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who deleted this record',
+    type: DataTypes.INTEGER,
+  })
+  public deletedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'deletedBy', as: 'deleter' })
+  public deleter?: User | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Whether the record is deleted (soft delete)',
+    defaultValue: false,
+    type: DataTypes.BOOLEAN,
+  })
+  public isDeleted: boolean;
+}
+
@@ -0,0 +1,157 @@
+import { DataTypes } from 'sequelize';
+import { BelongsTo, Column, CreatedAt, ForeignKey, Model, Table, UpdatedAt } from 'sequelize-typescript';
+
+import { Company } from './company.model';
+import { Contract } from './contract.model';
+import { Lookup } from './lookup.model';
+import { User } from './user.model';
+
+import { getDate, getIsoTimestamp, setDate } from '../../lib';
+
+@Table({
+  modelName: 'SlaPolicy',
+  tableName: 'sla_policies',
+  underscored: true,
+})
+export class SlaPolicy extends Model {
+  @Column({
+    allowNull: false,
+    autoIncrement: true,
+    primaryKey: true,
+    type: DataTypes.INTEGER,
+  })
+  public id: number;
+
+  @ForeignKey(() => Company)
+  @Column({
+    allowNull: false,
+    type: DataTypes.INTEGER,
+  })
+  public companyId: number;
+
+  @BelongsTo(() => Company, { foreignKey: 'companyId', as: 'company' })
+  public company: Company;
+
+  @ForeignKey(() => Contract)
+  @Column({
+    allowNull: true,
+    comment: 'Contract the policy applies to, null for the company-wide policy of the ticket type',
+    type: DataTypes.INTEGER,
+  })
+  public contractId: number | null;
+
+  @BelongsTo(() => Contract, { foreignKey: 'contractId', as: 'contract' })
+  public contract: Contract | null;
+
+  @ForeignKey(() => Lookup)
+  @Column({
+    allowNull: false,
+    type: DataTypes.INTEGER,
+  })
+  public ticketTypeId: number;
+
+  @BelongsTo(() => Lookup, { foreignKey: 'ticketTypeId', as: 'ticketTypeLookup' })
+  public ticketTypeLookup: Lookup;
+
+  @ForeignKey(() => Lookup)
+  @Column({
+    allowNull: false,
+    comment: 'RESPONSE_TIME lookup of the time allowed until the ticket is In Progress',
+    type: DataTypes.INTEGER,
+  })
+  public responseTimeLookupId: number;
+
+  @BelongsTo(() => Lookup, { foreignKey: 'responseTimeLookupId', as: 'responseTimeLookup' })
+  public responseTimeLookup: Lookup;
+
+  @ForeignKey(() => Lookup)
+  @Column({
+    allowNull: false,
+    comment: 'RESPONSE_TIME lookup of the time allowed until the ticket is Completed',
+    type: DataTypes.INTEGER,
+  })
+  public resolutionTimeLookupId: number;
+
+  @BelongsTo(() => Lookup, { foreignKey: 'resolutionTimeLookupId', as: 'resolutionTimeLookup' })
+  public resolutionTimeLookup: Lookup;
+
+  @Column({
+    allowNull: false,
+    defaultValue: true,
+    type: DataTypes.BOOLEAN,
+  })
+  public isActive: boolean;
+
+  @CreatedAt
+  @Column({
+    allowNull: false,
+    comment: 'SlaPolicy created DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('createdAt'),
+    set: setDate('createdAt'),
+    type: DataTypes.DATE,
+  })
+  public createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    allowNull: false,
+    comment: 'SlaPolicy updated DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('updatedAt'),
+    set: setDate('updatedAt'),
+    type: DataTypes.DATE,
+  })
+  public updatedAt: Date;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who created this record',
+    type: DataTypes.INTEGER,
+  })
+  public createdBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'createdBy', as: 'creator' })
+  public creator?: User | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who last updated this record',
+    type: DataTypes.INTEGER,
+  })
+  public updatedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'updatedBy', as: 'updater' })
+  public updater?: User | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime when record was deleted',
+    get: getDate('deletedAt'),
+    set: setDate('deletedAt'),
+    type: DataTypes.DATE,
+  })
+  public deletedAt: Date | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who deleted this record',
+    type: DataTypes.INTEGER,
+  })
+  public deletedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'deletedBy', as: 'deleter' })
+  public deleter?: User | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Whether the record is deleted (soft delete)',
+    defaultValue: false,
+    type: DataTypes.BOOLEAN,
+  })
+  public isDeleted: boolean;
+}
+
@@ -0,0 +1,69 @@
+import { DataTypes } from 'sequelize';
+import { BelongsTo, Column, CreatedAt, ForeignKey, Model, Table, UpdatedAt } from 'sequelize-typescript';
+
+import { Company } from './company.model';
+
+import { getDate, getIsoTimestamp, setDate } from '../../lib';
+
+@Table({
+  modelName: 'TicketCodeSequence',
+  tableName: 'ticket_code_sequences',
+  underscored: true,
+})
+export class TicketCodeSequence extends Model {
+  @Column({
+    allowNull: false,
+    autoIncrement: true,
+    primaryKey: true,
+    type: DataTypes.INTEGER,
+  })
+  public id: number;
+
+  @ForeignKey(() => Company)
+  @Column({
+    allowNull: false,
+    comment: 'Company the counter belongs to',
+    type: DataTypes.INTEGER,
+  })
+  public companyId: number;
+
+  @BelongsTo(() => Company, { foreignKey: 'companyId', as: 'company' })
+  public company: Company;
+
+  @Column({
+    allowNull: false,
+    comment: 'Year of the counter, 0 when the code format does not restart yearly',
+    type: DataTypes.INTEGER,
+  })
+  public year: number;
+
+  @Column({
+    allowNull: false,
+    comment: 'Last number used in a ticket code',
+    defaultValue: 0,
+    type: DataTypes.INTEGER,
+  })
+  public lastNumber: number;
+
+  @CreatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketCodeSequence created DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('createdAt'),
+    set: setDate('createdAt'),
+    type: DataTypes.DATE,
+  })
+  public createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketCodeSequence updated DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('updatedAt'),
+    set: setDate('updatedAt'),
+    type: DataTypes.DATE,
+  })
+  public updatedAt: Date;
+}
@@ -0,0 +1,129 @@
+import { DataTypes } from 'sequelize';
+import { BelongsTo, Column, CreatedAt, ForeignKey, Model, Table, UpdatedAt } from 'sequelize-typescript';
+
+import { Ticket } from './ticket.model';
+import { User } from './user.model';
+
+import { getDate, getIsoTimestamp, setDate } from '../../lib';
+
+@Table({
+  modelName: 'TicketComment',
+  tableName: 'ticket_comments',
+  underscored: true,
+})
+export class TicketComment extends Model {
+  @Column({
+    allowNull: false,
+    autoIncrement: true,
+    primaryKey: true,
+    type: DataTypes.INTEGER,
+  })
+  public id: number;
+
+  @ForeignKey(() => Ticket)
+  @Column({
+    allowNull: false,
+    type: DataTypes.INTEGER,
+  })
+  public ticketId: number;
+
+  @BelongsTo(() => Ticket, { foreignKey: 'ticketId', as: 'ticket' })
+  public ticket: Ticket;
+
+  @Column({
+    allowNull: false,
+    comment: 'Comment text (max 2000 characters)',
+    type: DataTypes.STRING(2000),
+  })
+  public body: string;
+
+  @Column({
+    allowNull: false,
+    comment: 'Internal notes are hidden from technicians',
+    defaultValue: false,
+    type: DataTypes.BOOLEAN,
+  })
+  public isInternal: boolean;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime when the comment text was last edited',
+    get: getDate('editedAt'),
+    set: setDate('editedAt'),
+    type: DataTypes.DATE,
+  })
+  public editedAt: Date | null;
+
+  @CreatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketComment created DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('createdAt'),
+    set: setDate('createdAt'),
+    type: DataTypes.DATE,
+  })
+  public createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketComment updated DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('updatedAt'),
+    set: setDate('updatedAt'),
+    type: DataTypes.DATE,
+  })
+  public updatedAt: Date;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who created this record',
+    type: DataTypes.INTEGER,
+  })
+  public createdBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'createdBy', as: 'creator' })
+  public creator?: User | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who last updated this record',
+    type: DataTypes.INTEGER,
+  })
+  public updatedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'updatedBy', as: 'updater' })
+  public updater?: User | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime when record was deleted',
+    get: getDate('deletedAt'),
+    set: setDate('deletedAt'),
+    type: DataTypes.DATE,
+  })
+  public deletedAt: Date | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who deleted this record',
+    type: DataTypes.INTEGER,
+  })
+  public deletedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'deletedBy', as: 'deleter' })
+  public deleter?: User | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Whether the record is deleted (soft delete)',
+    defaultValue: false,
+    type: DataTypes.BOOLEAN,
+  })
+  public isDeleted: boolean;
+}
+
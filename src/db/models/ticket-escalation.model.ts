@@ -0,0 +1,92 @@
+import { DataTypes } from 'sequelize';
+import { BelongsTo, Column, CreatedAt, ForeignKey, Model, Table, UpdatedAt } from 'sequelize-typescript';
+
+import { Ticket } from './ticket.model';
+
+import { getDate, getIsoTimestamp, setDate } from '../../lib';
+
+// Escalation chain of emergency tickets, in order
+export enum TicketEscalationLevel {
+  TEAM_LEADER = 'TEAM_LEADER',
+  COMPANY_ADMIN = 'COMPANY_ADMIN',
+  SUPER_USER = 'SUPER_USER',
+}
+
+@Table({
+  modelName: 'TicketEscalation',
+  tableName: 'ticket_escalations',
+  underscored: true,
+})
+export class TicketEscalation extends Model {
+  @Column({
+    allowNull: false,
+    autoIncrement: true,
+    primaryKey: true,
+    type: DataTypes.INTEGER,
+  })
+  public id: number;
+
+  @ForeignKey(() => Ticket)
+  @Column({
+    allowNull: false,
+    comment: 'Emergency ticket that was escalated',
+    type: DataTypes.INTEGER,
+  })
+  public ticketId: number;
+
+  @BelongsTo(() => Ticket, { foreignKey: 'ticketId', as: 'ticket' })
+  public ticket: Ticket;
+
+  @Column({
+    allowNull: false,
+    comment: 'Level of the escalation chain reached',
+    type: DataTypes.ENUM(...Object.values(TicketEscalationLevel)),
+  })
+  public level: TicketEscalationLevel;
+
+  @Column({
+    allowNull: false,
+    comment: 'Users notified of the escalation',
+    defaultValue: [],
+    type: DataTypes.JSONB,
+  })
+  public notifiedUserIds: number[];
+
+  @Column({
+    allowNull: false,
+    comment: 'Minutes the ticket had been pending when it was escalated',
+    type: DataTypes.INTEGER,
+  })
+  public minutesPending: number;
+
+  @Column({
+    allowNull: false,
+    comment: 'DateTime of the escalation',
+    get: getDate('escalatedAt'),
+    set: setDate('escalatedAt'),
+    type: DataTypes.DATE,
+  })
+  public escalatedAt: Date;
+
+  @CreatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketEscalation created DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('createdAt'),
+    set: setDate('createdAt'),
+    type: DataTypes.DATE,
+  })
+  public createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketEscalation updated DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('updatedAt'),
+    set: setDate('updatedAt'),
+    type: DataTypes.DATE,
+  })
+  public updatedAt: Date;
+}
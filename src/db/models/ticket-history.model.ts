@@ -0,0 +1,119 @@
+import { DataTypes } from 'sequelize';
+import { BelongsTo, Column, CreatedAt, ForeignKey, Model, Table, UpdatedAt } from 'sequelize-typescript';
+
+import { Ticket } from './ticket.model';
+import { User } from './user.model';
+
+import { getDate, getIsoTimestamp, setDate } from '../../lib';
+
+export enum TicketHistoryAction {
+  CREATED = 'CREATED',
+  UPDATED = 'UPDATED',
+  STATUS_CHANGED = 'STATUS_CHANGED',
+  FILES_LINKED = 'FILES_LINKED',
+  DELETED = 'DELETED',
+  RESTORED = 'RESTORED',
+  SCHEDULE_OVERLAP_OVERRIDDEN = 'SCHEDULE_OVERLAP_OVERRIDDEN',
+  QUOTA_OVERRIDDEN = 'QUOTA_OVERRIDDEN',
+  SLA_BREACHED = 'SLA_BREACHED',
+  CHECKED_IN = 'CHECKED_IN',
+  CHECKED_OUT = 'CHECKED_OUT',
+  SIGNED_OFF = 'SIGNED_OFF',
+  MATERIAL_ADDED = 'MATERIAL_ADDED',
+  MATERIAL_UPDATED = 'MATERIAL_UPDATED',
+  MATERIAL_REMOVED = 'MATERIAL_REMOVED',
+  MATERIAL_APPROVED = 'MATERIAL_APPROVED',
+  MATERIAL_REJECTED = 'MATERIAL_REJECTED',
+  TOOL_CHECKED_OUT = 'TOOL_CHECKED_OUT',
+  TOOL_RETURNED = 'TOOL_RETURNED',
+  ADDITIONAL_WORK_SUBMITTED = 'ADDITIONAL_WORK_SUBMITTED',
+  ADDITIONAL_WORK_STATUS_CHANGED = 'ADDITIONAL_WORK_STATUS_CHANGED',
+  REASSIGNED = 'REASSIGNED',
+  ESCALATED = 'ESCALATED',
+}
+
+export interface TicketFieldChange {
+  field: string;
+  oldValue: any;
+  newValue: any;
+}
+
+@Table({
+  modelName: 'TicketHistory',
+  tableName: 'ticket_history',
+  underscored: true,
+})
+export class TicketHistory extends Model {
+  @Column({
+    allowNull: false,
+    autoIncrement: true,
+    primaryKey: true,
+    type: DataTypes.INTEGER,
+  })
+  public id: number;
+
+  @ForeignKey(() => Ticket)
+  @Column({
+    allowNull: false,
+    type: DataTypes.INTEGER,
+  })
+  public ticketId: number;
+
+  @BelongsTo(() => Ticket, { foreignKey: 'ticketId', as: 'ticket' })
+  public ticket: Ticket;
+
+  @Column({
+    allowNull: false,
+    type: DataTypes.ENUM(...Object.values(TicketHistoryAction)),
+  })
+  public action: TicketHistoryAction;
+
+  @Column({
+    allowNull: false,
+    comment: 'Array of field changes ({ field, oldValue, newValue })',
+    defaultValue: [],
+    type: DataTypes.JSONB,
+  })
+  public changes: TicketFieldChange[];
+
+  @Column({
+    allowNull: false,
+    comment: 'Source of the change: Web (frontend-oms) or Mobile (mobile-mms)',
+    defaultValue: 'Mobile',
+    type: DataTypes.STRING(20),
+  })
+  public source: string;
+
+  @CreatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketHistory created DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('createdAt'),
+    set: setDate('createdAt'),
+    type: DataTypes.DATE,
+  })
+  public createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketHistory updated DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('updatedAt'),
+    set: setDate('updatedAt'),
+    type: DataTypes.DATE,
+  })
+  public updatedAt: Date;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who made the change',
+    type: DataTypes.INTEGER,
+  })
+  public createdBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'createdBy', as: 'creator' })
+  public creator?: User | null;
+}
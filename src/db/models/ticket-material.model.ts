@@ -0,0 +1,194 @@
+import { DataTypes } from 'sequelize';
+import { BelongsTo, Column, CreatedAt, ForeignKey, Model, Table, UpdatedAt } from 'sequelize-typescript';
+
+import { Ticket } from './ticket.model';
+import { User } from './user.model';
+
+import { getDate, getIsoTimestamp, setDate } from '../../lib';
+
+export enum TicketMaterialSupplier {
+  CLIENT = 'CLIENT',
+  WEFIX = 'WEFIX',
+}
+
+export enum TicketMaterialStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+}
+
+@Table({
+  modelName: 'TicketMaterial',
+  tableName: 'ticket_materials',
+  underscored: true,
+})
+export class TicketMaterial extends Model {
+  @Column({
+    allowNull: false,
+    autoIncrement: true,
+    primaryKey: true,
+    type: DataTypes.INTEGER,
+  })
+  public id: number;
+
+  @ForeignKey(() => Ticket)
+  @Column({
+    allowNull: false,
+    comment: 'Ticket the material was used on',
+    type: DataTypes.INTEGER,
+  })
+  public ticketId: number;
+
+  @BelongsTo(() => Ticket, { foreignKey: 'ticketId', as: 'ticket' })
+  public ticket: Ticket;
+
+  @Column({
+    allowNull: false,
+    comment: 'Material name',
+    type: DataTypes.STRING(100),
+  })
+  public itemName: string;
+
+  @Column({
+    allowNull: true,
+    comment: 'Optional material code (SKU or catalog number)',
+    type: DataTypes.STRING(50),
+  })
+  public itemCode: string | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Quantity used, in unit',
+    type: DataTypes.DECIMAL(10, 2),
+  })
+  public quantity: number;
+
+  @Column({
+    allowNull: false,
+    comment: 'Unit of the quantity (e.g., piece, meter, liter)',
+    type: DataTypes.STRING(20),
+  })
+  public unit: string;
+
+  @Column({
+    allowNull: false,
+    comment: 'Cost of one unit',
+    type: DataTypes.DECIMAL(12, 3),
+  })
+  public unitCost: number;
+
+  @Column({
+    allowNull: false,
+    comment: 'Who supplied the material: the client or WeFix',
+    type: DataTypes.ENUM(...Object.values(TicketMaterialSupplier)),
+  })
+  public suppliedBy: TicketMaterialSupplier;
+
+  @Column({
+    allowNull: false,
+    comment: 'Approval status, materials added by technicians wait for a team leader',
+    defaultValue: TicketMaterialStatus.PENDING,
+    type: DataTypes.ENUM(...Object.values(TicketMaterialStatus)),
+  })
+  public status: TicketMaterialStatus;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who approved or rejected the material',
+    type: DataTypes.INTEGER,
+  })
+  public reviewedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'reviewedBy', as: 'reviewer' })
+  public reviewer?: User | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime when the material was approved or rejected',
+    get: getDate('reviewedAt'),
+    set: setDate('reviewedAt'),
+    type: DataTypes.DATE,
+  })
+  public reviewedAt: Date | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'Reason given when the material was rejected',
+    type: DataTypes.STRING(500),
+  })
+  public reviewNote: string | null;
+
+  @CreatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketMaterial created DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('createdAt'),
+    set: setDate('createdAt'),
+    type: DataTypes.DATE,
+  })
+  public createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketMaterial updated DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('updatedAt'),
+    set: setDate('updatedAt'),
+    type: DataTypes.DATE,
+  })
+  public updatedAt: Date;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who created this record',
+    type: DataTypes.INTEGER,
+  })
+  public createdBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'createdBy', as: 'creator' })
+  public creator?: User | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who last updated this record',
+    type: DataTypes.INTEGER,
+  })
+  public updatedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'updatedBy', as: 'updater' })
+  public updater?: User | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime when record was deleted',
+    get: getDate('deletedAt'),
+    set: setDate('deletedAt'),
+    type: DataTypes.DATE,
+  })
+  public deletedAt: Date | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who deleted this record',
+    type: DataTypes.INTEGER,
+  })
+  public deletedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'deletedBy', as: 'deleter' })
+  public deleter?: User | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Whether the record is deleted (soft delete)',
+    defaultValue: false,
+    type: DataTypes.BOOLEAN,
+  })
+  public isDeleted: boolean;
+}
+
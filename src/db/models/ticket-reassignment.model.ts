@@ -0,0 +1,173 @@
+import { DataTypes } from 'sequelize';
+import { BelongsTo, Column, CreatedAt, ForeignKey, Model, Table, UpdatedAt } from 'sequelize-typescript';
+
+import { Ticket } from './ticket.model';
+import { User } from './user.model';
+
+import { getDate, getIsoTimestamp, setDate } from '../../lib';
+
+export enum TicketReassignmentReason {
+  TECHNICIAN_UNAVAILABLE = 'TECHNICIAN_UNAVAILABLE',
+  SKILL_MISMATCH = 'SKILL_MISMATCH',
+  WORKLOAD_BALANCING = 'WORKLOAD_BALANCING',
+  SCHEDULE_CONFLICT = 'SCHEDULE_CONFLICT',
+  CUSTOMER_REQUEST = 'CUSTOMER_REQUEST',
+  OTHER = 'OTHER',
+}
+
+@Table({
+  modelName: 'TicketReassignment',
+  tableName: 'ticket_reassignments',
+  underscored: true,
+})
+export class TicketReassignment extends Model {
+  @Column({
+    allowNull: false,
+    autoIncrement: true,
+    primaryKey: true,
+    type: DataTypes.INTEGER,
+  })
+  public id: number;
+
+  @ForeignKey(() => Ticket)
+  @Column({
+    allowNull: false,
+    comment: 'Ticket that was reassigned',
+    type: DataTypes.INTEGER,
+  })
+  public ticketId: number;
+
+  @BelongsTo(() => Ticket, { foreignKey: 'ticketId', as: 'ticket' })
+  public ticket: Ticket;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'Team leader before the reassignment',
+    type: DataTypes.INTEGER,
+  })
+  public fromTeamLeaderId: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'fromTeamLeaderId', as: 'fromTeamLeader' })
+  public fromTeamLeader?: User | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: false,
+    comment: 'Team leader after the reassignment',
+    type: DataTypes.INTEGER,
+  })
+  public toTeamLeaderId: number;
+
+  @BelongsTo(() => User, { foreignKey: 'toTeamLeaderId', as: 'toTeamLeader' })
+  public toTeamLeader?: User | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'Technician before the reassignment',
+    type: DataTypes.INTEGER,
+  })
+  public fromTechnicianId: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'fromTechnicianId', as: 'fromTechnician' })
+  public fromTechnician?: User | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: false,
+    comment: 'Technician after the reassignment',
+    type: DataTypes.INTEGER,
+  })
+  public toTechnicianId: number;
+
+  @BelongsTo(() => User, { foreignKey: 'toTechnicianId', as: 'toTechnician' })
+  public toTechnician?: User | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Why the ticket was reassigned',
+    type: DataTypes.ENUM(...Object.values(TicketReassignmentReason)),
+  })
+  public reasonCode: TicketReassignmentReason;
+
+  @Column({
+    allowNull: true,
+    comment: 'Free text explanation, required for the OTHER reason',
+    type: DataTypes.STRING(500),
+  })
+  public reasonNote: string | null;
+
+  @CreatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketReassignment created DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('createdAt'),
+    set: setDate('createdAt'),
+    type: DataTypes.DATE,
+  })
+  public createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketReassignment updated DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('updatedAt'),
+    set: setDate('updatedAt'),
+    type: DataTypes.DATE,
+  })
+  public updatedAt: Date;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who created this record',
+    type: DataTypes.INTEGER,
+  })
+  public createdBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'createdBy', as: 'creator' })
+  public creator?: User | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who last updated this record',
+    type: DataTypes.INTEGER,
+  })
+  public updatedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'updatedBy', as: 'updater' })
+  public updater?: User | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime when record was deleted',
+    get: getDate('deletedAt'),
+    set: setDate('deletedAt'),
+    type: DataTypes.DATE,
+  })
+  public deletedAt: Date | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who deleted this record',
+    type: DataTypes.INTEGER,
+  })
+  public deletedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'deletedBy', as: 'deleter' })
+  public deleter?: User | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Whether the record is deleted (soft delete)',
+    defaultValue: false,
+    type: DataTypes.BOOLEAN,
+  })
+  public isDeleted: boolean;
+}
+
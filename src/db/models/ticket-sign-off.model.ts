@@ -0,0 +1,161 @@
+import { DataTypes } from 'sequelize';
+import { BelongsTo, Column, CreatedAt, ForeignKey, Model, Table, UpdatedAt } from 'sequelize-typescript';
+
+import { File } from './file.model';
+import { Ticket } from './ticket.model';
+import { User } from './user.model';
+
+import { getDate, getIsoTimestamp, setDate } from '../../lib';
+
+@Table({
+  modelName: 'TicketSignOff',
+  tableName: 'ticket_sign_offs',
+  underscored: true,
+})
+export class TicketSignOff extends Model {
+  @Column({
+    allowNull: false,
+    autoIncrement: true,
+    primaryKey: true,
+    type: DataTypes.INTEGER,
+  })
+  public id: number;
+
+  @ForeignKey(() => Ticket)
+  @Column({
+    allowNull: false,
+    comment: 'Ticket signed off, one sign-off per ticket',
+    type: DataTypes.INTEGER,
+    unique: true,
+  })
+  public ticketId: number;
+
+  @BelongsTo(() => Ticket, { foreignKey: 'ticketId', as: 'ticket' })
+  public ticket: Ticket;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: false,
+    comment: 'Technician assigned to the ticket when it was signed off, the rating counts towards this technician',
+    type: DataTypes.INTEGER,
+  })
+  public technicianId: number;
+
+  @BelongsTo(() => User, { foreignKey: 'technicianId', as: 'technician' })
+  public technician: User;
+
+  @ForeignKey(() => File)
+  @Column({
+    allowNull: false,
+    comment: 'Customer signature image (file category signature)',
+    type: DataTypes.INTEGER,
+  })
+  public signatureFileId: number;
+
+  @BelongsTo(() => File, { foreignKey: 'signatureFileId', as: 'signatureFile', constraints: false })
+  public signatureFile?: File;
+
+  @Column({
+    allowNull: false,
+    comment: 'Name of the customer who signed',
+    type: DataTypes.STRING(100),
+  })
+  public signerName: string;
+
+  @Column({
+    allowNull: false,
+    comment: 'Customer satisfaction rating from 1 to 5',
+    type: DataTypes.INTEGER,
+    validate: { max: 5, min: 1 },
+  })
+  public rating: number;
+
+  @Column({
+    allowNull: true,
+    comment: 'Optional customer comment',
+    type: DataTypes.STRING(1000),
+  })
+  public comment: string | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'DateTime when the customer signed',
+    get: getDate('signedAt'),
+    set: setDate('signedAt'),
+    type: DataTypes.DATE,
+  })
+  public signedAt: Date;
+
+  @CreatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketSignOff created DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('createdAt'),
+    set: setDate('createdAt'),
+    type: DataTypes.DATE,
+  })
+  public createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketSignOff updated DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('updatedAt'),
+    set: setDate('updatedAt'),
+    type: DataTypes.DATE,
+  })
+  public updatedAt: Date;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who created this record',
+    type: DataTypes.INTEGER,
+  })
+  public createdBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'createdBy', as: 'creator' })
+  public creator?: User | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who last updated this record',
+    type: DataTypes.INTEGER,
+  })
+  public updatedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'updatedBy', as: 'updater' })
+  public updater?: User | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime when record was deleted',
+    get: getDate('deletedAt'),
+    set: setDate('deletedAt'),
+    type: DataTypes.DATE,
+  })
+  public deletedAt: Date | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who deleted this record',
+    type: DataTypes.INTEGER,
+  })
+  public deletedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'deletedBy', as: 'deleter' })
+  public deleter?: User | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Whether the record is deleted (soft delete)',
+    defaultValue: false,
+    type: DataTypes.BOOLEAN,
+  })
+  public isDeleted: boolean;
+}
+
@@ -0,0 +1,173 @@
+import { DataTypes } from 'sequelize';
+import { BelongsTo, Column, CreatedAt, ForeignKey, Model, Table, UpdatedAt } from 'sequelize-typescript';
+
+import { BranchTool } from './branch-tool.model';
+import { Ticket } from './ticket.model';
+import { User } from './user.model';
+
+import { getDate, getIsoTimestamp, setDate } from '../../lib';
+
+@Table({
+  modelName: 'TicketToolCheckout',
+  tableName: 'ticket_tool_checkouts',
+  underscored: true,
+})
+export class TicketToolCheckout extends Model {
+  @Column({
+    allowNull: false,
+    autoIncrement: true,
+    primaryKey: true,
+    type: DataTypes.INTEGER,
+  })
+  public id: number;
+
+  @ForeignKey(() => Ticket)
+  @Column({
+    allowNull: false,
+    comment: 'Ticket the tool was checked out for',
+    type: DataTypes.INTEGER,
+  })
+  public ticketId: number;
+
+  @BelongsTo(() => Ticket, { foreignKey: 'ticketId', as: 'ticket' })
+  public ticket: Ticket;
+
+  @ForeignKey(() => BranchTool)
+  @Column({
+    allowNull: false,
+    comment: 'Branch inventory line the tool was taken from',
+    type: DataTypes.INTEGER,
+  })
+  public branchToolId: number;
+
+  @BelongsTo(() => BranchTool, { foreignKey: 'branchToolId', as: 'branchTool' })
+  public branchTool: BranchTool;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: false,
+    comment: 'Technician holding the tool',
+    type: DataTypes.INTEGER,
+  })
+  public technicianId: number;
+
+  @BelongsTo(() => User, { foreignKey: 'technicianId', as: 'technician' })
+  public technician: User;
+
+  @Column({
+    allowNull: false,
+    comment: 'Number of units checked out',
+    defaultValue: 1,
+    type: DataTypes.INTEGER,
+  })
+  public quantity: number;
+
+  @Column({
+    allowNull: true,
+    comment: 'Serial number of the unit, when the branch tracks serial numbers',
+    type: DataTypes.STRING(100),
+  })
+  public serialNumber: string | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'DateTime of the checkout',
+    get: getDate('checkedOutAt'),
+    set: setDate('checkedOutAt'),
+    type: DataTypes.DATE,
+  })
+  public checkedOutAt: Date;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime of the return (null while the technician holds the tool)',
+    get: getDate('returnedAt'),
+    set: setDate('returnedAt'),
+    type: DataTypes.DATE,
+  })
+  public returnedAt: Date | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who recorded the return',
+    type: DataTypes.INTEGER,
+  })
+  public returnedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'returnedBy', as: 'returner' })
+  public returner?: User | null;
+
+  @CreatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketToolCheckout created DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('createdAt'),
+    set: setDate('createdAt'),
+    type: DataTypes.DATE,
+  })
+  public createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketToolCheckout updated DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('updatedAt'),
+    set: setDate('updatedAt'),
+    type: DataTypes.DATE,
+  })
+  public updatedAt: Date;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who created this record',
+    type: DataTypes.INTEGER,
+  })
+  public createdBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'createdBy', as: 'creator' })
+  public creator?: User | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who last updated this record',
+    type: DataTypes.INTEGER,
+  })
+  public updatedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'updatedBy', as: 'updater' })
+  public updater?: User | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime when record was deleted',
+    get: getDate('deletedAt'),
+    set: setDate('deletedAt'),
+    type: DataTypes.DATE,
+  })
+  public deletedAt: Date | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who deleted this record',
+    type: DataTypes.INTEGER,
+  })
+  public deletedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'deletedBy', as: 'deleter' })
+  public deleter?: User | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Whether the record is deleted (soft delete)',
+    defaultValue: false,
+    type: DataTypes.BOOLEAN,
+  })
+  public isDeleted: boolean;
+}
+
@@ -0,0 +1,215 @@
+import { DataTypes } from 'sequelize';
+import { BelongsTo, Column, CreatedAt, ForeignKey, Model, Table, UpdatedAt } from 'sequelize-typescript';
+
+import { File } from './file.model';
+import { Ticket } from './ticket.model';
+import { User } from './user.model';
+
+import { getDate, getIsoTimestamp, setDate } from '../../lib';
+
+@Table({
+  modelName: 'TicketVisit',
+  tableName: 'ticket_visits',
+  underscored: true,
+})
+export class TicketVisit extends Model {
+  @Column({
+    allowNull: false,
+    autoIncrement: true,
+    primaryKey: true,
+    type: DataTypes.INTEGER,
+  })
+  public id: number;
+
+  @ForeignKey(() => Ticket)
+  @Column({
+    allowNull: false,
+    type: DataTypes.INTEGER,
+  })
+  public ticketId: number;
+
+  @BelongsTo(() => Ticket, { foreignKey: 'ticketId', as: 'ticket' })
+  public ticket: Ticket;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: false,
+    comment: 'Technician who checked in',
+    type: DataTypes.INTEGER,
+  })
+  public technicianId: number;
+
+  @BelongsTo(() => User, { foreignKey: 'technicianId', as: 'technician' })
+  public technician: User;
+
+  @Column({
+    allowNull: false,
+    comment: 'DateTime of the check-in',
+    get: getDate('checkInAt'),
+    set: setDate('checkInAt'),
+    type: DataTypes.DATE,
+  })
+  public checkInAt: Date;
+
+  @Column({
+    allowNull: false,
+    comment: 'Latitude reported at check-in',
+    type: DataTypes.DOUBLE,
+  })
+  public checkInLatitude: number;
+
+  @Column({
+    allowNull: false,
+    comment: 'Longitude reported at check-in',
+    type: DataTypes.DOUBLE,
+  })
+  public checkInLongitude: number;
+
+  @Column({
+    allowNull: true,
+    comment: 'Distance in meters between the check-in location and the ticket locationMap (null when unknown)',
+    type: DataTypes.INTEGER,
+  })
+  public checkInDistanceMeters: number | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Whether the check-in location was further than the allowed distance from the ticket location',
+    defaultValue: false,
+    type: DataTypes.BOOLEAN,
+  })
+  public checkInTooFar: boolean;
+
+  @ForeignKey(() => File)
+  @Column({
+    allowNull: true,
+    comment: 'Photo taken at check-in',
+    type: DataTypes.INTEGER,
+  })
+  public checkInPhotoFileId: number | null;
+
+  @BelongsTo(() => File, { foreignKey: 'checkInPhotoFileId', as: 'checkInPhoto', constraints: false })
+  public checkInPhoto?: File | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime of the check-out',
+    get: getDate('checkOutAt'),
+    set: setDate('checkOutAt'),
+    type: DataTypes.DATE,
+  })
+  public checkOutAt: Date | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'Latitude reported at check-out',
+    type: DataTypes.DOUBLE,
+  })
+  public checkOutLatitude: number | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'Longitude reported at check-out',
+    type: DataTypes.DOUBLE,
+  })
+  public checkOutLongitude: number | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'Distance in meters between the check-out location and the ticket locationMap (null when unknown)',
+    type: DataTypes.INTEGER,
+  })
+  public checkOutDistanceMeters: number | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Whether the check-out location was further than the allowed distance from the ticket location',
+    defaultValue: false,
+    type: DataTypes.BOOLEAN,
+  })
+  public checkOutTooFar: boolean;
+
+  @ForeignKey(() => File)
+  @Column({
+    allowNull: true,
+    comment: 'Photo taken at check-out',
+    type: DataTypes.INTEGER,
+  })
+  public checkOutPhotoFileId: number | null;
+
+  @BelongsTo(() => File, { foreignKey: 'checkOutPhotoFileId', as: 'checkOutPhoto', constraints: false })
+  public checkOutPhoto?: File | null;
+
+  @CreatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketVisit created DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('createdAt'),
+    set: setDate('createdAt'),
+    type: DataTypes.DATE,
+  })
+  public createdAt: Date;
+
+  @UpdatedAt
+  @Column({
+    allowNull: false,
+    comment: 'TicketVisit updated DateTime',
+    defaultValue: getIsoTimestamp,
+    get: getDate('updatedAt'),
+    set: setDate('updatedAt'),
+    type: DataTypes.DATE,
+  })
+  public updatedAt: Date;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who created this record',
+    type: DataTypes.INTEGER,
+  })
+  public createdBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'createdBy', as: 'creator' })
+  public creator?: User | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who last updated this record',
+    type: DataTypes.INTEGER,
+  })
+  public updatedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'updatedBy', as: 'updater' })
+  public updater?: User | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime when record was deleted',
+    get: getDate('deletedAt'),
+    set: setDate('deletedAt'),
+    type: DataTypes.DATE,
+  })
+  public deletedAt: Date | null;
+
+  @ForeignKey(() => User)
+  @Column({
+    allowNull: true,
+    comment: 'User who deleted this record',
+    type: DataTypes.INTEGER,
+  })
+  public deletedBy: number | null;
+
+  @BelongsTo(() => User, { foreignKey: 'deletedBy', as: 'deleter' })
+  public deleter?: User | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Whether the record is deleted (soft delete)',
+    defaultValue: false,
+    type: DataTypes.BOOLEAN,
+  })
+  public isDeleted: boolean;
+}
+
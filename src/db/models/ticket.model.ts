@@ -5,6 +5,8 @@ import { Branch } from './branch.model';
 import { Company } from './company.model';
 import { Contract } from './contract.model';
 import { Lookup } from './lookup.model';
+import { PreventivePlan } from './preventive-plan.model';
+import { SlaPolicy } from './sla-policy.model';
 import { User } from './user.model';
 import { Zone } from './zone.model';
 
@@ -27,7 +29,7 @@ export class Ticket extends Model {
   @Column({
     allowNull: false,
     type: DataTypes.STRING(50),
-    comment: 'Alphanumeric ticket code with company shortcode (e.g., COMP001-TKT-001)',
+    comment: 'Ticket code from the company shortcode and counter, unique per company (e.g., WEFIX-2026-00001)',
   })
   public ticketCodeId: string;
 
@@ -262,6 +264,13 @@ export class Ticket extends Model {
   @BelongsTo(() => User, { foreignKey: 'deletedBy', as: 'deleter' })
   public deleter?: User | null;
 
+  @Column({
+    allowNull: true,
+    comment: 'Reason given when the ticket was deleted',
+    type: DataTypes.STRING(500),
+  })
+  public deleteReason: string | null;
+
   @Column({
     allowNull: false,
     comment: 'Whether the record is deleted (soft delete)',
@@ -270,6 +279,80 @@ export class Ticket extends Model {
   })
   public isDeleted: boolean;
 
+  @ForeignKey(() => PreventivePlan)
+  @Column({
+    allowNull: true,
+    comment: 'Preventive maintenance plan that generated this ticket',
+    type: DataTypes.INTEGER,
+  })
+  public preventivePlanId: number | null;
+
+  @BelongsTo(() => PreventivePlan, { foreignKey: 'preventivePlanId', as: 'preventivePlan' })
+  public preventivePlan?: PreventivePlan | null;
+
+  @ForeignKey(() => SlaPolicy)
+  @Column({
+    allowNull: true,
+    comment: 'SLA policy the due times were computed from',
+    type: DataTypes.INTEGER,
+  })
+  public slaPolicyId: number | null;
+
+  @BelongsTo(() => SlaPolicy, { foreignKey: 'slaPolicyId', as: 'slaPolicy' })
+  public slaPolicy?: SlaPolicy | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime by which the ticket must be In Progress',
+    get: getDate('responseDueAt'),
+    set: setDate('responseDueAt'),
+    type: DataTypes.DATE,
+  })
+  public responseDueAt: Date | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime by which the ticket must be Completed',
+    get: getDate('resolutionDueAt'),
+    set: setDate('resolutionDueAt'),
+    type: DataTypes.DATE,
+  })
+  public resolutionDueAt: Date | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime when the ticket first moved to In Progress',
+    get: getDate('respondedAt'),
+    set: setDate('respondedAt'),
+    type: DataTypes.DATE,
+  })
+  public respondedAt: Date | null;
+
+  @Column({
+    allowNull: true,
+    comment: 'DateTime when the ticket was Completed',
+    get: getDate('resolvedAt'),
+    set: setDate('resolvedAt'),
+    type: DataTypes.DATE,
+  })
+  public resolvedAt: Date | null;
+
+  @Column({
+    allowNull: false,
+    comment: 'Whether the ticket moved to In Progress after responseDueAt',
+    defaultValue: false,
+    type: DataTypes.BOOLEAN,
+  })
+  public responseBreached: boolean;
+
+  @Column({
+    allowNull: false,
+    comment: 'Whether the ticket was Completed after resolutionDueAt',
+    defaultValue: false,
+    type: DataTypes.BOOLEAN,
+  })
+  public resolutionBreached: boolean;
+
   @Column({
     allowNull: false,
     defaultValue: 'Web',
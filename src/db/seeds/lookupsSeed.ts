@@ -878,6 +878,18 @@ export const TICKET_TYPES: readonly LookupData[] = [
     orderId: 2,
     parentLookupId: null,
   },
+  {
+    category: LookupCategory.TICKET_TYPE,
+    code: 'PREV',
+    description: 'Preventive maintenance ticket generated from a preventive plan',
+    id: 202,
+    isActive: true,
+    isDefault: false,
+    name: 'Preventive',
+    nameArabic: 'وقائي',
+    orderId: 3,
+    parentLookupId: null,
+  },
 ];
 
 // Ticket Statuses
@@ -932,6 +944,94 @@ export const TICKET_STATUSES: readonly LookupData[] = [
   },
 ];
 
+// Response Times (SLA targets, the code encodes the duration: RT_<number><M|H|D>)
+export const RESPONSE_TIMES: readonly LookupData[] = [
+  {
+    category: LookupCategory.RESPONSE_TIME,
+    code: 'RT_1H',
+    description: 'SLA target of 1 hour',
+    id: 300,
+    isActive: true,
+    isDefault: false,
+    name: '1 Hour',
+    nameArabic: 'ساعة واحدة',
+    orderId: 1,
+    parentLookupId: null,
+  },
+  {
+    category: LookupCategory.RESPONSE_TIME,
+    code: 'RT_2H',
+    description: 'SLA target of 2 hours',
+    id: 301,
+    isActive: true,
+    isDefault: false,
+    name: '2 Hours',
+    nameArabic: 'ساعتان',
+    orderId: 2,
+    parentLookupId: null,
+  },
+  {
+    category: LookupCategory.RESPONSE_TIME,
+    code: 'RT_4H',
+    description: 'SLA target of 4 hours',
+    id: 302,
+    isActive: true,
+    isDefault: false,
+    name: '4 Hours',
+    nameArabic: '4 ساعات',
+    orderId: 3,
+    parentLookupId: null,
+  },
+  {
+    category: LookupCategory.RESPONSE_TIME,
+    code: 'RT_8H',
+    description: 'SLA target of 8 hours',
+    id: 303,
+    isActive: true,
+    isDefault: false,
+    name: '8 Hours',
+    nameArabic: '8 ساعات',
+    orderId: 4,
+    parentLookupId: null,
+  },
+  {
+    category: LookupCategory.RESPONSE_TIME,
+    code: 'RT_24H',
+    description: 'SLA target of 24 hours',
+    id: 304,
+    isActive: true,
+    isDefault: true,
+    name: '24 Hours',
+    nameArabic: '24 ساعة',
+    orderId: 5,
+    parentLookupId: null,
+  },
+  {
+    category: LookupCategory.RESPONSE_TIME,
+    code: 'RT_48H',
+    description: 'SLA target of 48 hours',
+    id: 305,
+    isActive: true,
+    isDefault: false,
+    name: '48 Hours',
+    nameArabic: '48 ساعة',
+    orderId: 6,
+    parentLookupId: null,
+  },
+  {
+    category: LookupCategory.RESPONSE_TIME,
+    code: 'RT_72H',
+    description: 'SLA target of 72 hours',
+    id: 306,
+    isActive: true,
+    isDefault: false,
+    name: '72 Hours',
+    nameArabic: '72 ساعة',
+    orderId: 7,
+    parentLookupId: null,
+  },
+];
+
 export const LOOKUP_DATA: readonly LookupData[] = [
   ...BUSINESS_MODELS,
   ...COUNTRIES,
@@ -943,5 +1043,6 @@ export const LOOKUP_DATA: readonly LookupData[] = [
   ...TICKET_CODES,
   ...TICKET_TYPES,
   ...TICKET_STATUSES,
+  ...RESPONSE_TIMES,
 ];
 
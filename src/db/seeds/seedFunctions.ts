@@ -15,6 +15,7 @@ import { USER_DATA } from './usersSeed';
 const hashedPassword = '$2b$10$Q4bQvCwOaZZYpLm5aYvWauQx5lfuY.zXzXk3knSiro2VO1iMyHOy6';
 import { ZONES_DATA, SALT_BRANCH_ZONES } from './zonesSeed';
 
+import { generateTicketCode } from '../../RESTful/services/ticket/ticket-code.service';
 import { Branch } from '../models/branch.model';
 import { Company } from '../models/company.model';
 import { Contract } from '../models/contract.model';
@@ -1275,37 +1276,34 @@ export const seedTickets = async (force: boolean = false): Promise<void> => {
           throw new Error(`No technician available for ticket ${i + 1}`);
         }
 
-        // Create ticket first (we need the ticket ID to generate the code)
-        const ticket = await Ticket.create({
-          ticketCodeId: 'TEMP', // Temporary value, will be updated after creation
-          companyId: company.id,
-          contractId: contract.id,
-          branchId: branch.id,
-          zoneId: zone.id,
-          locationMap: ticketData.locationMap,
-          ticketTitle: ticketData.ticketTitle,
-          ticketTypeId: ticketType.id,
-          ticketStatusId: ticketStatus.id,
-          ticketDate: ticketData.ticketDate,
-          ticketTimeFrom: ticketData.ticketTimeFrom,
-          ticketTimeTo: ticketData.ticketTimeTo,
-          assignToTeamLeaderId: teamLeader.id,
-          assignToTechnicianId: technician.id,
-          ticketDescription: ticketData.ticketDescription,
-          havingFemaleEngineer: ticketData.havingFemaleEngineer,
-          mainServiceId: mainService.id,
-          serviceDescription: ticketData.serviceDescription,
-          tools: ticketData.tools,
+        // Ticket code from the company counter, taken in the inserting transaction (see generateTicketCode)
+        await orm.sequelize.transaction(async transaction => {
+          await Ticket.create(
+            {
+              ticketCodeId: await generateTicketCode(company, transaction),
+              companyId: company.id,
+              contractId: contract.id,
+              branchId: branch.id,
+              zoneId: zone.id,
+              locationMap: ticketData.locationMap,
+              ticketTitle: ticketData.ticketTitle,
+              ticketTypeId: ticketType.id,
+              ticketStatusId: ticketStatus.id,
+              ticketDate: ticketData.ticketDate,
+              ticketTimeFrom: ticketData.ticketTimeFrom,
+              ticketTimeTo: ticketData.ticketTimeTo,
+              assignToTeamLeaderId: teamLeader.id,
+              assignToTechnicianId: technician.id,
+              ticketDescription: ticketData.ticketDescription,
+              havingFemaleEngineer: ticketData.havingFemaleEngineer,
+              mainServiceId: mainService.id,
+              serviceDescription: ticketData.serviceDescription,
+              tools: ticketData.tools,
+            },
+            { transaction }
+          );
         });
 
-        // Generate ticket code (format: {COMPANY_NAME}-TKT-{TICKET_ID})
-        // Extract company name from title and convert to uppercase (e.g., "gamma solutions" -> "GAMMA")
-        const companyName = company.title.toUpperCase().split(' ')[0]; // Take first word and uppercase
-        const ticketCodeId = `${companyName}-TKT-${ticket.id}`;
-        
-        // Update ticket with the generated code
-        await ticket.update({ ticketCodeId });
-
         createdCount++;
       } catch (error: any) {
         console.error(`   ⚠️  Error creating ticket:`, error.message);
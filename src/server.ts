@@ -11,6 +11,7 @@ import createMiddleware from 'redoc-express';
 import { Umzug } from 'umzug'
 
 import { openApiSpec } from './RESTful/docs/openapi';
+import { startSchedulers } from './RESTful/jobs/scheduler';
 import { errorHandler } from './RESTful/middleware/error.middleware';
 import apiRoutes from './RESTful/routes';
 import { User } from './db/models'
@@ -417,6 +418,7 @@ export class Server {
     this.setupRoutes()
     this.listen()
     await this.seeds()
+    startSchedulers()
   }
 }
 
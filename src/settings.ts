@@ -20,3 +20,41 @@ export const apiConfig = {
   port: process.env.PORT || 4000,
   nodeEnv: process.env.NODE_ENV || 'development',
 }
+
+export const contractConfig = {
+  // Days after contractEndDate during which tickets can still be raised against the contract
+  graceDays: Number(process.env.CONTRACT_GRACE_DAYS) || 0,
+  // Contracts ending within this many days are flagged as expiring soon
+  expiringSoonDays: Number(process.env.CONTRACT_EXPIRING_SOON_DAYS) || 30,
+}
+
+export const schedulerConfig = {
+  // Set SCHEDULER_ENABLED=false on extra instances so scheduled jobs only run once
+  enabled: process.env.SCHEDULER_ENABLED !== 'false',
+  // Cron expression of the preventive plan ticket generation (daily at 02:00 by default)
+  preventivePlanCron: process.env.PREVENTIVE_PLAN_CRON || '0 2 * * *',
+  // Cron expression of the emergency ticket escalation check (every minute by default)
+  emergencyEscalationCron: process.env.EMERGENCY_ESCALATION_CRON || '* * * * *',
+}
+
+export const escalationConfig = {
+  // Emergency tickets still pending after this many minutes escalate to the team leader, after twice as long to the
+  // company admins and after three times as long to the WeFix Super Users
+  emergencyMinutes: Number(process.env.EMERGENCY_ESCALATION_MINUTES) || 30,
+}
+
+export const visitConfig = {
+  // Check-ins further than this from the ticket's locationMap are flagged as too far from the site
+  maxDistanceMeters: Number(process.env.VISIT_MAX_DISTANCE_METERS) || 500,
+}
+
+export const ticketCodeConfig = {
+  // Ticket code format: {PREFIX} is the company ticketShortCode, {SEQ} the company counter ({SEQ:5} pads it to 5
+  // digits), {YEAR} the creation year; formats with {YEAR} restart the counter every year
+  format: process.env.TICKET_CODE_FORMAT || '{PREFIX}-{YEAR}-{SEQ:5}',
+}
+
+export const idempotencyConfig = {
+  // Responses of requests sent with an Idempotency-Key header are replayed for retries during this window
+  ttlMinutes: Number(process.env.IDEMPOTENCY_KEY_TTL_MINUTES) || 24 * 60,
+}